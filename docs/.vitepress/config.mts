@@ -69,14 +69,19 @@ export default defineConfig({
           { text: "Note Mentions", link: "/usage/mentions" },
           { text: "Sending Images and Files", link: "/usage/sending-images" },
           { text: "Slash Commands", link: "/usage/slash-commands" },
+          { text: "Prompt Templates", link: "/usage/prompt-templates" },
           { text: "Mode Selection", link: "/usage/mode-selection" },
           { text: "Model Selection", link: "/usage/model-selection" },
           { text: "Session History", link: "/usage/session-history" },
           { text: "Multi-Session Chat", link: "/usage/multi-session" },
           { text: "Floating Chat", link: "/usage/floating-chat" },
+          { text: "Background Tasks", link: "/usage/background-tasks" },
+          { text: "Automations", link: "/usage/automations" },
           { text: "Editing", link: "/usage/editing" },
+          { text: "Terminals", link: "/usage/terminals" },
           { text: "Chat Export", link: "/usage/chat-export" },
           { text: "Commands & Hotkeys", link: "/usage/commands" },
+          { text: "Opening Chats from a URI", link: "/usage/uri-scheme" },
           { text: "Context Files", link: "/usage/context-files" },
           { text: "MCP Tools", link: "/usage/mcp-tools" },
         ],
@@ -92,6 +97,7 @@ export default defineConfig({
         text: "Reference",
         items: [
           { text: "ACP Protocol Support", link: "/reference/acp-support" },
+          { text: "Plugin API", link: "/reference/plugin-api" },
         ],
       },
       {
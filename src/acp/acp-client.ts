@@ -1,19 +1,25 @@
 import { spawn, ChildProcess } from "child_process";
 import * as acp from "@agentclientprotocol/sdk";
-import { Platform } from "obsidian";
+import { Notice, Platform } from "obsidian";
 
 import type {
 	InitializeResult,
+	McpCapabilities,
 	SessionConfigOption,
 	SessionUpdate,
 	ListSessionsResult,
 	SessionResult,
 } from "../types/session";
-import type { PromptContent } from "../types/chat";
+import type { PromptContent, ToolCallStatus, ToolKind } from "../types/chat";
 import type { ProcessError } from "../types/errors";
+import type { McpServerSettings } from "../types/agent";
+import type { PermissionRule } from "../types/permission";
+import type { RevertResult } from "../types/checkpoint";
 import { AcpTypeConverter } from "./type-converter";
 import { TerminalManager } from "./terminal-handler";
+import { FileSystemManager } from "./file-system-handler";
 import { PermissionManager } from "./permission-handler";
+import { CheckpointManager } from "./checkpoint-handler";
 import { AcpHandler } from "./acp-handler";
 import { getLogger, Logger } from "../utils/logger";
 import type AgentClientPlugin from "../plugin";
@@ -42,6 +48,8 @@ export interface AgentConfig {
 	args: string[];
 	env?: Record<string, string>;
 	workingDirectory: string;
+	/** Enabled MCP servers (global + agent-specific), before capability filtering */
+	mcpServers?: McpServerSettings[];
 }
 
 /**
@@ -56,6 +64,14 @@ export interface TerminalOutputResult {
 	} | null;
 }
 
+/** A tool call as the audit log sees it, merged from its updates */
+interface AuditedToolCall {
+	title?: string;
+	kind?: ToolKind;
+	locations: string[];
+	status: ToolCallStatus;
+}
+
 /**
  * ACP client for agent communication and process lifecycle management.
  */
@@ -67,17 +83,25 @@ export class AcpClient {
 	private isInitializedFlag = false;
 	private currentAgentId: string | null = null;
 	private currentSessionId: string | null = null;
+	private mcpCapabilities: McpCapabilities | null = null;
+	private vaultServerNoticeShown = false;
 
 	// Callbacks (none — all events flow through onSessionUpdate via AcpHandler)
 
 	// Delegates
 	private terminalManager: TerminalManager;
+	private fileSystemManager: FileSystemManager;
 	private permissionManager: PermissionManager;
+	private checkpointManager: CheckpointManager;
 	private handler: AcpHandler;
 
 	// Prompt state (reset per sendPrompt)
 	private recentStderr = "";
 
+	// Audit state (reset per session): tool calls merged from their updates
+	private auditedToolCalls = new Map<string, AuditedToolCall>();
+	private isReplayingHistory = false;
+
 	private logger: Logger;
 
 	constructor(private plugin: AgentClientPlugin) {
@@ -85,22 +109,37 @@ export class AcpClient {
 
 		// Initialize managers
 		this.terminalManager = new TerminalManager(plugin);
+		this.fileSystemManager = new FileSystemManager(plugin);
 		this.permissionManager = new PermissionManager(
 			{
 				onSessionUpdate: (update) =>
 					this.handler.emitSessionUpdate(update),
+				getRules: () => this.plugin.settings.permissionRules,
+				getAgentId: () => this.currentAgentId,
+				getWorkingDirectory: () =>
+					this.currentConfig?.workingDirectory ?? "",
+				isWithinDirectory: (path, directory) =>
+					this.fileSystemManager.isWithinDirectory(path, directory),
+				onAuditEntry: (entry) => this.plugin.auditLog.record(entry),
 			},
 			false, // autoAllow — updated in initialize()
 		);
+		this.checkpointManager = new CheckpointManager(
+			plugin,
+			this.fileSystemManager,
+		);
 
 		// Initialize protocol handler
 		this.handler = new AcpHandler(
 			this.permissionManager,
 			this.terminalManager,
+			this.fileSystemManager,
+			this.checkpointManager,
 			() => this.currentConfig?.workingDirectory ?? "",
 			() => this.currentSessionId,
 			this.logger,
 		);
+		this.handler.onSessionUpdate((update) => this.auditToolCall(update));
 	}
 
 	/**
@@ -353,8 +392,11 @@ export class AcpClient {
 				protocolVersion: acp.PROTOCOL_VERSION,
 				clientCapabilities: {
 					fs: {
-						readTextFile: false,
-						writeTextFile: false,
+						readTextFile: true,
+						// Only advertised when enabled in settings
+						writeTextFile:
+							this.plugin.settings.fileWriteSettings.mode !==
+							"disabled",
 					},
 					terminal: true,
 				},
@@ -372,13 +414,18 @@ export class AcpClient {
 			this.isInitializedFlag = true;
 			this.currentAgentId = config.id;
 
-			return AcpTypeConverter.toInitializeResult(initResult);
+			const result = AcpTypeConverter.toInitializeResult(initResult);
+			this.mcpCapabilities =
+				result.agentCapabilities?.mcpCapabilities ?? null;
+			this.vaultServerNoticeShown = false;
+			return result;
 		} catch (error) {
 			this.logger.error("[AcpClient] Initialization Error:", error);
 
 			// Reset flags on failure
 			this.isInitializedFlag = false;
 			this.currentAgentId = null;
+			this.mcpCapabilities = null;
 
 			throw error;
 		}
@@ -389,13 +436,15 @@ export class AcpClient {
 	 */
 	async newSession(workingDirectory: string): Promise<SessionResult> {
 		const connection = this.requireConnection();
+		this.permissionManager.clearSessionRules();
+		this.auditedToolCalls.clear();
 
 		try {
 			this.logger.log("[AcpClient] Creating new session...");
 
 			const response = await connection.newSession({
 				cwd: this.toSessionCwd(workingDirectory),
-				mcpServers: [],
+				mcpServers: await this.getSessionMcpServers(),
 			});
 
 			this.logger.log(
@@ -574,6 +623,8 @@ export class AcpClient {
 		this.isInitializedFlag = false;
 		this.currentAgentId = null;
 		this.currentSessionId = null;
+		this.permissionManager.clearSessionRules();
+		this.auditedToolCalls.clear();
 
 		this.logger.log("[AcpClient] Disconnected");
 		return Promise.resolve();
@@ -702,8 +753,14 @@ export class AcpClient {
 
 	/**
 	 * Respond to a permission request from the agent.
+	 *
+	 * @param decidedBy - "policy" for automatic answers of headless sessions
 	 */
-	respondToPermission(requestId: string, optionId: string): Promise<void> {
+	respondToPermission(
+		requestId: string,
+		optionId: string,
+		decidedBy: "user" | "policy" = "user",
+	): Promise<void> {
 		this.requireConnection();
 
 		this.logger.log(
@@ -712,10 +769,87 @@ export class AcpClient {
 			"with option:",
 			optionId,
 		);
-		this.permissionManager.respond(requestId, optionId);
+		this.permissionManager.respond(requestId, optionId, decidedBy);
 		return Promise.resolve();
 	}
 
+	/**
+	 * Record tool calls reaching a final status in the audit log.
+	 * History replayed by session/load is skipped.
+	 */
+	private auditToolCall(update: SessionUpdate): void {
+		if (update.type !== "tool_call" && update.type !== "tool_call_update") {
+			return;
+		}
+		if (this.isReplayingHistory) return;
+
+		const existing = this.auditedToolCalls.get(update.toolCallId);
+		const merged: AuditedToolCall = {
+			title: update.title ?? existing?.title,
+			kind: update.kind ?? existing?.kind,
+			locations:
+				update.locations?.map((location) => location.path) ??
+				existing?.locations ??
+				[],
+			status: update.status ?? existing?.status ?? "pending",
+		};
+		this.auditedToolCalls.set(update.toolCallId, merged);
+
+		// Cancelled permission prompts are closed as "completed"; the audit
+		// log already has the cancellation
+		if (
+			isSettled(merged.status) &&
+			!(existing && isSettled(existing.status)) &&
+			!update.permissionRequest?.isCancelled
+		) {
+			this.plugin.auditLog.record({
+				event: "tool_status",
+				agentId: this.currentAgentId,
+				sessionId: update.sessionId,
+				toolCallId: update.toolCallId,
+				title: merged.title,
+				kind: merged.kind,
+				locations: merged.locations,
+				status: merged.status,
+			});
+		}
+	}
+
+	/**
+	 * Start snapshotting the files touched during a turn.
+	 * Called before each prompt; the checkpoint ID is the user message ID.
+	 */
+	beginCheckpoint(checkpointId: string, sessionId: string): void {
+		this.checkpointManager.begin(checkpointId, sessionId);
+	}
+
+	/**
+	 * Finish the turn's checkpoint and save it if any file was touched.
+	 *
+	 * @returns True if a checkpoint was saved
+	 */
+	endCheckpoint(): Promise<boolean> {
+		return this.checkpointManager.finish();
+	}
+
+	/**
+	 * Restore the files of a turn to their state before the turn.
+	 *
+	 * @returns Number of restored files and the files that were skipped
+	 */
+	revertCheckpoint(checkpointId: string): Promise<RevertResult> {
+		this.logger.log("[AcpClient] Reverting checkpoint:", checkpointId);
+		return this.checkpointManager.revert(checkpointId);
+	}
+
+	/**
+	 * Add a permission rule that applies only until the next session.
+	 */
+	addSessionPermissionRule(rule: PermissionRule): void {
+		this.logger.log("[AcpClient] Adding session permission rule:", rule);
+		this.permissionManager.addSessionRule(rule);
+	}
+
 	// Helper methods
 
 	/**
@@ -741,6 +875,50 @@ export class AcpClient {
 		return cwd;
 	}
 
+	/**
+	 * Build the MCP server list for session calls.
+	 * Prepends the built-in vault server (unless a configured server uses
+	 * its name) and drops http/sse servers the agent did not advertise
+	 * support for.
+	 */
+	private async getSessionMcpServers(): Promise<acp.McpServer[]> {
+		const servers = [...(this.currentConfig?.mcpServers ?? [])];
+		const vaultServer =
+			await this.plugin.vaultMcpServer?.getServerSettings();
+		if (vaultServer && !servers.some((s) => s.name === vaultServer.name)) {
+			if (this.mcpCapabilities?.http) {
+				servers.unshift(vaultServer);
+				if (Platform.isWin && this.plugin.settings.windowsWslMode) {
+					this.logger.warn(
+						"[AcpClient] The vault MCP server listens on the Windows loopback; agents in WSL reach it only with mirrored networking",
+					);
+				}
+			} else {
+				this.logger.warn(
+					"[AcpClient] Skipping vault MCP server: agent does not support http transport",
+				);
+				// Once per connection; sessions are created often
+				if (!this.vaultServerNoticeShown) {
+					this.vaultServerNoticeShown = true;
+					new Notice(
+						`[Agent Client] ${this.currentConfig?.displayName ?? "This agent"} does not support HTTP MCP servers, so the vault tools are not available to it`,
+					);
+				}
+			}
+		}
+		const supported = servers.filter((server) => {
+			if (server.transport === "stdio") return true;
+			if (this.mcpCapabilities?.[server.transport]) return true;
+			this.logger.warn(
+				`[AcpClient] Skipping MCP server "${server.name}": agent does not support ${server.transport} transport`,
+			);
+			return false;
+		});
+		return supported.map((server) =>
+			AcpTypeConverter.toAcpMcpServer(server),
+		);
+	}
+
 	private cancelAllOperations(): void {
 		this.permissionManager.cancelAll();
 		this.terminalManager.killAllTerminals();
@@ -748,15 +926,33 @@ export class AcpClient {
 
 	/**
 	 * Get terminal output for UI rendering.
+	 * Not limited by the agent's outputByteLimit.
 	 */
 	getTerminalOutput(terminalId: string): Promise<TerminalOutputResult> {
-		const result = this.terminalManager.getOutput(terminalId);
+		const result = this.terminalManager.getScrollback(terminalId);
 		if (!result) {
 			throw new Error(`Terminal ${terminalId} not found`);
 		}
 		return Promise.resolve(result);
 	}
 
+	/**
+	 * Write user input to the stdin of a running terminal.
+	 *
+	 * @returns false if the terminal is gone, exited or closed its stdin
+	 */
+	writeTerminalInput(terminalId: string, data: string): boolean {
+		return this.terminalManager.writeInput(terminalId, data);
+	}
+
+	/**
+	 * Kill a running terminal on behalf of the user.
+	 * The agent sees the exit status when it waits for or polls the terminal.
+	 */
+	killTerminal(terminalId: string): boolean {
+		return this.terminalManager.killTerminal(terminalId);
+	}
+
 	// ========================================================================
 	// Session Management Methods
 	// ========================================================================
@@ -817,9 +1013,13 @@ export class AcpClient {
 	 */
 	async loadSession(sessionId: string, cwd: string): Promise<SessionResult> {
 		const connection = this.requireConnection();
+		this.permissionManager.clearSessionRules();
+		this.auditedToolCalls.clear();
 
 		// Set sessionId before await so replay updates pass the sessionId filter
 		this.currentSessionId = sessionId;
+		// Replayed tool calls already ran; keep them out of the audit log
+		this.isReplayingHistory = true;
 
 		try {
 			this.logger.log(`[AcpClient] Loading session: ${sessionId}...`);
@@ -827,7 +1027,7 @@ export class AcpClient {
 			const response = await connection.loadSession({
 				sessionId,
 				cwd: this.toSessionCwd(cwd),
-				mcpServers: [],
+				mcpServers: await this.getSessionMcpServers(),
 			});
 
 			this.logger.log(`[AcpClient] Session loaded: ${sessionId}`);
@@ -840,6 +1040,8 @@ export class AcpClient {
 		} catch (error) {
 			this.logger.error("[AcpClient] Load Session Error:", error);
 			throw error;
+		} finally {
+			this.isReplayingHistory = false;
 		}
 	}
 
@@ -857,6 +1059,8 @@ export class AcpClient {
 		cwd: string,
 	): Promise<SessionResult> {
 		const connection = this.requireConnection();
+		this.permissionManager.clearSessionRules();
+		this.auditedToolCalls.clear();
 
 		// Set sessionId before await so any updates pass the sessionId filter
 		this.currentSessionId = sessionId;
@@ -867,7 +1071,7 @@ export class AcpClient {
 			const response = await connection.unstable_resumeSession({
 				sessionId,
 				cwd: this.toSessionCwd(cwd),
-				mcpServers: [],
+				mcpServers: await this.getSessionMcpServers(),
 			});
 
 			this.logger.log(`[AcpClient] Session resumed: ${sessionId}`);
@@ -894,6 +1098,8 @@ export class AcpClient {
 	 */
 	async forkSession(sessionId: string, cwd: string): Promise<SessionResult> {
 		const connection = this.requireConnection();
+		this.permissionManager.clearSessionRules();
+		this.auditedToolCalls.clear();
 
 		try {
 			this.logger.log(`[AcpClient] Forking session: ${sessionId}...`);
@@ -901,7 +1107,7 @@ export class AcpClient {
 			const response = await connection.unstable_forkSession({
 				sessionId,
 				cwd: this.toSessionCwd(cwd),
-				mcpServers: [],
+				mcpServers: await this.getSessionMcpServers(),
 			});
 
 			this.logger.log(
@@ -919,3 +1125,7 @@ export class AcpClient {
 		}
 	}
 }
+
+function isSettled(status: ToolCallStatus): boolean {
+	return status === "completed" || status === "failed";
+}
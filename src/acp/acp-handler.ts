@@ -1,16 +1,20 @@
 import * as acp from "@agentclientprotocol/sdk";
 
 import type { SessionUpdate } from "../types/session";
+import { AcpErrorCode } from "../types/errors";
+import { formatCommandLine } from "../services/terminal-policy";
 import { AcpTypeConverter } from "./type-converter";
 import type { PermissionManager } from "./permission-handler";
 import type { TerminalManager } from "./terminal-handler";
+import type { FileSystemManager } from "./file-system-handler";
+import type { CheckpointManager } from "./checkpoint-handler";
 import type { Logger } from "../utils/logger";
 
 /**
  * Handles incoming ACP protocol events from the agent.
  *
  * Implements the acp.Client interface to receive session updates,
- * permission requests, and terminal operations from the SDK's
+ * permission requests, file-system and terminal operations from the SDK's
  * ClientSideConnection dispatch.
  *
  * This class does not initiate communication — that is AcpClient's role.
@@ -25,6 +29,8 @@ export class AcpHandler {
 	constructor(
 		private permissionManager: PermissionManager,
 		private terminalManager: TerminalManager,
+		private fileSystemManager: FileSystemManager,
+		private checkpointManager: CheckpointManager,
 		private getWorkingDirectory: () => string,
 		private getCurrentSessionId: () => string | null,
 		private logger: Logger,
@@ -73,19 +79,36 @@ export class AcpHandler {
 		switch (update.sessionUpdate) {
 			case "agent_message_chunk":
 			case "agent_thought_chunk":
-			case "user_message_chunk":
+			case "user_message_chunk": {
 				if (update.content.type === "text") {
 					this.emitSessionUpdate({
 						type: update.sessionUpdate,
 						sessionId,
 						text: update.content.text,
 					});
+					break;
+				}
+				const content = AcpTypeConverter.toMessageChunkContent(
+					update.content,
+				);
+				if (content) {
+					this.emitSessionUpdate({
+						type: update.sessionUpdate,
+						sessionId,
+						text: "",
+						content,
+					});
+				} else {
+					this.logger.warn(
+						`[AcpHandler] Ignoring unsupported ${update.content.type} chunk`,
+					);
 				}
 				break;
+			}
 
 			case "tool_call":
-			case "tool_call_update":
-				this.emitSessionUpdate({
+			case "tool_call_update": {
+				const toolCallUpdate = {
 					type: update.sessionUpdate,
 					sessionId,
 					toolCallId: update.toolCallId,
@@ -97,8 +120,12 @@ export class AcpHandler {
 					rawInput: update.rawInput as
 						| { [k: string]: unknown }
 						| undefined,
-				});
+				};
+				// Snapshot touched files before the agent changes them
+				this.checkpointManager.captureToolCall(toolCallUpdate);
+				this.emitSessionUpdate(toolCallUpdate);
 				break;
+			}
 
 			case "plan":
 				this.emitSessionUpdate({
@@ -179,15 +206,113 @@ export class AcpHandler {
 	}
 
 	// ====================================================================
-	// File System Stubs
+	// File System Operations (called by ClientSideConnection)
 	// ====================================================================
 
-	readTextFile(_params: acp.ReadTextFileRequest) {
-		return Promise.resolve({ content: "" });
+	async readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse> {
+		this.logger.log(
+			"[AcpHandler] readTextFile called with params:",
+			params,
+		);
+
+		const content = await this.fileSystemManager.readTextFile({
+			path: params.path,
+			line: params.line ?? undefined,
+			limit: params.limit ?? undefined,
+		});
+		return { content };
 	}
 
-	writeTextFile(_params: acp.WriteTextFileRequest) {
-		return Promise.resolve({});
+	async writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse> {
+		this.logger.log("[AcpHandler] writeTextFile called:", params.path);
+
+		const { mode, restrictToWorkingDirectory } =
+			this.fileSystemManager.getWriteSettings();
+		if (mode === "disabled") {
+			throw new Error(
+				"File writing is disabled in Agent Client settings",
+			);
+		}
+
+		const cwd = this.getWorkingDirectory();
+		if (
+			restrictToWorkingDirectory &&
+			!this.fileSystemManager.isWithinDirectory(params.path, cwd)
+		) {
+			throw new Error(
+				`Write rejected: ${params.path} is outside the working directory (${cwd})`,
+			);
+		}
+
+		if (mode === "review") {
+			const approved = await this.reviewWrite(params);
+			if (!approved) {
+				throw new Error(
+					`Write rejected: the user declined changes to ${params.path}`,
+				);
+			}
+		}
+
+		await this.checkpointManager.capture(params.path);
+		await this.fileSystemManager.writeTextFile({
+			path: params.path,
+			content: params.content,
+		});
+		return {};
+	}
+
+	/**
+	 * Show the pending write as a diff with a permission prompt and wait
+	 * for the user's decision. Reuses the permission queue so the review
+	 * renders like any other tool call (DiffRenderer + PermissionBanner),
+	 * but permission rules and auto-allow never approve it.
+	 */
+	private async reviewWrite(
+		params: acp.WriteTextFileRequest,
+	): Promise<boolean> {
+		const oldText = await this.fileSystemManager.readExistingFile(
+			params.path,
+		);
+		const toolCallId = crypto.randomUUID();
+
+		const response = await this.permissionManager.requestReview({
+			sessionId: params.sessionId,
+			toolCall: {
+				toolCallId,
+				title: "Write file",
+				kind: "edit",
+				status: "pending",
+				locations: [{ path: params.path }],
+				content: [
+					{
+						type: "diff",
+						path: params.path,
+						oldText,
+						newText: params.content,
+					},
+				],
+			},
+			options: [
+				{ optionId: "apply", name: "Apply", kind: "allow_once" },
+				{ optionId: "reject", name: "Reject", kind: "reject_once" },
+			],
+		});
+
+		const approved =
+			response.outcome.outcome === "selected" &&
+			response.outcome.optionId === "apply";
+
+		this.emitSessionUpdate({
+			type: "tool_call_update",
+			sessionId: params.sessionId,
+			toolCallId,
+			status: approved ? "completed" : "failed",
+		});
+		return approved;
 	}
 
 	// ====================================================================
@@ -202,16 +327,62 @@ export class AcpHandler {
 			params,
 		);
 
+		const cwd = params.cwd || this.getWorkingDirectory();
+		const denial = this.terminalManager.checkPolicy(
+			{ command: params.command, args: params.args ?? [], cwd },
+			{
+				workingDirectory: this.getWorkingDirectory(),
+				isWithinDirectory: (path, directory) =>
+					this.fileSystemManager.isWithinDirectory(path, directory),
+			},
+		);
+		if (denial) {
+			this.reportDeniedCommand(params, denial);
+			throw new acp.RequestError(
+				AcpErrorCode.INVALID_PARAMS,
+				`Command denied by the Agent Client terminal policy: ${denial}`,
+				{ reason: denial },
+			);
+		}
+
 		const terminalId = this.terminalManager.createTerminal({
 			command: params.command,
 			args: params.args,
-			cwd: params.cwd || this.getWorkingDirectory(),
+			cwd,
 			env: params.env ?? undefined,
 			outputByteLimit: params.outputByteLimit ?? undefined,
 		});
 		return Promise.resolve({ terminalId });
 	}
 
+	/**
+	 * Show a denied command as a failed tool call, since the agent's own
+	 * tool call may not say why the command did not run.
+	 */
+	private reportDeniedCommand(
+		params: acp.CreateTerminalRequest,
+		reason: string,
+	): void {
+		this.logger.log("[AcpHandler] Terminal command denied:", reason);
+		this.emitSessionUpdate({
+			type: "tool_call",
+			sessionId: params.sessionId,
+			toolCallId: crypto.randomUUID(),
+			title: `Command denied: ${formatCommandLine(params.command, params.args ?? [])}`,
+			kind: "execute",
+			status: "failed",
+			content: [
+				{
+					type: "content",
+					content: {
+						type: "text",
+						text: `Blocked by the terminal policy in Agent Client settings: ${reason}`,
+					},
+				},
+			],
+		});
+	}
+
 	terminalOutput(
 		params: acp.TerminalOutputRequest,
 	): Promise<acp.TerminalOutputResponse> {
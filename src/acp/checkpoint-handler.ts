@@ -0,0 +1,281 @@
+import type AgentClientPlugin from "../plugin";
+import type {
+	Checkpoint,
+	FileSnapshot,
+	RevertResult,
+} from "../types/checkpoint";
+import type {
+	ToolCallContent,
+	ToolCallLocation,
+	ToolCallStatus,
+	ToolKind,
+} from "../types/chat";
+import type { FileSystemManager } from "./file-system-handler";
+import { getLogger, Logger } from "../utils/logger";
+
+/**
+ * Tool kinds whose locations are snapshotted (other kinds only read).
+ */
+const MUTATING_KINDS: ReadonlySet<ToolKind> = new Set([
+	"edit",
+	"delete",
+	"move",
+]);
+
+/** Files larger than this (in characters) are not snapshotted */
+const MAX_SNAPSHOT_LENGTH = 5_000_000;
+
+/**
+ * Records turn checkpoints: the original content of every file touched
+ * during a turn, so the turn can be reverted later.
+ *
+ * Handles:
+ * - Capturing files from tool call locations and diffs (via AcpHandler)
+ * - Capturing files before client-side writes (fs/write_text_file)
+ * - Saving the checkpoint to CheckpointStore when the turn ends
+ * - Restoring files from a saved checkpoint
+ *
+ * Each file is captured once per turn, on first sighting. When a diff is
+ * first seen after the edit was applied, the original content is rebuilt
+ * from the diff's old text. Files that cannot be captured as text are
+ * recorded as skipped, never as missing.
+ */
+export class CheckpointManager {
+	private logger: Logger;
+
+	/** Checkpoint of the running turn (null between turns) */
+	private active: Checkpoint | null = null;
+
+	/** Captures in progress or done for the running turn, keyed by path */
+	private captures = new Map<string, Promise<void>>();
+
+	/** Last known kind per tool call (updates may omit the kind) */
+	private toolKinds = new Map<string, ToolKind>();
+
+	constructor(
+		private plugin: AgentClientPlugin,
+		private fileSystemManager: FileSystemManager,
+	) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Start recording a checkpoint for a new turn.
+	 * Any unfinished checkpoint is discarded.
+	 */
+	begin(checkpointId: string, sessionId: string): void {
+		this.active = {
+			id: checkpointId,
+			sessionId,
+			createdAt: new Date().toISOString(),
+			files: [],
+			skipped: [],
+		};
+		this.captures.clear();
+		this.toolKinds.clear();
+	}
+
+	/**
+	 * Capture the files affected by a tool call update.
+	 * Called for every tool_call / tool_call_update of the session.
+	 */
+	captureToolCall(update: {
+		sessionId: string;
+		toolCallId: string;
+		status: ToolCallStatus;
+		kind?: ToolKind;
+		locations?: ToolCallLocation[];
+		content?: ToolCallContent[];
+	}): void {
+		if (!this.active || update.sessionId !== this.active.sessionId) {
+			return;
+		}
+
+		if (update.kind) {
+			this.toolKinds.set(update.toolCallId, update.kind);
+		}
+
+		for (const item of update.content ?? []) {
+			if (item.type !== "diff") continue;
+			if (update.status === "completed") {
+				void this.captureFromDiff(
+					item.path,
+					item.oldText,
+					item.newText,
+				);
+			} else {
+				void this.capture(item.path);
+			}
+		}
+
+		const kind = this.toolKinds.get(update.toolCallId);
+		if (
+			kind &&
+			MUTATING_KINDS.has(kind) &&
+			update.status !== "completed" &&
+			update.status !== "failed"
+		) {
+			for (const location of update.locations ?? []) {
+				void this.capture(location.path);
+			}
+		}
+	}
+
+	/**
+	 * Capture a file's current content, unless it was already captured
+	 * during this turn. Never throws.
+	 */
+	capture(path: string): Promise<void> {
+		return this.captureOnce(path, async () => {
+			const content =
+				await this.fileSystemManager.readFileForSnapshot(path);
+			return { path, existed: content !== null, content };
+		});
+	}
+
+	/**
+	 * Finish the running turn and save its checkpoint if any file was
+	 * captured or skipped.
+	 *
+	 * @returns True if a checkpoint was saved
+	 */
+	async finish(): Promise<boolean> {
+		const checkpoint = this.active;
+		if (!checkpoint) return false;
+
+		await Promise.all(this.captures.values());
+		this.active = null;
+		this.captures.clear();
+		this.toolKinds.clear();
+
+		if (
+			checkpoint.files.length === 0 &&
+			(checkpoint.skipped ?? []).length === 0
+		) {
+			return false;
+		}
+		try {
+			await this.plugin.checkpointStore.save(checkpoint);
+			return true;
+		} catch (error) {
+			this.logger.error(
+				"[CheckpointManager] Failed to save checkpoint:",
+				error,
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Restore the files of a saved checkpoint. Files that did not exist
+	 * before the turn are deleted.
+	 *
+	 * @returns Number of restored files and the files that were skipped
+	 */
+	async revert(checkpointId: string): Promise<RevertResult> {
+		const checkpoint = await this.plugin.checkpointStore.load(checkpointId);
+		if (!checkpoint) {
+			throw new Error("Checkpoint not found");
+		}
+
+		const failed: string[] = [];
+		for (const file of checkpoint.files) {
+			try {
+				if (file.existed && file.content !== null) {
+					await this.fileSystemManager.writeTextFile({
+						path: file.path,
+						content: file.content,
+					});
+				} else {
+					await this.fileSystemManager.deleteFile(file.path);
+				}
+			} catch (error) {
+				this.logger.error(
+					`[CheckpointManager] Failed to restore ${file.path}:`,
+					error,
+				);
+				failed.push(file.path);
+			}
+		}
+
+		if (failed.length > 0) {
+			throw new Error(`Could not restore ${failed.join(", ")}`);
+		}
+		this.logger.log(
+			`[CheckpointManager] Reverted checkpoint ${checkpointId}`,
+		);
+		return {
+			restored: checkpoint.files.length,
+			skipped: checkpoint.skipped ?? [],
+		};
+	}
+
+	/**
+	 * Capture the original content of a file whose edit was already
+	 * applied, by undoing the diff on the current content.
+	 */
+	private captureFromDiff(
+		path: string,
+		oldText: string | null | undefined,
+		newText: string,
+	): Promise<void> {
+		return this.captureOnce(path, async () => {
+			if (oldText == null) {
+				return { path, existed: false, content: null };
+			}
+			const current = await this.fileSystemManager.readExistingFile(path);
+			if (current === null || !current.includes(newText)) {
+				throw new Error(`Cannot rebuild original content of ${path}`);
+			}
+			return {
+				path,
+				existed: true,
+				content: current.replace(newText, () => oldText),
+			};
+		});
+	}
+
+	private captureOnce(
+		path: string,
+		read: () => Promise<FileSnapshot>,
+	): Promise<void> {
+		const checkpoint = this.active;
+		if (!checkpoint) return Promise.resolve();
+
+		const existing = this.captures.get(path);
+		if (existing) return existing;
+
+		const promise = read()
+			.then((snapshot) => {
+				const content = snapshot.content ?? "";
+				if (content.length > MAX_SNAPSHOT_LENGTH) {
+					this.logger.warn(
+						`[CheckpointManager] Skipping large file: ${path}`,
+					);
+					checkpoint.skipped?.push(path);
+					return;
+				}
+				// Binary files are decoded as UTF-8 with replacement
+				// characters; writing them back would corrupt them
+				if (content.includes("\0") || content.includes("\uFFFD")) {
+					this.logger.warn(
+						`[CheckpointManager] Skipping non-text file: ${path}`,
+					);
+					checkpoint.skipped?.push(path);
+					return;
+				}
+				checkpoint.files.push(snapshot);
+			})
+			.catch((error) => {
+				// Never record an unreadable file as missing: reverting
+				// would delete it
+				this.logger.error(
+					`[CheckpointManager] Failed to capture ${path}:`,
+					error,
+				);
+				checkpoint.skipped?.push(path);
+			});
+		this.captures.set(path, promise);
+		return promise;
+	}
+}
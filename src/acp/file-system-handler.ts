@@ -0,0 +1,316 @@
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { dirname, posix } from "path";
+import {
+	FileSystemAdapter,
+	MarkdownView,
+	normalizePath,
+	Platform,
+	TFile,
+} from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import { getLogger, Logger } from "../utils/logger";
+import { isAbsolutePath, toRelativePath } from "../utils/paths";
+import { convertWslPathToWindows, isSameDirectory } from "../utils/platform";
+import type { FileWriteSettings } from "../plugin";
+
+/**
+ * Parameters for reading a text file.
+ *
+ * This is the FileSystemManager's own parameter type, independent of the ACP SDK.
+ */
+interface ReadTextFileParams {
+	/** Absolute path of the file to read */
+	path: string;
+	/** 1-based line number to start reading from */
+	line?: number;
+	/** Maximum number of lines to read */
+	limit?: number;
+}
+
+/**
+ * Parameters for writing a text file.
+ */
+interface WriteTextFileParams {
+	/** Absolute path of the file to write */
+	path: string;
+	/** Full new content of the file */
+	content: string;
+}
+
+/**
+ * Serves agent file-system requests through the Obsidian Vault API.
+ *
+ * Files inside the vault are read via the vault (or the live editor buffer
+ * when the note is open), so agents see unsaved edits, and written via the
+ * vault so other plugins, sync and the metadata cache notice the change.
+ * Files outside the vault fall back to the local file system.
+ *
+ * Write policy (review, working-directory restriction) is enforced by
+ * AcpHandler; this class only performs the I/O.
+ */
+export class FileSystemManager {
+	private logger: Logger;
+	private plugin: AgentClientPlugin;
+
+	constructor(plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+		this.plugin = plugin;
+	}
+
+	async readTextFile(params: ReadTextFileParams): Promise<string> {
+		const content = await this.readWholeFile(params.path);
+		return this.sliceLines(content, params.line, params.limit);
+	}
+
+	/**
+	 * Read the current content of a file for diffing.
+	 * Returns null when the file does not exist yet.
+	 */
+	async readExistingFile(path: string): Promise<string | null> {
+		try {
+			return await this.readWholeFile(path);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Read the current content of a file for a checkpoint snapshot.
+	 * Returns null only when the file does not exist; throws when it exists
+	 * but cannot be read (permissions, a directory, adapter errors).
+	 */
+	async readFileForSnapshot(path: string): Promise<string | null> {
+		if (!(await this.fileExists(path))) {
+			return null;
+		}
+		return await this.readWholeFile(path);
+	}
+
+	async writeTextFile(params: WriteTextFileParams): Promise<void> {
+		const vaultPath = this.toVaultPath(params.path);
+
+		if (vaultPath !== null) {
+			this.logger.log(
+				`[FileSystemManager] Writing vault file: ${vaultPath}`,
+			);
+			const vault = this.plugin.app.vault;
+			const file = vault.getAbstractFileByPath(vaultPath);
+			if (file instanceof TFile) {
+				await vault.modify(file, params.content);
+				return;
+			}
+
+			// Not indexed by the vault (e.g. hidden folders) — write via adapter
+			if (await vault.adapter.exists(vaultPath)) {
+				await vault.adapter.write(vaultPath, params.content);
+				return;
+			}
+
+			const parent = vaultPath.includes("/")
+				? vaultPath.slice(0, vaultPath.lastIndexOf("/"))
+				: "";
+			if (parent && !(await vault.adapter.exists(parent))) {
+				await vault.createFolder(parent);
+			}
+			await vault.create(vaultPath, params.content);
+			return;
+		}
+
+		if (!Platform.isDesktopApp) {
+			throw new Error(`File is outside the vault: ${params.path}`);
+		}
+		const localPath = this.toLocalPath(params.path);
+		this.logger.log(`[FileSystemManager] Writing local file: ${localPath}`);
+		await mkdir(dirname(localPath), { recursive: true });
+		await writeFile(localPath, params.content, "utf8");
+	}
+
+	/**
+	 * Delete a file. Vault files are moved to the trash according to the
+	 * user's preference. Silently succeeds if the file doesn't exist.
+	 */
+	async deleteFile(path: string): Promise<void> {
+		const vaultPath = this.toVaultPath(path);
+
+		if (vaultPath !== null) {
+			this.logger.log(
+				`[FileSystemManager] Deleting vault file: ${vaultPath}`,
+			);
+			const vault = this.plugin.app.vault;
+			const file = vault.getAbstractFileByPath(vaultPath);
+			if (file instanceof TFile) {
+				await this.plugin.app.fileManager.trashFile(file);
+				return;
+			}
+			if (await vault.adapter.exists(vaultPath)) {
+				await vault.adapter.remove(vaultPath);
+			}
+			return;
+		}
+
+		if (!Platform.isDesktopApp) {
+			throw new Error(`File is outside the vault: ${path}`);
+		}
+		const localPath = this.toLocalPath(path);
+		this.logger.log(
+			`[FileSystemManager] Deleting local file: ${localPath}`,
+		);
+		await rm(localPath, { force: true });
+	}
+
+	/** Current write settings (read on every request so changes apply live). */
+	getWriteSettings(): FileWriteSettings {
+		return this.plugin.settings.fileWriteSettings;
+	}
+
+	/**
+	 * Check whether a path lies inside the given directory (or is the directory).
+	 * `.` and `..` segments are resolved first, so they cannot escape it.
+	 */
+	isWithinDirectory(path: string, directory: string): boolean {
+		if (!directory) return false;
+		const normalize = (p: string): string =>
+			posix
+				.normalize(convertWslPathToWindows(p).replace(/\\/g, "/"))
+				.replace(/\/+$/, "");
+		const target = normalize(this.toLocalPath(path));
+		const base = normalize(directory);
+		if (isSameDirectory(target, base)) return true;
+		return Platform.isWin
+			? target.toLowerCase().startsWith(base.toLowerCase() + "/")
+			: target.startsWith(base + "/");
+	}
+
+	/**
+	 * Read the full content of a file, preferring the unsaved editor buffer.
+	 */
+	private async readWholeFile(path: string): Promise<string> {
+		const vaultPath = this.toVaultPath(path);
+
+		if (vaultPath !== null) {
+			const buffer = this.getEditorBuffer(vaultPath);
+			if (buffer !== null) {
+				this.logger.log(
+					`[FileSystemManager] Reading editor buffer: ${vaultPath}`,
+				);
+				return buffer;
+			}
+
+			const file = this.plugin.app.vault.getAbstractFileByPath(vaultPath);
+			if (file instanceof TFile) {
+				return await this.plugin.app.vault.read(file);
+			}
+
+			// Not indexed by the vault (e.g. hidden folders) — read via adapter
+			if (await this.plugin.app.vault.adapter.exists(vaultPath)) {
+				return await this.plugin.app.vault.adapter.read(vaultPath);
+			}
+
+			throw new Error(`File not found: ${path}`);
+		}
+
+		if (!Platform.isDesktopApp) {
+			throw new Error(`File is outside the vault: ${path}`);
+		}
+		return await readFile(this.toLocalPath(path), "utf8");
+	}
+
+	/**
+	 * Check whether a file or folder exists. Errors other than "not found"
+	 * are thrown.
+	 */
+	private async fileExists(path: string): Promise<boolean> {
+		const vaultPath = this.toVaultPath(path);
+		if (vaultPath !== null) {
+			return await this.plugin.app.vault.adapter.exists(vaultPath);
+		}
+
+		if (!Platform.isDesktopApp) {
+			throw new Error(`File is outside the vault: ${path}`);
+		}
+		try {
+			await stat(this.toLocalPath(path));
+			return true;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Return the content of an open editor showing the given note, if any.
+	 */
+	private getEditorBuffer(vaultPath: string): string | null {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType(
+			"markdown",
+		)) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file?.path === vaultPath) {
+				return view.editor.getValue();
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Convert an agent-supplied path to a vault-relative path.
+	 * Returns null when the path points outside the vault; `.` and `..`
+	 * segments are resolved first, so they cannot escape it.
+	 */
+	private toVaultPath(path: string): string | null {
+		const normalized = posix.normalize(
+			this.toLocalPath(path).replace(/\\/g, "/"),
+		);
+		if (!isAbsolutePath(normalized)) {
+			if (normalized === ".." || normalized.startsWith("../")) {
+				return null;
+			}
+			return normalizePath(normalized);
+		}
+
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) {
+			return null;
+		}
+
+		const basePath = posix.normalize(
+			adapter.getBasePath().replace(/\\/g, "/"),
+		);
+		const relative = Platform.isWin
+			? toRelativePath(normalized.toLowerCase(), basePath.toLowerCase())
+			: toRelativePath(normalized, basePath);
+
+		if (isAbsolutePath(relative)) {
+			return null;
+		}
+		// Keep the original casing of the relative part on Windows
+		return normalizePath(
+			normalized.slice(normalized.length - relative.length),
+		);
+	}
+
+	/**
+	 * Convert WSL paths back to Windows paths when running in WSL mode.
+	 */
+	private toLocalPath(path: string): string {
+		if (Platform.isWin && this.plugin.settings.windowsWslMode) {
+			return convertWslPathToWindows(path);
+		}
+		return path;
+	}
+
+	/**
+	 * Apply the ACP `line` (1-based) and `limit` parameters.
+	 */
+	private sliceLines(content: string, line?: number, limit?: number): string {
+		if (line == null && limit == null) {
+			return content;
+		}
+		const lines = content.split("\n");
+		const start = Math.max((line ?? 1) - 1, 0);
+		const end = limit != null ? start + Math.max(limit, 0) : lines.length;
+		return lines.slice(start, end).join("\n");
+	}
+}
@@ -1,6 +1,9 @@
 import * as acp from "@agentclientprotocol/sdk";
+import type { AuditDecisionSource, AuditLogInput } from "../types/audit";
 import type { PermissionOption } from "../types/chat";
+import type { PermissionRule } from "../types/permission";
 import type { SessionUpdate } from "../types/session";
+import { findMatchingRule } from "../services/permission-rules";
 import { AcpTypeConverter } from "./type-converter";
 import { getLogger, Logger } from "../utils/logger";
 
@@ -13,6 +16,30 @@ import { getLogger, Logger } from "../utils/logger";
 interface PermissionManagerCallbacks {
 	/** Emit a session update event (used for all permission UI notifications) */
 	onSessionUpdate: (update: SessionUpdate) => void;
+
+	/** Persistent permission rules from settings (evaluated in order) */
+	getRules: () => PermissionRule[];
+
+	/** ID of the connected agent (for agent-specific rules) */
+	getAgentId: () => string | null;
+
+	/** Working directory that relative rule locations resolve against */
+	getWorkingDirectory: () => string;
+
+	/** Platform-aware check that a path is inside a directory */
+	isWithinDirectory: (path: string, directory: string) => boolean;
+
+	/** Record a permission decision in the audit log */
+	onAuditEntry: (entry: AuditLogInput) => void;
+}
+
+/**
+ * Tool call attributes kept for audit entries.
+ */
+interface AuditedToolCall {
+	title?: string;
+	kind?: acp.ToolKind;
+	locations: string[];
 }
 
 /**
@@ -20,10 +47,12 @@ interface PermissionManagerCallbacks {
  *
  * Handles:
  * - Receiving permission requests from the agent (via ACP protocol)
- * - Auto-approval based on user settings
+ * - Deciding requests with permission rules (session rules first)
+ * - Auto-approval based on user settings when no rule matches
  * - Queuing requests (only one active at a time in UI)
  * - Resolving/cancelling pending permission Promises
  * - Notifying UI of permission state changes
+ * - Recording every decision in the audit log
  *
  * This class was extracted from AcpClient to separate the permission
  * state machine from the main protocol adapter.
@@ -33,6 +62,9 @@ export class PermissionManager {
 	private callbacks: PermissionManagerCallbacks;
 	private autoAllow: boolean;
 
+	/** Rules scoped to this client (chat view), checked before settings */
+	private sessionRules: PermissionRule[] = [];
+
 	/** Map of pending permission requests awaiting user response */
 	private pendingRequests = new Map<
 		string,
@@ -41,6 +73,7 @@ export class PermissionManager {
 			toolCallId: string;
 			options: PermissionOption[];
 			sessionId: string;
+			toolCall: AuditedToolCall;
 		}
 	>();
 
@@ -66,12 +99,29 @@ export class PermissionManager {
 		this.autoAllow = autoAllow;
 	}
 
+	/**
+	 * Add a rule that applies until the session ends.
+	 * Newer session rules take precedence over older ones.
+	 */
+	addSessionRule(rule: PermissionRule): void {
+		this.sessionRules.unshift(rule);
+	}
+
+	/**
+	 * Drop all session-only rules.
+	 * Called by AcpClient when a new session starts.
+	 */
+	clearSessionRules(): void {
+		this.sessionRules = [];
+	}
+
 	/**
 	 * Handle a permission request from the agent (ACP protocol).
 	 *
 	 * This is the core method called by AcpClient.requestPermission().
-	 * It either auto-approves or creates a pending request with a Promise
-	 * that resolves when the user responds via the UI.
+	 * It either decides the request by rule (or auto-allow) or creates a
+	 * pending request with a Promise that resolves when the user responds
+	 * via the UI.
 	 */
 	async request(
 		params: acp.RequestPermissionRequest,
@@ -81,30 +131,73 @@ export class PermissionManager {
 			params,
 		);
 
-		// If auto-allow is enabled, automatically approve the first allow option
-		if (this.autoAllow) {
-			const allowOption =
-				params.options.find(
-					(option) =>
-						option.kind === "allow_once" ||
-						option.kind === "allow_always" ||
-						(!option.kind &&
-							option.name.toLowerCase().includes("allow")),
-				) || params.options[0]; // fallback to first option
-
-			this.logger.log(
-				"[PermissionManager] Auto-allowing permission request:",
-				allowOption,
-			);
-
-			return Promise.resolve({
-				outcome: {
-					outcome: "selected",
-					optionId: allowOption.optionId,
-				},
-			});
+		const auditedToolCall = this.toAuditedToolCall(params);
+
+		const rule = findMatchingRule(
+			[...this.sessionRules, ...this.callbacks.getRules()],
+			{
+				...auditedToolCall,
+				agentId: this.callbacks.getAgentId(),
+			},
+			this.callbacks.getWorkingDirectory(),
+			this.callbacks.isWithinDirectory,
+		);
+		const action = rule?.action ?? (this.autoAllow ? "allow" : "ask");
+
+		if (action !== "ask") {
+			// Auto-allow keeps its old fallback to the first option; a rule
+			// without a suitable option falls through and asks the user
+			const option =
+				this.findOption(params.options, action) ??
+				(rule ? undefined : params.options[0]);
+			if (option) {
+				this.logger.log(
+					`[PermissionManager] ${action === "allow" ? "Allowing" : "Rejecting"} permission request ${rule ? `by rule ${rule.id}` : "(auto-allow)"}:`,
+					option,
+				);
+				this.recordDecision(
+					params.sessionId,
+					params.toolCall?.toolCallId ?? "",
+					auditedToolCall,
+					option,
+					rule ? "rule" : "auto_allow",
+					rule?.id,
+				);
+
+				return Promise.resolve({
+					outcome: {
+						outcome: "selected",
+						optionId: option.optionId,
+					},
+				});
+			}
 		}
 
+		return this.ask(params, auditedToolCall, false);
+	}
+
+	/**
+	 * Ask the user to review a change, ignoring permission rules and
+	 * auto-allow: a review must always be seen.
+	 * Used for file writes in "review diff" mode.
+	 */
+	requestReview(
+		params: acp.RequestPermissionRequest,
+	): Promise<acp.RequestPermissionResponse> {
+		this.logger.log("[PermissionManager] Review request received:", params);
+
+		return this.ask(params, this.toAuditedToolCall(params), true);
+	}
+
+	/**
+	 * Queue a request for the user and show it in the tool call.
+	 * Resolves when the user responds via the UI.
+	 */
+	private ask(
+		params: acp.RequestPermissionRequest,
+		auditedToolCall: AuditedToolCall,
+		isReview: boolean,
+	): Promise<acp.RequestPermissionResponse> {
 		// Generate unique ID for this permission request
 		const requestId = crypto.randomUUID();
 		const toolCallId = params.toolCall?.toolCallId || crypto.randomUUID();
@@ -137,6 +230,7 @@ export class PermissionManager {
 			requestId: requestId,
 			options: normalizedOptions,
 			isActive: isFirstRequest,
+			isReview,
 		};
 
 		this.requestQueue.push({
@@ -158,6 +252,7 @@ export class PermissionManager {
 			content: AcpTypeConverter.toToolCallContent(
 				toolCallInfo?.content,
 			),
+			locations: toolCallInfo?.locations ?? undefined,
 			rawInput: toolCallInfo?.rawInput as
 				| { [k: string]: unknown }
 				| undefined,
@@ -171,23 +266,29 @@ export class PermissionManager {
 				toolCallId,
 				options: normalizedOptions,
 				sessionId,
+				toolCall: auditedToolCall,
 			});
 		});
 	}
 
 	/**
-	 * Handle user's response to a permission request.
+	 * Handle the response to a permission request (the user's, or the
+	 * policy of a headless session).
 	 *
 	 * Resolves the pending Promise, updates UI, and activates the next
 	 * queued request if any.
 	 */
-	respond(requestId: string, optionId: string): void {
+	respond(
+		requestId: string,
+		optionId: string,
+		decidedBy: "user" | "policy" = "user",
+	): void {
 		const request = this.pendingRequests.get(requestId);
 		if (!request) {
 			return;
 		}
 
-		const { resolve, toolCallId, options, sessionId } = request;
+		const { resolve, toolCallId, options, sessionId, toolCall } = request;
 
 		// Reflect the selection in the UI via session update
 		this.callbacks.onSessionUpdate({
@@ -202,6 +303,14 @@ export class PermissionManager {
 			},
 		});
 
+		this.recordDecision(
+			sessionId,
+			toolCallId,
+			toolCall,
+			options.find((option) => option.optionId === optionId) ?? null,
+			decidedBy,
+		);
+
 		resolve({
 			outcome: {
 				outcome: "selected",
@@ -227,7 +336,10 @@ export class PermissionManager {
 			`[PermissionManager] Cancelling ${this.pendingRequests.size} pending permission requests`,
 		);
 		this.pendingRequests.forEach(
-			({ resolve, toolCallId, options, sessionId }, requestId) => {
+			(
+				{ resolve, toolCallId, options, sessionId, toolCall },
+				requestId,
+			) => {
 				// Update UI to show cancelled state via session update
 				this.callbacks.onSessionUpdate({
 					type: "tool_call_update",
@@ -242,6 +354,14 @@ export class PermissionManager {
 					},
 				});
 
+				this.recordDecision(
+					sessionId,
+					toolCallId,
+					toolCall,
+					null,
+					"user",
+				);
+
 				// Resolve the promise with cancelled outcome
 				resolve({
 					outcome: {
@@ -254,6 +374,68 @@ export class PermissionManager {
 		this.requestQueue = [];
 	}
 
+	private toAuditedToolCall(
+		params: acp.RequestPermissionRequest,
+	): AuditedToolCall {
+		return {
+			title: params.toolCall?.title ?? undefined,
+			kind: params.toolCall?.kind ?? undefined,
+			locations: (params.toolCall?.locations ?? []).map(
+				(location) => location.path,
+			),
+		};
+	}
+
+	/**
+	 * Record a decision in the audit log.
+	 * A null option means the request was cancelled.
+	 */
+	private recordDecision(
+		sessionId: string,
+		toolCallId: string,
+		toolCall: AuditedToolCall,
+		option: { name: string; kind?: string | null } | null,
+		decidedBy: AuditDecisionSource,
+		ruleId?: string,
+	): void {
+		this.callbacks.onAuditEntry({
+			event: "permission",
+			agentId: this.callbacks.getAgentId(),
+			sessionId,
+			toolCallId,
+			...toolCall,
+			decision: !option
+				? "cancelled"
+				: option.kind?.startsWith("allow")
+					? "allowed"
+					: "rejected",
+			decidedBy,
+			optionName: option?.name,
+			ruleId,
+		});
+	}
+
+	/**
+	 * Pick the option that carries out an automatic decision.
+	 * Once-options are preferred so the agent does not remember the choice.
+	 */
+	private findOption(
+		options: acp.PermissionOption[],
+		action: "allow" | "reject",
+	): acp.PermissionOption | undefined {
+		const kinds: acp.PermissionOptionKind[] =
+			action === "allow"
+				? ["allow_once", "allow_always"]
+				: ["reject_once", "reject_always"];
+		for (const kind of kinds) {
+			const option = options.find((o) => o.kind === kind);
+			if (option) return option;
+		}
+		return options.find(
+			(o) => !o.kind && o.name.toLowerCase().includes(action),
+		);
+	}
+
 	/**
 	 * Activate the next queued permission request in UI.
 	 */
@@ -1,9 +1,25 @@
 import { spawn, ChildProcess, SpawnOptions } from "child_process";
 import type AgentClientPlugin from "../plugin";
 import { getLogger, Logger } from "../utils/logger";
-import { Platform } from "obsidian";
+import { FileSystemAdapter, Platform } from "obsidian";
 import { resolveNodeDirectory } from "../utils/paths";
-import { getEnhancedWindowsEnv, prepareShellCommand } from "../utils/platform";
+import {
+	checkTerminalCommand,
+	scrubEnvironment,
+	type TerminalCommandRequest,
+	type TerminalPolicyDirectories,
+} from "../services/terminal-policy";
+import {
+	getEnhancedWindowsEnv,
+	prepareShellCommand,
+	wrapCommandInPty,
+} from "../utils/platform";
+
+/**
+ * Bytes of output kept for the UI, independent of the agent's
+ * outputByteLimit (which may keep only the last few lines).
+ */
+const SCROLLBACK_BYTE_LIMIT = 1024 * 1024;
 
 /**
  * Parameters for creating a terminal process.
@@ -22,18 +38,29 @@ interface CreateTerminalParams {
 	env?: Array<{ name: string; value: string }>;
 	/** Maximum number of output bytes to retain */
 	outputByteLimit?: number;
+	/**
+	 * Started by the user in the terminal panel: the policy's timeout and
+	 * output cap (limits for agents) do not apply
+	 */
+	userTerminal?: boolean;
 }
 
 interface TerminalProcess {
 	id: string;
 	process: ChildProcess;
+	/** Output returned to the agent (trimmed to outputByteLimit) */
 	output: string;
+	/** Output shown in the UI (trimmed to SCROLLBACK_BYTE_LIMIT) */
+	scrollback: string;
+	scrollbackTruncated: boolean;
 	exitStatus: { exitCode: number | null; signal: string | null } | null;
 	outputByteLimit?: number;
 	waitPromises: Array<
 		(exitStatus: { exitCode: number | null; signal: string | null }) => void
 	>;
 	cleanupTimeout?: number;
+	/** Stops the process after the policy's timeout */
+	killTimeout?: number;
 }
 
 export class TerminalManager {
@@ -46,6 +73,29 @@ export class TerminalManager {
 		this.plugin = plugin;
 	}
 
+	/**
+	 * Check a command against the terminal policy in settings.
+	 *
+	 * @returns Why the command is denied, or null if it may run
+	 */
+	checkPolicy(
+		request: TerminalCommandRequest,
+		directories: Omit<TerminalPolicyDirectories, "vaultPath">,
+	): string | null {
+		const adapter = this.plugin.app.vault.adapter;
+		return checkTerminalCommand(
+			this.plugin.settings.terminalSettings,
+			request,
+			{
+				...directories,
+				vaultPath:
+					adapter instanceof FileSystemAdapter
+						? adapter.getBasePath()
+						: null,
+			},
+		);
+	}
+
 	createTerminal(params: CreateTerminalParams): string {
 		const terminalId = crypto.randomUUID();
 
@@ -70,6 +120,17 @@ export class TerminalManager {
 			}
 		}
 
+		// Remove secrets (also when the agent passes them explicitly)
+		const policy = this.plugin.settings.terminalSettings;
+		const scrubbed = scrubEnvironment(env, policy.scrubbedEnvVars);
+		env = scrubbed.env;
+		if (scrubbed.removed.length > 0) {
+			this.logger.log(
+				`[Terminal ${terminalId}] Removed environment variables:`,
+				scrubbed.removed,
+			);
+		}
+
 		// Handle command parsing
 		let command = params.command;
 		let args = params.args || [];
@@ -91,10 +152,23 @@ export class TerminalManager {
 		args = prepared.args;
 		const needsShell = prepared.needsShell;
 
+		// Run in a pseudo-terminal so programs print colors and prompts as
+		// they do in a terminal (macOS/Linux only)
+		const usePty =
+			this.plugin.settings.terminalSettings.usePty &&
+			(Platform.isMacOS || Platform.isLinux);
+		if (usePty) {
+			const wrapped = wrapCommandInPty(command, args);
+			command = wrapped.command;
+			args = wrapped.args;
+			env.TERM = env.TERM || "xterm-256color";
+		}
+
 		this.logger.log(`[Terminal ${terminalId}] Creating terminal:`, {
 			command,
 			args,
 			cwd: params.cwd,
+			pty: usePty,
 		});
 
 		// Spawn the process
@@ -110,11 +184,17 @@ export class TerminalManager {
 			id: terminalId,
 			process: childProcess,
 			output: "",
+			scrollback: "",
+			scrollbackTruncated: false,
 			exitStatus: null,
-			outputByteLimit:
-				params.outputByteLimit !== undefined
-					? Number(params.outputByteLimit)
-					: undefined,
+			// User terminals are only read through the scrollback, so their
+			// output needs no more than the scrollback's cap
+			outputByteLimit: this.getOutputByteLimit(
+				params.outputByteLimit,
+				params.userTerminal
+					? SCROLLBACK_BYTE_LIMIT
+					: policy.maxOutputBytes,
+			),
 			waitPromises: [],
 		};
 
@@ -152,17 +232,50 @@ export class TerminalManager {
 			);
 			const exitStatus = { exitCode: code, signal };
 			terminal.exitStatus = exitStatus;
+			window.clearTimeout(terminal.killTimeout);
 			// Resolve all waiting promises
 			terminal.waitPromises.forEach((resolve) => resolve(exitStatus));
 			terminal.waitPromises = [];
 		});
 
+		const { timeoutSeconds } = policy;
+		if (timeoutSeconds > 0 && !params.userTerminal) {
+			terminal.killTimeout = window.setTimeout(() => {
+				if (terminal.exitStatus) return;
+				this.logger.log(
+					`[Terminal ${terminalId}] Stopping after ${timeoutSeconds}s timeout`,
+				);
+				// Tell the agent why the command ended
+				this.appendOutput(
+					terminal,
+					`\n[Stopped by Agent Client after the ${timeoutSeconds}s terminal timeout]\n`,
+				);
+				terminal.process.kill("SIGTERM");
+			}, timeoutSeconds * 1000);
+		}
+
 		this.terminals.set(terminalId, terminal);
 		return terminalId;
 	}
 
+	/**
+	 * Smaller of the agent's outputByteLimit and the policy's cap
+	 * (undefined = no limit).
+	 */
+	private getOutputByteLimit(
+		requested: number | undefined,
+		cap: number,
+	): number | undefined {
+		const limits = [
+			requested !== undefined ? Number(requested) : 0,
+			cap,
+		].filter((limit) => limit > 0);
+		return limits.length > 0 ? Math.min(...limits) : undefined;
+	}
+
 	private appendOutput(terminal: TerminalProcess, data: string): void {
 		terminal.output += data;
+		terminal.scrollback += data;
 
 		// Apply output byte limit if specified
 		if (
@@ -170,13 +283,28 @@ export class TerminalManager {
 			Buffer.byteLength(terminal.output, "utf8") >
 				terminal.outputByteLimit
 		) {
-			// Truncate from the beginning, ensuring we stay at character boundaries
-			const bytes = Buffer.from(terminal.output, "utf8");
-			const truncatedBytes = bytes.subarray(
-				bytes.length - terminal.outputByteLimit,
+			terminal.output = this.keepLastBytes(
+				terminal.output,
+				terminal.outputByteLimit,
 			);
-			terminal.output = truncatedBytes.toString("utf8");
 		}
+
+		if (
+			Buffer.byteLength(terminal.scrollback, "utf8") >
+			SCROLLBACK_BYTE_LIMIT
+		) {
+			terminal.scrollback = this.keepLastBytes(
+				terminal.scrollback,
+				SCROLLBACK_BYTE_LIMIT,
+			);
+			terminal.scrollbackTruncated = true;
+		}
+	}
+
+	private keepLastBytes(text: string, limit: number): string {
+		// Truncate from the beginning, ensuring we stay at character boundaries
+		const bytes = Buffer.from(text, "utf8");
+		return bytes.subarray(bytes.length - limit).toString("utf8");
 	}
 
 	getOutput(terminalId: string): {
@@ -197,6 +325,42 @@ export class TerminalManager {
 		};
 	}
 
+	/**
+	 * Get the output for the UI. Unlike getOutput, the agent's
+	 * outputByteLimit does not apply, so the head of long output is kept.
+	 */
+	getScrollback(terminalId: string): {
+		output: string;
+		truncated: boolean;
+		exitStatus: { exitCode: number | null; signal: string | null } | null;
+	} | null {
+		const terminal = this.terminals.get(terminalId);
+		if (!terminal) return null;
+
+		return {
+			output: terminal.scrollback,
+			truncated: terminal.scrollbackTruncated,
+			exitStatus: terminal.exitStatus,
+		};
+	}
+
+	/**
+	 * Write to the stdin of a running terminal (answers to prompts).
+	 *
+	 * @returns false if the terminal is unknown, exited or closed its stdin
+	 */
+	writeInput(terminalId: string, data: string): boolean {
+		const terminal = this.terminals.get(terminalId);
+		const stdin = terminal?.process.stdin;
+		if (!terminal || terminal.exitStatus || !stdin?.writable) {
+			return false;
+		}
+
+		this.logger.log(`[Terminal ${terminalId}] stdin:`, data);
+		stdin.write(data);
+		return true;
+	}
+
 	waitForExit(
 		terminalId: string,
 	): Promise<{ exitCode: number | null; signal: string | null }> {
@@ -253,6 +417,7 @@ export class TerminalManager {
 			if (terminal.cleanupTimeout) {
 				window.clearTimeout(terminal.cleanupTimeout);
 			}
+			window.clearTimeout(terminal.killTimeout);
 			if (!terminal.exitStatus) {
 				this.logger.log(`Killing terminal ${terminalId}`);
 				this.killTerminal(terminalId);
@@ -1,13 +1,19 @@
 import * as acp from "@agentclientprotocol/sdk";
-import type { ToolCallContent, PromptContent } from "../types/chat";
+import type {
+	EmbeddedContentBlock,
+	ToolCallContent,
+	PromptContent,
+} from "../types/chat";
 import type {
 	InitializeResult,
+	MessageChunkContent,
 	SessionConfigOption,
 	SessionConfigSelectGroup,
 	SessionConfigSelectOption,
 	SessionResult,
 	SlashCommand,
 } from "../types/session";
+import type { McpServerSettings } from "../types/agent";
 
 /**
  * Common shape of ACP session responses.
@@ -35,9 +41,8 @@ export class AcpTypeConverter {
 	/**
 	 * Convert ACP ToolCallContent to domain ToolCallContent.
 	 *
-	 * Filters out content types that are not supported by the domain model:
-	 * - Supports: "diff", "terminal"
-	 * - Ignores: "content" (not implemented in UI)
+	 * Supports "diff", "terminal" and "content" (text, image, audio,
+	 * resource link and embedded resource blocks).
 	 *
 	 * @param acpContent - Tool call content from ACP protocol
 	 * @returns Domain model tool call content, or undefined if input is null/empty
@@ -75,20 +80,128 @@ export class AcpTypeConverter {
 					type: "terminal",
 					terminalId: item.terminalId,
 				});
+			} else if (item.type === "content") {
+				converted.push({
+					type: "content",
+					content: this.toEmbeddedContentBlock(item.content),
+				});
 			}
-			// "content" type is intentionally ignored (not implemented in UI)
 		}
 
 		return converted.length > 0 ? converted : undefined;
 	}
 
+	/**
+	 * Convert a non-text ACP message chunk to domain message content.
+	 *
+	 * Embedded text resources keep their text. Image blobs become images
+	 * without a URI (the data is the image), other blobs resource links.
+	 *
+	 * @returns Domain content, or null for unsupported blocks (text, audio)
+	 */
+	static toMessageChunkContent(
+		block: acp.ContentBlock,
+	): MessageChunkContent | null {
+		switch (block.type) {
+			case "image":
+				return {
+					type: "image",
+					data: block.data,
+					mimeType: block.mimeType,
+					uri: block.uri ?? undefined,
+				};
+			case "resource_link":
+				return {
+					type: "resource_link",
+					uri: block.uri,
+					name: block.title || block.name,
+					mimeType: block.mimeType ?? undefined,
+					size: block.size ?? undefined,
+				};
+			case "resource": {
+				const { uri, mimeType } = block.resource;
+				if ("text" in block.resource) {
+					return {
+						type: "resource",
+						uri,
+						mimeType: mimeType ?? undefined,
+						text: block.resource.text,
+					};
+				}
+				if (mimeType?.startsWith("image/")) {
+					return {
+						type: "image",
+						data: block.resource.blob,
+						mimeType,
+					};
+				}
+				return {
+					type: "resource_link",
+					uri,
+					name: uri.split(/[/\\]/).pop() || uri,
+					mimeType: mimeType ?? undefined,
+				};
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Convert an ACP ContentBlock to a domain EmbeddedContentBlock.
+	 */
+	static toEmbeddedContentBlock(
+		block: acp.ContentBlock,
+	): EmbeddedContentBlock {
+		switch (block.type) {
+			case "text":
+				return { type: "text", text: block.text };
+			case "image":
+				return {
+					type: "image",
+					data: block.data,
+					mimeType: block.mimeType,
+					uri: block.uri ?? undefined,
+				};
+			case "audio":
+				return {
+					type: "audio",
+					data: block.data,
+					mimeType: block.mimeType,
+				};
+			case "resource_link":
+				return {
+					type: "resource_link",
+					uri: block.uri,
+					name: block.name,
+					title: block.title ?? undefined,
+					mimeType: block.mimeType ?? undefined,
+					size: block.size ?? undefined,
+				};
+			case "resource":
+				return {
+					type: "resource",
+					uri: block.resource.uri,
+					mimeType: block.resource.mimeType ?? undefined,
+					text:
+						"text" in block.resource
+							? block.resource.text
+							: undefined,
+					blob:
+						"blob" in block.resource
+							? block.resource.blob
+							: undefined,
+				};
+		}
+	}
+
 	/**
 	 * Convert domain PromptContent to ACP ContentBlock.
 	 *
 	 * This converts our domain-layer prompt content to the ACP protocol format
 	 * for sending to the agent.
 	 *
-	 * @param content - Domain prompt content (text, image, resource, or resource_link)
+	 * @param content - Domain prompt content (text, image, audio, resource, or resource_link)
 	 * @returns ACP ContentBlock for use with the prompt API
 	 */
 	/**
@@ -200,6 +313,12 @@ export class AcpTypeConverter {
 					data: content.data,
 					mimeType: content.mimeType,
 				};
+			case "audio":
+				return {
+					type: "audio",
+					data: content.data,
+					mimeType: content.mimeType,
+				};
 			case "resource":
 				return {
 					type: "resource",
@@ -221,6 +340,33 @@ export class AcpTypeConverter {
 		}
 	}
 
+	/**
+	 * Convert MCP server settings to an ACP McpServer entry.
+	 * Only the fields relevant to the server's transport are included.
+	 */
+	static toAcpMcpServer(server: McpServerSettings): acp.McpServer {
+		if (server.transport === "stdio") {
+			return {
+				name: server.name,
+				command: server.command,
+				args: server.args,
+				env: server.env.map(({ key, value }) => ({
+					name: key,
+					value,
+				})),
+			};
+		}
+		return {
+			type: server.transport,
+			name: server.name,
+			url: server.url,
+			headers: server.headers.map(({ key, value }) => ({
+				name: key,
+				value,
+			})),
+		};
+	}
+
 	/**
 	 * Convert ACP InitializeResponse to domain InitializeResult.
 	 */
@@ -13,6 +13,7 @@ import type {
 	MessageContent,
 	ActivePermission,
 	ImagePromptContent,
+	AudioPromptContent,
 	ResourceLinkPromptContent,
 } from "../types/chat";
 import type { ChatSession, SessionUpdate } from "../types/session";
@@ -21,7 +22,11 @@ import type { IVaultAccess, NoteMetadata } from "../services/vault-service";
 import type { ISettingsAccess } from "../services/settings-service";
 import type { ErrorInfo } from "../types/errors";
 import type { IMentionService } from "../utils/mention-parser";
-import { preparePrompt, sendPreparedPrompt } from "../services/message-sender";
+import {
+	preparePrompt,
+	sendPreparedPrompt,
+	type SendPromptResult,
+} from "../services/message-sender";
 import { extractErrorMessage } from "../utils/error-utils";
 import { Platform } from "obsidian";
 import {
@@ -47,6 +52,8 @@ export interface SendMessageOptions {
 	isAutoMentionDisabled?: boolean;
 	/** Attached images (Base64 embedded) */
 	images?: ImagePromptContent[];
+	/** Attached audio clips (Base64 embedded) */
+	audio?: AudioPromptContent[];
 	/** Attached file references (resource links) */
 	resourceLinks?: ResourceLinkPromptContent[];
 }
@@ -265,6 +272,7 @@ export function useAgentMessages(
 				{
 					message: content,
 					images: options.images,
+					audio: options.audio,
 					resourceLinks: options.resourceLinks,
 					activeNote: options.activeNote,
 					vaultBasePath: options.vaultBasePath,
@@ -305,6 +313,16 @@ export function useAgentMessages(
 				}
 			}
 
+			if (options.audio && options.audio.length > 0) {
+				for (const clip of options.audio) {
+					userMessageContent.push({
+						type: "audio",
+						data: clip.data,
+						mimeType: clip.mimeType,
+					});
+				}
+			}
+
 			if (options.resourceLinks && options.resourceLinks.length > 0) {
 				for (const link of options.resourceLinks) {
 					userMessageContent.push({
@@ -328,17 +346,36 @@ export function useAgentMessages(
 			setIsSending(true);
 			setLastUserMessage(content);
 
+			// Snapshot the files the agent touches so the turn can be reverted
+			agentClient.beginCheckpoint(userMessage.id, currentSessionId);
+
 			const sendPromise = (async () => {
 				try {
-					const result = await sendPreparedPrompt(
-						{
-							sessionId: currentSessionId,
-							agentContent: prepared.agentContent,
-							displayContent: prepared.displayContent,
-							authMethods: session.authMethods,
-						},
-						agentClient,
-					);
+					let result: SendPromptResult;
+					try {
+						result = await sendPreparedPrompt(
+							{
+								sessionId: currentSessionId,
+								agentContent: prepared.agentContent,
+								displayContent: prepared.displayContent,
+								authMethods: session.authMethods,
+							},
+							agentClient,
+						);
+					} finally {
+						if (await agentClient.endCheckpoint()) {
+							setMessages((prev) =>
+								prev.map((message) =>
+									message.id === userMessage.id
+										? {
+												...message,
+												checkpointId: userMessage.id,
+											}
+										: message,
+								),
+							);
+						}
+					}
 
 					// Discard results if a newer send has started
 					if (generationRef.current !== generation) return;
@@ -17,11 +17,15 @@ import type {
 	ChatMessage,
 	AttachedFile,
 	ImagePromptContent,
+	AudioPromptContent,
 	ResourceLinkPromptContent,
 } from "../types/chat";
 import type { AgentClientPluginSettings } from "../plugin";
+import type { AcpClient } from "../acp/acp-client";
+import type { ChatExportFormat } from "../types/chat-export";
 import type { AgentUpdateNotification } from "../services/update-checker";
 import { ChatExporter } from "../services/chat-exporter";
+import { getCurrentSessionOptionName } from "../services/session-state";
 import { getLogger } from "../utils/logger";
 import { buildFileUri } from "../utils/paths";
 import { convertWindowsPathToWsl } from "../utils/platform";
@@ -38,7 +42,8 @@ export interface UseChatActionsReturn {
 	) => Promise<void>;
 	handleStopGeneration: () => Promise<void>;
 	handleNewChat: (requestedAgentId?: string) => Promise<void>;
-	handleExportChat: () => Promise<void>;
+	/** Export in the given format (default: the format from export settings) */
+	handleExportChat: (format?: ChatExportFormat) => Promise<void>;
 	handleSwitchAgent: (agentId: string) => Promise<void>;
 	handleRestartAgent: () => Promise<void>;
 
@@ -78,6 +83,8 @@ export function useChatActions(
 	messages: ChatMessage[],
 	settings: AgentClientPluginSettings,
 	vaultPath: string,
+	acpClient: AcpClient,
+	agentCwd: string,
 ): UseChatActionsReturn {
 	const logger = getLogger();
 
@@ -108,16 +115,29 @@ export function useChatActions(
 			if (!triggerSession.sessionId) return;
 
 			try {
-				const exporter = new ChatExporter(plugin);
+				const exporter = new ChatExporter(plugin, acpClient);
 				const openFile =
 					plugin.settings.exportSettings.openFileAfterExport;
-				const filePath = await exporter.exportToMarkdown(
+				const filePath = await exporter.exportChat(
+					plugin.settings.exportSettings.format,
 					triggerMessages,
 					triggerSession.agentDisplayName,
 					triggerSession.agentId,
 					triggerSession.sessionId,
 					triggerSession.createdAt,
 					openFile,
+					{
+						model: getCurrentSessionOptionName(
+							triggerSession,
+							"model",
+						),
+						mode: getCurrentSessionOptionName(
+							triggerSession,
+							"mode",
+						),
+						cwd: agentCwd,
+						usage: triggerSession.usage,
+					},
 				);
 				if (filePath) {
 					const context =
@@ -129,7 +149,7 @@ export function useChatActions(
 				new Notice("[Agent Client] Failed to export chat");
 			}
 		},
-		[plugin, logger],
+		[plugin, acpClient, agentCwd, logger],
 	);
 
 	// ============================================================
@@ -148,6 +168,7 @@ export function useChatActions(
 
 			// Split attachments by kind
 			const images: ImagePromptContent[] = [];
+			const audio: AudioPromptContent[] = [];
 			const resourceLinks: ResourceLinkPromptContent[] = [];
 
 			if (attachments) {
@@ -158,6 +179,12 @@ export function useChatActions(
 							data: file.data,
 							mimeType: file.mimeType,
 						});
+					} else if (file.kind === "audio" && file.data) {
+						audio.push({
+							type: "audio",
+							data: file.data,
+							mimeType: file.mimeType,
+						});
 					} else if (file.kind === "file" && file.path) {
 						let filePath = file.path;
 						if (shouldConvertToWsl) {
@@ -185,6 +212,7 @@ export function useChatActions(
 				isAutoMentionDisabled:
 					suggestions.mentions.isAutoMentionDisabled,
 				images: images.length > 0 ? images : undefined,
+				audio: audio.length > 0 ? audio : undefined,
 				resourceLinks:
 					resourceLinks.length > 0 ? resourceLinks : undefined,
 			});
@@ -274,29 +302,40 @@ export function useChatActions(
 		],
 	);
 
-	const handleExportChat = useCallback(async () => {
-		if (messages.length === 0) {
-			new Notice("[Agent Client] No messages to export");
-			return;
-		}
+	const handleExportChat = useCallback(
+		async (format?: ChatExportFormat) => {
+			if (messages.length === 0) {
+				new Notice("[Agent Client] No messages to export");
+				return;
+			}
 
-		try {
-			const exporter = new ChatExporter(plugin);
-			const openFile = plugin.settings.exportSettings.openFileAfterExport;
-			const filePath = await exporter.exportToMarkdown(
-				messages,
-				session.agentDisplayName,
-				session.agentId,
-				session.sessionId || "unknown",
-				session.createdAt,
-				openFile,
-			);
-			new Notice(`[Agent Client] Chat exported to ${filePath}`);
-		} catch (error) {
-			new Notice("[Agent Client] Failed to export chat");
-			logger.error("Export error:", error);
-		}
-	}, [messages, session, plugin, logger]);
+			try {
+				const exporter = new ChatExporter(plugin, acpClient);
+				const openFile =
+					plugin.settings.exportSettings.openFileAfterExport;
+				const filePath = await exporter.exportChat(
+					format ?? plugin.settings.exportSettings.format,
+					messages,
+					session.agentDisplayName,
+					session.agentId,
+					session.sessionId || "unknown",
+					session.createdAt,
+					openFile,
+					{
+						model: getCurrentSessionOptionName(session, "model"),
+						mode: getCurrentSessionOptionName(session, "mode"),
+						cwd: agentCwd,
+						usage: session.usage,
+					},
+				);
+				new Notice(`[Agent Client] Chat exported to ${filePath}`);
+			} catch (error) {
+				new Notice("[Agent Client] Failed to export chat");
+				logger.error("Export error:", error);
+			}
+		},
+		[messages, session, plugin, acpClient, agentCwd, logger],
+	);
 
 	const handleSwitchAgent = useCallback(
 		async (agentId: string) => {
@@ -1,24 +1,30 @@
 import { useRef, useCallback, useEffect } from "react";
 import { Notice, Platform } from "obsidian";
 import { SessionHistoryModal } from "../ui/SessionHistoryModal";
+import { ChatExporter } from "../services/chat-exporter";
 import { getLogger } from "../utils/logger";
 import { convertWslPathToWindows } from "../utils/platform";
 import type AgentClientPlugin from "../plugin";
 import type { UseAgentReturn } from "./useAgent";
 import type { UseSessionHistoryReturn } from "./useSessionHistory";
+import type { SessionSearchResult } from "../types/search";
+import type { SessionInfo, SessionMetadataUpdate } from "../types/session";
 
 /**
  * Hook for managing the session history modal lifecycle.
  *
  * Encapsulates modal creation, props synchronization, and
- * session operation callbacks (restore, fork, delete).
+ * session operation callbacks (restore, fork, delete, search, and bulk
+ * pin/tag/archive/export/delete).
  *
  * @param plugin - Plugin instance for app access
- * @param agent - Agent hook for clearMessages
+ * @param agent - Agent hook for clearMessages and the current agent
  * @param sessionHistory - Session history hook for operations
  * @param vaultPath - Current working directory
  * @param isSessionReady - Whether the session is ready
  * @param debugMode - Whether debug mode is enabled
+ * @param onAgentCwdChange - Called with the cwd of a restored or forked session
+ * @param onOpenSearchResult - Called when a message search result is chosen
  */
 export function useHistoryModal(
 	plugin: AgentClientPlugin,
@@ -28,8 +34,10 @@ export function useHistoryModal(
 	isSessionReady: boolean,
 	debugMode: boolean,
 	onAgentCwdChange?: (cwd: string) => void,
+	onOpenSearchResult?: (result: SessionSearchResult) => void,
 ): {
 	handleOpenHistory: () => void;
+	handleRestoreSession: (sessionId: string, cwd: string) => Promise<void>;
 } {
 	const logger = getLogger();
 	const historyModalRef = useRef<SessionHistoryModal | null>(null);
@@ -94,6 +102,84 @@ export function useHistoryModal(
 		[sessionHistory.deleteSession, logger],
 	);
 
+	const handleDeleteSessions = useCallback(
+		async (sessionIds: string[]) => {
+			try {
+				logger.log(
+					`[ChatPanel] Deleting ${sessionIds.length} sessions`,
+				);
+				await sessionHistory.deleteSessions(sessionIds);
+				new Notice(
+					`[Agent Client] ${sessionIds.length} session${sessionIds.length === 1 ? "" : "s"} deleted`,
+				);
+			} catch (error) {
+				new Notice("[Agent Client] Failed to delete sessions");
+				logger.error("Session delete error:", error);
+			}
+		},
+		[sessionHistory.deleteSessions, logger],
+	);
+
+	const handleUpdateSessions = useCallback(
+		async (updates: SessionMetadataUpdate[]) => {
+			try {
+				await sessionHistory.updateSessionMetadata(updates);
+			} catch (error) {
+				new Notice("[Agent Client] Failed to update sessions");
+				logger.error("Session update error:", error);
+			}
+		},
+		[sessionHistory.updateSessionMetadata, logger],
+	);
+
+	// Export from the locally saved messages (the agent is not involved)
+	const handleExportSessions = useCallback(
+		async (sessions: SessionInfo[]) => {
+			const exporter = new ChatExporter(plugin);
+			let exported = 0;
+			let withoutMessages = 0;
+			for (const target of sessions) {
+				try {
+					const messages =
+						await plugin.settingsService.loadSessionMessages(
+							target.sessionId,
+						);
+					if (!messages || messages.length === 0) {
+						withoutMessages++;
+						continue;
+					}
+					await exporter.exportChat(
+						plugin.settings.exportSettings.format,
+						messages,
+						agent.session.agentDisplayName,
+						agent.session.agentId,
+						target.sessionId,
+						new Date(target.updatedAt ?? Date.now()),
+						false,
+						{ cwd: target.cwd },
+					);
+					exported++;
+				} catch (error) {
+					logger.error("Session export error:", error);
+				}
+			}
+
+			const failed = sessions.length - exported - withoutMessages;
+			new Notice(
+				[
+					`[Agent Client] Exported ${exported} session${exported === 1 ? "" : "s"}`,
+					withoutMessages > 0
+						? `${withoutMessages} without saved messages`
+						: "",
+					failed > 0 ? `${failed} failed` : "",
+				]
+					.filter(Boolean)
+					.join(", "),
+			);
+		},
+		[plugin, agent.session.agentDisplayName, agent.session.agentId, logger],
+	);
+
 	const handleEditTitle = useCallback(
 		async (sessionId: string, newTitle: string, sessionCwd: string) => {
 			try {
@@ -111,6 +197,18 @@ export function useHistoryModal(
 		[sessionHistory.updateSessionTitle, logger],
 	);
 
+	const handleSearch = useCallback(
+		(query: string) => plugin.sessionSearch.search(query),
+		[plugin],
+	);
+
+	const handleOpenSearchResult = useCallback(
+		(result: SessionSearchResult) => {
+			onOpenSearchResult?.(result);
+		},
+		[onOpenSearchResult],
+	);
+
 	const handleLoadMore = useCallback(() => {
 		void sessionHistory.loadMoreSessions();
 	}, [sessionHistory.loadMoreSessions]);
@@ -141,7 +239,12 @@ export function useHistoryModal(
 				onRestoreSession: handleRestoreSession,
 				onForkSession: handleForkSession,
 				onDeleteSession: handleDeleteSession,
+				onDeleteSessions: handleDeleteSessions,
+				onUpdateSessions: handleUpdateSessions,
+				onExportSessions: handleExportSessions,
 				onEditTitle: handleEditTitle,
+				onSearch: handleSearch,
+				onOpenSearchResult: handleOpenSearchResult,
 				onLoadMore: handleLoadMore,
 				onFetchSessions: handleFetchSessions,
 			});
@@ -166,7 +269,12 @@ export function useHistoryModal(
 		handleRestoreSession,
 		handleForkSession,
 		handleDeleteSession,
+		handleDeleteSessions,
+		handleUpdateSessions,
+		handleExportSessions,
 		handleEditTitle,
+		handleSearch,
+		handleOpenSearchResult,
 		handleLoadMore,
 		handleFetchSessions,
 	]);
@@ -190,7 +298,12 @@ export function useHistoryModal(
 				onRestoreSession: handleRestoreSession,
 				onForkSession: handleForkSession,
 				onDeleteSession: handleDeleteSession,
+				onDeleteSessions: handleDeleteSessions,
+				onUpdateSessions: handleUpdateSessions,
+				onExportSessions: handleExportSessions,
 				onEditTitle: handleEditTitle,
+				onSearch: handleSearch,
+				onOpenSearchResult: handleOpenSearchResult,
 				onLoadMore: handleLoadMore,
 				onFetchSessions: handleFetchSessions,
 			});
@@ -210,10 +323,15 @@ export function useHistoryModal(
 		handleRestoreSession,
 		handleForkSession,
 		handleDeleteSession,
+		handleDeleteSessions,
+		handleUpdateSessions,
+		handleExportSessions,
 		handleEditTitle,
+		handleSearch,
+		handleOpenSearchResult,
 		handleLoadMore,
 		handleFetchSessions,
 	]);
 
-	return { handleOpenHistory };
+	return { handleOpenHistory, handleRestoreSession };
 }
@@ -5,6 +5,7 @@ import type {
 	SessionInfo,
 	ListSessionsResult,
 	SavedSessionInfo,
+	SessionMetadataUpdate,
 	ChatSession,
 	SessionModeState,
 	SessionModelState,
@@ -166,6 +167,12 @@ export interface UseSessionHistoryReturn {
 	 */
 	deleteSession: (sessionId: string) => Promise<void>;
 
+	/**
+	 * Delete several sessions (local metadata + message files).
+	 * @param sessionIds - Sessions to delete
+	 */
+	deleteSessions: (sessionIds: string[]) => Promise<void>;
+
 	/**
 	 * Update the title of a saved session.
 	 * @param sessionId - Session to update
@@ -178,6 +185,13 @@ export interface UseSessionHistoryReturn {
 		sessionCwd: string,
 	) => Promise<void>;
 
+	/**
+	 * Update pinned state, tags or archived state of sessions.
+	 * Creates local entries for sessions that exist only on the agent side.
+	 * @param updates - Metadata change per session
+	 */
+	updateSessionMetadata: (updates: SessionMetadataUpdate[]) => Promise<void>;
+
 	/**
 	 * Save session metadata locally.
 	 * Called when the first message is sent in a new session.
@@ -225,17 +239,18 @@ interface SessionCache {
 const CACHE_EXPIRY_MS = 5 * 60 * 1000;
 
 /**
- * Merge agent sessions with locally saved titles.
+ * Merge agent sessions with locally saved titles and metadata.
  * Prefers local titles over agent-provided titles for better UX.
  *
  * Some agents return poor quality titles (e.g., "ACP Session {id}" or
  * system prompt text), so we prefer locally saved titles when available.
+ * Pinned state, tags and archived state exist only locally.
  *
  * @param agentSessions - Sessions from agent's session/list
  * @param localSessions - Locally saved session metadata
- * @returns Sessions with local titles merged in
+ * @returns Sessions with local titles and metadata merged in
  */
-function mergeWithLocalTitles(
+function mergeWithLocalMetadata(
 	agentSessions: SessionInfo[],
 	localSessions: SavedSessionInfo[],
 ): SessionInfo[] {
@@ -247,6 +262,9 @@ function mergeWithLocalTitles(
 		return {
 			...s,
 			title: local?.title ?? s.title,
+			pinned: local?.pinned,
+			tags: local?.tags,
+			archived: local?.archived,
 		};
 	});
 }
@@ -352,6 +370,9 @@ export function useSessionHistory(
 					cwd: s.cwd,
 					title: s.title,
 					updatedAt: s.updatedAt,
+					pinned: s.pinned,
+					tags: s.tags,
+					archived: s.archived,
 				}));
 
 				setSessions(sessionInfos);
@@ -374,7 +395,7 @@ export function useSessionHistory(
 					new Set(localSessions.map((s) => s.sessionId)),
 				);
 				// Re-merge with local titles to pick up newly saved session titles
-				const sessionsWithLocalTitles = mergeWithLocalTitles(
+				const sessionsWithLocalTitles = mergeWithLocalMetadata(
 					cacheRef.current!.sessions,
 					localSessions,
 				);
@@ -398,7 +419,7 @@ export function useSessionHistory(
 					session.agentId,
 					cwd,
 				);
-				const sessionsWithLocalTitles = mergeWithLocalTitles(
+				const sessionsWithLocalTitles = mergeWithLocalMetadata(
 					result.sessions,
 					localSessions,
 				);
@@ -461,7 +482,7 @@ export function useSessionHistory(
 				session.agentId,
 				currentCwdRef.current,
 			);
-			const sessionsWithLocalTitles = mergeWithLocalTitles(
+			const sessionsWithLocalTitles = mergeWithLocalMetadata(
 				result.sessions,
 				localSessions,
 			);
@@ -704,6 +725,100 @@ export function useSessionHistory(
 		[settingsAccess, invalidateCache],
 	);
 
+	/**
+	 * Delete several sessions (local metadata + message files).
+	 * Removes from both local state and persistent storage.
+	 */
+	const deleteSessions = useCallback(
+		async (sessionIds: string[]) => {
+			try {
+				await settingsAccess.deleteSessions(sessionIds);
+
+				setSessions((prev) =>
+					prev.filter((s) => !sessionIds.includes(s.sessionId)),
+				);
+
+				invalidateCache();
+			} catch (err) {
+				const errorMessage = extractErrorMessage(err);
+				setError(`Failed to delete sessions: ${errorMessage}`);
+				throw err;
+			}
+		},
+		[settingsAccess, invalidateCache],
+	);
+
+	/**
+	 * Update pinned state, tags or archived state of sessions.
+	 * Updates both local state and persistent storage.
+	 * Does not change updatedAt, so the list order stays the same.
+	 */
+	const updateSessionMetadata = useCallback(
+		async (updates: SessionMetadataUpdate[]) => {
+			const savedSessions = settingsAccess.getSavedSessions();
+			const now = new Date().toISOString();
+			const infos: SavedSessionInfo[] = updates.map(
+				({ session: target, metadata }) => {
+					const existing = savedSessions.find(
+						(s) => s.sessionId === target.sessionId,
+					);
+					if (existing) {
+						return { ...existing, ...metadata };
+					}
+					// Session exists only on agent side — create local entry
+					return {
+						sessionId: target.sessionId,
+						agentId: session.agentId,
+						cwd: target.cwd,
+						title: target.title,
+						createdAt: target.updatedAt ?? now,
+						updatedAt: target.updatedAt ?? now,
+						...metadata,
+					};
+				},
+			);
+			const applyMetadata = (byId: Map<string, Partial<SessionInfo>>) =>
+				setSessions((prev) =>
+					prev.map((s) => {
+						const metadata = byId.get(s.sessionId);
+						return metadata ? { ...s, ...metadata } : s;
+					}),
+				);
+
+			// Optimistic update
+			applyMetadata(
+				new Map(updates.map((u) => [u.session.sessionId, u.metadata])),
+			);
+
+			try {
+				await settingsAccess.saveSessions(infos);
+				setLocalSessionIds(
+					(prev) =>
+						new Set([...prev, ...infos.map((s) => s.sessionId)]),
+				);
+				invalidateCache();
+			} catch (err) {
+				// Rollback optimistic update (sessions as they were listed)
+				applyMetadata(
+					new Map(
+						updates.map(({ session: target }) => [
+							target.sessionId,
+							{
+								pinned: target.pinned,
+								tags: target.tags,
+								archived: target.archived,
+							},
+						]),
+					),
+				);
+				const errorMessage = extractErrorMessage(err);
+				setError(`Failed to update sessions: ${errorMessage}`);
+				throw err;
+			}
+		},
+		[settingsAccess, session.agentId, invalidateCache],
+	);
+
 	/**
 	 * Update the title of a saved session.
 	 * Updates both local state and persistent storage.
@@ -733,15 +848,18 @@ export function useSessionHistory(
 					});
 				} else {
 					// Session exists only on agent side — create local entry
-					// Use sessionCwd (from SessionInfo) instead of hook's cwd
-					await settingsAccess.saveSession({
-						sessionId,
-						agentId: session.agentId,
-						cwd: sessionCwd,
-						title: newTitle,
-						createdAt: new Date().toISOString(),
-						updatedAt: new Date().toISOString(),
-					});
+					// Use sessionCwd (from SessionInfo) instead of hook's cwd.
+					// A title edit is metadata only: no retention
+					await settingsAccess.saveSessions([
+						{
+							sessionId,
+							agentId: session.agentId,
+							cwd: sessionCwd,
+							title: newTitle,
+							createdAt: new Date().toISOString(),
+							updatedAt: new Date().toISOString(),
+						},
+					]);
 				}
 
 				invalidateCache();
@@ -834,7 +952,9 @@ export function useSessionHistory(
 			restoreSession,
 			forkSession,
 			deleteSession,
+			deleteSessions,
 			updateSessionTitle,
+			updateSessionMetadata,
 			saveSessionLocally,
 			saveSessionMessages,
 			invalidateCache,
@@ -854,7 +974,9 @@ export function useSessionHistory(
 			restoreSession,
 			forkSession,
 			deleteSession,
+			deleteSessions,
 			updateSessionTitle,
+			updateSessionMetadata,
 			saveSessionLocally,
 			saveSessionMessages,
 			invalidateCache,
@@ -6,6 +6,7 @@ import {
 	type MentionContext,
 } from "../utils/mention-parser";
 import type { SlashCommand } from "../types/session";
+import type { PromptTemplate } from "../types/prompt-template";
 import type AgentClientPlugin from "../plugin";
 
 // ============================================================================
@@ -41,9 +42,18 @@ export interface MentionsState {
 	updateActiveNote: () => Promise<void>;
 }
 
+/**
+ * An entry of the slash command dropdown.
+ * - 'command': A slash command of the agent
+ * - 'template': A prompt template from the template folder
+ */
+export type CommandSuggestion =
+	| { type: "command"; command: SlashCommand }
+	| { type: "template"; template: PromptTemplate };
+
 export interface CommandsState {
-	/** Filtered slash command suggestions */
-	suggestions: SlashCommand[];
+	/** Filtered slash command and prompt template suggestions */
+	suggestions: CommandSuggestion[];
 	/** Currently selected index in the dropdown */
 	selectedIndex: number;
 	/** Whether the dropdown is open */
@@ -51,8 +61,11 @@ export interface CommandsState {
 
 	/** Update slash command suggestions based on current input */
 	updateSuggestions: (input: string, cursorPosition: number) => void;
-	/** Select a slash command from the dropdown. Returns updated input text */
-	selectSuggestion: (input: string, command: SlashCommand) => string;
+	/**
+	 * Select a dropdown entry. Returns updated input text (empty for
+	 * templates, which the caller renders into the input)
+	 */
+	selectSuggestion: (input: string, suggestion: CommandSuggestion) => string;
 	/** Navigate the dropdown selection */
 	navigate: (direction: "up" | "down") => void;
 	/** Close the dropdown */
@@ -79,7 +92,7 @@ export interface UseSuggestionsReturn {
  *
  * Handles:
  * - @-mention detection, note searching, and dropdown interaction
- * - /-command filtering and selection
+ * - /-command filtering and selection (agent commands, then prompt templates)
  * - Auto-mention toggle coordination (slash commands disable auto-mention)
  *
  * @param vaultAccess - Vault access for note searching
@@ -113,7 +126,7 @@ export function useSuggestions(
 	// ============================================================
 
 	const [commandSuggestions, setCommandSuggestions] = useState<
-		SlashCommand[]
+		CommandSuggestion[]
 	>([]);
 	const [commandSelectedIndex, setCommandSelectedIndex] = useState(0);
 
@@ -236,29 +249,46 @@ export function useSuggestions(
 
 			const query = afterSlash.toLowerCase();
 
-			// Filter available commands
-			const filtered = availableCommands.filter((cmd) =>
-				cmd.name.toLowerCase().includes(query),
-			);
+			// Filter available commands, then prompt templates
+			const filtered: CommandSuggestion[] = [
+				...availableCommands
+					.filter((cmd) => cmd.name.toLowerCase().includes(query))
+					.map((command) => ({ type: "command" as const, command })),
+				...plugin.promptTemplates
+					.getTemplates()
+					.filter((template) => template.commandName.includes(query))
+					.map((template) => ({
+						type: "template" as const,
+						template,
+					})),
+			];
 
 			setCommandSuggestions(filtered);
 			setCommandSelectedIndex(0);
 			// Disable auto-mention when slash command is detected
 			toggleAutoMention(true);
 		},
-		[availableCommands, toggleAutoMention, commandSuggestions.length],
+		[
+			availableCommands,
+			plugin,
+			toggleAutoMention,
+			commandSuggestions.length,
+		],
 	);
 
 	const commandSelectSuggestion = useCallback(
-		(_input: string, command: SlashCommand): string => {
-			const commandText = `/${command.name} `;
-
+		(_input: string, suggestion: CommandSuggestion): string => {
 			setCommandSuggestions([]);
 			setCommandSelectedIndex(0);
 
-			return commandText;
+			if (suggestion.type === "template") {
+				// A rendered template is a regular prompt
+				toggleAutoMention(false);
+				return "";
+			}
+			return `/${suggestion.command.name} `;
 		},
-		[],
+		[toggleAutoMention],
 	);
 
 	const commandNavigate = useCallback(
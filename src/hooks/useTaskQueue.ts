@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+import type AgentClientPlugin from "../plugin";
+
+/**
+ * Hook for subscribing to the background task queue.
+ *
+ * Uses useSyncExternalStore so the task panel re-renders whenever a task
+ * is queued, makes progress or finishes.
+ *
+ * @param plugin - Plugin instance containing the task queue
+ * @returns Current tasks (oldest first)
+ */
+export function useTaskQueue(plugin: AgentClientPlugin) {
+	return useSyncExternalStore(
+		plugin.taskQueue.subscribe,
+		plugin.taskQueue.getSnapshot,
+		plugin.taskQueue.getSnapshot,
+	);
+}
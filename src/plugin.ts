@@ -2,7 +2,15 @@ import {
 	Plugin,
 	WorkspaceLeaf,
 	Notice,
+	Platform,
 	requestUrl,
+	Editor,
+	FileSystemAdapter,
+	Menu,
+	TFile,
+	TFolder,
+	debounce,
+	type ObsidianProtocolData,
 } from "obsidian";
 import * as semver from "semver";
 import { ChatView, VIEW_TYPE_CHAT } from "./ui/ChatView";
@@ -11,18 +19,48 @@ import {
 	FloatingViewContainer,
 } from "./ui/FloatingChatView";
 import { FloatingButtonContainer } from "./ui/FloatingButton";
-import { ChatViewRegistry } from "./services/view-registry";
+import {
+	ChatViewRegistry,
+	type IChatViewContainer,
+} from "./services/view-registry";
 import {
 	createSettingsService,
 	type SettingsService,
 } from "./services/settings-service";
 import { AgentClientSettingTab } from "./ui/SettingsTab";
 import { AcpClient } from "./acp/acp-client";
+import { VaultMcpServer } from "./services/vault-mcp-server";
+import { AuditLog } from "./services/audit-log";
+import { CheckpointStore } from "./services/checkpoint-store";
+import { PromptTemplateService } from "./services/prompt-templates";
+import { AgentClientApi } from "./services/plugin-api";
+import { TaskQueue } from "./services/task-queue";
+import { AutomationService } from "./services/automations";
+import { SessionSearchIndex } from "./services/session-search";
+import { ChatImporter } from "./services/chat-importer";
+import { AuditLogModal } from "./ui/AuditLogModal";
+import { PromptTemplateModal } from "./ui/PromptTemplateModal";
+import { TemplateInputModal } from "./ui/TemplateInputModal";
+import { NewTaskModal } from "./ui/NewTaskModal";
+import { AutomationRunsModal } from "./ui/AutomationRunsModal";
+import { TaskPanelView, VIEW_TYPE_TASKS } from "./ui/TaskPanelView";
+import { TerminalPanelView, VIEW_TYPE_TERMINAL } from "./ui/TerminalPanelView";
+import {
+	CONTEXT_ACTIONS,
+	appendToDraft,
+	buildNoteMention,
+	type ContextAction,
+	type ContextActionInput,
+} from "./services/context-actions";
 import {
 	sanitizeArgs,
 	normalizeEnvVars,
+	normalizeMcpServers,
+	normalizePermissionRules,
+	normalizeAutomations,
 	normalizeCustomAgent,
 	ensureUniqueCustomAgentIds,
+	normalizeMarkdownExportTemplate,
 	parseChatFontSize,
 	str,
 	bool,
@@ -38,9 +76,24 @@ import {
 	ClaudeAgentSettings,
 	CodexAgentSettings,
 	CustomAgentSettings,
+	McpServerSettings,
 } from "./types/agent";
 import type { SavedSessionInfo } from "./types/session";
+import type { PermissionRule } from "./types/permission";
+import type { ApiPermissionPolicy } from "./types/api";
+import type { Automation } from "./types/automation";
+import type { ImportedChat } from "./types/chat-import";
+import type {
+	ChatExportFormat,
+	MarkdownExportTemplate,
+} from "./types/chat-export";
+import { DEFAULT_MARKDOWN_EXPORT_TEMPLATE } from "./services/chat-exporter";
+import type {
+	PromptTemplate,
+	PromptTemplatePreferences,
+} from "./types/prompt-template";
 import { initializeLogger } from "./utils/logger";
+import { convertWindowsPathToWsl } from "./utils/platform";
 
 // Re-export for backward compatibility
 export type { AgentEnvVar, CustomAgentSettings };
@@ -65,20 +118,109 @@ export type ChatViewLocation =
 	| "editor-tab"
 	| "editor-split";
 
+/**
+ * How fs/write_text_file requests from agents are handled.
+ * - 'disabled': Capability is not advertised; writes are refused (default)
+ * - 'auto': Apply writes immediately
+ * - 'review': Show the diff and wait for approval before applying
+ */
+export type FileWriteMode = "disabled" | "auto" | "review";
+
+export interface FileWriteSettings {
+	mode: FileWriteMode;
+	/** Reject writes to paths outside the session's working directory */
+	restrictToWorkingDirectory: boolean;
+}
+
+/**
+ * Where agent terminal commands may run.
+ * - 'any': Any working directory (default)
+ * - 'vault': Inside the vault folder
+ * - 'working-directory': Inside the session's working directory
+ */
+export type TerminalCwdRestriction = "any" | "vault" | "working-directory";
+
+export interface TerminalSettings {
+	/** Run agent terminal commands in a pseudo-terminal (macOS/Linux) */
+	usePty: boolean;
+	/** Command patterns that may run, `*` as wildcard (empty = any command) */
+	allowedCommands: string[];
+	/** Command patterns that never run (checked before allowedCommands) */
+	deniedCommands: string[];
+	cwdRestriction: TerminalCwdRestriction;
+	/** Environment variable name patterns removed before running, `*` as wildcard */
+	scrubbedEnvVars: string[];
+	/** Seconds before a command is stopped (0 = no limit) */
+	timeoutSeconds: number;
+	/** Maximum bytes of output kept for the agent (0 = the agent's own limit) */
+	maxOutputBytes: number;
+}
+
+export interface ContextActionSettings {
+	/** Add context actions to the editor and file explorer menus */
+	showInMenus: boolean;
+	/** Send complete prompts right away instead of only filling the input */
+	sendImmediately: boolean;
+}
+
+export interface BackgroundTaskSettings {
+	/** Maximum number of tasks running at once */
+	concurrency: number;
+	/** Answer to permission requests no rule (or auto-allow) decided */
+	permissionPolicy: ApiPermissionPolicy;
+}
+
+/**
+ * Which saved sessions are removed first when there are more than the limit.
+ * Pinned sessions are never removed.
+ * - 'oldest': Least recently updated sessions (default)
+ * - 'archived-first': Archived sessions, then the least recently updated ones
+ */
+export type SessionRetentionPolicy = "oldest" | "archived-first";
+
+export interface SessionHistorySettings {
+	/** Maximum number of unpinned saved sessions (0 = no limit) */
+	maxSavedSessions: number;
+	retentionPolicy: SessionRetentionPolicy;
+}
+
 export interface AgentClientPluginSettings {
 	gemini: GeminiAgentSettings;
 	claude: ClaudeAgentSettings;
 	codex: CodexAgentSettings;
 	customAgents: CustomAgentSettings[];
+	/** MCP servers passed to every agent (agent-specific lists are merged in) */
+	mcpServers: McpServerSettings[];
+	/** Host the built-in vault MCP server and pass it to every session */
+	enableVaultMcpServer: boolean;
 	/** Default agent ID for new views (renamed from activeAgentId for multi-session) */
 	defaultAgentId: string;
 	autoAllowPermissions: boolean;
+	/** Ordered permission rules; auto-allow applies when none matches */
+	permissionRules: PermissionRule[];
+	/** Record permission decisions and tool call outcomes in audit-log.jsonl */
+	enableAuditLog: boolean;
+	/** Let obsidian://agent-client URIs with send=true send their prompt */
+	allowUriSend: boolean;
+	// Agent file writes (fs/write_text_file)
+	fileWriteSettings: FileWriteSettings;
+	// Agent terminals (terminal/create)
+	terminalSettings: TerminalSettings;
 	autoMentionActiveNote: boolean;
+	// Editor / file-menu actions that send context to the chat
+	contextActionSettings: ContextActionSettings;
+	/** Vault folder of prompt template notes (empty = no templates) */
+	promptTemplateFolder: string;
+	// Prompts run in headless sessions from the task queue
+	backgroundTaskSettings: BackgroundTaskSettings;
+	/** Prompts run as background tasks on a schedule or on vault events */
+	automations: Automation[];
 	/** Show OS system notifications on response completion and permission requests */
 	enableSystemNotifications: boolean;
 	debugMode: boolean;
 	nodePath: string;
 	exportSettings: {
+		format: ChatExportFormat;
 		defaultFolder: string;
 		filenameTemplate: string;
 		autoExportOnNewChat: boolean;
@@ -88,6 +230,7 @@ export interface AgentClientPluginSettings {
 		imageLocation: "obsidian" | "custom" | "base64";
 		imageCustomFolder: string;
 		frontmatterTag: string;
+		markdownTemplate: MarkdownExportTemplate;
 	};
 	// WSL settings (Windows only)
 	windowsWslMode: boolean;
@@ -107,6 +250,8 @@ export interface AgentClientPluginSettings {
 	};
 	// Locally saved session metadata (for agents without session/list support)
 	savedSessions: SavedSessionInfo[];
+	// Limit and retention policy of savedSessions
+	sessionHistorySettings: SessionHistorySettings;
 	// Last used model per agent (agentId → modelId)
 	lastUsedModels: Record<string, string>;
 	// Last used mode per agent (agentId → modeId)
@@ -119,6 +264,9 @@ export interface AgentClientPluginSettings {
 	floatingButtonPosition: { x: number; y: number } | null;
 }
 
+/** How long context actions wait for a chat view and its session */
+const CHAT_READY_TIMEOUT_MS = 30000;
+
 const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 	claude: {
 		id: "claude-code-acp",
@@ -127,6 +275,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "claude-agent-acp",
 		args: [],
 		env: [],
+		mcpServers: [],
 	},
 	codex: {
 		id: "codex-acp",
@@ -135,6 +284,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "codex-acp",
 		args: [],
 		env: [],
+		mcpServers: [],
 	},
 	gemini: {
 		id: "gemini-cli",
@@ -143,15 +293,45 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "gemini",
 		args: ["--experimental-acp"],
 		env: [],
+		mcpServers: [],
 	},
 	customAgents: [],
+	mcpServers: [],
+	enableVaultMcpServer: true,
 	defaultAgentId: "claude-code-acp",
 	autoAllowPermissions: false,
+	permissionRules: [],
+	enableAuditLog: true,
+	allowUriSend: false,
+	fileWriteSettings: {
+		mode: "disabled",
+		restrictToWorkingDirectory: true,
+	},
+	terminalSettings: {
+		usePty: false,
+		allowedCommands: [],
+		deniedCommands: [],
+		cwdRestriction: "any",
+		scrubbedEnvVars: [],
+		timeoutSeconds: 0,
+		maxOutputBytes: 0,
+	},
 	autoMentionActiveNote: true,
+	contextActionSettings: {
+		showInMenus: true,
+		sendImmediately: false,
+	},
+	promptTemplateFolder: "Agent Client/Templates",
+	backgroundTaskSettings: {
+		concurrency: 2,
+		permissionPolicy: "reject",
+	},
+	automations: [],
 	enableSystemNotifications: true,
 	debugMode: false,
 	nodePath: "",
 	exportSettings: {
+		format: "markdown",
 		defaultFolder: "Agent Client",
 		filenameTemplate: "agent_client_{date}_{time}",
 		autoExportOnNewChat: false,
@@ -161,6 +341,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		imageLocation: "obsidian",
 		imageCustomFolder: "Agent Client",
 		frontmatterTag: "agent-client",
+		markdownTemplate: DEFAULT_MARKDOWN_EXPORT_TEMPLATE,
 	},
 	windowsWslMode: false,
 	windowsWslDistribution: undefined,
@@ -175,6 +356,10 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		fontSize: null,
 	},
 	savedSessions: [],
+	sessionHistorySettings: {
+		maxSavedSessions: 50,
+		retentionPolicy: "oldest",
+	},
 	lastUsedModels: {},
 	lastUsedModes: {},
 	enableFloatingChat: false,
@@ -191,12 +376,38 @@ export default class AgentClientPlugin extends Plugin {
 	/** Registry for all chat view containers (sidebar + floating) */
 	viewRegistry = new ChatViewRegistry();
 
+	/** Built-in vault MCP server (desktop only, null when disabled) */
+	vaultMcpServer: VaultMcpServer | null = null;
+
+	/** Append-only log of permission decisions and tool call outcomes */
+	auditLog!: AuditLog;
+
+	/** Local snapshot store for reverting agent edits per turn */
+	checkpointStore!: CheckpointStore;
+
+	/** Reusable prompts stored as notes in the template folder */
+	promptTemplates!: PromptTemplateService;
+
+	/** Public API for other plugins and scripts */
+	api!: AgentClientApi;
+
+	/** Queue of prompts running in headless sessions */
+	taskQueue!: TaskQueue;
+
+	/** Scheduled and event-triggered prompts, with their run history */
+	automations!: AutomationService;
+
+	/** Full-text search over saved sessions and exported chats */
+	sessionSearch!: SessionSearchIndex;
+
 	/** Map of viewId to AcpClient for multi-session support */
 	private _acpClients: Map<string, AcpClient> = new Map();
 	/** Floating button container (independent from chat view instances) */
 	private floatingButton: FloatingButtonContainer | null = null;
 	/** Counter for generating unique floating chat instance IDs */
 	private floatingChatCounter = 0;
+	/** IDs of the per-template commands currently registered */
+	private promptTemplateCommandIds: string[] = [];
 
 	async onload() {
 		await this.loadSettings();
@@ -205,8 +416,25 @@ export default class AgentClientPlugin extends Plugin {
 
 		// Initialize settings store
 		this.settingsService = createSettingsService(this.settings, this);
+		this.auditLog = new AuditLog(this);
+		this.checkpointStore = new CheckpointStore(this);
+		this.promptTemplates = new PromptTemplateService(this);
+		this.api = new AgentClientApi(this);
+		this.taskQueue = new TaskQueue(this);
+		this.automations = new AutomationService(this);
+		this.sessionSearch = new SessionSearchIndex(this);
+
+		this.setVaultMcpServerEnabled(this.settings.enableVaultMcpServer);
 
 		this.registerView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
+		this.registerView(
+			VIEW_TYPE_TASKS,
+			(leaf) => new TaskPanelView(leaf, this),
+		);
+		this.registerView(
+			VIEW_TYPE_TERMINAL,
+			(leaf) => new TerminalPanelView(leaf, this),
+		);
 
 		const ribbonIconEl = this.addRibbonIcon(
 			"bot-message-square",
@@ -255,6 +483,14 @@ export default class AgentClientPlugin extends Plugin {
 		this.registerAgentCommands();
 		this.registerPermissionCommands();
 		this.registerBroadcastCommands();
+		this.registerContextActions();
+		this.registerPromptTemplateCommands();
+		this.registerBackgroundTaskCommands();
+		this.registerAutomations();
+
+		this.registerObsidianProtocolHandler("agent-client", (params) => {
+			void this.handleProtocolUri(params);
+		});
 
 		// Floating chat window commands
 		this.addCommand({
@@ -364,6 +600,29 @@ export default class AgentClientPlugin extends Plugin {
 			client.disconnect().catch(() => {});
 		}
 		this._acpClients.clear();
+
+		// Drop background tasks, then close headless sessions of the public API
+		this.automations.dispose();
+		this.taskQueue.dispose();
+		this.api.dispose();
+
+		this.setVaultMcpServerEnabled(false);
+	}
+
+	/**
+	 * Start or stop the built-in vault MCP server.
+	 * The server needs Node's http module, so it only runs on desktop.
+	 */
+	setVaultMcpServerEnabled(enabled: boolean): void {
+		if (enabled && Platform.isDesktopApp) {
+			if (!this.vaultMcpServer) {
+				this.vaultMcpServer = new VaultMcpServer(this);
+				this.vaultMcpServer.start().catch(() => {});
+			}
+			return;
+		}
+		this.vaultMcpServer?.stop();
+		this.vaultMcpServer = null;
 	}
 
 	/**
@@ -417,7 +676,7 @@ export default class AgentClientPlugin extends Plugin {
 		}
 	}
 
-	async activateView() {
+	async activateView(): Promise<WorkspaceLeaf | null> {
 		const { workspace } = this.app;
 
 		let leaf: WorkspaceLeaf | null = null;
@@ -448,6 +707,7 @@ export default class AgentClientPlugin extends Plugin {
 			await workspace.revealLeaf(leaf);
 			this.focusTextarea(leaf);
 		}
+		return leaf;
 	}
 
 	/**
@@ -539,11 +799,13 @@ export default class AgentClientPlugin extends Plugin {
 	 * Open a new chat view with a specific agent.
 	 * Always creates a new view (doesn't reuse existing).
 	 */
-	async openNewChatViewWithAgent(agentId: string): Promise<void> {
+	async openNewChatViewWithAgent(
+		agentId: string,
+	): Promise<WorkspaceLeaf | null> {
 		const leaf = this.createNewChatLeaf(true);
 		if (!leaf) {
 			console.warn("[AgentClient] Failed to create new leaf");
-			return;
+			return null;
 		}
 
 		await leaf.setViewState({
@@ -566,6 +828,7 @@ export default class AgentClientPlugin extends Plugin {
 				}
 			}, 0);
 		}
+		return leaf;
 	}
 
 	/**
@@ -575,11 +838,18 @@ export default class AgentClientPlugin extends Plugin {
 	openNewFloatingChat(
 		initialExpanded = false,
 		initialPosition?: { x: number; y: number },
-	): void {
+		initialAgentId?: string,
+	): FloatingViewContainer {
 		// instanceId is just the counter (e.g., "0", "1", "2")
 		// FloatingViewContainer will create viewId as "floating-chat-{instanceId}"
 		const instanceId = String(this.floatingChatCounter++);
-		createFloatingChat(this, instanceId, initialExpanded, initialPosition);
+		return createFloatingChat(
+			this,
+			instanceId,
+			initialExpanded,
+			initialPosition,
+			initialAgentId,
+		);
 	}
 
 	/**
@@ -683,6 +953,14 @@ export default class AgentClientPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "open-audit-log",
+			name: "Open audit log",
+			callback: () => {
+				new AuditLogModal(this.app, this).open();
+			},
+		});
+
 		this.addCommand({
 			id: "toggle-auto-mention",
 			name: "Toggle auto-mention",
@@ -726,6 +1004,39 @@ export default class AgentClientPlugin extends Plugin {
 				);
 			},
 		});
+
+		const exportFormats: Array<[ChatExportFormat, string]> = [
+			["markdown", "Markdown"],
+			["json", "JSON"],
+			["html", "HTML"],
+			["canvas", "canvas"],
+		];
+		for (const [format, label] of exportFormats) {
+			this.addCommand({
+				id: `export-chat-${format}`,
+				name: `Export chat as ${label}`,
+				callback: () => {
+					this.app.workspace.trigger(
+						"agent-client:export-chat",
+						this.lastActiveChatViewId,
+						format,
+					);
+				},
+			});
+		}
+
+		this.addCommand({
+			id: "import-chat",
+			name: "Import chat",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== "md") return false;
+				if (!checking) {
+					void this.importChat(file);
+				}
+				return true;
+			},
+		});
 	}
 
 	/**
@@ -826,6 +1137,559 @@ export default class AgentClientPlugin extends Plugin {
 		new Notice("[Agent Client] Cancel broadcast to all views");
 	}
 
+	/**
+	 * Register context actions: editor commands plus editor-menu and
+	 * file-menu entries that put a selection, note or folder into the chat.
+	 */
+	private registerContextActions(): void {
+		for (const action of CONTEXT_ACTIONS) {
+			if (action.target === "folder") {
+				this.addCommand({
+					id: action.id,
+					name: action.name,
+					checkCallback: (checking) => {
+						const folder =
+							this.app.workspace.getActiveFile()?.parent;
+						if (!folder) return false;
+						if (checking) return true;
+						this.runContextAction(action, {
+							folderPath: this.toAbsoluteVaultPath(folder.path),
+						});
+					},
+				});
+				continue;
+			}
+
+			this.addCommand({
+				id: action.id,
+				name: action.name,
+				editorCheckCallback: (checking, editor, ctx) => {
+					const input = this.getEditorContext(
+						action,
+						editor,
+						ctx.file,
+					);
+					if (!input) return false;
+					if (checking) return true;
+					this.runContextAction(action, input);
+				},
+			});
+		}
+
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, info) => {
+				for (const action of CONTEXT_ACTIONS) {
+					if (action.target === "folder") continue;
+					const input = this.getEditorContext(
+						action,
+						editor,
+						info.file,
+					);
+					if (input) this.addContextMenuItem(menu, action, input);
+				}
+			}),
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				for (const action of CONTEXT_ACTIONS) {
+					if (
+						action.target === "note" &&
+						file instanceof TFile &&
+						file.extension === "md"
+					) {
+						this.addContextMenuItem(menu, action, {
+							noteName: file.basename,
+						});
+					} else if (
+						action.target === "folder" &&
+						file instanceof TFolder
+					) {
+						this.addContextMenuItem(menu, action, {
+							folderPath: this.toAbsoluteVaultPath(file.path),
+						});
+					}
+				}
+			}),
+		);
+	}
+
+	private addContextMenuItem(
+		menu: Menu,
+		action: ContextAction,
+		input: ContextActionInput,
+	): void {
+		if (!this.settings.contextActionSettings.showInMenus) return;
+		menu.addItem((item) =>
+			item
+				.setTitle(action.name)
+				.setIcon(action.icon)
+				.setSection("agent-client")
+				.onClick(() => this.runContextAction(action, input)),
+		);
+	}
+
+	/**
+	 * Context of an editor for a selection or note action.
+	 * Returns null when the action doesn't apply (no note, no selection).
+	 */
+	private getEditorContext(
+		action: ContextAction,
+		editor: Editor,
+		file: TFile | null,
+	): ContextActionInput | null {
+		if (!file || file.extension !== "md") return null;
+		if (action.target === "note") {
+			return { noteName: file.basename };
+		}
+		if (!editor.somethingSelected()) return null;
+
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		// A selection ending at the start of a line doesn't include that line
+		const toLine =
+			to.ch === 0 && to.line > from.line ? to.line - 1 : to.line;
+		return {
+			noteName: file.basename,
+			selection: { fromLine: from.line + 1, toLine: toLine + 1 },
+		};
+	}
+
+	private runContextAction(
+		action: ContextAction,
+		input: ContextActionInput,
+	): void {
+		void this.openChatWithPrompt(
+			action.buildPrompt(input),
+			action.sendable &&
+				this.settings.contextActionSettings.sendImmediately,
+		);
+	}
+
+	/**
+	 * Register the prompt template picker command, plus one command per
+	 * template (kept in sync with the template folder).
+	 */
+	private registerPromptTemplateCommands(): void {
+		this.addCommand({
+			id: "insert-prompt-template",
+			name: "Insert prompt template",
+			callback: () => {
+				new PromptTemplateModal(
+					this.app,
+					this.promptTemplates.getTemplates(),
+					(template) => void this.runPromptTemplate(template),
+				).open();
+			},
+		});
+
+		this.app.workspace.onLayoutReady(() => {
+			this.refreshPromptTemplateCommands();
+
+			const refresh = debounce(
+				() => this.refreshPromptTemplateCommands(),
+				500,
+				true,
+			);
+			this.registerEvent(
+				this.app.metadataCache.on("changed", (file) => {
+					if (this.promptTemplates.isTemplatePath(file.path)) {
+						refresh();
+					}
+				}),
+			);
+			this.registerEvent(
+				this.app.vault.on("delete", (file) => {
+					if (this.promptTemplates.isTemplatePath(file.path)) {
+						refresh();
+					}
+				}),
+			);
+			this.registerEvent(
+				this.app.vault.on("rename", (file, oldPath) => {
+					if (
+						this.promptTemplates.isTemplatePath(file.path) ||
+						this.promptTemplates.isTemplatePath(oldPath)
+					) {
+						refresh();
+					}
+				}),
+			);
+		});
+	}
+
+	/**
+	 * Re-register the per-template commands from the template folder.
+	 * Called when templates change and when the folder setting changes.
+	 */
+	refreshPromptTemplateCommands(): void {
+		for (const id of this.promptTemplateCommandIds) {
+			this.removeCommand(id);
+		}
+		this.promptTemplateCommandIds = this.promptTemplates
+			.getTemplates()
+			.map((template) => {
+				const id = `prompt-template:${template.path}`;
+				this.addCommand({
+					id,
+					name: `Run prompt template: ${template.name}`,
+					callback: () => void this.runPromptTemplate(template),
+				});
+				return id;
+			});
+	}
+
+	/**
+	 * Register the background task commands (new task, task panel).
+	 */
+	private registerBackgroundTaskCommands(): void {
+		this.addCommand({
+			id: "new-background-task",
+			name: "New background task",
+			callback: () => {
+				this.openNewTaskModal();
+			},
+		});
+
+		this.addCommand({
+			id: "new-background-task-from-selection",
+			name: "New background task from selection",
+			editorCheckCallback: (checking, editor) => {
+				const selection = editor.getSelection();
+				if (!selection.trim()) return false;
+				if (checking) return true;
+				this.openNewTaskModal(selection);
+			},
+		});
+
+		this.addCommand({
+			id: "open-task-panel",
+			name: "Open background task panel",
+			callback: () => {
+				void this.activateTaskPanel();
+			},
+		});
+
+		this.addCommand({
+			id: "open-terminal-panel",
+			name: "Open terminal",
+			callback: () => {
+				void this.activateSidebarView(VIEW_TYPE_TERMINAL);
+			},
+		});
+	}
+
+	/**
+	 * Start automations once the vault is indexed, and register the run
+	 * history command.
+	 */
+	private registerAutomations(): void {
+		this.addCommand({
+			id: "open-automation-run-history",
+			name: "Open automation run history",
+			callback: () => {
+				new AutomationRunsModal(this.app, this).open();
+			},
+		});
+
+		this.app.workspace.onLayoutReady(() => {
+			this.automations.start();
+		});
+	}
+
+	/**
+	 * Ask for a background task and queue it, showing the task panel.
+	 */
+	openNewTaskModal(initialPrompt = ""): void {
+		new NewTaskModal(
+			this.app,
+			this.getAvailableAgents(),
+			this.settings.defaultAgentId,
+			(input) => {
+				this.taskQueue.enqueue(input);
+				void this.activateTaskPanel();
+			},
+			initialPrompt,
+		).open();
+	}
+
+	/**
+	 * Reveal the task panel, opening it in the right sidebar if needed.
+	 */
+	async activateTaskPanel(): Promise<void> {
+		await this.activateSidebarView(VIEW_TYPE_TASKS);
+	}
+
+	/**
+	 * Reveal a view, opening it in the right sidebar if needed.
+	 */
+	private async activateSidebarView(viewType: string): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null =
+			workspace.getLeavesOfType(viewType)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: viewType, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Render a template (asking for its inputs) and put the prompt into the
+	 * chat input, after applying the template's agent, mode and model.
+	 */
+	async runPromptTemplate(template: PromptTemplate): Promise<void> {
+		const prompt = await this.renderPromptTemplate(template);
+		if (prompt === null) return;
+		await this.openChatWithPrompt(prompt, false, template.preferences);
+	}
+
+	/**
+	 * Render a template, asking for {{input:Label}} values in modals.
+	 * Failures are shown in a notice.
+	 *
+	 * @returns The prompt, or null when cancelled or failed
+	 */
+	async renderPromptTemplate(
+		template: PromptTemplate,
+	): Promise<string | null> {
+		try {
+			return await this.promptTemplates.render(
+				template,
+				(label) =>
+					new Promise((resolve) => {
+						new TemplateInputModal(this.app, label, resolve).open();
+					}),
+			);
+		} catch (error) {
+			new Notice(
+				`[Agent Client] ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Put a prompt into a chat view's input (after any draft), opening a
+	 * view if none is open. The focused view is used, sidebar or floating.
+	 *
+	 * @param send - Send the prompt once the view's session is ready
+	 * @param preferences - Agent, mode and model to switch the view to first
+	 */
+	async openChatWithPrompt(
+		prompt: string,
+		send = false,
+		preferences?: PromptTemplatePreferences,
+	): Promise<void> {
+		const view = await this.revealChatView();
+		if (!view) {
+			new Notice("[Agent Client] Could not open a chat view");
+			return;
+		}
+		await this.fillChatInput(view, prompt, send, preferences);
+	}
+
+	/**
+	 * Append a prompt to a view's input and optionally send it.
+	 */
+	private async fillChatInput(
+		view: IChatViewContainer,
+		prompt: string,
+		send: boolean,
+		preferences?: PromptTemplatePreferences,
+	): Promise<void> {
+		if (preferences) {
+			this.app.workspace.trigger(
+				"agent-client:apply-session-preferences",
+				view.viewId,
+				preferences,
+			);
+		}
+
+		const current = view.getInputState() ?? { text: "", files: [] };
+		view.setInputState({
+			text: appendToDraft(current.text, prompt),
+			files: current.files,
+		});
+		if (!send) return;
+
+		const ready = await this.waitFor(
+			() => (view.canSend() ? true : null),
+			CHAT_READY_TIMEOUT_MS,
+		);
+		if (!ready) {
+			new Notice(
+				"[Agent Client] The agent is not ready. The prompt was left in the input.",
+			);
+			return;
+		}
+		await view.sendMessage();
+	}
+
+	/**
+	 * Parse an exported chat note and show it in the focused chat view,
+	 * which restores its session or continues it in a new one.
+	 */
+	async importChat(file: TFile): Promise<void> {
+		let chat: ImportedChat;
+		try {
+			chat = await new ChatImporter(this).importFromFile(file);
+		} catch (error) {
+			new Notice(
+				`[Agent Client] Failed to import chat: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return;
+		}
+
+		const view = await this.revealChatView();
+		if (!view) {
+			new Notice("[Agent Client] Could not open a chat view");
+			return;
+		}
+		this.app.workspace.trigger(
+			"agent-client:import-chat",
+			view.viewId,
+			chat,
+		);
+	}
+
+	/**
+	 * Show the focused chat view, or open the sidebar chat view, and wait
+	 * until its input is available.
+	 */
+	private async revealChatView(): Promise<IChatViewContainer | null> {
+		const focused = this.viewRegistry.getFocused();
+		if (focused?.viewType === "floating") {
+			focused.focus();
+			return focused;
+		}
+
+		const leaf = await this.activateView();
+		const viewId = leaf?.view instanceof ChatView ? leaf.view.viewId : null;
+		return viewId ? await this.waitForChatView(viewId) : null;
+	}
+
+	/**
+	 * Wait until a view is registered and its input is available.
+	 */
+	private async waitForChatView(
+		viewId: string,
+	): Promise<IChatViewContainer | null> {
+		return await this.waitFor(() => {
+			const view = this.viewRegistry.get(viewId);
+			return view && view.getInputState() !== null ? view : null;
+		}, CHAT_READY_TIMEOUT_MS);
+	}
+
+	/**
+	 * Handle obsidian://agent-client URIs: open a new chat view and fill in
+	 * (and optionally send) a prompt.
+	 *
+	 * Parameters (all optional):
+	 * - agent: Agent ID (default agent if not set)
+	 * - prompt: Prompt text
+	 * - note: Vault path or name of a note to mention before the prompt
+	 * - send: "true" to send once the session is ready
+	 * - view: "sidebar" (default) or "floating"
+	 */
+	private async handleProtocolUri(
+		params: ObsidianProtocolData,
+	): Promise<void> {
+		const agentId = params.agent || this.settings.defaultAgentId;
+		if (!this.getAvailableAgents().some((a) => a.id === agentId)) {
+			new Notice(`[Agent Client] Unknown agent: ${agentId}`);
+			return;
+		}
+
+		const viewType = params.view || "sidebar";
+		if (viewType !== "sidebar" && viewType !== "floating") {
+			new Notice(`[Agent Client] Unknown view: ${viewType}`);
+			return;
+		}
+
+		let mention = "";
+		if (params.note) {
+			const file =
+				this.app.vault.getFileByPath(params.note) ??
+				this.app.metadataCache.getFirstLinkpathDest(params.note, "");
+			if (!file || file.extension !== "md") {
+				new Notice(`[Agent Client] Note not found: ${params.note}`);
+				return;
+			}
+			mention = buildNoteMention({ noteName: file.basename });
+		}
+		const prompt = [mention, params.prompt ?? ""]
+			.filter((part) => part.trim() !== "")
+			.join("\n");
+
+		let viewId: string | null = null;
+		if (viewType === "floating" && this.settings.enableFloatingChat) {
+			viewId = this.openNewFloatingChat(true, undefined, agentId).viewId;
+		} else {
+			if (viewType === "floating") {
+				new Notice(
+					"[Agent Client] Floating chat is disabled. Opening the chat in the sidebar.",
+				);
+			}
+			const leaf = await this.openNewChatViewWithAgent(agentId);
+			viewId = leaf?.view instanceof ChatView ? leaf.view.viewId : null;
+		}
+
+		const view = viewId ? await this.waitForChatView(viewId) : null;
+		if (!view) {
+			new Notice("[Agent Client] Could not open a chat view");
+			return;
+		}
+		if (prompt) {
+			// Any web page or app can open the URI, so sending is opt-in
+			const send = params.send === "true";
+			if (send && !this.settings.allowUriSend) {
+				new Notice(
+					"[Agent Client] Sending prompts from links is turned off in settings. Review the prompt and send it yourself.",
+				);
+			}
+			await this.fillChatInput(
+				view,
+				prompt,
+				send && this.settings.allowUriSend,
+			);
+		}
+	}
+
+	/**
+	 * Poll until `get` returns a value or the timeout elapses.
+	 */
+	private async waitFor<T>(
+		get: () => T | null,
+		timeoutMs: number,
+	): Promise<T | null> {
+		const deadline = Date.now() + timeoutMs;
+		let value = get();
+		while (value === null && Date.now() < deadline) {
+			await new Promise((r) => window.setTimeout(r, 100));
+			value = get();
+		}
+		return value;
+	}
+
+	/**
+	 * Absolute path of a vault path (as the agent sees it).
+	 * Falls back to the vault-relative path on mobile.
+	 */
+	private toAbsoluteVaultPath(vaultPath: string): string {
+		const adapter = this.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) return vaultPath;
+
+		const absolutePath =
+			vaultPath === "/"
+				? adapter.getBasePath()
+				: adapter.getFullPath(vaultPath);
+		return Platform.isWin && this.settings.windowsWslMode
+			? convertWindowsPathToWsl(absolutePath)
+			: absolutePath;
+	}
+
 	async loadSettings() {
 		const raw = ((await this.loadData()) ?? {}) as Record<string, unknown>;
 		const D = DEFAULT_SETTINGS;
@@ -836,6 +1700,11 @@ export default class AgentClientPlugin extends Plugin {
 		const rg = obj(raw.gemini) ?? {};
 		const re = obj(raw.exportSettings) ?? {};
 		const rd = obj(raw.displaySettings) ?? {};
+		const rw = obj(raw.fileWriteSettings) ?? {};
+		const rm = obj(raw.terminalSettings) ?? {};
+		const rx = obj(raw.contextActionSettings) ?? {};
+		const rt = obj(raw.backgroundTaskSettings) ?? {};
+		const rh = obj(raw.sessionHistorySettings) ?? {};
 
 		// Normalize custom agents
 		const customAgents = Array.isArray(raw.customAgents)
@@ -872,6 +1741,7 @@ export default class AgentClientPlugin extends Plugin {
 					D.claude.command,
 				args: sanitizeArgs(rc.args),
 				env: normalizeEnvVars(rc.env),
+				mcpServers: normalizeMcpServers(rc.mcpServers),
 			},
 			codex: {
 				id: D.codex.id,
@@ -880,6 +1750,7 @@ export default class AgentClientPlugin extends Plugin {
 				command: str(rk.command, "") || D.codex.command,
 				args: sanitizeArgs(rk.args),
 				env: normalizeEnvVars(rk.env),
+				mcpServers: normalizeMcpServers(rk.mcpServers),
 			},
 			gemini: {
 				id: D.gemini.id,
@@ -895,17 +1766,85 @@ export default class AgentClientPlugin extends Plugin {
 						? sanitizeArgs(rg.args)
 						: D.gemini.args,
 				env: normalizeEnvVars(rg.env),
+				mcpServers: normalizeMcpServers(rg.mcpServers),
 			},
 			customAgents,
+			mcpServers: normalizeMcpServers(raw.mcpServers),
+			enableVaultMcpServer: bool(
+				raw.enableVaultMcpServer,
+				D.enableVaultMcpServer,
+			),
 			defaultAgentId,
 			autoAllowPermissions: bool(
 				raw.autoAllowPermissions,
 				D.autoAllowPermissions,
 			),
+			permissionRules: normalizePermissionRules(raw.permissionRules),
+			enableAuditLog: bool(raw.enableAuditLog, D.enableAuditLog),
+			allowUriSend: bool(raw.allowUriSend, D.allowUriSend),
+			fileWriteSettings: {
+				mode: enumVal(
+					rw.mode,
+					["disabled", "auto", "review"],
+					D.fileWriteSettings.mode,
+				),
+				restrictToWorkingDirectory: bool(
+					rw.restrictToWorkingDirectory,
+					D.fileWriteSettings.restrictToWorkingDirectory,
+				),
+			},
+			terminalSettings: {
+				usePty: bool(rm.usePty, D.terminalSettings.usePty),
+				allowedCommands: sanitizeArgs(rm.allowedCommands),
+				deniedCommands: sanitizeArgs(rm.deniedCommands),
+				cwdRestriction: enumVal(
+					rm.cwdRestriction,
+					["any", "vault", "working-directory"],
+					D.terminalSettings.cwdRestriction,
+				),
+				scrubbedEnvVars: sanitizeArgs(rm.scrubbedEnvVars),
+				timeoutSeconds: num(
+					rm.timeoutSeconds,
+					D.terminalSettings.timeoutSeconds,
+					0,
+				),
+				maxOutputBytes: num(
+					rm.maxOutputBytes,
+					D.terminalSettings.maxOutputBytes,
+					0,
+				),
+			},
 			autoMentionActiveNote: bool(
 				raw.autoMentionActiveNote,
 				D.autoMentionActiveNote,
 			),
+			contextActionSettings: {
+				showInMenus: bool(
+					rx.showInMenus,
+					D.contextActionSettings.showInMenus,
+				),
+				sendImmediately: bool(
+					rx.sendImmediately,
+					D.contextActionSettings.sendImmediately,
+				),
+			},
+			promptTemplateFolder: str(
+				raw.promptTemplateFolder,
+				D.promptTemplateFolder,
+			),
+			backgroundTaskSettings: {
+				concurrency: num(
+					rt.concurrency,
+					D.backgroundTaskSettings.concurrency,
+					1,
+				),
+				permissionPolicy: enumVal(
+					rt.permissionPolicy,
+					["allow", "reject"],
+					D.backgroundTaskSettings.permissionPolicy,
+				),
+			},
+			automations: normalizeAutomations(raw.automations),
 			enableSystemNotifications: bool(
 				raw.enableSystemNotifications,
 				D.enableSystemNotifications,
@@ -913,6 +1852,11 @@ export default class AgentClientPlugin extends Plugin {
 			debugMode: bool(raw.debugMode, D.debugMode),
 			nodePath: str(raw.nodePath, D.nodePath),
 			exportSettings: {
+				format: enumVal(
+					re.format,
+					["markdown", "json", "html", "canvas"],
+					D.exportSettings.format,
+				),
 				defaultFolder: str(
 					re.defaultFolder,
 					D.exportSettings.defaultFolder,
@@ -950,6 +1894,10 @@ export default class AgentClientPlugin extends Plugin {
 					re.frontmatterTag,
 					D.exportSettings.frontmatterTag,
 				),
+				markdownTemplate: normalizeMarkdownExportTemplate(
+					re.markdownTemplate,
+					D.exportSettings.markdownTemplate,
+				),
 			},
 			windowsWslMode: bool(raw.windowsWslMode, D.windowsWslMode),
 			windowsWslDistribution: str(
@@ -992,6 +1940,18 @@ export default class AgentClientPlugin extends Plugin {
 			savedSessions: Array.isArray(raw.savedSessions)
 				? (raw.savedSessions as SavedSessionInfo[])
 				: D.savedSessions,
+			sessionHistorySettings: {
+				maxSavedSessions: num(
+					rh.maxSavedSessions,
+					D.sessionHistorySettings.maxSavedSessions,
+					0,
+				),
+				retentionPolicy: enumVal(
+					rh.retentionPolicy,
+					["oldest", "archived-first"],
+					D.sessionHistorySettings.retentionPolicy,
+				),
+			},
 			lastUsedModels: strRecord(raw.lastUsedModels),
 			lastUsedModes: strRecord(raw.lastUsedModes),
 			// Migration: enableFloatingChat ← showFloatingButton (old name)
@@ -0,0 +1,228 @@
+/**
+ * Audit log for permission decisions and tool call outcomes.
+ *
+ * Handles:
+ * - Appending entries to audit-log.jsonl in the plugin folder
+ * - Reading and filtering entries for the audit log viewer
+ * - Exporting entries to a markdown note
+ *
+ * The file is append-only; entries are never rewritten or removed by the
+ * plugin.
+ */
+
+import type AgentClientPlugin from "../plugin";
+import type {
+	AuditDecision,
+	AuditLogEntry,
+	AuditLogInput,
+} from "../types/audit";
+import type { ToolKind } from "../types/chat";
+import { getLogger, Logger } from "../utils/logger";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filters applied in the audit log viewer. Empty values match anything.
+ */
+export interface AuditLogFilter {
+	agentId: string;
+	kind: ToolKind | "";
+	/** Permission outcome, or a final tool status */
+	outcome: AuditDecision | "completed" | "failed" | "";
+	/** Case-insensitive text matched against title and locations */
+	query: string;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+const AUDIT_LOG_FILE = "audit-log.jsonl";
+
+export class AuditLog {
+	private logger: Logger;
+
+	/** Serializes appends so lines never interleave */
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Path of the JSONL file (vault-relative, inside the plugin folder).
+	 */
+	getFilePath(): string {
+		const pluginDir =
+			this.plugin.manifest.dir ??
+			`${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+		return `${pluginDir}/${AUDIT_LOG_FILE}`;
+	}
+
+	/**
+	 * Append an entry. Does nothing when the audit log is disabled.
+	 * Write errors are logged, never thrown.
+	 */
+	record(input: AuditLogInput): void {
+		if (!this.plugin.settings.enableAuditLog) return;
+
+		const entry: AuditLogEntry = {
+			timestamp: new Date().toISOString(),
+			...input,
+		};
+		const line = JSON.stringify(entry) + "\n";
+
+		this.writeQueue = this.writeQueue
+			.then(async () => {
+				const adapter = this.plugin.app.vault.adapter;
+				const filePath = this.getFilePath();
+				if (await adapter.exists(filePath)) {
+					await adapter.append(filePath, line);
+				} else {
+					await adapter.write(filePath, line);
+				}
+			})
+			.catch((error) => {
+				this.logger.error("[AuditLog] Failed to append entry:", error);
+			});
+	}
+
+	/**
+	 * Read all entries, newest first. Malformed lines are skipped.
+	 */
+	async readEntries(): Promise<AuditLogEntry[]> {
+		await this.writeQueue;
+
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = this.getFilePath();
+		if (!(await adapter.exists(filePath))) {
+			return [];
+		}
+
+		const entries: AuditLogEntry[] = [];
+		const content = await adapter.read(filePath);
+		for (const line of content.split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const entry = JSON.parse(line) as AuditLogEntry;
+				if (entry && typeof entry.timestamp === "string") {
+					entries.push({
+						...entry,
+						locations: Array.isArray(entry.locations)
+							? entry.locations
+							: [],
+					});
+				}
+			} catch {
+				this.logger.warn("[AuditLog] Skipping malformed line");
+			}
+		}
+		return entries.reverse();
+	}
+
+	/**
+	 * Write entries to a markdown note in the export folder and open it.
+	 *
+	 * @returns Path of the created note
+	 */
+	async exportToMarkdown(entries: AuditLogEntry[]): Promise<string> {
+		const folderPath =
+			this.plugin.settings.exportSettings.defaultFolder || "Agent Client";
+		if (!this.plugin.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.plugin.app.vault.createFolder(folderPath);
+		}
+
+		const now = new Date();
+		const stamp = now
+			.toISOString()
+			.slice(0, 19)
+			.replace("T", "_")
+			.replace(/:/g, "");
+		let filePath = `${folderPath}/agent_client_audit_${stamp}.md`;
+		let suffix = 2;
+		while (this.plugin.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = `${folderPath}/agent_client_audit_${stamp}_${suffix}.md`;
+			suffix += 1;
+		}
+
+		const file = await this.plugin.app.vault.create(
+			filePath,
+			formatAuditEntriesAsMarkdown(entries, now),
+		);
+		await this.plugin.app.workspace.getLeaf(false).openFile(file);
+		this.logger.log(`[AuditLog] Exported ${entries.length} entries`);
+		return filePath;
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Outcome shown for an entry: the permission decision or the final status.
+ */
+export function getAuditOutcome(entry: AuditLogEntry): string {
+	return entry.event === "permission"
+		? (entry.decision ?? "")
+		: (entry.status ?? "");
+}
+
+/**
+ * Apply viewer filters to entries (order is kept).
+ */
+export function filterAuditEntries(
+	entries: AuditLogEntry[],
+	filter: AuditLogFilter,
+): AuditLogEntry[] {
+	const query = filter.query.trim().toLowerCase();
+	return entries.filter(
+		(entry) =>
+			(!filter.agentId || entry.agentId === filter.agentId) &&
+			(!filter.kind || entry.kind === filter.kind) &&
+			(!filter.outcome || getAuditOutcome(entry) === filter.outcome) &&
+			(!query ||
+				(entry.title ?? "").toLowerCase().includes(query) ||
+				entry.locations.some((location) =>
+					location.toLowerCase().includes(query),
+				)),
+	);
+}
+
+function formatAuditEntriesAsMarkdown(
+	entries: AuditLogEntry[],
+	exportedAt: Date,
+): string {
+	const escape = (value: string) =>
+		value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+	const rows = entries.map((entry) =>
+		[
+			entry.timestamp,
+			entry.agentId ?? "",
+			entry.sessionId ?? "",
+			entry.kind ?? "",
+			entry.title ?? "",
+			entry.locations.join(", "),
+			getAuditOutcome(entry),
+			entry.decidedBy ?? "",
+		]
+			.map((cell) => escape(cell))
+			.join(" | "),
+	);
+
+	return [
+		"---",
+		`exported: ${exportedAt.toISOString()}`,
+		`entries: ${entries.length}`,
+		"---",
+		"",
+		"# Agent audit log",
+		"",
+		"| Time | Agent | Session | Kind | Title | Locations | Outcome | Decided by |",
+		"| --- | --- | --- | --- | --- | --- | --- | --- |",
+		...rows.map((row) => `| ${row} |`),
+		"",
+	].join("\n");
+}
@@ -0,0 +1,138 @@
+/**
+ * Run history of automations.
+ *
+ * Handles:
+ * - Run file I/O (automation-runs.json in the plugin folder)
+ * - Keeping the newest MAX_RUNS runs
+ * - Closing runs that were interrupted by a reload
+ */
+
+import type AgentClientPlugin from "../plugin";
+import type { AutomationRun } from "../types/automation";
+import { getLogger, Logger } from "../utils/logger";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const AUTOMATION_RUNS_FILE = "automation-runs.json";
+
+/** Maximum number of runs to keep */
+const MAX_RUNS = 200;
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class AutomationRunLog {
+	private logger: Logger;
+
+	/** Runs, newest first (null until loaded) */
+	private runs: AutomationRun[] | null = null;
+
+	/** Serializes writes so saves never interleave */
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * All runs, newest first. Runs still marked as running from an earlier
+	 * session are closed as failed.
+	 */
+	async getRuns(): Promise<AutomationRun[]> {
+		if (!this.runs) {
+			this.runs = (await this.readFile()).map((run) =>
+				run.status === "running"
+					? {
+							...run,
+							status: "failed",
+							error: "Interrupted before the run finished",
+						}
+					: run,
+			);
+		}
+		return this.runs;
+	}
+
+	/**
+	 * Start time of the latest run of an automation by a trigger.
+	 */
+	async getLastRunTime(
+		automationId: string,
+		trigger: AutomationRun["trigger"],
+	): Promise<Date | null> {
+		const run = (await this.getRuns()).find(
+			(r) => r.automationId === automationId && r.trigger === trigger,
+		);
+		return run ? new Date(run.startedAt) : null;
+	}
+
+	/**
+	 * Add a run, or replace the run with the same ID.
+	 */
+	async save(run: AutomationRun): Promise<void> {
+		const runs = await this.getRuns();
+		this.runs = [run, ...runs.filter((r) => r.id !== run.id)]
+			.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+			.slice(0, MAX_RUNS);
+		this.queueWrite();
+	}
+
+	/**
+	 * Remove all runs.
+	 */
+	async clear(): Promise<void> {
+		await this.getRuns();
+		this.runs = [];
+		this.queueWrite();
+		await this.writeQueue;
+	}
+
+	private getFilePath(): string {
+		const pluginDir =
+			this.plugin.manifest.dir ??
+			`${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+		return `${pluginDir}/${AUTOMATION_RUNS_FILE}`;
+	}
+
+	private async readFile(): Promise<AutomationRun[]> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = this.getFilePath();
+		if (!(await adapter.exists(filePath))) {
+			return [];
+		}
+
+		try {
+			const data = JSON.parse(await adapter.read(filePath)) as unknown;
+			if (!Array.isArray(data)) {
+				this.logger.warn(
+					`[AutomationRunLog] Invalid run file: ${filePath}`,
+				);
+				return [];
+			}
+			return data as AutomationRun[];
+		} catch (error) {
+			this.logger.error("[AutomationRunLog] Failed to read runs:", error);
+			return [];
+		}
+	}
+
+	private queueWrite(): void {
+		const content = JSON.stringify(this.runs ?? []);
+		this.writeQueue = this.writeQueue
+			.then(() =>
+				this.plugin.app.vault.adapter.write(
+					this.getFilePath(),
+					content,
+				),
+			)
+			.catch((error) => {
+				this.logger.error(
+					"[AutomationRunLog] Failed to write runs:",
+					error,
+				);
+			});
+	}
+}
@@ -0,0 +1,530 @@
+/**
+ * Automations: prompts that run as background tasks on a schedule or on
+ * vault events.
+ *
+ * Handles:
+ * - Schedules (checked every minute; a run missed while Obsidian was
+ *   closed is made up once later that day)
+ * - Vault events: note created, note modified, tag added (in a folder)
+ * - Building the prompt from the automation's text or template, with the
+ *   triggering note as {{activeNote}}
+ * - Recording each run in the run history
+ *
+ * Event runs wait until the note has settled (no changes for
+ * EVENT_SETTLE_MS). Notes the plugin writes itself (templates, exports,
+ * target notes) never trigger, so automations cannot trigger each other.
+ */
+
+import {
+	debounce,
+	getAllTags,
+	normalizePath,
+	TFile,
+	type CachedMetadata,
+	type Debouncer,
+} from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import type {
+	Automation,
+	AutomationRun,
+	AutomationTrigger,
+} from "../types/automation";
+import { AutomationRunLog } from "./automation-run-log";
+import { getLogger, Logger } from "../utils/logger";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How often schedules are checked */
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/** Quiet time after the last change before an event run starts */
+const EVENT_SETTLE_MS = 10 * 1000;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+interface PendingRun {
+	run: AutomationRun;
+	/** Key of an event run (automation + note), released when it finishes */
+	eventKey: string | null;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class AutomationService {
+	readonly runLog: AutomationRunLog;
+
+	private logger: Logger;
+
+	/** Runs whose background task has not finished, by task ID */
+	private pendingRuns = new Map<string, PendingRun>();
+	/** Event runs waiting or in progress (automation ID + note path) */
+	private activeEventKeys = new Set<string>();
+	private eventDebouncers = new Map<string, Debouncer<[], void>>();
+	/** Tags per note, to detect added tags */
+	private noteTags = new Map<string, Set<string>>();
+
+	/** Enabled schedules seen so far, with the time they were first seen */
+	private scheduleBaselines = new Map<string, Date>();
+	private isCheckingSchedules = false;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+		this.runLog = new AutomationRunLog(plugin);
+	}
+
+	/**
+	 * Start watching schedules and vault events.
+	 * Called once the workspace layout is ready (the vault is indexed).
+	 */
+	start(): void {
+		const { vault, metadataCache } = this.plugin.app;
+
+		// Schedules enabled at startup may make up a missed run;
+		// schedules enabled later start from now
+		for (const automation of this.getEnabled("schedule")) {
+			this.scheduleBaselines.set(automation.id, new Date(0));
+		}
+
+		for (const file of vault.getMarkdownFiles()) {
+			this.noteTags.set(
+				file.path,
+				getNoteTags(metadataCache.getFileCache(file)),
+			);
+		}
+
+		this.plugin.registerEvent(
+			vault.on("create", (file) => {
+				if (file instanceof TFile && file.extension === "md") {
+					this.handleNoteEvent("note_created", file);
+				}
+			}),
+		);
+		this.plugin.registerEvent(
+			metadataCache.on("changed", (file, _data, cache) => {
+				this.handleNoteEvent("note_modified", file);
+				this.handleTagChanges(file, cache);
+			}),
+		);
+		this.plugin.registerEvent(
+			vault.on("rename", (file, oldPath) => {
+				const tags = this.noteTags.get(oldPath);
+				if (tags) {
+					this.noteTags.delete(oldPath);
+					this.noteTags.set(file.path, tags);
+				}
+			}),
+		);
+		this.plugin.registerEvent(
+			vault.on("delete", (file) => {
+				this.noteTags.delete(file.path);
+			}),
+		);
+
+		this.plugin.register(
+			this.plugin.taskQueue.subscribe(() => this.handleTaskChanges()),
+		);
+
+		this.plugin.registerInterval(
+			window.setInterval(
+				() => void this.checkSchedules(),
+				SCHEDULE_CHECK_INTERVAL_MS,
+			),
+		);
+		void this.checkSchedules();
+	}
+
+	/**
+	 * Drop event runs that are still waiting for their note to settle.
+	 */
+	dispose(): void {
+		for (const debouncer of this.eventDebouncers.values()) {
+			debouncer.cancel();
+		}
+		this.eventDebouncers.clear();
+		this.activeEventKeys.clear();
+		this.pendingRuns.clear();
+	}
+
+	/**
+	 * Run an automation now, outside its trigger.
+	 * Event automations use the active note as the triggering note.
+	 */
+	async runNow(automation: Automation): Promise<void> {
+		const note =
+			automation.trigger === "schedule"
+				? null
+				: this.plugin.app.workspace.getActiveFile();
+		await this.run(automation, note, null);
+	}
+
+	/**
+	 * Build the prompt and queue the background task.
+	 * Failures (e.g. a missing template) are recorded as failed runs.
+	 */
+	private async run(
+		automation: Automation,
+		note: TFile | null,
+		eventKey: string | null,
+	): Promise<void> {
+		const run: AutomationRun = {
+			id: crypto.randomUUID(),
+			automationId: automation.id,
+			automationName: automation.name,
+			trigger: automation.trigger,
+			notePath: note?.path ?? null,
+			startedAt: new Date().toISOString(),
+			finishedAt: null,
+			status: "running",
+			resultPath: null,
+			error: null,
+		};
+		this.logger.log(
+			`[AutomationService] Running "${automation.name}" (${automation.trigger})`,
+		);
+
+		try {
+			const { prompt, agentId } = await this.buildPrompt(
+				automation,
+				note,
+			);
+			const task = this.plugin.taskQueue.enqueue({
+				prompt,
+				agentId,
+				output: automation.output,
+				notePath: getTargetNotePath(automation) ?? undefined,
+				label: automation.name,
+			});
+			this.pendingRuns.set(task.id, { run, eventKey });
+			await this.runLog.save(run);
+		} catch (error) {
+			if (eventKey) this.activeEventKeys.delete(eventKey);
+			this.logger.error(
+				`[AutomationService] "${automation.name}" failed:`,
+				error,
+			);
+			await this.runLog.save({
+				...run,
+				status: "failed",
+				finishedAt: new Date().toISOString(),
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private async buildPrompt(
+		automation: Automation,
+		note: TFile | null,
+	): Promise<{ prompt: string; agentId: string | undefined }> {
+		const templates = this.plugin.promptTemplates;
+		// Nobody can answer {{input}} placeholders; they are left empty
+		const askInput = () => Promise.resolve("");
+		const context = { note };
+
+		if (automation.templatePath) {
+			const path = normalizePath(automation.templatePath);
+			const template = templates
+				.getTemplates()
+				.find((t) => t.path === path || t.name === path);
+			if (!template) {
+				throw new Error(
+					`Template not found: ${automation.templatePath}`,
+				);
+			}
+			const prompt = await templates.render(template, askInput, context);
+			return {
+				prompt: prompt ?? "",
+				agentId: automation.agentId || template.preferences.agent,
+			};
+		}
+
+		const prompt = await templates.renderText(
+			automation.prompt,
+			askInput,
+			context,
+		);
+		return {
+			prompt: prompt ?? "",
+			agentId: automation.agentId || undefined,
+		};
+	}
+
+	// ========================================================================
+	// Schedules
+	// ========================================================================
+
+	private async checkSchedules(): Promise<void> {
+		if (this.isCheckingSchedules) return;
+		this.isCheckingSchedules = true;
+		try {
+			const now = new Date();
+			const enabled = this.getEnabled("schedule");
+			// Forget disabled schedules so re-enabling starts from now
+			for (const id of this.scheduleBaselines.keys()) {
+				if (!enabled.some((automation) => automation.id === id)) {
+					this.scheduleBaselines.delete(id);
+				}
+			}
+
+			for (const automation of enabled) {
+				let baseline = this.scheduleBaselines.get(automation.id);
+				if (!baseline) {
+					baseline = now;
+					this.scheduleBaselines.set(automation.id, baseline);
+				}
+
+				const scheduled = getScheduledTime(automation, now);
+				if (!scheduled || scheduled > now || scheduled <= baseline) {
+					continue;
+				}
+				const lastRun = await this.runLog.getLastRunTime(
+					automation.id,
+					"schedule",
+				);
+				if (lastRun && lastRun >= scheduled) continue;
+
+				await this.run(automation, null, null);
+			}
+		} finally {
+			this.isCheckingSchedules = false;
+		}
+	}
+
+	// ========================================================================
+	// Vault Events
+	// ========================================================================
+
+	private handleNoteEvent(trigger: AutomationTrigger, file: TFile): void {
+		if (this.isIgnoredPath(file.path)) return;
+
+		for (const automation of this.getEnabled(trigger)) {
+			if (isInFolder(file.path, automation.folder)) {
+				this.queueEventRun(automation, file);
+			}
+		}
+	}
+
+	private handleTagChanges(file: TFile, cache: CachedMetadata): void {
+		const previous = this.noteTags.get(file.path) ?? new Set<string>();
+		const current = getNoteTags(cache);
+		this.noteTags.set(file.path, current);
+		if (this.isIgnoredPath(file.path)) return;
+
+		for (const automation of this.getEnabled("tag_added")) {
+			const tag = normalizeTag(automation.tag);
+			if (
+				tag &&
+				current.has(tag) &&
+				!previous.has(tag) &&
+				isInFolder(file.path, automation.folder)
+			) {
+				this.queueEventRun(automation, file);
+			}
+		}
+	}
+
+	/**
+	 * Run an automation for a note once the note has settled. Events for
+	 * a note whose run is waiting or in progress only delay the wait.
+	 */
+	private queueEventRun(automation: Automation, file: TFile): void {
+		const key = `${automation.id}:${file.path}`;
+		const pending = this.eventDebouncers.get(key);
+		if (pending) {
+			pending();
+			return;
+		}
+		if (this.activeEventKeys.has(key)) return;
+
+		this.activeEventKeys.add(key);
+		const debouncer = debounce(
+			() => {
+				this.eventDebouncers.delete(key);
+				// Settings may have changed while waiting
+				const current = this.plugin.settings.automations.find(
+					(a) => a.id === automation.id && a.enabled,
+				);
+				const note = this.plugin.app.vault.getFileByPath(file.path);
+				if (!current || !note) {
+					this.activeEventKeys.delete(key);
+					return;
+				}
+				void this.run(current, note, key);
+			},
+			EVENT_SETTLE_MS,
+			true,
+		);
+		this.eventDebouncers.set(key, debouncer);
+		debouncer();
+	}
+
+	/**
+	 * Notes written by the plugin: templates, chat exports and the target
+	 * notes of automations.
+	 */
+	private isIgnoredPath(path: string): boolean {
+		const settings = this.plugin.settings;
+		if (this.plugin.promptTemplates.isTemplatePath(path)) return true;
+		const exportFolder = normalizePath(
+			settings.exportSettings.defaultFolder || "Agent Client",
+		);
+		if (isInFolder(path, exportFolder)) return true;
+		return settings.automations.some(
+			(automation) => getTargetNotePath(automation) === path,
+		);
+	}
+
+	// ========================================================================
+	// Run Results
+	// ========================================================================
+
+	/**
+	 * Record the runs whose background task has finished.
+	 */
+	private handleTaskChanges(): void {
+		if (this.pendingRuns.size === 0) return;
+
+		const tasks = this.plugin.taskQueue.getSnapshot();
+		for (const [taskId, { run, eventKey }] of this.pendingRuns) {
+			const task = tasks.find((t) => t.id === taskId);
+			if (
+				!task ||
+				task.status === "queued" ||
+				task.status === "running"
+			) {
+				continue;
+			}
+
+			this.pendingRuns.delete(taskId);
+			if (eventKey) this.activeEventKeys.delete(eventKey);
+			void this.runLog.save({
+				...run,
+				status: task.status,
+				finishedAt: (task.finishedAt ?? new Date()).toISOString(),
+				resultPath: task.resultPath,
+				error: task.error,
+			});
+		}
+	}
+
+	private getEnabled(trigger: AutomationTrigger): Automation[] {
+		return this.plugin.settings.automations.filter(
+			(automation) =>
+				automation.enabled && automation.trigger === trigger,
+		);
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create an automation with defaults (weekdays at 09:00).
+ */
+export function createAutomation(
+	overrides: Partial<Automation> = {},
+): Automation {
+	return {
+		id: crypto.randomUUID(),
+		name: "New automation",
+		enabled: false,
+		trigger: "schedule",
+		time: "09:00",
+		days: [1, 2, 3, 4, 5],
+		folder: "",
+		tag: "",
+		prompt: "",
+		templatePath: "",
+		agentId: "",
+		output: "note",
+		notePath: "",
+		...overrides,
+	};
+}
+
+/**
+ * One-line summary of an automation's trigger.
+ *
+ * @example
+ * describeAutomation(automation) // "Mon, Tue at 09:00"
+ */
+export function describeAutomation(automation: Automation): string {
+	const where = automation.folder ? ` in ${automation.folder}` : "";
+	switch (automation.trigger) {
+		case "schedule": {
+			const days =
+				automation.days.length === 7
+					? "Every day"
+					: automation.days
+							.map((day) => WEEKDAY_NAMES[day])
+							.join(", ") || "No days";
+			return `${days} at ${automation.time}`;
+		}
+		case "note_created":
+			return `Note created${where}`;
+		case "note_modified":
+			return `Note modified${where}`;
+		case "tag_added":
+			return `Tag #${normalizeTag(automation.tag)} added${where}`;
+	}
+}
+
+/**
+ * Whether a time of day is valid (HH:mm, 24-hour).
+ */
+export function isValidTime(time: string): boolean {
+	return TIME_PATTERN.test(time.trim());
+}
+
+/**
+ * Today's scheduled time, or null if the schedule does not run today.
+ */
+function getScheduledTime(automation: Automation, now: Date): Date | null {
+	const match = TIME_PATTERN.exec(automation.time.trim());
+	if (!match || !automation.days.includes(now.getDay())) return null;
+
+	const scheduled = new Date(now);
+	scheduled.setHours(Number(match[1]), Number(match[2]), 0, 0);
+	return scheduled;
+}
+
+/**
+ * Vault path of the note an automation appends to, or null.
+ */
+function getTargetNotePath(automation: Automation): string | null {
+	if (automation.output !== "note" || !automation.notePath.trim()) {
+		return null;
+	}
+	const path = normalizePath(automation.notePath);
+	return path.endsWith(".md") ? path : `${path}.md`;
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	const normalized = folder.trim() ? normalizePath(folder) : "";
+	return (
+		normalized === "" ||
+		normalized === "/" ||
+		path.startsWith(`${normalized}/`)
+	);
+}
+
+/**
+ * Lowercase tag without the leading #.
+ */
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+function getNoteTags(cache: CachedMetadata | null): Set<string> {
+	return new Set((cache ? (getAllTags(cache) ?? []) : []).map(normalizeTag));
+}
@@ -0,0 +1,241 @@
+/**
+ * Canvas chat export: lays out the messages of a chat as a column of text
+ * nodes, with tool calls and plans as side cards linked to file nodes for
+ * the vault files they touched.
+ * Used by ChatExporter, which supplies the markdown of each content block.
+ */
+
+import type {
+	AllCanvasNodeData,
+	CanvasData,
+	CanvasEdgeData,
+	CanvasTextData,
+	NodeSide,
+} from "obsidian/canvas";
+
+import type { ChatMessage, MessageContent } from "../types/chat";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CanvasExportInput {
+	agentLabel: string;
+	agentId: string;
+	sessionId: string;
+	/** Timestamp of the first message (or session creation) */
+	createdAt: Date;
+	messages: ChatMessage[];
+	/** Markdown of a content block, as in the markdown export */
+	toMarkdown: (content: MessageContent) => Promise<string>;
+	/** Vault path of a file path from a tool call, or null if outside the vault */
+	toVaultPath: (path: string) => string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Column positions: messages, side cards, files */
+const MESSAGE_X = 0;
+const CARD_X = 720;
+const FILE_X = 1440;
+
+const MESSAGE_WIDTH = 640;
+const CARD_WIDTH = 560;
+const FILE_WIDTH = 400;
+const FILE_HEIGHT = 400;
+
+const GAP = 40;
+const MIN_HEIGHT = 80;
+const MAX_HEIGHT = 800;
+/** Rough text metrics for estimating node heights */
+const LINE_HEIGHT = 24;
+const CHARS_PER_LINE = 70;
+
+/** Canvas preset colors */
+const USER_COLOR = "5";
+const PLAN_COLOR = "6";
+const FAILED_COLOR = "1";
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Build the canvas for a chat.
+ */
+export async function buildChatCanvas(
+	input: CanvasExportInput,
+): Promise<CanvasData> {
+	const nodes: AllCanvasNodeData[] = [];
+	const edges: CanvasEdgeData[] = [];
+	const fileNodeIds = new Map<string, string>();
+
+	const connect = (
+		fromNode: string,
+		fromSide: NodeSide,
+		toNode: string,
+		toSide: NodeSide,
+	) => {
+		edges.push({ id: createId(), fromNode, fromSide, toNode, toSide });
+	};
+
+	const header = textNode(
+		`# ${input.agentLabel}\n\n${input.createdAt.toLocaleString()} · Session \`${input.sessionId}\``,
+		MESSAGE_X,
+		0,
+		MESSAGE_WIDTH,
+	);
+	nodes.push(header);
+
+	let previousId = header.id;
+	let y = header.height + GAP;
+	let fileY = y;
+
+	for (const message of input.messages) {
+		const role = message.role === "user" ? "User" : "Assistant";
+		let markdown = `## ${message.timestamp.toLocaleTimeString()} - ${role}\n\n`;
+		const cards: MessageContent[] = [];
+		for (const content of message.content) {
+			if (content.type === "tool_call" || content.type === "plan") {
+				cards.push(content);
+			} else {
+				markdown += await input.toMarkdown(content);
+			}
+		}
+
+		const messageNode = textNode(
+			markdown.trim(),
+			MESSAGE_X,
+			y,
+			MESSAGE_WIDTH,
+			message.role === "user" ? USER_COLOR : undefined,
+		);
+		nodes.push(messageNode);
+		connect(previousId, "bottom", messageNode.id, "top");
+		previousId = messageNode.id;
+
+		let cardY = y;
+		for (const content of cards) {
+			// Empty when the markdown template omits it
+			const text = (await input.toMarkdown(content)).trim();
+			if (!text) continue;
+			const card = textNode(
+				text,
+				CARD_X,
+				cardY,
+				CARD_WIDTH,
+				getCardColor(content),
+			);
+			nodes.push(card);
+			connect(messageNode.id, "right", card.id, "left");
+			cardY += card.height + GAP;
+
+			if (content.type !== "tool_call") continue;
+			for (const path of getTouchedFiles(content, input.toVaultPath)) {
+				let fileNodeId = fileNodeIds.get(path);
+				if (!fileNodeId) {
+					fileY = Math.max(fileY, card.y);
+					fileNodeId = createId();
+					nodes.push({
+						id: fileNodeId,
+						type: "file",
+						file: path,
+						x: FILE_X,
+						y: fileY,
+						width: FILE_WIDTH,
+						height: FILE_HEIGHT,
+					});
+					fileNodeIds.set(path, fileNodeId);
+					fileY += FILE_HEIGHT + GAP;
+				}
+				connect(card.id, "right", fileNodeId, "left");
+			}
+		}
+
+		y = Math.max(y + messageNode.height + GAP, cardY);
+	}
+
+	return { nodes, edges, agentId: input.agentId, sessionId: input.sessionId };
+}
+
+/**
+ * Read the session ID written by buildChatCanvas.
+ */
+export function readCanvasSessionId(json: string): string | null {
+	try {
+		const data = JSON.parse(json) as { sessionId?: unknown };
+		return typeof data.sessionId === "string" ? data.sessionId : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Vault paths of the files a tool call read or changed (locations and diffs).
+ */
+function getTouchedFiles(
+	tool: Extract<MessageContent, { type: "tool_call" }>,
+	toVaultPath: (path: string) => string | null,
+): string[] {
+	const paths = [
+		...(tool.locations ?? []).map((loc) => loc.path),
+		...(tool.content ?? []).flatMap((item) =>
+			item.type === "diff" ? [item.path] : [],
+		),
+	];
+	const vaultPaths = paths
+		.map(toVaultPath)
+		.filter((path): path is string => path !== null);
+	return [...new Set(vaultPaths)];
+}
+
+function getCardColor(content: MessageContent): string | undefined {
+	if (content.type === "plan") return PLAN_COLOR;
+	if (content.type === "tool_call" && content.status === "failed") {
+		return FAILED_COLOR;
+	}
+	return undefined;
+}
+
+function textNode(
+	text: string,
+	x: number,
+	y: number,
+	width: number,
+	color?: string,
+): CanvasTextData {
+	const node: CanvasTextData = {
+		id: createId(),
+		type: "text",
+		text,
+		x,
+		y,
+		width,
+		height: estimateHeight(text),
+	};
+	if (color) {
+		node.color = color;
+	}
+	return node;
+}
+
+/**
+ * Estimate the rendered height of markdown text (long nodes scroll).
+ */
+function estimateHeight(text: string): number {
+	const lines = text
+		.split("\n")
+		.reduce(
+			(sum, line) =>
+				sum + Math.max(1, Math.ceil(line.length / CHARS_PER_LINE)),
+			0,
+		);
+	return Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, lines * LINE_HEIGHT + 40));
+}
+
+/** 16-character hex ID, like the IDs Obsidian creates */
+function createId(): string {
+	return crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+}
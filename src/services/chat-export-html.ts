@@ -0,0 +1,431 @@
+/**
+ * Pure functions for the HTML chat export: a self-contained page (inline
+ * styles, images as data URIs) with styled diffs and terminal output.
+ * Used by ChatExporter.
+ */
+
+import type {
+	ChatMessage,
+	EmbeddedContentBlock,
+	MessageContent,
+	ToolCallContent,
+} from "../types/chat";
+import type { ExportedTerminalOutput } from "../types/chat-export";
+import { isSafeLinkUri } from "../utils/paths";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HtmlExportInput {
+	agentLabel: string;
+	agentId: string;
+	sessionId: string;
+	/** Timestamp of the first message (or session creation) */
+	createdAt: Date;
+	messages: ChatMessage[];
+	/** Terminal output by terminal ID */
+	terminals: Map<string, ExportedTerminalOutput>;
+}
+
+type ToolCallMessageContent = Extract<MessageContent, { type: "tool_call" }>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STYLES = `
+:root {
+	color-scheme: light dark;
+	--bg: #ffffff;
+	--fg: #1f2328;
+	--muted: #656d76;
+	--border: #d0d7de;
+	--card: #f6f8fa;
+	--user: #ddf4ff;
+	--added: #dafbe1;
+	--removed: #ffebe9;
+	--terminal-bg: #1e1e1e;
+	--terminal-fg: #d4d4d4;
+}
+@media (prefers-color-scheme: dark) {
+	:root {
+		--bg: #0d1117;
+		--fg: #e6edf3;
+		--muted: #8d96a0;
+		--border: #30363d;
+		--card: #161b22;
+		--user: #172b3d;
+		--added: #12361f;
+		--removed: #3c1618;
+	}
+}
+body {
+	margin: 0 auto;
+	max-width: 860px;
+	padding: 24px;
+	background: var(--bg);
+	color: var(--fg);
+	font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+}
+header { border-bottom: 1px solid var(--border); margin-bottom: 24px; }
+header .meta { color: var(--muted); font-size: 13px; }
+.message { margin: 16px 0; padding: 12px 16px; border-radius: 8px; }
+.message.user { background: var(--user); }
+.message-header { color: var(--muted); font-size: 13px; margin-bottom: 8px; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; margin: 8px 0; }
+.mention { color: var(--muted); font-size: 13px; }
+pre {
+	margin: 8px 0;
+	padding: 8px 12px;
+	overflow-x: auto;
+	border-radius: 6px;
+	background: var(--card);
+	font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace;
+}
+details { margin: 8px 0; }
+summary { cursor: pointer; color: var(--muted); }
+.card {
+	margin: 8px 0;
+	padding: 8px 12px;
+	border: 1px solid var(--border);
+	border-radius: 6px;
+	background: var(--bg);
+}
+.card-title { font-weight: 600; }
+.status { margin-left: 8px; color: var(--muted); font-size: 12px; font-weight: normal; }
+.status.failed { color: #cf222e; }
+.locations { color: var(--muted); font-size: 13px; }
+.diff pre { padding: 0; }
+.diff .line { display: block; padding: 0 12px; white-space: pre; }
+.diff .added { background: var(--added); }
+.diff .removed { background: var(--removed); }
+.diff-path { font: 13px ui-monospace, SFMono-Regular, Menlo, monospace; }
+.terminal pre { background: var(--terminal-bg); color: var(--terminal-fg); }
+.terminal .exit { color: var(--muted); font-size: 12px; }
+.plan { list-style: none; padding-left: 0; }
+.plan li.completed { color: var(--muted); text-decoration: line-through; }
+img { max-width: 100%; border-radius: 6px; }
+`;
+
+const PLAN_ICONS: Record<string, string> = {
+	completed: "✅",
+	in_progress: "🔄",
+	pending: "⏳",
+};
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Build the HTML page for a chat.
+ */
+export function buildChatHtml(input: HtmlExportInput): string {
+	const { agentLabel, agentId, sessionId, createdAt, messages } = input;
+	const body = messages
+		.map((message) => renderMessage(message, input.terminals))
+		.join("\n");
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="agent_id" content="${escapeHtml(agentId)}">
+<meta name="session_id" content="${escapeHtml(sessionId)}">
+<title>${escapeHtml(agentLabel)} - ${escapeHtml(createdAt.toLocaleString())}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(agentLabel)}</h1>
+<p class="meta">${escapeHtml(createdAt.toLocaleString())} · Session ${escapeHtml(sessionId)}</p>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Read the session ID written by buildChatHtml.
+ */
+export function readHtmlSessionId(html: string): string | null {
+	const match = /<meta name="session_id" content="([^"]*)">/.exec(html);
+	return match ? unescapeHtml(match[1]) : null;
+}
+
+function renderMessage(
+	message: ChatMessage,
+	terminals: Map<string, ExportedTerminalOutput>,
+): string {
+	const role = message.role === "user" ? "User" : "Assistant";
+	const content = message.content
+		.map((block) => renderContent(block, terminals))
+		.join("\n");
+	return `<section class="message ${message.role}">
+<div class="message-header">${escapeHtml(message.timestamp.toLocaleTimeString())} - ${role}</div>
+${content}
+</section>`;
+}
+
+function renderContent(
+	content: MessageContent,
+	terminals: Map<string, ExportedTerminalOutput>,
+): string {
+	switch (content.type) {
+		case "text":
+			return renderText(content.text);
+
+		case "text_with_context": {
+			let html = "";
+			if (content.autoMentionContext) {
+				const { noteName, selection } = content.autoMentionContext;
+				const range = selection
+					? `:${selection.fromLine}-${selection.toLine}`
+					: "";
+				html += `<div class="mention">@[[${escapeHtml(noteName)}]]${range}</div>`;
+			}
+			return html + renderText(content.text);
+		}
+
+		case "agent_thought":
+			return `<details class="thought"><summary>Thinking</summary>${renderText(content.text)}</details>`;
+
+		case "tool_call":
+			return renderToolCall(content, terminals);
+
+		case "terminal":
+			return renderTerminal(content.terminalId, terminals);
+
+		case "plan": {
+			const items = content.entries
+				.map(
+					(entry) =>
+						`<li class="${entry.status}">${PLAN_ICONS[entry.status] ?? "⏳"} ${escapeHtml(entry.content)}</li>`,
+				)
+				.join("");
+			return `<div class="card"><div class="card-title">Plan</div><ul class="plan">${items}</ul></div>`;
+		}
+
+		case "permission_request": {
+			const selected = content.options.find(
+				(option) => option.optionId === content.selectedOptionId,
+			);
+			const status = content.isCancelled
+				? "Cancelled"
+				: (selected?.name ?? "Requested");
+			return `<div class="card"><div class="card-title">⚠️ Permission: ${escapeHtml(content.toolCall.title || "Unknown")}<span class="status">${escapeHtml(status)}</span></div></div>`;
+		}
+
+		case "resource_link":
+			return renderLink(content.uri, content.name);
+
+		case "resource":
+			return `<details><summary>${escapeHtml(content.uri)}</summary><pre>${escapeHtml(content.text)}</pre></details>`;
+
+		case "image":
+			return renderImage(content);
+
+		case "audio":
+			return `<div class="text">🎤 <em>Voice clip</em></div>`;
+
+		default:
+			return "";
+	}
+}
+
+function renderToolCall(
+	tool: ToolCallMessageContent,
+	terminals: Map<string, ExportedTerminalOutput>,
+): string {
+	let html = `<div class="card tool-call"><div class="card-title">🔧 ${escapeHtml(tool.title || "Tool")}<span class="status ${tool.status}">${tool.status}</span></div>`;
+
+	if (tool.locations && tool.locations.length > 0) {
+		const locations = tool.locations
+			.map((loc) =>
+				escapeHtml(
+					loc.line != null ? `${loc.path}:${loc.line}` : loc.path,
+				),
+			)
+			.join(", ");
+		html += `<div class="locations">${locations}</div>`;
+	}
+
+	if (tool.rawInput && Object.keys(tool.rawInput).length > 0) {
+		html += `<details><summary>Input</summary><pre>${escapeHtml(JSON.stringify(tool.rawInput, null, 2))}</pre></details>`;
+	}
+
+	for (const item of tool.content ?? []) {
+		html += renderToolCallContent(item, terminals);
+	}
+
+	if (tool.permissionRequest) {
+		const { options, selectedOptionId, isCancelled } =
+			tool.permissionRequest;
+		const selected = options.find(
+			(option) => option.optionId === selectedOptionId,
+		);
+		const status = isCancelled
+			? "Cancelled"
+			: (selected?.name ?? "Requested");
+		html += `<div class="locations">⚠️ Permission: ${escapeHtml(status)}</div>`;
+	}
+
+	return html + "</div>";
+}
+
+function renderToolCallContent(
+	item: ToolCallContent,
+	terminals: Map<string, ExportedTerminalOutput>,
+): string {
+	switch (item.type) {
+		case "diff":
+			return renderDiff(item.path, item.oldText, item.newText);
+		case "terminal":
+			return renderTerminal(item.terminalId, terminals);
+		case "content":
+			return renderEmbeddedContent(item.content);
+		default:
+			return "";
+	}
+}
+
+function renderEmbeddedContent(block: EmbeddedContentBlock): string {
+	switch (block.type) {
+		case "text":
+			return `<details open><summary>Output</summary><pre>${escapeHtml(block.text)}</pre></details>`;
+
+		case "image":
+			return renderImage(block);
+
+		case "resource_link":
+			return renderLink(block.uri, block.title || block.name);
+
+		case "resource":
+			if (block.text !== undefined) {
+				return `<details><summary>${escapeHtml(block.uri)}</summary><pre>${escapeHtml(block.text)}</pre></details>`;
+			}
+			if (block.blob && block.mimeType?.startsWith("image/")) {
+				return renderImage({
+					data: block.blob,
+					mimeType: block.mimeType,
+				});
+			}
+			return `<div class="locations">${escapeHtml(block.uri)}</div>`;
+
+		default:
+			return "";
+	}
+}
+
+/**
+ * Render a diff with the unchanged lines at the start and end as context.
+ */
+function renderDiff(
+	path: string,
+	oldText: string | null | undefined,
+	newText: string,
+): string {
+	const oldLines = oldText ? oldText.split("\n") : [];
+	const newLines = newText.split("\n");
+
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const line = (kind: string, marker: string, text: string) =>
+		`<span class="line ${kind}">${marker} ${escapeHtml(text)}</span>`;
+	const lines = [
+		...oldLines.slice(0, prefix).map((text) => line("context", " ", text)),
+		...oldLines
+			.slice(prefix, oldLines.length - suffix)
+			.map((text) => line("removed", "-", text)),
+		...newLines
+			.slice(prefix, newLines.length - suffix)
+			.map((text) => line("added", "+", text)),
+		...newLines
+			.slice(newLines.length - suffix)
+			.map((text) => line("context", " ", text)),
+	];
+
+	return `<div class="diff"><div class="diff-path">${escapeHtml(path)}</div><pre>${lines.join("")}</pre></div>`;
+}
+
+function renderTerminal(
+	terminalId: string,
+	terminals: Map<string, ExportedTerminalOutput>,
+): string {
+	const terminal = terminals.get(terminalId);
+	const title = `<div class="card-title">🖥️ Terminal: ${escapeHtml(terminalId.slice(0, 8))}</div>`;
+	if (!terminal) {
+		return `<div class="card terminal">${title}<div class="exit">Output not available</div></div>`;
+	}
+
+	let exit = "";
+	if (terminal.exitStatus) {
+		const { exitCode, signal } = terminal.exitStatus;
+		exit =
+			exitCode !== null ? `Exit code: ${exitCode}` : `Signal: ${signal}`;
+	}
+	if (terminal.truncated) {
+		exit += exit ? " (output truncated)" : "Output truncated";
+	}
+	return `<div class="card terminal">${title}<pre>${escapeHtml(terminal.output)}</pre>${exit ? `<div class="exit">${escapeHtml(exit)}</div>` : ""}</div>`;
+}
+
+function renderText(text: string): string {
+	return `<div class="text">${escapeHtml(text)}</div>`;
+}
+
+/** Link to a URI, or plain text when its scheme is not safe to open */
+function renderLink(uri: string, label: string): string {
+	if (!isSafeLinkUri(uri)) {
+		return `<div title="${escapeHtml(uri)}">${escapeHtml(label)}</div>`;
+	}
+	return `<div><a href="${escapeHtml(uri)}">${escapeHtml(label)}</a></div>`;
+}
+
+function renderImage(image: {
+	data: string;
+	mimeType: string;
+	uri?: string;
+}): string {
+	const src = image.data
+		? `data:${image.mimeType};base64,${image.data}`
+		: (image.uri ?? "");
+	return `<div><img src="${escapeHtml(src)}" alt="Image"></div>`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function unescapeHtml(text: string): string {
+	return text
+		.replace(/&quot;/g, '"')
+		.replace(/&gt;/g, ">")
+		.replace(/&lt;/g, "<")
+		.replace(/&amp;/g, "&");
+}
@@ -1,13 +1,29 @@
 import type AgentClientPlugin from "../plugin";
-import type { ChatMessage, MessageContent } from "../types/chat";
+import type { AcpClient } from "../acp/acp-client";
+import type {
+	ChatMessage,
+	EmbeddedContentBlock,
+	MessageContent,
+} from "../types/chat";
+import type {
+	ChatExportDocument,
+	ChatExportFormat,
+	ExportFrontmatterField,
+	ExportSessionMetadata,
+	ExportedTerminalOutput,
+	MarkdownExportTemplate,
+} from "../types/chat-export";
+import { buildChatCanvas, readCanvasSessionId } from "./chat-export-canvas";
+import { buildChatHtml, readHtmlSessionId } from "./chat-export-html";
 import { getLogger, Logger } from "../utils/logger";
-import { TFile } from "obsidian";
+import { isAbsolutePath, toRelativePath } from "../utils/paths";
+import { FileSystemAdapter, TFile } from "obsidian";
 
 /**
  * Context for content conversion, tracking state across messages.
  */
 interface ConvertContext {
-	/** Path of the export markdown file */
+	/** Path of the export file */
 	exportFilePath: string;
 	/** Counter for image numbering */
 	imageIndex: number;
@@ -17,12 +33,87 @@ interface ConvertContext {
 	imageLocation: "obsidian" | "custom" | "base64";
 	/** Custom folder for images */
 	imageCustomFolder: string;
+	/** Layout of the markdown */
+	template: MarkdownExportTemplate;
+}
+
+/** Chat being exported, shared by the format builders */
+interface ExportSource {
+	messages: ChatMessage[];
+	agentLabel: string;
+	agentId: string;
+	sessionId: string;
+	/** First message timestamp, or session creation time */
+	timestamp: Date;
+	filePath: string;
+	metadata: ExportSessionMetadata;
+}
+
+export const DEFAULT_MARKDOWN_EXPORT_TEMPLATE: MarkdownExportTemplate = {
+	title: "# {agent}",
+	messageHeading: "## {time} - {role}",
+	messageSeparator: "---",
+	thoughts: "callout",
+	toolCalls: "section",
+	plans: "callout",
+	frontmatterFields: [],
+};
+
+export const EXPORT_FRONTMATTER_FIELDS: ExportFrontmatterField[] = [
+	"model",
+	"mode",
+	"cwd",
+	"usage",
+	"cost",
+	"touchedFiles",
+];
+
+const FILE_EXTENSIONS: Record<ChatExportFormat, string> = {
+	markdown: "md",
+	json: "json",
+	html: "html",
+	canvas: "canvas",
+};
+
+/** Marker line before each message heading in markdown exports */
+const MESSAGE_MARKER =
+	/^<!-- agent-client:message role="(user|assistant)" timestamp="([^"]+)" -->$/;
+
+/**
+ * Hidden line written before each message heading, so session search and
+ * import find messages whatever the heading template. The heading follows
+ * on the next line.
+ */
+export function formatMessageMarker(message: ChatMessage): string {
+	return `<!-- agent-client:message role="${message.role}" timestamp="${message.timestamp.toISOString()}" -->`;
+}
+
+/**
+ * Read a line written by formatMessageMarker.
+ *
+ * @returns The message role and timestamp, or null for other lines
+ */
+export function parseMessageMarker(
+	line: string,
+): { role: "user" | "assistant"; timestamp: Date } | null {
+	const match = MESSAGE_MARKER.exec(line.trim());
+	if (!match) return null;
+	const timestamp = new Date(match[2]);
+	if (isNaN(timestamp.getTime())) return null;
+	return { role: match[1] as "user" | "assistant", timestamp };
 }
 
 export class ChatExporter {
 	private logger: Logger;
 
-	constructor(private plugin: AgentClientPlugin) {
+	/**
+	 * @param terminalClient - Client of the exported session, used to include
+	 *   the output of its terminals (JSON and HTML exports)
+	 */
+	constructor(
+		private plugin: AgentClientPlugin,
+		private terminalClient: AcpClient | null = null,
+	) {
 		this.logger = getLogger();
 	}
 
@@ -33,6 +124,39 @@ export class ChatExporter {
 		sessionId: string,
 		sessionCreatedAt: Date,
 		openFile = true,
+		metadata: ExportSessionMetadata = {},
+	): Promise<string> {
+		return this.exportChat(
+			"markdown",
+			messages,
+			agentLabel,
+			agentId,
+			sessionId,
+			sessionCreatedAt,
+			openFile,
+			metadata,
+		);
+	}
+
+	/**
+	 * Export a chat in the given format.
+	 * Exports of the same session (and format) overwrite each other.
+	 *
+	 * @param openFile - Open the export afterwards (markdown and canvas only,
+	 *   Obsidian cannot show JSON and HTML files)
+	 * @param metadata - Session details for the extra frontmatter fields of
+	 *   the markdown template
+	 * @returns Vault path of the export
+	 */
+	async exportChat(
+		format: ChatExportFormat,
+		messages: ChatMessage[],
+		agentLabel: string,
+		agentId: string,
+		sessionId: string,
+		sessionCreatedAt: Date,
+		openFile = true,
+		metadata: ExportSessionMetadata = {},
 	): Promise<string> {
 		const settings = this.plugin.settings.exportSettings;
 
@@ -47,25 +171,23 @@ export class ChatExporter {
 		await this.ensureFolderExists(folderPath);
 
 		// Resolve file path considering session ID conflicts
-		const filePath = this.resolveExportFilePath(
+		const filePath = await this.resolveExportFilePath(
 			folderPath,
 			baseFileName,
 			sessionId,
+			FILE_EXTENSIONS[format],
 		);
 
 		try {
-			const frontmatter = this.generateFrontmatter(
+			const fullContent = await this.buildContent(format, {
+				messages,
 				agentLabel,
 				agentId,
 				sessionId,
-				effectiveTimestamp,
-			);
-			const chatContent = await this.convertMessagesToMarkdown(
-				messages,
-				agentLabel,
+				timestamp: effectiveTimestamp,
 				filePath,
-			);
-			const fullContent = `${frontmatter}\n\n${chatContent}`;
+				metadata,
+			});
 
 			// Check if file already exists (path is already resolved for our session)
 			const existingFile =
@@ -85,7 +207,7 @@ export class ChatExporter {
 			}
 
 			// Open the exported file if requested
-			if (openFile) {
+			if (openFile && (format === "markdown" || format === "canvas")) {
 				const leaf = this.plugin.app.workspace.getLeaf(false);
 				await leaf.openFile(file);
 			}
@@ -98,6 +220,207 @@ export class ChatExporter {
 		}
 	}
 
+	private async buildContent(
+		format: ChatExportFormat,
+		source: ExportSource,
+	): Promise<string> {
+		const { messages, agentLabel, agentId, sessionId, timestamp } = source;
+
+		switch (format) {
+			case "json": {
+				const document: ChatExportDocument = {
+					version: 1,
+					sessionId,
+					agentId,
+					agentDisplayName: agentLabel,
+					createdAt: timestamp.toISOString(),
+					exportedAt: new Date().toISOString(),
+					messages: messages.map((message) => ({
+						...message,
+						timestamp: message.timestamp.toISOString(),
+					})),
+					terminals: Object.fromEntries(
+						await this.readTerminalOutputs(messages),
+					),
+				};
+				return JSON.stringify(document, null, 2);
+			}
+
+			case "html":
+				return buildChatHtml({
+					agentLabel,
+					agentId,
+					sessionId,
+					createdAt: timestamp,
+					messages,
+					terminals: await this.readTerminalOutputs(messages),
+				});
+
+			case "canvas": {
+				const context = this.createConvertContext(source.filePath);
+				const canvas = await buildChatCanvas({
+					agentLabel,
+					agentId,
+					sessionId,
+					createdAt: timestamp,
+					messages,
+					toMarkdown: (content) =>
+						this.convertContentToMarkdown(content, context),
+					toVaultPath: (path) => this.toVaultPath(path),
+				});
+				return JSON.stringify(canvas, null, "\t");
+			}
+
+			default: {
+				const frontmatter = this.generateFrontmatter(
+					agentLabel,
+					agentId,
+					sessionId,
+					timestamp,
+					this.generateMetadataFields(messages, source.metadata),
+				);
+				const chatContent = await this.convertMessagesToMarkdown(
+					messages,
+					agentLabel,
+					source.filePath,
+				);
+				return `${frontmatter}\n\n${chatContent}`;
+			}
+		}
+	}
+
+	/**
+	 * Output of the terminals in the messages that the session's client
+	 * still has (released terminals are dropped after a grace period).
+	 */
+	private async readTerminalOutputs(
+		messages: ChatMessage[],
+	): Promise<Map<string, ExportedTerminalOutput>> {
+		const outputs = new Map<string, ExportedTerminalOutput>();
+		if (!this.terminalClient) return outputs;
+
+		const terminalIds = messages.flatMap((message) =>
+			message.content.flatMap((content) => {
+				if (content.type === "terminal") return [content.terminalId];
+				if (content.type !== "tool_call") return [];
+				return (content.content ?? []).flatMap((item) =>
+					item.type === "terminal" ? [item.terminalId] : [],
+				);
+			}),
+		);
+		for (const terminalId of new Set(terminalIds)) {
+			try {
+				outputs.set(
+					terminalId,
+					await this.terminalClient.getTerminalOutput(terminalId),
+				);
+			} catch {
+				// Terminal already released
+			}
+		}
+		return outputs;
+	}
+
+	/**
+	 * Vault-relative path of an absolute path, or null outside the vault.
+	 */
+	private toVaultPath(path: string): string | null {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) return null;
+		const relativePath = toRelativePath(
+			path.replace(/\\/g, "/"),
+			adapter.getBasePath().replace(/\\/g, "/"),
+		);
+		if (isAbsolutePath(relativePath)) return null;
+		return this.plugin.app.vault.getFileByPath(relativePath)
+			? relativePath
+			: null;
+	}
+
+	/**
+	 * Frontmatter lines for the extra fields of the markdown template.
+	 * String values are quoted (JSON strings are valid YAML).
+	 */
+	private generateMetadataFields(
+		messages: ChatMessage[],
+		metadata: ExportSessionMetadata,
+	): string[] {
+		const lines: string[] = [];
+		const fields =
+			this.plugin.settings.exportSettings.markdownTemplate
+				.frontmatterFields;
+		for (const field of fields) {
+			switch (field) {
+				case "model":
+				case "mode":
+				case "cwd": {
+					const value = metadata[field];
+					if (value) lines.push(`${field}: ${JSON.stringify(value)}`);
+					break;
+				}
+				case "usage":
+					if (metadata.usage) {
+						lines.push(`context_used: ${metadata.usage.used}`);
+						lines.push(`context_size: ${metadata.usage.size}`);
+					}
+					break;
+				case "cost":
+					if (metadata.usage?.cost) {
+						const { amount, currency } = metadata.usage.cost;
+						lines.push(`cost: ${amount}`);
+						lines.push(
+							`cost_currency: ${JSON.stringify(currency)}`,
+						);
+					}
+					break;
+				case "touchedFiles": {
+					const files = this.getTouchedFiles(messages);
+					if (files.length > 0) {
+						lines.push("touched_files:");
+						for (const file of files) {
+							lines.push(`  - ${JSON.stringify(file)}`);
+						}
+					}
+					break;
+				}
+			}
+		}
+		return lines;
+	}
+
+	/**
+	 * Files in tool call locations and diffs (vault-relative inside the vault).
+	 */
+	private getTouchedFiles(messages: ChatMessage[]): string[] {
+		const adapter = this.plugin.app.vault.adapter;
+		const basePath =
+			adapter instanceof FileSystemAdapter
+				? adapter.getBasePath().replace(/\\/g, "/")
+				: null;
+
+		const files = new Set<string>();
+		for (const message of messages) {
+			for (const content of message.content) {
+				if (content.type !== "tool_call") continue;
+				const paths = [
+					...(content.locations ?? []).map((loc) => loc.path),
+					...(content.content ?? []).flatMap((item) =>
+						item.type === "diff" ? [item.path] : [],
+					),
+				];
+				for (const path of paths) {
+					const normalized = path.replace(/\\/g, "/");
+					files.add(
+						basePath
+							? toRelativePath(normalized, basePath)
+							: normalized,
+					);
+				}
+			}
+		}
+		return [...files];
+	}
+
 	private async ensureFolderExists(folderPath: string): Promise<void> {
 		const folder = this.plugin.app.vault.getAbstractFileByPath(folderPath);
 		if (!folder) {
@@ -106,18 +429,30 @@ export class ChatExporter {
 	}
 
 	/**
-	 * Extract session_id from file's frontmatter cache.
+	 * Extract the session ID from an export.
 	 *
-	 * Uses Obsidian's metadataCache for efficient access (no disk I/O).
+	 * Markdown uses Obsidian's metadataCache for efficient access (no disk I/O).
 	 * This is the same pattern used in vault.adapter.ts and mention-service.ts.
+	 * Other formats are read: the JSON and canvas documents and the HTML
+	 * meta tags have the session ID.
 	 *
 	 * @param file - TFile to extract session_id from
 	 * @returns session_id string if found, null otherwise
 	 */
-	private getSessionIdFromFile(file: TFile): string | null {
-		const cache = this.plugin.app.metadataCache.getFileCache(file);
-		const sessionId = cache?.frontmatter?.session_id as string | undefined;
-		return sessionId ?? null;
+	private async getSessionIdFromFile(file: TFile): Promise<string | null> {
+		if (file.extension === "md") {
+			const cache = this.plugin.app.metadataCache.getFileCache(file);
+			const sessionId = cache?.frontmatter?.session_id as
+				| string
+				| undefined;
+			return sessionId ?? null;
+		}
+
+		const content = await this.plugin.app.vault.cachedRead(file);
+		// JSON exports and canvases both have a top-level sessionId
+		return file.extension === "html"
+			? readHtmlSessionId(content)
+			: readCanvasSessionId(content);
 	}
 
 	/**
@@ -134,14 +469,16 @@ export class ChatExporter {
 	 * @param folderPath - Export folder path
 	 * @param baseFileName - Base file name without extension
 	 * @param sessionId - Current session's ID
+	 * @param extension - File extension of the export format
 	 * @returns Resolved file path
 	 */
-	private resolveExportFilePath(
+	private async resolveExportFilePath(
 		folderPath: string,
 		baseFileName: string,
 		sessionId: string,
-	): string {
-		const basePath = `${folderPath}/${baseFileName}.md`;
+		extension: string,
+	): Promise<string> {
+		const basePath = `${folderPath}/${baseFileName}.${extension}`;
 
 		// Check if base file exists
 		const existingFile =
@@ -153,7 +490,7 @@ export class ChatExporter {
 		}
 
 		// File exists - check sessionId in frontmatter
-		const existingSessionId = this.getSessionIdFromFile(existingFile);
+		const existingSessionId = await this.getSessionIdFromFile(existingFile);
 
 		if (existingSessionId === sessionId) {
 			// Same session, overwrite
@@ -163,7 +500,7 @@ export class ChatExporter {
 		// Different session (or no sessionId in frontmatter) - find available suffix
 		// Start from 2 to follow common convention (file, file_2, file_3, ...)
 		for (let suffix = 2; suffix <= 100; suffix++) {
-			const suffixedPath = `${folderPath}/${baseFileName}_${suffix}.md`;
+			const suffixedPath = `${folderPath}/${baseFileName}_${suffix}.${extension}`;
 			const suffixedFile =
 				this.plugin.app.vault.getAbstractFileByPath(suffixedPath);
 
@@ -173,7 +510,8 @@ export class ChatExporter {
 			}
 
 			// Check if this file belongs to our session
-			const suffixedSessionId = this.getSessionIdFromFile(suffixedFile);
+			const suffixedSessionId =
+				await this.getSessionIdFromFile(suffixedFile);
 			if (suffixedSessionId === sessionId) {
 				// Found our session's file
 				return suffixedPath;
@@ -187,7 +525,7 @@ export class ChatExporter {
 		this.logger.warn(
 			`Too many export files with same base name: ${baseFileName}`,
 		);
-		return `${folderPath}/${baseFileName}_101.md`;
+		return `${folderPath}/${baseFileName}_101.${extension}`;
 	}
 
 	private generateFileName(timestamp: Date): string {
@@ -215,6 +553,7 @@ export class ChatExporter {
 		agentId: string,
 		sessionId: string,
 		timestamp: Date,
+		extraLines: string[] = [],
 	): string {
 		const settings = this.plugin.settings.exportSettings;
 
@@ -231,12 +570,13 @@ export class ChatExporter {
 		const tagsLine = settings.frontmatterTag.trim()
 			? `\ntags: [${settings.frontmatterTag.trim()}]`
 			: "";
+		const extra = extraLines.map((line) => `\n${line}`).join("");
 
 		return `---
 created: ${localTimestamp}
 agentDisplayName: ${agentLabel}
 agentId: ${agentId}
-session_id: ${sessionId}${tagsLine}
+session_id: ${sessionId}${tagsLine}${extra}
 ---`;
 	}
 
@@ -245,22 +585,19 @@ session_id: ${sessionId}${tagsLine}
 		agentLabel: string,
 		exportFilePath: string,
 	): Promise<string> {
-		const settings = this.plugin.settings.exportSettings;
-		const context: ConvertContext = {
-			exportFilePath,
-			imageIndex: 0,
-			includeImages: settings.includeImages,
-			imageLocation: settings.imageLocation,
-			imageCustomFolder: settings.imageCustomFolder,
-		};
+		const context = this.createConvertContext(exportFilePath);
 
-		let markdown = `# ${agentLabel}\n\n`;
+		const { title, messageHeading, messageSeparator } = context.template;
+		const firstTimestamp = messages[0]?.timestamp ?? new Date();
+		let markdown = title.trim()
+			? `${this.fillHeading(title, agentLabel, "", firstTimestamp)}\n\n`
+			: "";
 
 		for (const message of messages) {
-			const timeStr = message.timestamp.toLocaleTimeString();
 			const role = message.role === "user" ? "User" : "Assistant";
 
-			markdown += `## ${timeStr} - ${role}\n\n`;
+			markdown += `${formatMessageMarker(message)}\n`;
+			markdown += `${this.fillHeading(messageHeading, agentLabel, role, message.timestamp)}\n\n`;
 
 			for (const content of message.content) {
 				markdown += await this.convertContentToMarkdown(
@@ -269,12 +606,42 @@ session_id: ${sessionId}${tagsLine}
 				);
 			}
 
-			markdown += "\n---\n\n";
+			markdown += messageSeparator.trim()
+				? `\n${messageSeparator.trim()}\n\n`
+				: "\n";
 		}
 
 		return markdown;
 	}
 
+	private createConvertContext(exportFilePath: string): ConvertContext {
+		const settings = this.plugin.settings.exportSettings;
+		return {
+			exportFilePath,
+			imageIndex: 0,
+			includeImages: settings.includeImages,
+			imageLocation: settings.imageLocation,
+			imageCustomFolder: settings.imageCustomFolder,
+			template: settings.markdownTemplate,
+		};
+	}
+
+	/**
+	 * Fill the {agent}, {role}, {date} and {time} placeholders of a heading.
+	 */
+	private fillHeading(
+		template: string,
+		agentLabel: string,
+		role: string,
+		timestamp: Date,
+	): string {
+		return template
+			.replace(/\{agent\}/g, agentLabel)
+			.replace(/\{role\}/g, role)
+			.replace(/\{date\}/g, timestamp.toLocaleDateString())
+			.replace(/\{time\}/g, timestamp.toLocaleTimeString());
+	}
+
 	private async convertContentToMarkdown(
 		content: MessageContent,
 		context: ConvertContext,
@@ -301,16 +668,16 @@ session_id: ${sessionId}${tagsLine}
 			}
 
 			case "agent_thought":
-				return `> [!info]- Thinking\n> ${content.text.split("\n").join("\n> ")}\n\n`;
+				return this.convertThoughtToMarkdown(content.text, context);
 
 			case "tool_call":
-				return this.convertToolCallToMarkdown(content);
+				return this.convertToolCallToMarkdown(content, context);
 
 			case "terminal":
 				return `### 🖥️ Terminal: ${content.terminalId.slice(0, 8)}\n\n`;
 
 			case "plan":
-				return this.convertPlanToMarkdown(content);
+				return this.convertPlanToMarkdown(content, context);
 
 			case "permission_request":
 				return this.convertPermissionRequestToMarkdown(content);
@@ -318,53 +685,115 @@ session_id: ${sessionId}${tagsLine}
 			case "resource_link":
 				return `[${content.name}](${content.uri})\n\n`;
 
+			case "resource":
+				return `**Resource**: \`${content.uri}\`\n\n\`\`\`\n${content.text}\n\`\`\`\n\n`;
+
 			case "image":
-				// Skip if images are not included
-				if (!context.includeImages) {
-					return "";
-				}
+				return this.convertImageToMarkdown(content, context);
 
-				// External URI - use as-is
-				if (content.uri) {
-					return `![Image](${content.uri})\n\n`;
-				}
+			case "audio":
+				// Audio data is not exported
+				return "🎤 *Voice clip*\n\n";
 
-				// Base64 embedding mode
-				if (context.imageLocation === "base64") {
-					return `![Image](data:${content.mimeType};base64,${content.data})\n\n`;
-				}
+			default:
+				return "";
+		}
+	}
 
-				// Save as attachment (obsidian or custom)
-				try {
-					context.imageIndex++;
-					const attachmentPath = await this.saveImageAsAttachment(
-						content.data,
-						content.mimeType,
-						context.exportFilePath,
-						context.imageIndex,
-						context.imageLocation,
-						context.imageCustomFolder,
-					);
-					// Use filename only (Obsidian resolves it)
-					const fileName = attachmentPath.split("/").pop();
-					return `![[${fileName}]]\n\n`;
-				} catch (error) {
-					this.logger.error(
-						`Failed to save image as attachment: ${error}`,
-					);
-					// Fallback to base64 embedding
-					return `![Image](data:${content.mimeType};base64,${content.data})\n\n`;
-				}
+	private async convertImageToMarkdown(
+		image: { data: string; mimeType: string; uri?: string },
+		context: ConvertContext,
+	): Promise<string> {
+		// Skip if images are not included
+		if (!context.includeImages) {
+			return "";
+		}
 
+		// External URI without data - use as-is
+		if (image.uri && !image.data) {
+			return `![Image](${image.uri})\n\n`;
+		}
+
+		// Base64 embedding mode
+		if (context.imageLocation === "base64") {
+			return `![Image](data:${image.mimeType};base64,${image.data})\n\n`;
+		}
+
+		// Save as attachment (obsidian or custom)
+		try {
+			context.imageIndex++;
+			const attachmentPath = await this.saveImageAsAttachment(
+				image.data,
+				image.mimeType,
+				context.exportFilePath,
+				context.imageIndex,
+				context.imageLocation,
+				context.imageCustomFolder,
+			);
+			// Use filename only (Obsidian resolves it)
+			const fileName = attachmentPath.split("/").pop();
+			return `![[${fileName}]]\n\n`;
+		} catch (error) {
+			this.logger.error(`Failed to save image as attachment: ${error}`);
+			// Fallback to base64 embedding
+			return `![Image](data:${image.mimeType};base64,${image.data})\n\n`;
+		}
+	}
+
+	private convertThoughtToMarkdown(
+		text: string,
+		context: ConvertContext,
+	): string {
+		const quoted = `> ${text.split("\n").join("\n> ")}`;
+		switch (context.template.thoughts) {
+			case "omit":
+				return "";
+			case "quote":
+				return `${quoted}\n\n`;
 			default:
+				return `> [!info]- Thinking\n${quoted}\n\n`;
+		}
+	}
+
+	private async convertToolCallToMarkdown(
+		content: Extract<MessageContent, { type: "tool_call" }>,
+		context: ConvertContext,
+	): Promise<string> {
+		const title = content.title || "Tool";
+		switch (context.template.toolCalls) {
+			case "omit":
 				return "";
+			case "compact":
+				return `🔧 **${title}** (${content.status})\n\n`;
+			case "callout": {
+				// Nested callouts and code blocks keep working when quoted
+				const details = await this.convertToolCallDetailsToMarkdown(
+					content,
+					context,
+				);
+				const quoted = details
+					.trimEnd()
+					.split("\n")
+					.map((line) => (line ? `> ${line}` : ">"))
+					.join("\n");
+				return `> [!tool]- 🔧 ${title}\n${quoted}\n\n`;
+			}
+			default:
+				return (
+					`### 🔧 ${title}\n\n` +
+					(await this.convertToolCallDetailsToMarkdown(
+						content,
+						context,
+					))
+				);
 		}
 	}
 
-	private convertToolCallToMarkdown(
+	private async convertToolCallDetailsToMarkdown(
 		content: Extract<MessageContent, { type: "tool_call" }>,
-	): string {
-		let md = `### 🔧 ${content.title || "Tool"}\n\n`;
+		context: ConvertContext,
+	): Promise<string> {
+		let md = "";
 
 		// Add locations if present
 		if (content.locations && content.locations.length > 0) {
@@ -378,11 +807,16 @@ session_id: ${sessionId}${tagsLine}
 
 		md += `**Status**: ${content.status}\n\n`;
 
-		// Only export diffs
+		// Export diffs and content blocks (terminals are live-only)
 		if (content.content && content.content.length > 0) {
 			for (const item of content.content) {
 				if (item.type === "diff") {
 					md += this.convertDiffToMarkdown(item);
+				} else if (item.type === "content") {
+					md += await this.convertEmbeddedContentToMarkdown(
+						item.content,
+						context,
+					);
 				}
 			}
 		}
@@ -390,6 +824,38 @@ session_id: ${sessionId}${tagsLine}
 		return md;
 	}
 
+	private async convertEmbeddedContentToMarkdown(
+		block: EmbeddedContentBlock,
+		context: ConvertContext,
+	): Promise<string> {
+		switch (block.type) {
+			case "text":
+				return `> [!example]- Output\n> ${block.text.split("\n").join("\n> ")}\n\n`;
+
+			case "image":
+				return this.convertImageToMarkdown(block, context);
+
+			case "resource_link":
+				return `[${block.title || block.name}](${block.uri})\n\n`;
+
+			case "resource":
+				if (block.text !== undefined) {
+					return `**Resource**: \`${block.uri}\`\n\n\`\`\`\n${block.text}\n\`\`\`\n\n`;
+				}
+				if (block.blob && block.mimeType?.startsWith("image/")) {
+					return this.convertImageToMarkdown(
+						{ data: block.blob, mimeType: block.mimeType },
+						context,
+					);
+				}
+				return `**Resource**: \`${block.uri}\`\n\n`;
+
+			default:
+				// Audio is not exported
+				return "";
+		}
+	}
+
 	private convertDiffToMarkdown(diff: {
 		type: "diff";
 		path: string;
@@ -434,7 +900,19 @@ session_id: ${sessionId}${tagsLine}
 
 	private convertPlanToMarkdown(
 		content: Extract<MessageContent, { type: "plan" }>,
+		context: ConvertContext,
 	): string {
+		if (context.template.plans === "omit") {
+			return "";
+		}
+		if (context.template.plans === "tasks") {
+			const tasks = content.entries.map(
+				(entry) =>
+					`- [${entry.status === "completed" ? "x" : " "}] ${entry.content}`,
+			);
+			return `${tasks.join("\n")}\n\n`;
+		}
+
 		let md = `> [!plan] Plan\n`;
 		for (const entry of content.entries) {
 			const status =
@@ -472,7 +950,7 @@ session_id: ${sessionId}${tagsLine}
 		const ext = this.getExtensionFromMimeType(mimeType);
 
 		// Generate image filename based on export filename
-		const exportFileName = exportFilePath.replace(/\.md$/, "");
+		const exportFileName = exportFilePath.replace(/\.[^./]+$/, "");
 		const baseName = exportFileName.split("/").pop() || "image";
 		const imageFileName = `${baseName}_${String(imageIndex).padStart(3, "0")}.${ext}`;
 
@@ -0,0 +1,672 @@
+/**
+ * Chat import: parses notes written by ChatExporter back into messages.
+ *
+ * Reads the exporter's format:
+ * - Frontmatter: session_id, agentId, agentDisplayName, created
+ * - One message marker comment and heading per message (notes exported
+ *   before markers existed: "## {time} - User|Assistant" headings)
+ * - Thinking, plan and tool output callouts, tool calls (sections,
+ *   callouts or compact lines) with locations, status, diffs and resources
+ * - Auto-mentions (@[[note]] on the first line of user messages),
+ *   embedded resources, resource links and images (attachments, data URIs)
+ *
+ * Terminals, permission requests and voice clips are not exported with
+ * their content, so they are skipped.
+ */
+
+import { arrayBufferToBase64, TFile } from "obsidian";
+
+import type AgentClientPlugin from "../plugin";
+import type {
+	ChatMessage,
+	MessageContent,
+	PlanEntry,
+	ToolCallContent,
+	ToolCallLocation,
+	ToolCallStatus,
+} from "../types/chat";
+import type { ImportedChat } from "../types/chat-import";
+import { getLogger, Logger } from "../utils/logger";
+import { parseMessageMarker } from "./chat-exporter";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ToolCallMessageContent = Extract<MessageContent, { type: "tool_call" }>;
+
+/** Image or link line (valid as message content and as tool call content) */
+type MediaBlock =
+	| { type: "image"; data: string; mimeType: string }
+	| { type: "resource_link"; uri: string; name: string };
+
+interface MessageSection {
+	role: "user" | "assistant";
+	/** Exact time from the message marker */
+	timestamp: Date | null;
+	/** Heading text before " - User|Assistant" (the local time) */
+	time: string;
+	lines: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default message heading (used without markers): "## 10:15:32 - User" */
+const MESSAGE_HEADING = /^## (.+) - (User|Assistant)\s*$/;
+
+/** Time of a message heading (toLocaleTimeString, 12- or 24-hour) */
+const HEADING_TIME = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp])?/;
+
+const TOOL_HEADING = /^### 🔧 (.*)$/;
+const TOOL_CALLOUT = /^> \[!tool\]- 🔧 (.*)$/;
+const TOOL_COMPACT = /^🔧 \*\*(.*)\*\* \((\w+)\)$/;
+
+/** Sections for content that only exists in a live session */
+const LIVE_ONLY_HEADING = /^### (🖥️ Terminal|⚠️ Permission):/;
+
+/** Auto-mention on the first line of a user message: "@[[note]]:3-7" */
+const AUTO_MENTION = /^@\[\[([^\]]+)\]\](?::(\d+)-(\d+))?$/;
+
+const EMBED_LINE = /^!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/;
+const IMAGE_LINE = /^!\[[^\]]*\]\(([^)\s]+)\)$/;
+const LINK_LINE = /^\[([^\]]*)\]\(([^)\s]+)\)$/;
+const DATA_URI = /^data:([^;]+);base64,(.+)$/;
+
+const PLAN_STATUSES: Record<string, PlanEntry["status"]> = {
+	"✅": "completed",
+	"🔄": "in_progress",
+	"⏳": "pending",
+};
+
+const TOOL_STATUSES: ToolCallStatus[] = [
+	"pending",
+	"in_progress",
+	"completed",
+	"failed",
+];
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class ChatImporter {
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Parse an exported chat note.
+	 *
+	 * @throws Error if the note has no message headings
+	 */
+	async importFromFile(file: TFile): Promise<ImportedChat> {
+		const frontmatter =
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		const markdown = await this.plugin.app.vault.cachedRead(file);
+
+		const created = readFrontmatterString(frontmatter, "created");
+		const createdAt =
+			created && !isNaN(new Date(created).getTime())
+				? new Date(created)
+				: new Date(file.stat.ctime);
+
+		const messages: ChatMessage[] = [];
+		let previous = createdAt;
+		const separator =
+			this.plugin.settings.exportSettings.markdownTemplate.messageSeparator.trim();
+		for (const section of splitSections(markdown, separator)) {
+			const timestamp =
+				section.timestamp ?? resolveTimestamp(section.time, previous);
+			previous = timestamp;
+			messages.push({
+				id: crypto.randomUUID(),
+				role: section.role,
+				content: await this.parseContent(
+					section.lines,
+					section.role,
+					file.path,
+				),
+				timestamp,
+			});
+		}
+		if (messages.length === 0) {
+			throw new Error("No chat messages found in this note");
+		}
+
+		this.logger.log(
+			`Chat imported from: ${file.path} (${messages.length} messages)`,
+		);
+
+		return {
+			path: file.path,
+			noteName: file.basename,
+			sessionId: readFrontmatterString(frontmatter, "session_id"),
+			agentId: readFrontmatterString(frontmatter, "agentId"),
+			agentDisplayName: readFrontmatterString(
+				frontmatter,
+				"agentDisplayName",
+			),
+			title: getTitle(messages) ?? file.basename,
+			createdAt,
+			messages,
+		};
+	}
+
+	/**
+	 * Parse the lines of one message section into content blocks.
+	 *
+	 * Tool call details (status, diffs, output, images) belong to the
+	 * preceding tool call heading until a line of message text follows.
+	 */
+	private async parseContent(
+		lines: string[],
+		role: "user" | "assistant",
+		notePath: string,
+	): Promise<MessageContent[]> {
+		const content: MessageContent[] = [];
+		let text: string[] = [];
+		let tool: ToolCallMessageContent | null = null;
+
+		const startTool = (
+			title: string,
+			status: ToolCallStatus,
+		): ToolCallMessageContent => {
+			flushText();
+			const started: ToolCallMessageContent = {
+				type: "tool_call",
+				toolCallId: crypto.randomUUID(),
+				title,
+				status,
+				content: [],
+			};
+			content.push(started);
+			return started;
+		};
+
+		const flushText = () => {
+			const value = text.join("\n").trim();
+			text = [];
+			if (!value) return;
+			if (role === "user" && content.length === 0) {
+				content.push(this.parseUserText(value, notePath));
+				return;
+			}
+			content.push({ type: "text", text: value });
+		};
+
+		let i = 0;
+		while (i < lines.length) {
+			const line = lines[i];
+
+			// Callouts: thinking, plan, tool output
+			if (line.startsWith("> [!")) {
+				const body: string[] = [];
+				let end = i + 1;
+				while (end < lines.length && lines[end].startsWith(">")) {
+					body.push(lines[end].replace(/^> ?/, ""));
+					end++;
+				}
+
+				if (line.startsWith("> [!info]- Thinking")) {
+					flushText();
+					tool = null;
+					content.push({
+						type: "agent_thought",
+						text: body.join("\n"),
+					});
+					i = end;
+					continue;
+				}
+				if (line.startsWith("> [!plan]")) {
+					flushText();
+					tool = null;
+					content.push({ type: "plan", entries: parsePlan(body) });
+					i = end;
+					continue;
+				}
+				const toolCallout = TOOL_CALLOUT.exec(line);
+				if (toolCallout) {
+					// A quoted tool call section (with nested output callouts)
+					flushText();
+					tool = null;
+					content.push(
+						...(await this.parseContent(
+							[`### 🔧 ${toolCallout[1]}`, ...body],
+							"assistant",
+							notePath,
+						)),
+					);
+					i = end;
+					continue;
+				}
+				if (line.startsWith("> [!example]- Output") && tool) {
+					tool.content?.push({
+						type: "content",
+						content: { type: "text", text: body.join("\n") },
+					});
+					i = end;
+					continue;
+				}
+			}
+
+			const toolHeading = TOOL_HEADING.exec(line);
+			if (toolHeading) {
+				tool = startTool(toolHeading[1], "completed");
+				i++;
+				continue;
+			}
+
+			const toolCompact = TOOL_COMPACT.exec(line);
+			if (toolCompact) {
+				const status = toolCompact[2] as ToolCallStatus;
+				startTool(
+					toolCompact[1],
+					TOOL_STATUSES.includes(status) ? status : "completed",
+				);
+				// Compact lines have no details
+				tool = null;
+				i++;
+				continue;
+			}
+
+			if (LIVE_ONLY_HEADING.test(line) || line === "🎤 *Voice clip*") {
+				flushText();
+				tool = null;
+				i++;
+				continue;
+			}
+
+			if (tool) {
+				const next = this.parseToolCallLine(lines, i, tool);
+				if (next !== null) {
+					i = next;
+					continue;
+				}
+			}
+
+			// Embedded text resource of the message
+			const resource = parseResource(lines, i);
+			if (resource && resource.block.text !== undefined) {
+				flushText();
+				content.push({
+					type: "resource",
+					uri: resource.block.uri,
+					text: resource.block.text,
+				});
+				i = resource.next;
+				continue;
+			}
+
+			const media = await this.parseMediaLine(line.trim(), notePath);
+			if (media) {
+				if (tool) {
+					tool.content?.push({ type: "content", content: media });
+				} else {
+					flushText();
+					content.push(media);
+				}
+				i++;
+				continue;
+			}
+
+			// Anything else is message text (and ends the tool call)
+			if (line.trim()) {
+				tool = null;
+			}
+			// Keep fenced code blocks together
+			if (line.trimStart().startsWith("```")) {
+				const end = findFenceEnd(lines, i);
+				text.push(...lines.slice(i, end));
+				i = end;
+				continue;
+			}
+			text.push(line);
+			i++;
+		}
+		flushText();
+
+		return content;
+	}
+
+	/**
+	 * Parse a line of a tool call section into the tool call.
+	 *
+	 * @returns Index of the next line to parse, or null if the line is not
+	 *   a tool call detail
+	 */
+	private parseToolCallLine(
+		lines: string[],
+		index: number,
+		tool: ToolCallMessageContent,
+	): number | null {
+		const line = lines[index];
+
+		if (!line.trim()) return index + 1;
+
+		if (line.startsWith("**Locations**: ")) {
+			tool.locations = parseLocations(line);
+			return index + 1;
+		}
+
+		if (line.startsWith("**Status**: ")) {
+			const status = line.slice("**Status**: ".length).trim();
+			if (TOOL_STATUSES.includes(status as ToolCallStatus)) {
+				tool.status = status as ToolCallStatus;
+			}
+			return index + 1;
+		}
+
+		const diffFile = /^\*\*File\*\*: `(.+)`$/.exec(line);
+		if (diffFile) {
+			const start = index + 2;
+			if (!lines[start]?.startsWith("```")) return index + 1;
+			const end = findFenceEnd(lines, start);
+			tool.content?.push(
+				parseDiff(diffFile[1], lines.slice(start + 1, end - 1)),
+			);
+			return end;
+		}
+
+		const resource = parseResource(lines, index);
+		if (resource) {
+			tool.content?.push({
+				type: "content",
+				content: { type: "resource", ...resource.block },
+			});
+			return resource.next;
+		}
+
+		return null;
+	}
+
+	/**
+	 * First text of a user message: an auto-mention on the first line
+	 * becomes the message's auto-mention context.
+	 */
+	private parseUserText(value: string, notePath: string): MessageContent {
+		const [firstLine, ...rest] = value.split("\n");
+		const mention = AUTO_MENTION.exec(firstLine.trim());
+		if (!mention) {
+			return { type: "text", text: value };
+		}
+
+		const noteName = mention[1];
+		const note = this.plugin.app.metadataCache.getFirstLinkpathDest(
+			noteName,
+			notePath,
+		);
+		return {
+			type: "text_with_context",
+			text: rest.join("\n"),
+			autoMentionContext: {
+				noteName,
+				notePath: note?.path ?? `${noteName}.md`,
+				selection: mention[2]
+					? {
+							fromLine: Number(mention[2]),
+							toLine: Number(mention[3]),
+						}
+					: undefined,
+			},
+		};
+	}
+
+	/**
+	 * Parse an image or link line.
+	 *
+	 * Images linked by URL can't be shown without their data, so they
+	 * become links.
+	 */
+	private async parseMediaLine(
+		line: string,
+		notePath: string,
+	): Promise<MediaBlock | null> {
+		const embed = EMBED_LINE.exec(line);
+		if (embed) {
+			return this.readImageAttachment(embed[1], notePath);
+		}
+
+		const image = IMAGE_LINE.exec(line);
+		if (image) {
+			const dataUri = DATA_URI.exec(image[1]);
+			if (dataUri) {
+				return {
+					type: "image",
+					data: dataUri[2],
+					mimeType: dataUri[1],
+				};
+			}
+			return { type: "resource_link", uri: image[1], name: "Image" };
+		}
+
+		const link = LINK_LINE.exec(line);
+		if (link) {
+			return {
+				type: "resource_link",
+				uri: link[2],
+				name: link[1] || link[2],
+			};
+		}
+
+		return null;
+	}
+
+	private async readImageAttachment(
+		linkpath: string,
+		notePath: string,
+	): Promise<MediaBlock | null> {
+		const file = this.plugin.app.metadataCache.getFirstLinkpathDest(
+			linkpath,
+			notePath,
+		);
+		const mimeType = file
+			? IMAGE_MIME_TYPES[file.extension.toLowerCase()]
+			: undefined;
+		if (!file || !mimeType) {
+			return null;
+		}
+
+		try {
+			const data = await this.plugin.app.vault.readBinary(file);
+			return { type: "image", data: arrayBufferToBase64(data), mimeType };
+		} catch (error) {
+			this.logger.warn(`Failed to read image ${file.path}:`, error);
+			return null;
+		}
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split a note into message sections (text before the first message,
+ * including the frontmatter, is skipped).
+ *
+ * Messages start at marker comments, whose next line is the heading of
+ * the export template. Notes without markers are split at default headings.
+ */
+function splitSections(markdown: string, separator: string): MessageSection[] {
+	const lines = markdown.split("\n");
+	const hasMarkers = lines.some((line) => parseMessageMarker(line));
+
+	const sections: MessageSection[] = [];
+	let current: MessageSection | null = null;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const marker = hasMarkers ? parseMessageMarker(line) : null;
+		const heading = hasMarkers ? null : MESSAGE_HEADING.exec(line);
+		if (marker) {
+			current = {
+				role: marker.role,
+				timestamp: marker.timestamp,
+				time: "",
+				lines: [],
+			};
+			sections.push(current);
+			i++; // Skip the heading
+		} else if (heading) {
+			current = {
+				role: heading[2] === "User" ? "user" : "assistant",
+				timestamp: null,
+				time: heading[1],
+				lines: [],
+			};
+			sections.push(current);
+		} else if (current) {
+			current.lines.push(line);
+		}
+	}
+
+	// Drop the separator the exporter writes after each message (the
+	// default one, or the one of the current template)
+	for (const { lines } of sections) {
+		while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+			lines.pop();
+		}
+		const last = lines[lines.length - 1]?.trim();
+		if (last === "---" || (separator && last === separator)) {
+			lines.pop();
+		}
+	}
+	return sections;
+}
+
+/**
+ * Parse a "**Resource**: `uri`" line and the fenced text after it.
+ *
+ * @returns The resource (without text when no fence follows) and the index
+ *   of the next line, or null if the line is not a resource
+ */
+function parseResource(
+	lines: string[],
+	index: number,
+): { block: { uri: string; text?: string }; next: number } | null {
+	const resource = /^\*\*Resource\*\*: `(.+)`$/.exec(lines[index]);
+	if (!resource) return null;
+
+	const start = index + 2;
+	if (!lines[start]?.startsWith("```")) {
+		return { block: { uri: resource[1] }, next: index + 1 };
+	}
+	const end = findFenceEnd(lines, start);
+	return {
+		block: {
+			uri: resource[1],
+			text: lines.slice(start + 1, end - 1).join("\n"),
+		},
+		next: end,
+	};
+}
+
+/**
+ * Headings only have the local time: use the date of the previous message,
+ * moving to the next day when the time goes backwards.
+ */
+function resolveTimestamp(heading: string, previous: Date): Date {
+	const match = HEADING_TIME.exec(heading);
+	if (!match) return previous;
+
+	let hours = Number(match[1]) % 24;
+	const meridiem = match[4]?.toLowerCase();
+	if (meridiem === "p" && hours < 12) hours += 12;
+	if (meridiem === "a" && hours === 12) hours = 0;
+
+	const timestamp = new Date(previous);
+	timestamp.setHours(hours, Number(match[2]), Number(match[3] ?? 0), 0);
+	if (timestamp < previous) {
+		timestamp.setDate(timestamp.getDate() + 1);
+	}
+	return timestamp;
+}
+
+/**
+ * Index of the line after a fenced code block starting at `start`
+ * (the end of the section if the fence is not closed).
+ */
+function findFenceEnd(lines: string[], start: number): number {
+	for (let i = start + 1; i < lines.length; i++) {
+		if (lines[i].trim() === "```") return i + 1;
+	}
+	return lines.length;
+}
+
+function parsePlan(body: string[]): PlanEntry[] {
+	const entries: PlanEntry[] = [];
+	for (const line of body) {
+		const [marker, ...rest] = line.trim().split(" ");
+		const status = PLAN_STATUSES[marker];
+		if (!status) continue;
+		entries.push({ content: rest.join(" "), status, priority: "medium" });
+	}
+	return entries;
+}
+
+function parseLocations(line: string): ToolCallLocation[] {
+	return [...line.matchAll(/`([^`]+)`/g)].map((match) => {
+		const withLine = /^(.*):(\d+)$/.exec(match[1]);
+		return withLine
+			? { path: withLine[1], line: Number(withLine[2]) }
+			: { path: match[1] };
+	});
+}
+
+/**
+ * Rebuild a diff from the exporter's "- old" / "+ new" lines.
+ */
+function parseDiff(path: string, body: string[]): ToolCallContent {
+	const oldLines = body
+		.filter((line) => line.startsWith("- "))
+		.map((line) => line.slice(2));
+	const newLines = body
+		.filter((line) => line.startsWith("+ "))
+		.map((line) => line.slice(2));
+	return {
+		type: "diff",
+		path,
+		oldText: oldLines.length > 0 ? oldLines.join("\n") : null,
+		newText: newLines.join("\n"),
+	};
+}
+
+/**
+ * Session title like saveSessionLocally: first 50 characters of the first
+ * user message.
+ */
+function getTitle(messages: ChatMessage[]): string | null {
+	for (const message of messages) {
+		if (message.role !== "user") continue;
+		for (const block of message.content) {
+			if (block.type !== "text" && block.type !== "text_with_context") {
+				continue;
+			}
+			const text = block.text.trim();
+			if (!text) continue;
+			return text.length > 50 ? text.substring(0, 50) + "..." : text;
+		}
+	}
+	return null;
+}
+
+function readFrontmatterString(
+	frontmatter: Record<string, unknown> | undefined,
+	key: string,
+): string | null {
+	const value = frontmatter?.[key];
+	return typeof value === "string" || typeof value === "number"
+		? String(value)
+		: null;
+}
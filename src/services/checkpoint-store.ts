@@ -0,0 +1,123 @@
+/**
+ * Local snapshot store for turn checkpoints.
+ *
+ * Handles:
+ * - Checkpoint file I/O (checkpoints/{id}.json in the plugin folder)
+ * - Pruning the oldest checkpoints beyond MAX_CHECKPOINTS
+ */
+
+import type AgentClientPlugin from "../plugin";
+import type { Checkpoint } from "../types/checkpoint";
+import { getLogger, Logger } from "../utils/logger";
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/** Maximum number of checkpoints to keep */
+const MAX_CHECKPOINTS = 100;
+
+export class CheckpointStore {
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Save a checkpoint, then remove the oldest ones beyond the limit.
+	 */
+	async save(checkpoint: Checkpoint): Promise<void> {
+		await this.ensureDir();
+		await this.plugin.app.vault.adapter.write(
+			this.getFilePath(checkpoint.id),
+			JSON.stringify(checkpoint),
+		);
+		this.logger.log(
+			`[CheckpointStore] Saved checkpoint ${checkpoint.id} (${checkpoint.files.length} files)`,
+		);
+		await this.prune();
+	}
+
+	/**
+	 * Load a checkpoint. Returns null if it doesn't exist or is unreadable.
+	 */
+	async load(checkpointId: string): Promise<Checkpoint | null> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = this.getFilePath(checkpointId);
+		if (!(await adapter.exists(filePath))) {
+			return null;
+		}
+
+		try {
+			const data = JSON.parse(await adapter.read(filePath)) as Checkpoint;
+			if (!data || !Array.isArray(data.files)) {
+				this.logger.warn(
+					`[CheckpointStore] Invalid checkpoint file: ${filePath}`,
+				);
+				return null;
+			}
+			return data;
+		} catch (error) {
+			this.logger.error(
+				"[CheckpointStore] Failed to load checkpoint:",
+				error,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Delete a checkpoint. Silently succeeds if it doesn't exist.
+	 */
+	async delete(checkpointId: string): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = this.getFilePath(checkpointId);
+		if (await adapter.exists(filePath)) {
+			await adapter.remove(filePath);
+		}
+	}
+
+	private getDir(): string {
+		const pluginDir =
+			this.plugin.manifest.dir ??
+			`${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+		return `${pluginDir}/checkpoints`;
+	}
+
+	private async ensureDir(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const dir = this.getDir();
+		if (!(await adapter.exists(dir))) {
+			await adapter.mkdir(dir);
+		}
+	}
+
+	private getFilePath(checkpointId: string): string {
+		const safeId = checkpointId.replace(/[^a-zA-Z0-9_-]/g, "_");
+		return `${this.getDir()}/${safeId}.json`;
+	}
+
+	/**
+	 * Remove the least recently written checkpoints beyond MAX_CHECKPOINTS.
+	 */
+	private async prune(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const { files } = await adapter.list(this.getDir());
+		if (files.length <= MAX_CHECKPOINTS) return;
+
+		const withTimes = await Promise.all(
+			files.map(async (path) => ({
+				path,
+				mtime: (await adapter.stat(path))?.mtime ?? 0,
+			})),
+		);
+		withTimes.sort((a, b) => a.mtime - b.mtime);
+		for (const { path } of withTimes.slice(
+			0,
+			files.length - MAX_CHECKPOINTS,
+		)) {
+			await adapter.remove(path);
+		}
+	}
+}
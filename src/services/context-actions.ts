@@ -0,0 +1,175 @@
+/**
+ * Pure functions for context actions: editor and file-menu entries (and
+ * matching commands) that put a selection, note or folder into the chat
+ * input as a prompt, and the terminal panel's output attachments.
+ * Used by the plugin's command and menu registration and TerminalPanelView.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a context action works on.
+ * - 'selection': The selected lines of the active note
+ * - 'note': A whole markdown note
+ * - 'folder': A vault folder
+ */
+export type ContextActionTarget = "selection" | "note" | "folder";
+
+/**
+ * The context a prompt is built from.
+ */
+export interface ContextActionInput {
+	/** Note basename (selection and note actions) */
+	noteName?: string;
+	/** 1-based inclusive line range (selection actions) */
+	selection?: { fromLine: number; toLine: number };
+	/** Absolute folder path (folder actions) */
+	folderPath?: string;
+}
+
+/**
+ * A command run in the terminal panel.
+ */
+export interface TerminalOutputInput {
+	commandLine: string;
+	/** Absolute working directory */
+	cwd: string;
+	/** Plain text output (escape sequences already applied) */
+	output: string;
+	/** null while the command is running */
+	exitCode: number | null;
+	running: boolean;
+}
+
+export interface ContextAction {
+	/** Command ID suffix */
+	id: string;
+	/** Command and menu title */
+	name: string;
+	/** Lucide icon for menu entries */
+	icon: string;
+	target: ContextActionTarget;
+	/**
+	 * Whether the prompt is complete on its own. Incomplete prompts are
+	 * only pre-filled, so the user can type the question.
+	 */
+	sendable: boolean;
+	buildPrompt: (input: ContextActionInput) => string;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/** Context actions in menu order */
+export const CONTEXT_ACTIONS: ContextAction[] = [
+	{
+		id: "ask-about-selection",
+		name: "Ask agent about selection",
+		icon: "message-circle-question",
+		target: "selection",
+		sendable: false,
+		buildPrompt: (input) => `${buildNoteMention(input)}\n`,
+	},
+	{
+		id: "explain-selection",
+		name: "Explain selection",
+		icon: "lightbulb",
+		target: "selection",
+		sendable: true,
+		buildPrompt: (input) =>
+			`Explain the selected lines of ${buildNoteMention(input)}`,
+	},
+	{
+		id: "rewrite-selection",
+		name: "Rewrite selection",
+		icon: "pencil",
+		target: "selection",
+		sendable: true,
+		buildPrompt: (input) =>
+			`Rewrite the selected lines of ${buildNoteMention(input)} to be clearer and more concise. Keep the meaning and the formatting.`,
+	},
+	{
+		id: "ask-about-note",
+		name: "Ask agent about note",
+		icon: "message-circle-question",
+		target: "note",
+		sendable: false,
+		buildPrompt: (input) => `${buildNoteMention(input)}\n`,
+	},
+	{
+		id: "summarize-note",
+		name: "Summarize note",
+		icon: "list",
+		target: "note",
+		sendable: true,
+		buildPrompt: (input) => `Summarize ${buildNoteMention(input)}`,
+	},
+	{
+		id: "send-folder",
+		name: "Send folder to agent",
+		icon: "folder-input",
+		target: "folder",
+		sendable: true,
+		buildPrompt: (input) =>
+			`Give an overview of the notes in the folder ${input.folderPath ?? ""}`,
+	},
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a note mention, with a line range for selections.
+ *
+ * @example
+ * buildNoteMention({ noteName: "Ideas", selection: { fromLine: 3, toLine: 7 } })
+ * // "@[[Ideas]]:3-7"
+ */
+export function buildNoteMention(input: ContextActionInput): string {
+	const mention = `@[[${input.noteName ?? ""}]]`;
+	return input.selection
+		? `${mention}:${input.selection.fromLine}-${input.selection.toLine}`
+		: mention;
+}
+
+/**
+ * Build a prompt with the last lines of a terminal command's output,
+ * fenced so backticks in the output cannot end the block.
+ *
+ * @example
+ * buildTerminalOutputPrompt({ commandLine: "npm test", cwd: "/vault", output: "ok", exitCode: 0, running: false }, 200)
+ * // "Output of `npm test` in /vault (exit code 0):\n```text\nok\n```"
+ */
+export function buildTerminalOutputPrompt(
+	input: TerminalOutputInput,
+	maxLines: number,
+): string {
+	const lines = input.output.trimEnd().split("\n");
+	const shown = lines.slice(-maxLines);
+
+	const notes = [
+		input.running ? "still running" : `exit code ${input.exitCode}`,
+	];
+	if (shown.length < lines.length) {
+		notes.push(`last ${shown.length} of ${lines.length} lines`);
+	}
+
+	const body = shown.join("\n");
+	const longestRun = Math.max(
+		0,
+		...(body.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const fence = "`".repeat(Math.max(3, longestRun + 1));
+	return `Output of \`${input.commandLine}\` in ${input.cwd} (${notes.join(", ")}):\n${fence}text\n${body}\n${fence}`;
+}
+
+/**
+ * Append a prompt to the text already in the chat input.
+ */
+export function appendToDraft(draft: string, prompt: string): string {
+	return draft.trim() ? `${draft.trimEnd()}\n${prompt}` : prompt;
+}
@@ -0,0 +1,179 @@
+/**
+ * Applies agent output to a note through the Obsidian Editor API, so each
+ * change is a single editor transaction that Cmd/Ctrl+Z undoes.
+ *
+ * The target is the note (and selected lines) auto-mentioned in the turn
+ * that produced the output. Without one, the most recent markdown editor
+ * and its current cursor/selection are used.
+ */
+
+import {
+	App,
+	Editor,
+	EditorPosition,
+	MarkdownView,
+	Notice,
+	TFile,
+	WorkspaceLeaf,
+} from "obsidian";
+import type { AutoMentionContext } from "../types/chat";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How text is applied.
+ * - 'insert': At the cursor of the note's editor
+ * - 'replace': Over the selected lines captured in the turn
+ * - 'append': At the end of the note
+ */
+export type EditorApplyMode = "insert" | "replace" | "append";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Apply actions shown on assistant messages and code blocks (display order) */
+export const EDITOR_APPLY_ACTIONS: Array<{
+	mode: EditorApplyMode;
+	label: string;
+	icon: string;
+}> = [
+	{ mode: "insert", label: "Insert at cursor", icon: "text-cursor-input" },
+	{ mode: "replace", label: "Replace selection", icon: "replace" },
+	{ mode: "append", label: "Append to note", icon: "arrow-down-to-line" },
+];
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Apply text to the target note's editor, opening the note if needed.
+ *
+ * @param target - Auto-mention context of the turn (null = recent editor)
+ * @throws Error with a user-facing message when there is nothing to apply to
+ */
+export async function applyToEditor(
+	app: App,
+	target: AutoMentionContext | null,
+	text: string,
+	mode: EditorApplyMode,
+): Promise<void> {
+	const leaf = target
+		? await openNote(app, target.notePath)
+		: findRecentMarkdownLeaf(app);
+	if (!leaf || !(leaf.view instanceof MarkdownView)) {
+		throw new Error("No note to apply to. Open a note first.");
+	}
+	const editor = leaf.view.editor;
+
+	switch (mode) {
+		case "insert":
+			editor.replaceRange(text, editor.getCursor());
+			break;
+		case "replace": {
+			const range = target?.selection
+				? getLineRange(editor, target.selection)
+				: editor.somethingSelected()
+					? {
+							from: editor.getCursor("from"),
+							to: editor.getCursor("to"),
+						}
+					: null;
+			if (!range) {
+				throw new Error("No selection was captured in this turn.");
+			}
+			editor.replaceRange(text, range.from, range.to);
+			break;
+		}
+		case "append": {
+			const content = editor.getValue();
+			const separator =
+				content.length === 0
+					? ""
+					: content.endsWith("\n")
+						? "\n"
+						: "\n\n";
+			const lastLine = editor.lastLine();
+			editor.replaceRange(`${separator}${text}`, {
+				line: lastLine,
+				ch: editor.getLine(lastLine).length,
+			});
+			break;
+		}
+	}
+
+	await app.workspace.revealLeaf(leaf);
+}
+
+/**
+ * Apply text and report failures in a notice. For UI click handlers.
+ */
+export function applyToEditorWithNotice(
+	app: App,
+	target: AutoMentionContext | null,
+	text: string,
+	mode: EditorApplyMode,
+): void {
+	applyToEditor(app, target, text, mode).catch((error: unknown) => {
+		new Notice(
+			`[Agent Client] ${error instanceof Error ? error.message : String(error)}`,
+		);
+	});
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Find a leaf showing the note, or open the note in a new tab.
+ */
+async function openNote(
+	app: App,
+	notePath: string,
+): Promise<WorkspaceLeaf | null> {
+	for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+		if (
+			leaf.view instanceof MarkdownView &&
+			leaf.view.file?.path === notePath
+		) {
+			return leaf;
+		}
+	}
+
+	const file = app.vault.getAbstractFileByPath(notePath);
+	if (!(file instanceof TFile)) {
+		throw new Error(`Note not found: ${notePath}`);
+	}
+	const leaf = app.workspace.getLeaf("tab");
+	await leaf.openFile(file);
+	return leaf;
+}
+
+function findRecentMarkdownLeaf(app: App): WorkspaceLeaf | null {
+	const leaf = app.workspace.getMostRecentLeaf();
+	return leaf?.view instanceof MarkdownView ? leaf : null;
+}
+
+/**
+ * Editor range covering whole lines (1-based, inclusive).
+ */
+function getLineRange(
+	editor: Editor,
+	selection: { fromLine: number; toLine: number },
+): { from: EditorPosition; to: EditorPosition } {
+	const fromLine = selection.fromLine - 1;
+	const toLine = selection.toLine - 1;
+	if (fromLine < 0 || toLine > editor.lastLine() || fromLine > toLine) {
+		throw new Error(
+			`Lines ${selection.fromLine}-${selection.toLine} no longer exist in the note.`,
+		);
+	}
+	return {
+		from: { line: fromLine, ch: 0 },
+		to: { line: toLine, ch: editor.getLine(toLine).length },
+	};
+}
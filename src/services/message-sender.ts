@@ -28,6 +28,7 @@ import type { AuthenticationMethod } from "../types/session";
 import type {
 	PromptContent,
 	ImagePromptContent,
+	AudioPromptContent,
 	ResourcePromptContent,
 	ResourceLinkPromptContent,
 } from "../types/chat";
@@ -52,6 +53,9 @@ export interface PreparePromptInput {
 	/** Attached images */
 	images?: ImagePromptContent[];
 
+	/** Attached audio clips */
+	audio?: AudioPromptContent[];
+
 	/** Attached file references (resource links) */
 	resourceLinks?: ResourceLinkPromptContent[];
 
@@ -253,7 +257,7 @@ function buildAutoMentionPrefix(
 }
 
 /**
- * Build display content array (message + images + resource links).
+ * Build display content array (message + images + audio + resource links).
  */
 function buildDisplayContent(input: PreparePromptInput): PromptContent[] {
 	return [
@@ -261,6 +265,7 @@ function buildDisplayContent(input: PreparePromptInput): PromptContent[] {
 			? [{ type: "text" as const, text: input.message }]
 			: []),
 		...(input.images || []),
+		...(input.audio || []),
 		...(input.resourceLinks || []),
 	];
 }
@@ -410,6 +415,7 @@ async function preparePromptWithEmbeddedContext(
 				]
 			: []),
 		...(input.images || []),
+		...(input.audio || []),
 		...(input.resourceLinks || []),
 	];
 
@@ -491,6 +497,7 @@ async function preparePromptWithTextContext(
 			? [{ type: "text" as const, text: agentMessageText }]
 			: []),
 		...(input.images || []),
+		...(input.audio || []),
 		...(input.resourceLinks || []),
 	];
 
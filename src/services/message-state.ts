@@ -7,10 +7,12 @@
  */
 
 import type {
+	AutoMentionContext,
 	ChatMessage,
 	MessageContent,
 	ActivePermission,
 	PermissionOption,
+	Role,
 } from "../types/chat";
 import type { SessionUpdate } from "../types/session";
 
@@ -49,6 +51,14 @@ export function mergeToolCallContent(
 			);
 		}
 
+		// Same for regular content blocks (agents resend the full output)
+		const hasBlocks = newContent.some((item) => item.type === "content");
+		if (hasBlocks) {
+			mergedContent = mergedContent.filter(
+				(item) => item.type !== "content",
+			);
+		}
+
 		mergedContent = [...mergedContent, ...newContent];
 	}
 
@@ -184,6 +194,33 @@ export function applyUpdateUserMessage(
 	return [...prev.slice(0, -1), updatedMessage];
 }
 
+/**
+ * Append content to the last message of the given role.
+ * Creates a new message if needed. Used for non-text chunks (images,
+ * resource links), which never replace earlier content of the same type.
+ */
+export function applyAppendContent(
+	prev: ChatMessage[],
+	role: Role,
+	content: MessageContent,
+): ChatMessage[] {
+	if (prev.length === 0 || prev[prev.length - 1].role !== role) {
+		const newMessage: ChatMessage = {
+			id: crypto.randomUUID(),
+			role,
+			content: [content],
+			timestamp: new Date(),
+		};
+		return [...prev, newMessage];
+	}
+
+	const lastMessage = prev[prev.length - 1];
+	return [
+		...prev.slice(0, -1),
+		{ ...lastMessage, content: [...lastMessage.content, content] },
+	];
+}
+
 /**
  * Apply a tool call upsert to the messages array.
  * If a tool call with the given ID exists, merges. Otherwise creates new message.
@@ -287,16 +324,25 @@ export function applySingleUpdate(
 ): ChatMessage[] {
 	switch (update.type) {
 		case "agent_message_chunk":
+			if (update.content) {
+				return applyAppendContent(prev, "assistant", update.content);
+			}
 			return applyUpdateLastMessage(prev, {
 				type: "text",
 				text: update.text,
 			});
 		case "agent_thought_chunk":
+			if (update.content) {
+				return applyAppendContent(prev, "assistant", update.content);
+			}
 			return applyUpdateLastMessage(prev, {
 				type: "agent_thought",
 				text: update.text,
 			});
 		case "user_message_chunk":
+			if (update.content) {
+				return applyAppendContent(prev, "user", update.content);
+			}
 			return applyUpdateUserMessage(prev, {
 				type: "text",
 				text: update.text,
@@ -373,3 +419,32 @@ export function selectOption(
 	}
 	return options[0];
 }
+
+// ============================================================================
+// Turn Helper Functions
+// ============================================================================
+
+/**
+ * Find the auto-mention context of each message's turn.
+ *
+ * Assistant messages get the context of the preceding user message (null
+ * when it had none); user messages get undefined.
+ */
+export function findTurnContexts(
+	messages: ChatMessage[],
+): Array<AutoMentionContext | null | undefined> {
+	let current: AutoMentionContext | null = null;
+	return messages.map((message) => {
+		if (message.role === "user") {
+			const content = message.content.find(
+				(c) => c.type === "text_with_context",
+			);
+			current =
+				content?.type === "text_with_context"
+					? (content.autoMentionContext ?? null)
+					: null;
+			return undefined;
+		}
+		return current;
+	});
+}
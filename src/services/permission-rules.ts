@@ -0,0 +1,195 @@
+/**
+ * Pure functions for evaluating permission rules.
+ * Used by PermissionManager (matching), SettingsTab (editing) and
+ * ToolCallBlock (saving a rule from a permission prompt).
+ */
+
+import type { ToolKind } from "../types/chat";
+import type { PermissionRule, PermissionRuleTarget } from "../types/permission";
+import { isAbsolutePath } from "../utils/paths";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Tool kinds selectable in rule conditions (display order) */
+export const PERMISSION_RULE_KINDS: ToolKind[] = [
+	"read",
+	"edit",
+	"delete",
+	"move",
+	"search",
+	"execute",
+	"fetch",
+	"switch_mode",
+	"think",
+	"other",
+];
+
+// ============================================================================
+// Rule Construction
+// ============================================================================
+
+/**
+ * Create a rule with empty conditions (matches every request).
+ */
+export function createPermissionRule(
+	overrides: Partial<PermissionRule> = {},
+): PermissionRule {
+	return {
+		id: crypto.randomUUID(),
+		enabled: true,
+		action: "allow",
+		kind: "",
+		titlePattern: "",
+		location: "",
+		agentId: "",
+		...overrides,
+	};
+}
+
+/**
+ * Build the rule offered after the user picks an "always allow" option.
+ *
+ * The rule is scoped to the call's kind and exact title (`*` in the title
+ * is escaped, so it is not a wildcard); calls with locations are also
+ * scoped to the working directory.
+ *
+ * @returns null when neither the kind nor a title to match is known, since
+ * the rule would then allow far more than the call the user approved
+ */
+export function createRuleFromToolCall(toolCall: {
+	kind?: ToolKind | null;
+	title?: string | null;
+	locations?: Array<{ path: string }> | null;
+	agentId: string | null;
+}): PermissionRule | null {
+	const hasLocations = (toolCall.locations?.length ?? 0) > 0;
+	const kind = toolCall.kind ?? "";
+	const titlePattern = (toolCall.title ?? "").trim().replace(/\*/g, "\\*");
+	if (!kind && !titlePattern) return null;
+
+	return createPermissionRule({
+		action: "allow",
+		kind,
+		titlePattern,
+		location: hasLocations ? "." : "",
+		agentId: toolCall.agentId ?? "",
+	});
+}
+
+/**
+ * One-line summary of a rule's conditions for display.
+ *
+ * @example
+ * describePermissionRule(rule) // "edit · in . · agent claude-code-acp"
+ */
+export function describePermissionRule(rule: PermissionRule): string {
+	const parts = [
+		rule.kind || "any tool",
+		rule.titlePattern ? `"${rule.titlePattern}"` : "",
+		rule.location ? `in ${rule.location}` : "",
+		rule.agentId ? `agent ${rule.agentId}` : "",
+	];
+	return parts.filter(Boolean).join(" · ");
+}
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+/**
+ * Find the first enabled rule that matches a permission request.
+ *
+ * @param rules - Rules in evaluation order
+ * @param target - Attributes of the permission request
+ * @param workingDirectory - Base for relative rule locations
+ * @param isWithinDirectory - Platform-aware containment check
+ * @returns The matching rule, or null if none matches
+ */
+export function findMatchingRule(
+	rules: PermissionRule[],
+	target: PermissionRuleTarget,
+	workingDirectory: string,
+	isWithinDirectory: (path: string, directory: string) => boolean,
+): PermissionRule | null {
+	return (
+		rules.find(
+			(rule) =>
+				rule.enabled &&
+				(!rule.kind || rule.kind === target.kind) &&
+				(!rule.agentId || rule.agentId === target.agentId) &&
+				matchesTitlePattern(rule.titlePattern, target.title ?? "") &&
+				matchesLocation(
+					rule.location,
+					target.locations,
+					workingDirectory,
+					isWithinDirectory,
+				),
+		) ?? null
+	);
+}
+
+/**
+ * Match a title against a case-insensitive pattern where `*` matches any
+ * run of characters and `\*` matches a literal `*`. An empty pattern
+ * matches every title.
+ */
+export function matchesTitlePattern(pattern: string, title: string): boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed) return true;
+
+	const source = trimmed
+		.split(/(\\\*|\*)/)
+		.map((part) =>
+			part === "*"
+				? ".*"
+				: part === "\\*"
+					? "\\*"
+					: part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"),
+		)
+		.join("");
+	return new RegExp(`^${source}$`, "i").test(title.trim());
+}
+
+function matchesLocation(
+	location: string,
+	paths: string[],
+	workingDirectory: string,
+	isWithinDirectory: (path: string, directory: string) => boolean,
+): boolean {
+	const trimmed = location.trim();
+	if (!trimmed) return true;
+	if (paths.length === 0 || !workingDirectory) return false;
+	// Containment is checked on the raw strings, so never let ".." escape it
+	if (paths.some((path) => /(^|[\\/])\.\.([\\/]|$)/.test(path))) {
+		return false;
+	}
+
+	const directory = resolveRuleDirectory(trimmed, workingDirectory);
+	return paths.every((path) =>
+		isWithinDirectory(
+			isAbsolutePath(path)
+				? path
+				: resolveRuleDirectory(path, workingDirectory),
+			directory,
+		),
+	);
+}
+
+/**
+ * Resolve a rule location (relative to the working directory) to a path.
+ */
+function resolveRuleDirectory(
+	location: string,
+	workingDirectory: string,
+): string {
+	if (isAbsolutePath(location)) return location;
+
+	const relative = location
+		.replace(/\\/g, "/")
+		.replace(/^\.\/?/, "")
+		.replace(/^\/+|\/+$/g, "");
+	const base = workingDirectory.replace(/[\\/]+$/, "");
+	return relative ? `${base}/${relative}` : base;
+}
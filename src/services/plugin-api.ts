@@ -0,0 +1,503 @@
+/**
+ * Public API for other plugins and scripts.
+ *
+ * Reached through `app.plugins.plugins["agent-client"].api`.
+ *
+ * Handles:
+ * - Headless sessions: an agent process without a chat view
+ * - Prompts to headless sessions and to open chat views
+ * - Collecting a turn's updates into a structured result
+ *
+ * Prompts to headless sessions get their @[[note]] mentions expanded like
+ * chat messages (as text context, which every agent supports).
+ *
+ * Headless sessions answer permission requests that no rule (or auto-allow)
+ * decided with their permission policy, since nobody can click a button.
+ */
+
+import { FileSystemAdapter, Platform } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import { AcpClient } from "../acp/acp-client";
+import type {
+	ApiAgentInfo,
+	ApiPermissionPolicy,
+	ApiPromptResult,
+	ApiSession,
+	ApiSessionOptions,
+	ApiSessionUpdateListener,
+	ApiToolCall,
+	ApiViewInfo,
+} from "../types/api";
+import type { PermissionOption, PromptContent } from "../types/chat";
+import type { SessionUpdate } from "../types/session";
+import {
+	buildAgentConfigWithApiKey,
+	findAgentSettings,
+	getAvailableAgentsFromSettings,
+	getDefaultAgentId,
+} from "./session-helpers";
+import { preparePrompt } from "./message-sender";
+import { VaultService } from "./vault-service";
+import { getLogger } from "../utils/logger";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Bumped on breaking changes of the public API */
+export const API_VERSION = 1;
+
+/** How long a chat view may take to become ready to send */
+const VIEW_INPUT_TIMEOUT_MS = 2000;
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+interface HeadlessSession {
+	info: ApiSession;
+	client: AcpClient;
+	permissionPolicy: ApiPermissionPolicy;
+	/** Whether a prompt is running */
+	isBusy: boolean;
+	/** Permission requests already answered */
+	answeredRequestIds: Set<string>;
+	unsubscribe: () => void;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class AgentClientApi {
+	readonly version = API_VERSION;
+
+	private sessions = new Map<string, HeadlessSession>();
+	/** Note lookup for mentions (created on first prompt) */
+	private vaultService: VaultService | null = null;
+	private logger = getLogger();
+
+	constructor(private plugin: AgentClientPlugin) {}
+
+	// ========================================================================
+	// Agents and Views
+	// ========================================================================
+
+	/**
+	 * Agents configured in settings.
+	 */
+	listAgents(): ApiAgentInfo[] {
+		return getAvailableAgentsFromSettings(this.plugin.settings);
+	}
+
+	/**
+	 * Open chat views (sidebar and floating).
+	 */
+	listViews(): ApiViewInfo[] {
+		const focusedId = this.plugin.viewRegistry.getFocusedId();
+		return this.plugin.viewRegistry.getAll().map((view) => ({
+			viewId: view.viewId,
+			viewType: view.viewType,
+			displayName: view.getDisplayName(),
+			isFocused: view.viewId === focusedId,
+		}));
+	}
+
+	// ========================================================================
+	// Headless Sessions
+	// ========================================================================
+
+	/**
+	 * Start an agent process and create a session without a chat view.
+	 * Close it with closeSession() when done.
+	 *
+	 * @throws Error if the agent is unknown or fails to start
+	 */
+	async createSession(options: ApiSessionOptions = {}): Promise<ApiSession> {
+		const settings = this.plugin.settings;
+		const agentId = options.agentId || getDefaultAgentId(settings);
+		const agentSettings = findAgentSettings(settings, agentId);
+		if (!agentSettings) {
+			throw new Error(`Agent not found: ${agentId}`);
+		}
+
+		const cwd = options.cwd || this.getVaultPath();
+		const client = new AcpClient(this.plugin);
+		try {
+			await client.initialize(
+				buildAgentConfigWithApiKey(
+					settings,
+					agentSettings,
+					agentId,
+					cwd,
+				),
+			);
+			const { sessionId } = await client.newSession(cwd);
+
+			const session: HeadlessSession = {
+				info: { sessionId, agentId, cwd },
+				client,
+				permissionPolicy: options.permissionPolicy ?? "reject",
+				isBusy: false,
+				answeredRequestIds: new Set(),
+				unsubscribe: () => {},
+			};
+			session.unsubscribe = client.onSessionUpdate((update) =>
+				this.answerPermissionRequest(session, update),
+			);
+			this.sessions.set(sessionId, session);
+
+			this.logger.log(
+				`[AgentClientApi] Created headless session ${sessionId} (${agentId})`,
+			);
+			return { ...session.info };
+		} catch (error) {
+			await client.disconnect().catch(() => {});
+			throw error;
+		}
+	}
+
+	/**
+	 * Headless sessions that are open.
+	 */
+	listSessions(): ApiSession[] {
+		return Array.from(this.sessions.values()).map((session) => ({
+			...session.info,
+		}));
+	}
+
+	/**
+	 * Send a prompt to a headless session.
+	 * Resolves when the agent finishes its turn.
+	 *
+	 * @throws Error if the session is unknown or already running a prompt
+	 */
+	async sendPrompt(
+		sessionId: string,
+		prompt: string,
+	): Promise<ApiPromptResult> {
+		const session = this.requireSession(sessionId);
+		if (session.isBusy) {
+			throw new Error(`Session is busy: ${sessionId}`);
+		}
+
+		session.isBusy = true;
+		let content: PromptContent[];
+		try {
+			content = await this.preparePromptContent(prompt);
+		} catch (error) {
+			session.isBusy = false;
+			throw error;
+		}
+
+		const collector = new PromptResultCollector(sessionId);
+		const unsubscribe = session.client.onSessionUpdate((update) => {
+			if (update.sessionId === sessionId) {
+				collector.add(update);
+			}
+		});
+		try {
+			await session.client.sendPrompt(sessionId, content);
+		} finally {
+			unsubscribe();
+			session.isBusy = false;
+		}
+		return collector.getResult();
+	}
+
+	/**
+	 * Stop a headless session's agent process.
+	 * Unknown session IDs are ignored.
+	 */
+	async closeSession(sessionId: string): Promise<void> {
+		const session = this.sessions.get(sessionId);
+		if (!session) return;
+
+		this.sessions.delete(sessionId);
+		session.unsubscribe();
+		await session.client.disconnect();
+		this.logger.log(
+			`[AgentClientApi] Closed headless session ${sessionId}`,
+		);
+	}
+
+	// ========================================================================
+	// Chat Views
+	// ========================================================================
+
+	/**
+	 * Send a prompt through a chat view, as if typed into its input.
+	 * The view shows the conversation as usual.
+	 * Resolves when the agent finishes its turn.
+	 *
+	 * @param viewId - Target view (focused view if null)
+	 * @throws Error if the view is missing or cannot send right now
+	 */
+	async sendPromptToView(
+		viewId: string | null,
+		prompt: string,
+	): Promise<ApiPromptResult> {
+		const view = viewId
+			? this.plugin.viewRegistry.get(viewId)
+			: this.plugin.viewRegistry.getFocused();
+		if (!view) {
+			throw new Error(
+				viewId ? `Chat view not found: ${viewId}` : "No chat view open",
+			);
+		}
+
+		// The view picks up the new input on its next render
+		view.setInputState({ text: prompt, files: [] });
+		const deadline = Date.now() + VIEW_INPUT_TIMEOUT_MS;
+		while (!view.canSend() && Date.now() < deadline) {
+			await new Promise((r) => window.setTimeout(r, 100));
+		}
+		if (!view.canSend()) {
+			throw new Error(`Chat view cannot send now: ${view.viewId}`);
+		}
+
+		const client = this.plugin.getOrCreateAcpClient(view.viewId);
+		const collector = new PromptResultCollector(null);
+		const unsubscribe = client.onSessionUpdate((update) =>
+			collector.add(update),
+		);
+		try {
+			const sent = await view.sendMessage();
+			if (!sent) {
+				throw new Error(`Chat view did not send: ${view.viewId}`);
+			}
+		} finally {
+			unsubscribe();
+		}
+		return collector.getResult();
+	}
+
+	// ========================================================================
+	// Shared
+	// ========================================================================
+
+	/**
+	 * Listen to the raw updates of a headless session or chat view.
+	 *
+	 * @param target - Headless session ID or view ID
+	 * @returns Function that removes the listener
+	 * @throws Error if the target is unknown
+	 */
+	onSessionUpdate(
+		target: string,
+		listener: ApiSessionUpdateListener,
+	): () => void {
+		const session = this.sessions.get(target);
+		if (session) {
+			return session.client.onSessionUpdate((update) => {
+				if (update.sessionId === target) {
+					listener(update);
+				}
+			});
+		}
+		if (this.plugin.viewRegistry.get(target)) {
+			return this.plugin
+				.getOrCreateAcpClient(target)
+				.onSessionUpdate(listener);
+		}
+		throw new Error(`Session or chat view not found: ${target}`);
+	}
+
+	/**
+	 * Cancel the running prompt of a headless session or chat view.
+	 *
+	 * @param target - Headless session ID or view ID
+	 * @throws Error if the target is unknown
+	 */
+	async cancel(target: string): Promise<void> {
+		const session = this.sessions.get(target);
+		if (session) {
+			await session.client.cancel(target);
+			return;
+		}
+		const view = this.plugin.viewRegistry.get(target);
+		if (view) {
+			await view.cancelOperation();
+			return;
+		}
+		throw new Error(`Session or chat view not found: ${target}`);
+	}
+
+	/**
+	 * Close all headless sessions. Called on plugin unload.
+	 */
+	dispose(): void {
+		for (const sessionId of Array.from(this.sessions.keys())) {
+			this.closeSession(sessionId).catch(() => {});
+		}
+		this.vaultService?.destroy();
+		this.vaultService = null;
+	}
+
+	// ========================================================================
+	// Private
+	// ========================================================================
+
+	private requireSession(sessionId: string): HeadlessSession {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			throw new Error(`Session not found: ${sessionId}`);
+		}
+		return session;
+	}
+
+	/**
+	 * Expand the @[[note]] mentions of a prompt into text context.
+	 */
+	private async preparePromptContent(
+		prompt: string,
+	): Promise<PromptContent[]> {
+		const settings = this.plugin.settings;
+		if (!this.vaultService) {
+			this.vaultService = new VaultService(this.plugin);
+		}
+		const prepared = await preparePrompt(
+			{
+				message: prompt,
+				vaultBasePath: this.getVaultPath(),
+				isAutoMentionDisabled: true,
+				convertToWsl: Platform.isWin && settings.windowsWslMode,
+				supportsEmbeddedContext: false,
+				maxNoteLength: settings.displaySettings.maxNoteLength,
+				maxSelectionLength: settings.displaySettings.maxSelectionLength,
+			},
+			this.vaultService,
+			this.vaultService,
+		);
+		return prepared.agentContent;
+	}
+
+	private getVaultPath(): string {
+		const adapter = this.plugin.app.vault.adapter;
+		if (adapter instanceof FileSystemAdapter) {
+			return adapter.getBasePath();
+		}
+		// Fallback for non-FileSystemAdapter (e.g., mobile)
+		return process.cwd();
+	}
+
+	/**
+	 * Answer a permission request of a headless session with its policy.
+	 * File write reviews are always rejected: nobody can see the diff.
+	 */
+	private answerPermissionRequest(
+		session: HeadlessSession,
+		update: SessionUpdate,
+	): void {
+		if (update.type !== "tool_call" && update.type !== "tool_call_update") {
+			return;
+		}
+		const request = update.permissionRequest;
+		if (
+			!request ||
+			request.selectedOptionId ||
+			request.isCancelled ||
+			session.answeredRequestIds.has(request.requestId)
+		) {
+			return;
+		}
+
+		const policy = request.isReview ? "reject" : session.permissionPolicy;
+		const option = findPolicyOption(request.options, policy);
+		if (!option) return;
+
+		session.answeredRequestIds.add(request.requestId);
+		this.logger.log(
+			`[AgentClientApi] Answering permission request ${request.requestId} with ${option.kind} (policy: ${policy})`,
+		);
+		void session.client.respondToPermission(
+			request.requestId,
+			option.optionId,
+			"policy",
+		);
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Option matching a permission policy, preferring the "once" variant.
+ */
+function findPolicyOption(
+	options: PermissionOption[],
+	policy: ApiPermissionPolicy,
+): PermissionOption | undefined {
+	const kinds: PermissionOption["kind"][] =
+		policy === "allow"
+			? ["allow_once", "allow_always"]
+			: ["reject_once", "reject_always"];
+	for (const kind of kinds) {
+		const option = options.find((o) => o.kind === kind);
+		if (option) return option;
+	}
+	return undefined;
+}
+
+/**
+ * Collects a turn's session updates into an ApiPromptResult.
+ */
+class PromptResultCollector {
+	private text = "";
+	private thoughts = "";
+	private toolCalls = new Map<string, ApiToolCall>();
+	private usage: ApiPromptResult["usage"] = null;
+
+	/**
+	 * @param sessionId - Session of the turn (taken from the updates if null)
+	 */
+	constructor(private sessionId: string | null) {}
+
+	add(update: SessionUpdate): void {
+		if (this.sessionId === null) {
+			this.sessionId = update.sessionId;
+		}
+
+		switch (update.type) {
+			case "agent_message_chunk":
+				this.text += update.text;
+				break;
+			case "agent_thought_chunk":
+				this.thoughts += update.text;
+				break;
+			case "tool_call":
+			case "tool_call_update": {
+				const existing = this.toolCalls.get(update.toolCallId);
+				const merged: ApiToolCall = {
+					toolCallId: update.toolCallId,
+					title: update.title ?? existing?.title ?? null,
+					kind: update.kind ?? existing?.kind ?? null,
+					status: update.status ?? existing?.status ?? "pending",
+					locations: update.locations
+						? update.locations.map((location) => location.path)
+						: (existing?.locations ?? []),
+				};
+				this.toolCalls.set(update.toolCallId, merged);
+				break;
+			}
+			case "usage_update":
+				this.usage = {
+					used: update.used,
+					size: update.size,
+					cost: update.cost ?? undefined,
+				};
+				break;
+		}
+	}
+
+	getResult(): ApiPromptResult {
+		return {
+			sessionId: this.sessionId ?? "",
+			text: this.text,
+			thoughts: this.thoughts,
+			toolCalls: Array.from(this.toolCalls.values()),
+			usage: this.usage,
+		};
+	}
+}
@@ -0,0 +1,232 @@
+/**
+ * Prompt templates: reusable prompts stored as markdown notes in the
+ * template folder (set in settings, subfolders included).
+ *
+ * Handles:
+ * - Listing templates with their frontmatter (description, agent, mode, model)
+ * - Rendering a template body with its placeholders filled in
+ *
+ * Placeholders:
+ * - {{selection}}: Selected text of the most recent editor
+ * - {{activeNote}}: Mention of the active note (@[[note]])
+ * - {{date}} / {{date:FORMAT}}: Current date (moment format, YYYY-MM-DD by default)
+ * - {{input:Label}}: Value asked from the user, once per label
+ *
+ * Unknown placeholders are left as they are.
+ *
+ * Runs without an editor (automations) pass a render context instead: its
+ * note fills {{activeNote}} and {{selection}} is empty.
+ */
+
+import {
+	getFrontMatterInfo,
+	MarkdownView,
+	moment,
+	normalizePath,
+	type TFile,
+} from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import type { PromptTemplate } from "../types/prompt-template";
+import { buildNoteMention } from "./context-actions";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PLACEHOLDER_PATTERN =
+	/\{\{\s*(selection|activeNote|date|input)(?::([^}]*))?\s*\}\}/g;
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+
+/** Label of an {{input}} placeholder without one */
+const DEFAULT_INPUT_LABEL = "Input";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Context of a render without an editor.
+ */
+export interface TemplateRenderContext {
+	/** Note for {{activeNote}} (null = empty) */
+	note: TFile | null;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class PromptTemplateService {
+	constructor(private plugin: AgentClientPlugin) {}
+
+	/**
+	 * Template folder (normalized), or null when not configured.
+	 */
+	getFolder(): string | null {
+		const folder = this.plugin.settings.promptTemplateFolder.trim();
+		return folder ? normalizePath(folder) : null;
+	}
+
+	/**
+	 * Whether a vault path is inside the template folder.
+	 */
+	isTemplatePath(path: string): boolean {
+		const folder = this.getFolder();
+		return folder !== null && path.startsWith(`${folder}/`);
+	}
+
+	/**
+	 * Templates in the template folder, sorted by name.
+	 */
+	getTemplates(): PromptTemplate[] {
+		const metadataCache = this.plugin.app.metadataCache;
+		return this.plugin.app.vault
+			.getMarkdownFiles()
+			.filter((file) => this.isTemplatePath(file.path))
+			.map((file) => {
+				const frontmatter =
+					metadataCache.getFileCache(file)?.frontmatter ?? {};
+				return {
+					path: file.path,
+					name: file.basename,
+					commandName: toCommandName(file.basename),
+					description: readString(frontmatter, "description") ?? "",
+					preferences: {
+						agent: readString(frontmatter, "agent"),
+						mode: readString(frontmatter, "mode"),
+						model: readString(frontmatter, "model"),
+					},
+				};
+			})
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Render a template body. Input placeholders are asked in order of
+	 * appearance before anything else is filled in.
+	 *
+	 * @param askInput - Asks the user for a value (null = cancelled)
+	 * @param context - Replaces the editor context (for runs without one)
+	 * @returns The prompt, or null when an input was cancelled
+	 * @throws Error if the template note no longer exists
+	 */
+	async render(
+		template: PromptTemplate,
+		askInput: (label: string) => Promise<string | null>,
+		context?: TemplateRenderContext,
+	): Promise<string | null> {
+		const file = this.plugin.app.vault.getFileByPath(template.path);
+		if (!file) {
+			throw new Error(`Template not found: ${template.path}`);
+		}
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const body = content
+			.slice(getFrontMatterInfo(content).contentStart)
+			.trim();
+		return this.renderText(body, askInput, context);
+	}
+
+	/**
+	 * Fill the placeholders of a prompt text, as in a template body.
+	 *
+	 * @returns The prompt, or null when an input was cancelled
+	 */
+	async renderText(
+		body: string,
+		askInput: (label: string) => Promise<string | null>,
+		context?: TemplateRenderContext,
+	): Promise<string | null> {
+		const labels: string[] = [];
+		body.replace(
+			PLACEHOLDER_PATTERN,
+			(match, name: string, arg?: string) => {
+				const label = toInputLabel(arg);
+				if (name === "input" && !labels.includes(label)) {
+					labels.push(label);
+				}
+				return match;
+			},
+		);
+
+		const inputs = new Map<string, string>();
+		for (const label of labels) {
+			const value = await askInput(label);
+			if (value === null) return null;
+			inputs.set(label, value);
+		}
+
+		const { selection, activeNote } = context
+			? {
+					selection: "",
+					activeNote: context.note
+						? buildNoteMention({ noteName: context.note.basename })
+						: "",
+				}
+			: this.getEditorContext();
+		return body.replace(
+			PLACEHOLDER_PATTERN,
+			(_match, name: string, arg?: string) => {
+				switch (name) {
+					case "selection":
+						return selection;
+					case "activeNote":
+						return activeNote;
+					case "date":
+						return moment().format(
+							arg?.trim() || DEFAULT_DATE_FORMAT,
+						);
+					default:
+						return inputs.get(toInputLabel(arg)) ?? "";
+				}
+			},
+		);
+	}
+
+	/**
+	 * Selection and active note, read from the most recent editor so
+	 * they are available while the chat has focus.
+	 */
+	private getEditorContext(): { selection: string; activeNote: string } {
+		const workspace = this.plugin.app.workspace;
+		const leaf = workspace.getMostRecentLeaf();
+		const selection =
+			leaf?.view instanceof MarkdownView
+				? leaf.view.editor.getSelection()
+				: "";
+		const file = workspace.getActiveFile();
+		const activeNote =
+			file?.extension === "md"
+				? buildNoteMention({ noteName: file.basename })
+				: "";
+		return { selection, activeNote };
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Name of a template in the `/` dropdown.
+ *
+ * @example
+ * toCommandName("Weekly Review") // "weekly-review"
+ */
+export function toCommandName(name: string): string {
+	return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+function toInputLabel(arg: string | undefined): string {
+	return arg?.trim() || DEFAULT_INPUT_LABEL;
+}
+
+function readString(
+	frontmatter: Record<string, unknown>,
+	key: string,
+): string | undefined {
+	const value = frontmatter[key];
+	if (typeof value === "string") return value.trim() || undefined;
+	if (typeof value === "number") return String(value);
+	return undefined;
+}
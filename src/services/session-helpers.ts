@@ -119,7 +119,11 @@ export function buildAgentConfigWithApiKey(
 	agentId: string,
 	workingDirectory: string,
 ) {
-	const baseConfig = toAgentConfig(agentSettings, workingDirectory);
+	const baseConfig = toAgentConfig(
+		agentSettings,
+		workingDirectory,
+		settings.mcpServers,
+	);
 
 	// Add API keys to environment for Claude, Codex, and Gemini
 	if (agentId === settings.claude.id) {
@@ -0,0 +1,555 @@
+/**
+ * Full-text search over saved sessions and exported chats.
+ *
+ * Handles:
+ * - Indexing session message files (sessions/*.json) and exported chat
+ *   notes (notes with a session_id in the export folder)
+ * - Incremental refresh: only files whose modification time changed are
+ *   read again
+ * - Matching (every query term must occur in the message) and snippets
+ *   with highlight ranges
+ *
+ * The index is an inverted index from tokens to messages, kept in memory.
+ * Query terms match any token that contains them, so partial words and
+ * file names work. Everything is local; no agent is needed.
+ */
+
+import { normalizePath, TFile } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import type { ChatMessage } from "../types/chat";
+import type {
+	SessionSearchField,
+	SessionSearchResult,
+	SessionSearchSource,
+} from "../types/search";
+import { getLogger, Logger } from "../utils/logger";
+import { parseMessageMarker } from "./chat-exporter";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum number of results returned by a search */
+const MAX_RESULTS = 100;
+
+/** Session files are checked for changes at most this often */
+const REFRESH_INTERVAL_MS = 5 * 1000;
+
+/** Characters shown before the first match in a snippet */
+const SNIPPET_BEFORE = 40;
+
+/** Maximum snippet length */
+const SNIPPET_LENGTH = 160;
+
+/** Splits text into tokens (whitespace and punctuation, except _) */
+const TOKEN_SEPARATOR = /[\s!"#$%&'()*+,./:;<=>?@[\\\]^`{|}~-]+/;
+
+/** Default message heading of chats exported without markers: "## 10:15:32 - User" */
+const EXPORT_HEADING = /^## .+ - (User|Assistant)\s*$/;
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+interface IndexedSegment {
+	field: SessionSearchField;
+	text: string;
+}
+
+interface IndexedMessage {
+	documentPath: string;
+	messageId: string | null;
+	line: number | null;
+	role: "user" | "assistant";
+	timestamp: string | null;
+	segments: IndexedSegment[];
+	tokens: Set<string>;
+}
+
+interface IndexedDocument {
+	source: SessionSearchSource;
+	path: string;
+	mtime: number;
+	sessionId: string | null;
+	agentId: string | null;
+	/** Title when the session has no saved title (first user message) */
+	fallbackTitle: string;
+	messageKeys: number[];
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class SessionSearchIndex {
+	private logger: Logger;
+
+	private documents = new Map<string, IndexedDocument>();
+	private messages = new Map<number, IndexedMessage>();
+	/** Token → keys of the messages containing it */
+	private postings = new Map<string, Set<number>>();
+	private nextMessageKey = 0;
+
+	private lastSessionRefresh = 0;
+	private refreshPromise: Promise<void> | null = null;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Search messages, best matches first.
+	 * Brings the index up to date before searching.
+	 */
+	async search(query: string): Promise<SessionSearchResult[]> {
+		const terms = [...new Set(tokenize(query))];
+		if (terms.length === 0) return [];
+
+		await this.refresh();
+
+		let candidates: Set<number> | null = null;
+		for (const term of terms) {
+			const matches = new Set<number>();
+			for (const [token, keys] of this.postings) {
+				if (!token.includes(term)) continue;
+				for (const key of keys) {
+					if (!candidates || candidates.has(key)) matches.add(key);
+				}
+			}
+			candidates = matches;
+			if (candidates.size === 0) return [];
+		}
+
+		const savedSessions = new Map(
+			this.plugin.settings.savedSessions.map((s) => [s.sessionId, s]),
+		);
+		const agentNames = new Map(
+			this.plugin
+				.getAvailableAgents()
+				.map((agent) => [agent.id, agent.displayName]),
+		);
+
+		const scored: Array<{ result: SessionSearchResult; score: number }> =
+			[];
+		for (const key of candidates ?? []) {
+			const message = this.messages.get(key);
+			const document = message
+				? this.documents.get(message.documentPath)
+				: undefined;
+			if (!message || !document) continue;
+
+			const match = findBestSegment(message.segments, terms);
+			if (!match) continue;
+
+			const saved = document.sessionId
+				? savedSessions.get(document.sessionId)
+				: undefined;
+			scored.push({
+				score: match.score,
+				result: {
+					source: document.source,
+					sessionId: document.sessionId,
+					agentId: document.agentId,
+					agentName: document.agentId
+						? (agentNames.get(document.agentId) ?? document.agentId)
+						: null,
+					title:
+						document.source === "session" && saved?.title
+							? saved.title
+							: document.fallbackTitle,
+					cwd: saved?.cwd ?? null,
+					path: document.source === "export" ? document.path : null,
+					messageId: message.messageId,
+					line: message.line,
+					role: message.role,
+					timestamp: message.timestamp,
+					field: match.segment.field,
+					...buildSnippet(match.segment.text, terms),
+				},
+			});
+		}
+
+		return scored
+			.sort(
+				(a, b) =>
+					b.score - a.score ||
+					(b.result.timestamp ?? "").localeCompare(
+						a.result.timestamp ?? "",
+					),
+			)
+			.slice(0, MAX_RESULTS)
+			.map(({ result }) => result);
+	}
+
+	// ========================================================================
+	// Indexing
+	// ========================================================================
+
+	/**
+	 * Update the index from disk. Concurrent calls share one refresh.
+	 */
+	private refresh(): Promise<void> {
+		if (!this.refreshPromise) {
+			this.refreshPromise = this.doRefresh()
+				.catch((error) => {
+					this.logger.error(
+						"[SessionSearchIndex] Failed to refresh index:",
+						error,
+					);
+				})
+				.finally(() => {
+					this.refreshPromise = null;
+				});
+		}
+		return this.refreshPromise;
+	}
+
+	private async doRefresh(): Promise<void> {
+		const seen = new Set<string>();
+
+		// Exported notes: modification times are known without disk access
+		for (const file of this.getExportFiles()) {
+			seen.add(file.path);
+			if (this.documents.get(file.path)?.mtime === file.stat.mtime) {
+				continue;
+			}
+			await this.indexExport(file);
+		}
+
+		const now = Date.now();
+		const checkSessions =
+			now - this.lastSessionRefresh >= REFRESH_INTERVAL_MS;
+		if (checkSessions) {
+			this.lastSessionRefresh = now;
+			const files =
+				await this.plugin.settingsService.listSessionMessagesFiles();
+			for (const { path, mtime } of files) {
+				seen.add(path);
+				if (this.documents.get(path)?.mtime === mtime) continue;
+				await this.indexSession(path, mtime);
+			}
+		}
+
+		// Drop deleted files (session files only when they were listed)
+		for (const document of [...this.documents.values()]) {
+			if (document.source === "session" && !checkSessions) continue;
+			if (!seen.has(document.path)) this.removeDocument(document.path);
+		}
+	}
+
+	private async indexSession(path: string, mtime: number): Promise<void> {
+		const stored =
+			await this.plugin.settingsService.readSessionMessagesFile(path);
+		if (!stored) {
+			this.removeDocument(path);
+			return;
+		}
+
+		const firstUserText = stored.messages
+			.find((m) => m.role === "user")
+			?.content.map((c) =>
+				c.type === "text" || c.type === "text_with_context"
+					? c.text
+					: "",
+			)
+			.join(" ")
+			.trim();
+
+		this.setDocument(
+			{
+				source: "session",
+				path,
+				mtime,
+				sessionId: stored.sessionId,
+				agentId: stored.agentId,
+				fallbackTitle: truncate(firstUserText || "Untitled Session"),
+				messageKeys: [],
+			},
+			stored.messages.map((message) => ({
+				documentPath: path,
+				messageId: message.id,
+				line: null,
+				role: message.role,
+				timestamp: message.timestamp.toISOString(),
+				segments: extractSegments(message),
+				tokens: new Set(),
+			})),
+		);
+	}
+
+	private async indexExport(file: TFile): Promise<void> {
+		const frontmatter =
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const timestamp = new Date(file.stat.ctime).toISOString();
+
+		const separator =
+			this.plugin.settings.exportSettings.markdownTemplate.messageSeparator.trim();
+		const isSeparator = (line: string) =>
+			line.trim() === "---" || (!!separator && line.trim() === separator);
+
+		const messages: IndexedMessage[] = [];
+		let current: IndexedMessage | null = null;
+		const lines = content.split("\n");
+		// Messages start at marker comments (the next line is the heading),
+		// or at default headings in notes exported before markers existed
+		const hasMarkers = lines.some((line) => parseMessageMarker(line));
+		for (let index = 0; index < lines.length; index++) {
+			const line = lines[index];
+			const marker = hasMarkers ? parseMessageMarker(line) : null;
+			const heading = hasMarkers ? null : EXPORT_HEADING.exec(line);
+			if (marker || heading) {
+				current = {
+					documentPath: file.path,
+					messageId: null,
+					line: marker ? index + 1 : index,
+					role:
+						marker?.role ??
+						(heading?.[1] === "User" ? "user" : "assistant"),
+					timestamp: marker?.timestamp.toISOString() ?? timestamp,
+					segments: [{ field: "text", text: "" }],
+					tokens: new Set(),
+				};
+				messages.push(current);
+				if (marker) index++; // Skip the heading
+			} else if (current && !isSeparator(line)) {
+				current.segments[0].text += `${line}\n`;
+			}
+		}
+		for (const message of messages) {
+			message.segments[0].text = message.segments[0].text.trim();
+		}
+
+		this.setDocument(
+			{
+				source: "export",
+				path: file.path,
+				mtime: file.stat.mtime,
+				sessionId: readFrontmatterString(frontmatter, "session_id"),
+				agentId: readFrontmatterString(frontmatter, "agentId"),
+				fallbackTitle: file.basename,
+				messageKeys: [],
+			},
+			messages,
+		);
+	}
+
+	/**
+	 * Exported chats: notes in the export folder with a session_id.
+	 */
+	private getExportFiles(): TFile[] {
+		const folder = normalizePath(
+			this.plugin.settings.exportSettings.defaultFolder || "Agent Client",
+		);
+		const { metadataCache, vault } = this.plugin.app;
+		return vault
+			.getMarkdownFiles()
+			.filter(
+				(file) =>
+					file.path.startsWith(`${folder}/`) &&
+					metadataCache.getFileCache(file)?.frontmatter
+						?.session_id !== undefined,
+			);
+	}
+
+	private setDocument(
+		document: IndexedDocument,
+		messages: IndexedMessage[],
+	): void {
+		this.removeDocument(document.path);
+
+		for (const message of messages) {
+			for (const segment of message.segments) {
+				for (const token of tokenize(segment.text)) {
+					message.tokens.add(token);
+				}
+			}
+			if (message.tokens.size === 0) continue;
+
+			const key = this.nextMessageKey++;
+			this.messages.set(key, message);
+			document.messageKeys.push(key);
+			for (const token of message.tokens) {
+				let keys = this.postings.get(token);
+				if (!keys) {
+					keys = new Set();
+					this.postings.set(token, keys);
+				}
+				keys.add(key);
+			}
+		}
+
+		this.documents.set(document.path, document);
+	}
+
+	private removeDocument(path: string): void {
+		const document = this.documents.get(path);
+		if (!document) return;
+
+		for (const key of document.messageKeys) {
+			const message = this.messages.get(key);
+			if (!message) continue;
+			for (const token of message.tokens) {
+				const keys = this.postings.get(token);
+				keys?.delete(key);
+				if (keys?.size === 0) this.postings.delete(token);
+			}
+			this.messages.delete(key);
+		}
+		this.documents.delete(path);
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function tokenize(text: string): string[] {
+	return text.toLowerCase().split(TOKEN_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * Searchable parts of a message: text, tool call titles and locations.
+ */
+function extractSegments(message: ChatMessage): IndexedSegment[] {
+	const segments: IndexedSegment[] = [];
+	const add = (field: SessionSearchField, text?: string | null) => {
+		if (text && text.trim()) segments.push({ field, text });
+	};
+
+	for (const content of message.content) {
+		switch (content.type) {
+			case "text":
+			case "text_with_context":
+			case "agent_thought":
+				add("text", content.text);
+				break;
+			case "plan":
+				add(
+					"text",
+					content.entries.map((entry) => entry.content).join("\n"),
+				);
+				break;
+			case "tool_call":
+				add("tool", content.title);
+				for (const location of content.locations ?? []) {
+					add("location", location.path);
+				}
+				break;
+			case "permission_request":
+				add("tool", content.toolCall.title);
+				for (const location of content.toolCall.locations ?? []) {
+					add("location", location.path);
+				}
+				break;
+			case "resource_link":
+				add("location", content.uri);
+				break;
+			case "resource":
+				add("location", content.uri);
+				add("text", content.text);
+				break;
+		}
+	}
+	return segments;
+}
+
+/**
+ * The segment to show for a message (the one containing the most terms,
+ * the first on ties). The score is the number of term occurrences in the
+ * whole message.
+ */
+function findBestSegment(
+	segments: IndexedSegment[],
+	terms: string[],
+): { segment: IndexedSegment; score: number } | null {
+	let best: { segment: IndexedSegment; score: number } | null = null;
+	let total = 0;
+	for (const segment of segments) {
+		const lower = segment.text.toLowerCase();
+		let matchedTerms = 0;
+		for (const term of terms) {
+			const count = countOccurrences(lower, term);
+			total += count;
+			if (count > 0) matchedTerms++;
+		}
+		if (matchedTerms > 0 && (!best || matchedTerms > best.score)) {
+			best = { segment, score: matchedTerms };
+		}
+	}
+	return best ? { segment: best.segment, score: total } : null;
+}
+
+function countOccurrences(text: string, term: string): number {
+	let count = 0;
+	let index = text.indexOf(term);
+	while (index !== -1) {
+		count++;
+		index = text.indexOf(term, index + term.length);
+	}
+	return count;
+}
+
+/**
+ * Cut an excerpt around the first match and mark every term in it.
+ */
+function buildSnippet(
+	text: string,
+	terms: string[],
+): Pick<SessionSearchResult, "snippet" | "highlights"> {
+	const flat = text.replace(/\s+/g, " ").trim();
+	const lower = flat.toLowerCase();
+
+	const first = Math.min(
+		...terms.map((term) => {
+			const index = lower.indexOf(term);
+			return index === -1 ? Infinity : index;
+		}),
+	);
+	const start =
+		first === Infinity || first <= SNIPPET_BEFORE
+			? 0
+			: first - SNIPPET_BEFORE;
+	const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+	const prefix = start > 0 ? "..." : "";
+	const snippet = `${prefix}${flat.slice(start, end)}${end < flat.length ? "..." : ""}`;
+
+	const ranges: Array<[number, number]> = [];
+	const lowerSnippet = snippet.toLowerCase();
+	for (const term of terms) {
+		let index = lowerSnippet.indexOf(term, prefix.length);
+		while (index !== -1) {
+			ranges.push([index, index + term.length]);
+			index = lowerSnippet.indexOf(term, index + term.length);
+		}
+	}
+
+	// Merge overlapping ranges
+	ranges.sort((a, b) => a[0] - b[0]);
+	const highlights: Array<[number, number]> = [];
+	for (const range of ranges) {
+		const last = highlights[highlights.length - 1];
+		if (last && range[0] <= last[1]) {
+			last[1] = Math.max(last[1], range[1]);
+		} else {
+			highlights.push([range[0], range[1]]);
+		}
+	}
+
+	return { snippet, highlights };
+}
+
+function truncate(text: string): string {
+	const flat = text.replace(/\s+/g, " ");
+	return flat.length <= 50 ? flat : `${flat.slice(0, 50)}...`;
+}
+
+function readFrontmatterString(
+	frontmatter: Record<string, unknown> | undefined,
+	key: string,
+): string | null {
+	const value = frontmatter?.[key];
+	return typeof value === "string" || typeof value === "number"
+		? String(value)
+		: null;
+}
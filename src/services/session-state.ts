@@ -128,3 +128,87 @@ export async function restoreLegacyConfig(
 		}
 	}
 }
+
+// ============================================================================
+// Preference Helpers
+// ============================================================================
+
+/**
+ * Resolve a mode or model preference (ID or name, case-insensitive) against
+ * the session's config options, or its legacy modes/models.
+ *
+ * @returns The value to set (configId is null for legacy APIs),
+ *   or null if the agent doesn't offer it
+ */
+export function resolveSessionPreference(
+	session: ChatSession,
+	category: "mode" | "model",
+	preference: string,
+): { configId: string | null; value: string; isCurrent: boolean } | null {
+	const wanted = preference.toLowerCase();
+	const matches = (id: string, name: string) =>
+		id.toLowerCase() === wanted || name.toLowerCase() === wanted;
+
+	const option = session.configOptions?.find((o) => o.category === category);
+	if (option) {
+		const match = flattenConfigSelectOptions(option.options).find((o) =>
+			matches(o.value, o.name),
+		);
+		return match
+			? {
+					configId: option.id,
+					value: match.value,
+					isCurrent: match.value === option.currentValue,
+				}
+			: null;
+	}
+
+	if (category === "mode") {
+		const mode = session.modes?.availableModes.find((m) =>
+			matches(m.id, m.name),
+		);
+		return mode
+			? {
+					configId: null,
+					value: mode.id,
+					isCurrent: mode.id === session.modes?.currentModeId,
+				}
+			: null;
+	}
+
+	const model = session.models?.availableModels.find((m) =>
+		matches(m.modelId, m.name),
+	);
+	return model
+		? {
+				configId: null,
+				value: model.modelId,
+				isCurrent: model.modelId === session.models?.currentModelId,
+			}
+		: null;
+}
+
+/**
+ * Name of the current mode or model, from the session's config options or
+ * its legacy modes/models.
+ */
+export function getCurrentSessionOptionName(
+	session: ChatSession,
+	category: "mode" | "model",
+): string | undefined {
+	const option = session.configOptions?.find((o) => o.category === category);
+	if (option) {
+		return flattenConfigSelectOptions(option.options).find(
+			(o) => o.value === option.currentValue,
+		)?.name;
+	}
+
+	if (category === "mode") {
+		return session.modes?.availableModes.find(
+			(m) => m.id === session.modes?.currentModeId,
+		)?.name;
+	}
+	return session.models?.availableModels.find(
+		(m) => m.modelId === session.models?.currentModelId,
+	)?.name;
+}
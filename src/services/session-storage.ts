@@ -3,12 +3,17 @@
  *
  * Handles:
  * - Session metadata CRUD (in plugin settings savedSessions array)
+ * - Retention of saved sessions (limit, pinned sessions exempt)
  * - Session message file I/O (sessions/{id}.json)
+ * - Listing message files for the session search index
  */
 
 import { Platform } from "obsidian";
 
-import type { AgentClientPluginSettings } from "../plugin";
+import type {
+	AgentClientPluginSettings,
+	SessionHistorySettings,
+} from "../plugin";
 import type AgentClientPlugin from "../plugin";
 import type { ChatMessage, MessageContent } from "../types/chat";
 import type { SavedSessionInfo } from "../types/session";
@@ -34,6 +39,24 @@ interface SessionMessagesFile {
 	savedAt: string;
 }
 
+/**
+ * A session message file on disk.
+ */
+export interface SessionMessagesFileInfo {
+	path: string;
+	/** Last modification time (ms) */
+	mtime: number;
+}
+
+/**
+ * Contents of a session message file.
+ */
+export interface StoredSessionMessages {
+	sessionId: string;
+	agentId: string;
+	messages: ChatMessage[];
+}
+
 /**
  * Interface for settings access needed by SessionStorage.
  * Subset of SettingsService to avoid circular dependency.
@@ -44,11 +67,45 @@ interface SessionStorageSettingsAccess {
 }
 
 // ============================================================================
-// Implementation
+// Retention
 // ============================================================================
 
-/** Maximum number of saved sessions to keep */
-const MAX_SAVED_SESSIONS = 50;
+/**
+ * Select the saved sessions to remove so that at most
+ * `maxSavedSessions` unpinned sessions remain.
+ *
+ * Pinned sessions are never removed and do not count toward the limit.
+ * With the 'archived-first' policy, archived sessions are removed before
+ * the others; within each group the least recently updated go first.
+ *
+ * @returns IDs of the sessions to remove
+ */
+export function selectSessionsToRemove(
+	sessions: SavedSessionInfo[],
+	settings: SessionHistorySettings,
+): string[] {
+	if (settings.maxSavedSessions <= 0) return [];
+
+	const unpinned = sessions.filter((s) => !s.pinned);
+	const excess = unpinned.length - settings.maxSavedSessions;
+	if (excess <= 0) return [];
+
+	const rank = (s: SavedSessionInfo) =>
+		settings.retentionPolicy === "archived-first" && s.archived ? 0 : 1;
+	return [...unpinned]
+		.sort(
+			(a, b) =>
+				rank(a) - rank(b) ||
+				new Date(a.updatedAt).getTime() -
+					new Date(b.updatedAt).getTime(),
+		)
+		.slice(0, excess)
+		.map((s) => s.sessionId);
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
 
 export class SessionStorage {
 	private plugin: AgentClientPlugin;
@@ -73,39 +130,99 @@ export class SessionStorage {
 	 * Save a session to local storage.
 	 *
 	 * Updates existing session if sessionId matches.
-	 * Maintains max 50 sessions, removing oldest when exceeded.
+	 * Applies the retention policy when a new session is added.
 	 */
 	async saveSession(info: SavedSessionInfo): Promise<void> {
+		await this.upsertSessions([info], true);
+	}
+
+	/**
+	 * Save several sessions with a single settings write.
+	 *
+	 * Existing sessions are updated (fields not present in the new info,
+	 * such as pinned or tags, are kept); new sessions are added first.
+	 * Used for metadata updates, so the retention policy is not applied.
+	 */
+	async saveSessions(infos: SavedSessionInfo[]): Promise<void> {
+		await this.upsertSessions(infos, false);
+	}
+
+	private async upsertSessions(
+		infos: SavedSessionInfo[],
+		applyRetention: boolean,
+	): Promise<void> {
 		this.sessionLock = this.sessionLock.then(async () => {
-			// Convert Windows path to WSL path if in WSL mode
-			let sessionInfo = info;
 			const state = this.settingsAccess.getSnapshot();
-			if (Platform.isWin && state.windowsWslMode && info.cwd) {
-				sessionInfo = {
-					...info,
-					cwd: convertWindowsPathToWsl(info.cwd),
-				};
-			}
-
-			const sessions = [...(state.savedSessions || [])];
+			let sessions = [...(state.savedSessions || [])];
+			let added = false;
+
+			for (const info of infos) {
+				// Convert Windows path to WSL path if in WSL mode
+				let sessionInfo = info;
+				if (Platform.isWin && state.windowsWslMode && info.cwd) {
+					sessionInfo = {
+						...info,
+						cwd: convertWindowsPathToWsl(info.cwd),
+					};
+				}
 
-			// Find existing session by sessionId
-			const existingIndex = sessions.findIndex(
-				(s) => s.sessionId === sessionInfo.sessionId,
-			);
+				// Find existing session by sessionId
+				const existingIndex = sessions.findIndex(
+					(s) => s.sessionId === sessionInfo.sessionId,
+				);
 
-			if (existingIndex >= 0) {
-				sessions[existingIndex] = sessionInfo;
-			} else {
-				sessions.unshift(sessionInfo);
-				if (sessions.length > MAX_SAVED_SESSIONS) {
-					sessions.pop();
+				if (existingIndex >= 0) {
+					sessions[existingIndex] = {
+						...sessions[existingIndex],
+						...sessionInfo,
+					};
+				} else {
+					sessions.unshift(sessionInfo);
+					added = true;
 				}
 			}
 
+			const removed =
+				added && applyRetention
+					? selectSessionsToRemove(
+							sessions,
+							state.sessionHistorySettings,
+						)
+					: [];
+			if (removed.length > 0) {
+				sessions = sessions.filter(
+					(s) => !removed.includes(s.sessionId),
+				);
+			}
+
 			await this.settingsAccess.updateSettings({
 				savedSessions: sessions,
 			});
+			await this.deleteMessageFiles(removed);
+		});
+		await this.sessionLock;
+	}
+
+	/**
+	 * Remove sessions beyond the limit of the retention policy.
+	 * Called from the settings after the user confirms the cleanup.
+	 */
+	async applyRetention(): Promise<void> {
+		this.sessionLock = this.sessionLock.then(async () => {
+			const state = this.settingsAccess.getSnapshot();
+			const sessions = state.savedSessions || [];
+			const removed = selectSessionsToRemove(
+				sessions,
+				state.sessionHistorySettings,
+			);
+			if (removed.length === 0) return;
+
+			await this.settingsAccess.updateSettings({
+				savedSessions: sessions.filter(
+					(s) => !removed.includes(s.sessionId),
+				),
+			});
+			await this.deleteMessageFiles(removed);
 		});
 		await this.sessionLock;
 	}
@@ -141,15 +258,23 @@ export class SessionStorage {
 	 * Also deletes the associated message history file.
 	 */
 	async deleteSession(sessionId: string): Promise<void> {
+		await this.deleteSessions([sessionId]);
+	}
+
+	/**
+	 * Delete several saved sessions with a single settings write.
+	 * Also deletes their message history files.
+	 */
+	async deleteSessions(sessionIds: string[]): Promise<void> {
 		this.sessionLock = this.sessionLock.then(async () => {
 			const state = this.settingsAccess.getSnapshot();
 			const sessions = (state.savedSessions || []).filter(
-				(s) => s.sessionId !== sessionId,
+				(s) => !sessionIds.includes(s.sessionId),
 			);
 			await this.settingsAccess.updateSettings({
 				savedSessions: sessions,
 			});
-			await this.deleteSessionMessages(sessionId);
+			await this.deleteMessageFiles(sessionIds);
 		});
 		await this.sessionLock;
 	}
@@ -213,11 +338,45 @@ export class SessionStorage {
 		sessionId: string,
 	): Promise<ChatMessage[] | null> {
 		const filePath = this.getSessionFilePath(sessionId);
+		if (!(await this.plugin.app.vault.adapter.exists(filePath))) {
+			return null;
+		}
+
+		const stored = await this.readSessionMessagesFile(filePath);
+		return stored?.messages ?? null;
+	}
+
+	/**
+	 * List all session message files.
+	 * Returns an empty list if the sessions directory doesn't exist.
+	 */
+	async listSessionMessagesFiles(): Promise<SessionMessagesFileInfo[]> {
 		const adapter = this.plugin.app.vault.adapter;
+		const sessionsDir = this.getSessionsDir();
+		if (!(await adapter.exists(sessionsDir))) {
+			return [];
+		}
 
-		if (!(await adapter.exists(filePath))) {
-			return null;
+		const { files } = await adapter.list(sessionsDir);
+		const infos: SessionMessagesFileInfo[] = [];
+		for (const path of files) {
+			if (!path.endsWith(".json")) continue;
+			const stat = await adapter.stat(path);
+			if (stat) {
+				infos.push({ path, mtime: stat.mtime });
+			}
 		}
+		return infos;
+	}
+
+	/**
+	 * Read a session message file.
+	 * Returns null on invalid structure, unknown version or read error.
+	 */
+	async readSessionMessagesFile(
+		filePath: string,
+	): Promise<StoredSessionMessages | null> {
+		const adapter = this.plugin.app.vault.adapter;
 
 		try {
 			const content = await adapter.read(filePath);
@@ -240,10 +399,14 @@ export class SessionStorage {
 				return null;
 			}
 
-			return data.messages.map((msg) => ({
-				...msg,
-				timestamp: new Date(msg.timestamp),
-			}));
+			return {
+				sessionId: data.sessionId,
+				agentId: data.agentId,
+				messages: data.messages.map((msg) => ({
+					...msg,
+					timestamp: new Date(msg.timestamp),
+				})),
+			};
 		} catch (error) {
 			console.error(
 				`[SessionStorage] Failed to load session messages: ${error}`,
@@ -264,4 +427,10 @@ export class SessionStorage {
 			await adapter.remove(filePath);
 		}
 	}
+
+	private async deleteMessageFiles(sessionIds: string[]): Promise<void> {
+		for (const sessionId of sessionIds) {
+			await this.deleteSessionMessages(sessionId);
+		}
+	}
 }
@@ -6,8 +6,16 @@
  */
 
 import type { AgentEnvVar, CustomAgentSettings } from "../plugin";
-import type { BaseAgentSettings } from "../types/agent";
+import type { BaseAgentSettings, McpServerSettings } from "../types/agent";
+import type { PermissionRule } from "../types/permission";
+import type { Automation } from "../types/automation";
+import type {
+	ExportFrontmatterField,
+	MarkdownExportTemplate,
+} from "../types/chat-export";
 import type { AgentConfig } from "../acp/acp-client";
+import { PERMISSION_RULE_KINDS } from "./permission-rules";
+import { EXPORT_FRONTMATTER_FIELDS } from "./chat-exporter";
 
 // ============================================================================
 // Display Settings
@@ -139,9 +147,180 @@ export const normalizeCustomAgent = (
 				: "",
 		args: sanitizeArgs(agent?.args),
 		env: normalizeEnvVars(agent?.env),
+		mcpServers: normalizeMcpServers(agent?.mcpServers),
 	};
 };
 
+// Rebuild MCP server entries with defaults, dropping unnamed ones and duplicates
+export const normalizeMcpServers = (value: unknown): McpServerSettings[] => {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	const seen = new Set<string>();
+	const servers: McpServerSettings[] = [];
+	for (const entry of value) {
+		const server = obj(entry);
+		if (!server) continue;
+		const name = str(server.name, "").trim();
+		if (!name || seen.has(name)) continue;
+		seen.add(name);
+		servers.push({
+			name,
+			enabled: bool(server.enabled, true),
+			transport: enumVal(
+				server.transport,
+				["stdio", "http", "sse"],
+				"stdio",
+			),
+			command: str(server.command, "").trim(),
+			args: sanitizeArgs(server.args),
+			env: normalizeEnvVars(server.env),
+			url: str(server.url, "").trim(),
+			headers: normalizeEnvVars(server.headers),
+		});
+	}
+	return servers;
+};
+
+// Rebuild permission rules with defaults, dropping duplicate IDs (order is kept)
+export const normalizePermissionRules = (value: unknown): PermissionRule[] => {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	const seen = new Set<string>();
+	const rules: PermissionRule[] = [];
+	for (const entry of value) {
+		const rule = obj(entry);
+		if (!rule) continue;
+		const id = str(rule.id, "").trim() || crypto.randomUUID();
+		if (seen.has(id)) continue;
+		seen.add(id);
+		rules.push({
+			id,
+			enabled: bool(rule.enabled, true),
+			action: enumVal(rule.action, ["allow", "reject", "ask"], "ask"),
+			kind: enumVal(rule.kind, ["", ...PERMISSION_RULE_KINDS], ""),
+			titlePattern: str(rule.titlePattern, "").trim(),
+			location: str(rule.location, "").trim(),
+			agentId: str(rule.agentId, "").trim(),
+		});
+	}
+	return rules;
+};
+
+// Rebuild automations with defaults, dropping duplicate IDs (order is kept)
+export const normalizeAutomations = (value: unknown): Automation[] => {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	const seen = new Set<string>();
+	const automations: Automation[] = [];
+	for (const entry of value) {
+		const automation = obj(entry);
+		if (!automation) continue;
+		const id = str(automation.id, "").trim() || crypto.randomUUID();
+		if (seen.has(id)) continue;
+		seen.add(id);
+		const days = Array.isArray(automation.days)
+			? automation.days.filter(
+					(day): day is number =>
+						Number.isInteger(day) && day >= 0 && day <= 6,
+				)
+			: [];
+		automations.push({
+			id,
+			name: str(automation.name, "").trim() || "Automation",
+			enabled: bool(automation.enabled, false),
+			trigger: enumVal(
+				automation.trigger,
+				["schedule", "note_created", "note_modified", "tag_added"],
+				"schedule",
+			),
+			time: str(automation.time, "09:00").trim(),
+			days: [...new Set(days)].sort(),
+			folder: str(automation.folder, "").trim(),
+			tag: str(automation.tag, "").trim().replace(/^#/, ""),
+			prompt: str(automation.prompt, ""),
+			templatePath: str(automation.templatePath, "").trim(),
+			agentId: str(automation.agentId, "").trim(),
+			output: enumVal(
+				automation.output,
+				["none", "note", "export"],
+				"note",
+			),
+			notePath: str(automation.notePath, "").trim(),
+		});
+	}
+	return automations;
+};
+
+// Rebuild the markdown export template, keeping known frontmatter fields once
+export const normalizeMarkdownExportTemplate = (
+	value: unknown,
+	fallback: MarkdownExportTemplate,
+): MarkdownExportTemplate => {
+	const template = obj(value) ?? {};
+	const fields = Array.isArray(template.frontmatterFields)
+		? template.frontmatterFields.filter(
+				(field): field is ExportFrontmatterField =>
+					EXPORT_FRONTMATTER_FIELDS.includes(
+						field as ExportFrontmatterField,
+					),
+			)
+		: fallback.frontmatterFields;
+	return {
+		title: str(template.title, fallback.title),
+		messageHeading:
+			str(template.messageHeading, "").trim() || fallback.messageHeading,
+		messageSeparator: str(
+			template.messageSeparator,
+			fallback.messageSeparator,
+		),
+		thoughts: enumVal(
+			template.thoughts,
+			["callout", "quote", "omit"],
+			fallback.thoughts,
+		),
+		toolCalls: enumVal(
+			template.toolCalls,
+			["section", "callout", "compact", "omit"],
+			fallback.toolCalls,
+		),
+		plans: enumVal(
+			template.plans,
+			["callout", "tasks", "omit"],
+			fallback.plans,
+		),
+		frontmatterFields: [...new Set(fields)],
+	};
+};
+
+/**
+ * Merge global and agent-specific MCP servers for a session.
+ *
+ * Disabled and incomplete entries are dropped. An agent-specific server
+ * replaces a global server with the same name.
+ */
+export const resolveMcpServers = (
+	globalServers: McpServerSettings[],
+	agentServers: McpServerSettings[],
+): McpServerSettings[] => {
+	const byName = new Map<string, McpServerSettings>();
+	for (const server of [...globalServers, ...agentServers]) {
+		byName.set(server.name, server);
+	}
+	return [...byName.values()].filter(
+		(server) =>
+			server.enabled &&
+			(server.transport === "stdio"
+				? server.command.length > 0
+				: server.url.length > 0),
+	);
+};
+
 // Ensure custom agent IDs are unique within the collection
 export const ensureUniqueCustomAgentIds = (
 	agents: CustomAgentSettings[],
@@ -172,6 +351,7 @@ export const ensureUniqueCustomAgentIds = (
 export const toAgentConfig = (
 	settings: BaseAgentSettings,
 	workingDirectory: string,
+	globalMcpServers: McpServerSettings[] = [],
 ): AgentConfig => {
 	// Convert AgentEnvVar[] to Record<string, string> for process.spawn()
 	const env = settings.env.reduce(
@@ -189,6 +369,7 @@ export const toAgentConfig = (
 		args: settings.args,
 		env,
 		workingDirectory,
+		mcpServers: resolveMcpServers(globalMcpServers, settings.mcpServers),
 	};
 };
 
@@ -10,7 +10,11 @@ import type { AgentClientPluginSettings } from "../plugin";
 import type AgentClientPlugin from "../plugin";
 import type { ChatMessage } from "../types/chat";
 import type { SavedSessionInfo } from "../types/session";
-import { SessionStorage } from "./session-storage";
+import {
+	SessionStorage,
+	type SessionMessagesFileInfo,
+	type StoredSessionMessages,
+} from "./session-storage";
 
 // ============================================================================
 // Port Types (from settings-access.port.ts)
@@ -66,13 +70,23 @@ export interface ISettingsAccess {
 	 * Save a session to local storage.
 	 *
 	 * Updates existing session if sessionId matches.
-	 * Maintains max 50 sessions, removing oldest when exceeded.
+	 * Removes sessions beyond the limit of the retention policy
+	 * (sessionHistorySettings) when a new session is added.
 	 *
 	 * @param info - Session metadata to save
 	 * @returns Promise that resolves when session is saved
 	 */
 	saveSession(info: SavedSessionInfo): Promise<void>;
 
+	/**
+	 * Save several sessions at once, for metadata updates (pinned, tags,
+	 * archived). Unlike saveSession, never removes sessions over the limit.
+	 *
+	 * @param infos - Session metadata to save
+	 * @returns Promise that resolves when sessions are saved
+	 */
+	saveSessions(infos: SavedSessionInfo[]): Promise<void>;
+
 	/**
 	 * Get saved sessions, optionally filtered by agentId and/or cwd.
 	 *
@@ -92,6 +106,14 @@ export interface ISettingsAccess {
 	 */
 	deleteSession(sessionId: string): Promise<void>;
 
+	/**
+	 * Delete several saved sessions (metadata + message files).
+	 *
+	 * @param sessionIds - IDs of sessions to delete
+	 * @returns Promise that resolves when sessions are deleted
+	 */
+	deleteSessions(sessionIds: string[]): Promise<void>;
+
 	// ============================================================
 	// Session Message History Methods
 	// ============================================================
@@ -245,6 +267,14 @@ export class SettingsService implements ISettingsAccess {
 		return this.sessionStorage.saveSession(info);
 	}
 
+	async saveSessions(infos: SavedSessionInfo[]): Promise<void> {
+		return this.sessionStorage.saveSessions(infos);
+	}
+
+	async applySessionRetention(): Promise<void> {
+		return this.sessionStorage.applyRetention();
+	}
+
 	getSavedSessions(agentId?: string, cwd?: string): SavedSessionInfo[] {
 		return this.sessionStorage.getSavedSessions(agentId, cwd);
 	}
@@ -253,6 +283,10 @@ export class SettingsService implements ISettingsAccess {
 		return this.sessionStorage.deleteSession(sessionId);
 	}
 
+	async deleteSessions(sessionIds: string[]): Promise<void> {
+		return this.sessionStorage.deleteSessions(sessionIds);
+	}
+
 	async saveSessionMessages(
 		sessionId: string,
 		agentId: string,
@@ -274,6 +308,16 @@ export class SettingsService implements ISettingsAccess {
 	async deleteSessionMessages(sessionId: string): Promise<void> {
 		return this.sessionStorage.deleteSessionMessages(sessionId);
 	}
+
+	async listSessionMessagesFiles(): Promise<SessionMessagesFileInfo[]> {
+		return this.sessionStorage.listSessionMessagesFiles();
+	}
+
+	async readSessionMessagesFile(
+		filePath: string,
+	): Promise<StoredSessionMessages | null> {
+		return this.sessionStorage.readSessionMessagesFile(filePath);
+	}
 }
 
 /**
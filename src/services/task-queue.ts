@@ -0,0 +1,412 @@
+/**
+ * Background task queue.
+ *
+ * Runs queued prompts in headless sessions of the public API (one agent
+ * process per task) with the concurrency limit from settings.
+ *
+ * Handles:
+ * - Queueing, cancelling and removing tasks
+ * - Progress (tool calls, latest activity, usage) while a task runs
+ * - Writing the result to a target note or exporting it as a chat
+ * - Completion notifications
+ *
+ * Tasks are kept in memory only; reloading the plugin drops the queue.
+ * Subscribers (the task panel) are notified after every change, with
+ * getSnapshot() returning a new array each time (useSyncExternalStore).
+ */
+
+import { Notice, normalizePath, TFile } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import type { ChatMessage } from "../types/chat";
+import type { SessionUpdate } from "../types/session";
+import type { BackgroundTask, BackgroundTaskInput } from "../types/task";
+import { ChatExporter } from "./chat-exporter";
+import { applySingleUpdate } from "./message-state";
+import { getCurrentAgent, getDefaultAgentId } from "./session-helpers";
+import { getLogger } from "../utils/logger";
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+interface RunningTask {
+	/** Headless session (null while the agent starts) */
+	sessionId: string | null;
+	cancelRequested: boolean;
+}
+
+type Listener = () => void;
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export class TaskQueue {
+	private tasks: BackgroundTask[] = [];
+	private running = new Map<string, RunningTask>();
+	private listeners = new Set<Listener>();
+	private disposed = false;
+	private logger = getLogger();
+
+	constructor(private plugin: AgentClientPlugin) {}
+
+	// ========================================================================
+	// Store
+	// ========================================================================
+
+	getSnapshot = (): BackgroundTask[] => this.tasks;
+
+	subscribe = (listener: Listener): (() => void) => {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	};
+
+	// ========================================================================
+	// Queue Operations
+	// ========================================================================
+
+	/**
+	 * Queue a task. It starts right away if a slot is free.
+	 */
+	enqueue(input: BackgroundTaskInput): BackgroundTask {
+		const settings = this.plugin.settings;
+		const agentId = input.agentId || getDefaultAgentId(settings);
+		const task: BackgroundTask = {
+			id: crypto.randomUUID(),
+			label: input.label || null,
+			prompt: input.prompt,
+			agentId,
+			agentDisplayName: getCurrentAgent(settings, agentId).displayName,
+			output: input.output,
+			notePath:
+				input.output === "note" && input.notePath
+					? normalizePath(input.notePath)
+					: null,
+			status: "queued",
+			createdAt: new Date(),
+			startedAt: null,
+			finishedAt: null,
+			toolCallCount: 0,
+			activity: null,
+			usage: null,
+			resultText: null,
+			resultPath: null,
+			error: null,
+		};
+		this.tasks = [...this.tasks, task];
+		this.notify();
+		this.startNext();
+		return task;
+	}
+
+	/**
+	 * Cancel a queued or running task.
+	 */
+	cancel(taskId: string): void {
+		const task = this.getTask(taskId);
+		if (!task) return;
+
+		if (task.status === "queued") {
+			this.update(taskId, {
+				status: "cancelled",
+				finishedAt: new Date(),
+			});
+			return;
+		}
+
+		const running = this.running.get(taskId);
+		if (!running || running.cancelRequested) return;
+		running.cancelRequested = true;
+		this.update(taskId, { activity: "Cancelling..." });
+		if (running.sessionId) {
+			this.plugin.api.cancel(running.sessionId).catch((error) => {
+				this.logger.warn("[TaskQueue] Cancel failed:", error);
+			});
+		}
+	}
+
+	/**
+	 * Remove a task that is not running.
+	 */
+	remove(taskId: string): void {
+		if (this.running.has(taskId)) return;
+		this.tasks = this.tasks.filter((task) => task.id !== taskId);
+		this.notify();
+	}
+
+	/**
+	 * Remove all completed, failed and cancelled tasks.
+	 */
+	clearFinished(): void {
+		this.tasks = this.tasks.filter(
+			(task) => task.status === "queued" || task.status === "running",
+		);
+		this.notify();
+	}
+
+	/**
+	 * Start queued tasks while slots are free.
+	 * Called after queueing, after a task finishes and when the
+	 * concurrency setting changes.
+	 */
+	startNext(): void {
+		if (this.disposed) return;
+
+		const limit = this.plugin.settings.backgroundTaskSettings.concurrency;
+		for (const task of this.tasks) {
+			if (this.running.size >= limit) break;
+			if (task.status === "queued") {
+				void this.run(task.id);
+			}
+		}
+	}
+
+	/**
+	 * Drop the queue. Called on plugin unload; running sessions are closed
+	 * by the public API.
+	 */
+	dispose(): void {
+		this.disposed = true;
+		this.running.clear();
+		this.listeners.clear();
+		this.tasks = [];
+	}
+
+	// ========================================================================
+	// Running
+	// ========================================================================
+
+	private async run(taskId: string): Promise<void> {
+		const task = this.getTask(taskId);
+		if (!task) return;
+
+		const running: RunningTask = {
+			sessionId: null,
+			cancelRequested: false,
+		};
+		this.running.set(taskId, running);
+		this.update(taskId, {
+			status: "running",
+			startedAt: new Date(),
+			activity: "Starting agent...",
+		});
+
+		// Messages rebuilt from the updates, for chat export
+		let messages: ChatMessage[] = [
+			{
+				id: crypto.randomUUID(),
+				role: "user",
+				content: [{ type: "text", text: task.prompt }],
+				timestamp: new Date(),
+			},
+		];
+		const toolCallIndex = new Map<string, number>();
+		let unsubscribe = () => {};
+
+		try {
+			const session = await this.plugin.api.createSession({
+				agentId: task.agentId,
+				permissionPolicy:
+					this.plugin.settings.backgroundTaskSettings
+						.permissionPolicy,
+			});
+			running.sessionId = session.sessionId;
+			if (running.cancelRequested || this.disposed) {
+				await this.plugin.api.closeSession(session.sessionId);
+				this.finish(taskId, { status: "cancelled" });
+				return;
+			}
+
+			unsubscribe = this.plugin.api.onSessionUpdate(
+				session.sessionId,
+				(update) => {
+					messages = applySingleUpdate(
+						messages,
+						update,
+						toolCallIndex,
+					);
+					this.trackProgress(taskId, update);
+				},
+			);
+			this.update(taskId, { activity: "Working..." });
+
+			const result = await this.plugin.api.sendPrompt(
+				session.sessionId,
+				task.prompt,
+			);
+			unsubscribe();
+			await this.plugin.api.closeSession(session.sessionId);
+			if (this.disposed) return;
+
+			if (running.cancelRequested) {
+				this.finish(taskId, { status: "cancelled" });
+				return;
+			}
+
+			const resultPath = await this.writeOutput(
+				task,
+				result.text,
+				messages,
+				session.sessionId,
+			);
+			this.finish(taskId, {
+				status: "completed",
+				resultText: result.text,
+				resultPath,
+				usage: result.usage ?? this.getTask(taskId)?.usage ?? null,
+			});
+		} catch (error) {
+			unsubscribe();
+			if (running.sessionId) {
+				await this.plugin.api
+					.closeSession(running.sessionId)
+					.catch(() => {});
+			}
+			if (this.disposed) return;
+
+			this.logger.error(`[TaskQueue] Task ${taskId} failed:`, error);
+			this.finish(taskId, {
+				status: "failed",
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private trackProgress(taskId: string, update: SessionUpdate): void {
+		const task = this.getTask(taskId);
+		if (!task) return;
+
+		switch (update.type) {
+			case "tool_call":
+				this.update(taskId, {
+					toolCallCount: task.toolCallCount + 1,
+					activity: update.title ?? task.activity,
+				});
+				break;
+			case "tool_call_update":
+				if (update.title) {
+					this.update(taskId, { activity: update.title });
+				}
+				break;
+			case "usage_update":
+				this.update(taskId, {
+					usage: {
+						used: update.used,
+						size: update.size,
+						cost: update.cost ?? undefined,
+					},
+				});
+				break;
+		}
+	}
+
+	/**
+	 * Write the result where the task asked for it.
+	 *
+	 * @returns Vault path of the written note, or null for output 'none'
+	 */
+	private async writeOutput(
+		task: BackgroundTask,
+		text: string,
+		messages: ChatMessage[],
+		sessionId: string,
+	): Promise<string | null> {
+		if (task.output === "export") {
+			const exporter = new ChatExporter(this.plugin);
+			return await exporter.exportToMarkdown(
+				messages,
+				task.agentDisplayName,
+				task.agentId,
+				sessionId,
+				task.createdAt,
+				false,
+			);
+		}
+		if (task.output === "note" && task.notePath) {
+			await this.appendToNote(task.notePath, text);
+			return task.notePath;
+		}
+		return null;
+	}
+
+	/**
+	 * Append text to a note, creating the note (and its folder) if missing.
+	 */
+	private async appendToNote(path: string, text: string): Promise<void> {
+		const vault = this.plugin.app.vault;
+		const file = vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await vault.process(file, (content) =>
+				content.trim()
+					? `${content.trimEnd()}\n\n${text}\n`
+					: `${text}\n`,
+			);
+			return;
+		}
+
+		const folderPath = path.includes("/")
+			? path.slice(0, path.lastIndexOf("/"))
+			: "";
+		if (folderPath && !vault.getAbstractFileByPath(folderPath)) {
+			await vault.createFolder(folderPath);
+		}
+		await vault.create(path, `${text}\n`);
+	}
+
+	private finish(taskId: string, changes: Partial<BackgroundTask>): void {
+		this.running.delete(taskId);
+		this.update(taskId, {
+			...changes,
+			activity: null,
+			finishedAt: new Date(),
+		});
+
+		const task = this.getTask(taskId);
+		if (task && task.status !== "cancelled") {
+			this.notifyFinished(task);
+		}
+		this.startNext();
+	}
+
+	/**
+	 * System notification when Obsidian is in the background (if enabled),
+	 * otherwise a notice.
+	 */
+	private notifyFinished(task: BackgroundTask): void {
+		const message =
+			task.status === "completed"
+				? `${task.agentDisplayName} has completed a background task.`
+				: `A background task of ${task.agentDisplayName} failed: ${task.error}`;
+
+		if (
+			this.plugin.settings.enableSystemNotifications &&
+			!activeDocument.hasFocus()
+		) {
+			new Notification("Agent Client", { body: message });
+		} else {
+			new Notice(`[Agent Client] ${message}`);
+		}
+	}
+
+	// ========================================================================
+	// State Helpers
+	// ========================================================================
+
+	private getTask(taskId: string): BackgroundTask | undefined {
+		return this.tasks.find((task) => task.id === taskId);
+	}
+
+	private update(taskId: string, changes: Partial<BackgroundTask>): void {
+		if (this.disposed) return;
+		this.tasks = this.tasks.map((task) =>
+			task.id === taskId ? { ...task, ...changes } : task,
+		);
+		this.notify();
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
@@ -0,0 +1,162 @@
+/**
+ * Pure functions for the terminal command policy.
+ * Used by AcpHandler (checking terminal/create requests) and
+ * TerminalManager (environment scrubbing).
+ */
+
+import type { TerminalSettings } from "../plugin";
+import { matchesTitlePattern } from "./permission-rules";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A terminal/create request as seen by the policy */
+export interface TerminalCommandRequest {
+	command: string;
+	args: string[];
+	/** Absolute working directory of the command */
+	cwd: string;
+}
+
+export interface TerminalPolicyDirectories {
+	/** Working directory of the session */
+	workingDirectory: string;
+	/** Absolute path of the vault folder, or null if unavailable */
+	vaultPath: string | null;
+	/** Platform-aware containment check */
+	isWithinDirectory: (path: string, directory: string) => boolean;
+}
+
+// ============================================================================
+// Command Checks
+// ============================================================================
+
+/**
+ * Command line shown to the user and matched against patterns.
+ */
+export function formatCommandLine(command: string, args: string[]): string {
+	return [command, ...args].join(" ").trim();
+}
+
+/**
+ * Check a terminal/create request against the policy.
+ *
+ * Each command of a compound command line (split at `;`, `&&`, `||`, `|`,
+ * `&` and newlines, also inside quotes) is matched on its own, so an
+ * allowed command cannot be chained with one that is not allowed. With an
+ * allow list, substitutions and redirections (`<`, `>`) are refused too.
+ *
+ * @returns Why the command is denied, or null if it may run
+ */
+export function checkTerminalCommand(
+	settings: TerminalSettings,
+	request: TerminalCommandRequest,
+	directories: TerminalPolicyDirectories,
+): string | null {
+	const commandLine = formatCommandLine(request.command, request.args);
+	const segments = splitCommandLine(commandLine);
+
+	for (const segment of [commandLine, ...segments]) {
+		const pattern = settings.deniedCommands.find((p) =>
+			matchesTitlePattern(p, segment),
+		);
+		if (pattern) {
+			return `"${segment}" matches the denied command pattern "${pattern}"`;
+		}
+	}
+
+	if (settings.allowedCommands.length > 0) {
+		if (/\$\(|`/.test(commandLine)) {
+			return "Command substitution is not allowed when only some commands are allowed";
+		}
+		// Also covers process substitution: <(...) and >(...)
+		if (/[<>]/.test(commandLine)) {
+			return "Redirections are not allowed when only some commands are allowed";
+		}
+		const notAllowed = segments.find(
+			(segment) =>
+				!settings.allowedCommands.some((p) =>
+					matchesTitlePattern(p, segment),
+				),
+		);
+		if (notAllowed !== undefined) {
+			return `"${notAllowed}" does not match any allowed command pattern`;
+		}
+	}
+
+	return checkWorkingDirectory(
+		settings.cwdRestriction,
+		request.cwd,
+		directories,
+	);
+}
+
+function checkWorkingDirectory(
+	restriction: TerminalSettings["cwdRestriction"],
+	cwd: string,
+	directories: TerminalPolicyDirectories,
+): string | null {
+	if (restriction === "any") return null;
+	// Refused rather than resolved, since the directory check may compare the
+	// paths as written
+	if (/(^|[\\/])\.\.([\\/]|$)/.test(cwd)) {
+		return `Working directory ${cwd} contains ".."`;
+	}
+
+	switch (restriction) {
+		case "vault":
+			if (!directories.vaultPath) {
+				return "The vault folder is not available";
+			}
+			return directories.isWithinDirectory(cwd, directories.vaultPath)
+				? null
+				: `Working directory ${cwd} is outside the vault (${directories.vaultPath})`;
+		case "working-directory":
+			return directories.isWithinDirectory(
+				cwd,
+				directories.workingDirectory,
+			)
+				? null
+				: `Working directory ${cwd} is outside the session's working directory (${directories.workingDirectory})`;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Split a command line into its commands. Empty commands are dropped.
+ */
+function splitCommandLine(commandLine: string): string[] {
+	return commandLine
+		.split(/&&|\|\||[;|&\n]/)
+		.map((segment) => segment.trim())
+		.filter((segment) => segment.length > 0);
+}
+
+// ============================================================================
+// Environment
+// ============================================================================
+
+/**
+ * Remove environment variables whose names match a pattern.
+ *
+ * @returns A new environment and the names of the removed variables
+ */
+export function scrubEnvironment(
+	env: NodeJS.ProcessEnv,
+	patterns: string[],
+): { env: NodeJS.ProcessEnv; removed: string[] } {
+	if (patterns.length === 0) return { env, removed: [] };
+
+	const scrubbed: NodeJS.ProcessEnv = {};
+	const removed: string[] = [];
+	for (const [name, value] of Object.entries(env)) {
+		if (patterns.some((pattern) => matchesTitlePattern(pattern, name))) {
+			removed.push(name);
+		} else {
+			scrubbed[name] = value;
+		}
+	}
+	return { env: scrubbed, removed };
+}
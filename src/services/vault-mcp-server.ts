@@ -0,0 +1,315 @@
+/**
+ * Vault MCP Server
+ *
+ * A minimal MCP server (Streamable HTTP transport, JSON responses only)
+ * hosted by the plugin on the loopback interface. It is injected into the
+ * mcpServers list of every session so agents can query the vault through
+ * Obsidian's index instead of walking the file system.
+ *
+ * Requests must carry the per-launch bearer token; the server never listens
+ * on anything but 127.0.0.1.
+ */
+
+import { randomUUID } from "crypto";
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import type AgentClientPlugin from "../plugin";
+import type { McpServerSettings } from "../types/agent";
+import { getLogger, Logger } from "../utils/logger";
+import { VaultService } from "./vault-service";
+import { VAULT_MCP_TOOLS, VaultMcpTools } from "./vault-mcp-tools";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface JsonRpcRequest {
+	jsonrpc: "2.0";
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Name under which the server is registered in mcpServers */
+export const VAULT_MCP_SERVER_NAME = "obsidian-vault";
+
+const PROTOCOL_VERSION = "2025-06-18";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class VaultMcpServer {
+	private logger: Logger;
+	private server: Server | null = null;
+	private startPromise: Promise<void> | null = null;
+	private port: number | null = null;
+	private token = randomUUID();
+	private vaultService: VaultService | null = null;
+	private tools: VaultMcpTools | null = null;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = getLogger();
+	}
+
+	/**
+	 * Start listening on a random loopback port.
+	 * Safe to call repeatedly; concurrent calls share one start.
+	 */
+	start(): Promise<void> {
+		if (this.startPromise) return this.startPromise;
+
+		this.vaultService = new VaultService(this.plugin);
+		this.tools = new VaultMcpTools(this.plugin, this.vaultService);
+
+		const server = createServer((req, res) => {
+			void this.handleHttpRequest(req, res);
+		});
+		this.server = server;
+
+		this.startPromise = new Promise<void>((resolve, reject) => {
+			server.once("error", (error) => {
+				this.logger.error("[VaultMcpServer] Failed to start:", error);
+				this.stop();
+				reject(error);
+			});
+			server.listen(0, "127.0.0.1", () => {
+				this.port = (server.address() as AddressInfo).port;
+				this.logger.log(
+					`[VaultMcpServer] Listening on 127.0.0.1:${this.port}`,
+				);
+				resolve();
+			});
+		});
+		return this.startPromise;
+	}
+
+	/**
+	 * Stop the server and release the vault index.
+	 */
+	stop(): void {
+		this.server?.close();
+		this.server = null;
+		this.startPromise = null;
+		this.port = null;
+		this.vaultService?.destroy();
+		this.vaultService = null;
+		this.tools = null;
+	}
+
+	/**
+	 * MCP server entry for session calls, or null if the server cannot run.
+	 */
+	async getServerSettings(): Promise<McpServerSettings | null> {
+		try {
+			await this.start();
+		} catch {
+			return null;
+		}
+		if (this.port === null) return null;
+
+		return {
+			name: VAULT_MCP_SERVER_NAME,
+			enabled: true,
+			transport: "http",
+			command: "",
+			args: [],
+			env: [],
+			url: `http://127.0.0.1:${this.port}/mcp`,
+			headers: [{ key: "Authorization", value: `Bearer ${this.token}` }],
+		};
+	}
+
+	// ========================================================================
+	// HTTP Handling
+	// ========================================================================
+
+	private async handleHttpRequest(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		if (req.headers.authorization !== `Bearer ${this.token}`) {
+			res.writeHead(401).end();
+			return;
+		}
+		// No server-initiated streams; GET (SSE) and DELETE are not offered
+		if (req.method !== "POST") {
+			res.writeHead(405, { Allow: "POST" }).end();
+			return;
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(await this.readBody(req));
+		} catch {
+			this.sendJson(
+				res,
+				400,
+				this.error(null, PARSE_ERROR, "Parse error"),
+			);
+			return;
+		}
+
+		if (Array.isArray(payload)) {
+			const responses = (
+				await Promise.all(payload.map((msg) => this.handleMessage(msg)))
+			).filter((r): r is JsonRpcResponse => r !== null);
+			if (responses.length === 0) {
+				res.writeHead(202).end();
+			} else {
+				this.sendJson(res, 200, responses);
+			}
+			return;
+		}
+
+		const response = await this.handleMessage(payload);
+		if (response) {
+			this.sendJson(res, 200, response);
+		} else {
+			res.writeHead(202).end();
+		}
+	}
+
+	private readBody(req: IncomingMessage): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const chunks: Buffer[] = [];
+			let size = 0;
+			req.on("data", (chunk: Buffer) => {
+				size += chunk.length;
+				if (size > MAX_BODY_BYTES) {
+					reject(new Error("Request body too large"));
+					req.destroy();
+					return;
+				}
+				chunks.push(chunk);
+			});
+			req.on("end", () =>
+				resolve(Buffer.concat(chunks).toString("utf8")),
+			);
+			req.on("error", reject);
+		});
+	}
+
+	private sendJson(res: ServerResponse, status: number, body: unknown): void {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+
+	// ========================================================================
+	// JSON-RPC Handling
+	// ========================================================================
+
+	/**
+	 * Handle a single JSON-RPC message.
+	 * Returns null for notifications and responses (nothing to send back).
+	 */
+	private async handleMessage(
+		message: unknown,
+	): Promise<JsonRpcResponse | null> {
+		if (
+			typeof message !== "object" ||
+			message === null ||
+			typeof (message as JsonRpcRequest).method !== "string"
+		) {
+			// Client responses (no method) need no reply
+			if (
+				typeof message === "object" &&
+				message !== null &&
+				"id" in message
+			) {
+				return null;
+			}
+			return this.error(null, INVALID_REQUEST, "Invalid request");
+		}
+
+		const request = message as JsonRpcRequest;
+		if (request.id === undefined) {
+			// Notifications (e.g. notifications/initialized)
+			return null;
+		}
+		const id = request.id;
+
+		switch (request.method) {
+			case "initialize": {
+				const requested = request.params?.protocolVersion;
+				return this.result(id, {
+					protocolVersion:
+						typeof requested === "string"
+							? requested
+							: PROTOCOL_VERSION,
+					capabilities: { tools: {} },
+					serverInfo: {
+						name: VAULT_MCP_SERVER_NAME,
+						version: this.plugin.manifest.version,
+					},
+					instructions:
+						"Tools for querying the user's Obsidian vault. Paths are vault-relative.",
+				});
+			}
+			case "ping":
+				return this.result(id, {});
+			case "tools/list":
+				return this.result(id, { tools: VAULT_MCP_TOOLS });
+			case "tools/call": {
+				const name = request.params?.name;
+				const args = request.params?.arguments;
+				if (typeof name !== "string" || !this.tools) {
+					return this.error(id, INVALID_REQUEST, "Invalid tool call");
+				}
+				this.logger.log(`[VaultMcpServer] Tool call: ${name}`);
+				return this.result(
+					id,
+					await this.tools.call(
+						name,
+						typeof args === "object" && args !== null
+							? (args as Record<string, unknown>)
+							: {},
+					),
+				);
+			}
+			default:
+				return this.error(
+					id,
+					METHOD_NOT_FOUND,
+					`Method not found: ${request.method}`,
+				);
+		}
+	}
+
+	private result(
+		id: string | number | null,
+		result: unknown,
+	): JsonRpcResponse {
+		return { jsonrpc: "2.0", id, result };
+	}
+
+	private error(
+		id: string | number | null,
+		code: number,
+		message: string,
+	): JsonRpcResponse {
+		return { jsonrpc: "2.0", id, error: { code, message } };
+	}
+}
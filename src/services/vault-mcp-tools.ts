@@ -0,0 +1,334 @@
+/**
+ * Vault MCP Tools
+ *
+ * Tool definitions and handlers for the built-in vault MCP server.
+ * Exposes Obsidian's search, link graph and metadata cache to agents.
+ *
+ * All paths are vault-relative (e.g., "folder/note.md").
+ */
+
+import { TFile, TFolder, getAllTags } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import type { VaultService } from "./vault-service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * MCP tool descriptor (as returned by tools/list).
+ */
+export interface VaultMcpToolDefinition {
+	name: string;
+	description: string;
+	inputSchema: {
+		type: "object";
+		properties: Record<string, { type: string; description: string }>;
+		required?: string[];
+	};
+}
+
+/**
+ * Result of a tool call (as returned by tools/call).
+ */
+export interface VaultMcpToolResult {
+	content: Array<{ type: "text"; text: string }>;
+	isError?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+export const VAULT_MCP_TOOLS: VaultMcpToolDefinition[] = [
+	{
+		name: "search_notes",
+		description:
+			"Fuzzy-search notes by name, path and aliases. Returns the best matches (most recently modified first when the query is empty).",
+		inputSchema: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "Search query" },
+				limit: {
+					type: "number",
+					description: `Maximum number of results (default ${DEFAULT_SEARCH_LIMIT})`,
+				},
+			},
+			required: ["query"],
+		},
+	},
+	{
+		name: "get_backlinks",
+		description:
+			"List notes that link to the given note, with the number of links from each.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Vault-relative path of the target note",
+				},
+			},
+			required: ["path"],
+		},
+	},
+	{
+		name: "list_tags",
+		description:
+			"List tags with usage counts. With a path, list only the tags of that note (inline and frontmatter).",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Optional vault-relative path of a note",
+				},
+			},
+		},
+	},
+	{
+		name: "get_frontmatter",
+		description: "Read the parsed frontmatter (YAML properties) of a note.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Vault-relative path of the note",
+				},
+			},
+			required: ["path"],
+		},
+	},
+	{
+		name: "resolve_wikilink",
+		description:
+			"Resolve a wikilink (e.g. [[Note]], [[Note#Heading|Alias]]) to the file Obsidian would open.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				link: {
+					type: "string",
+					description: "Link text, with or without [[ ]]",
+				},
+				sourcePath: {
+					type: "string",
+					description:
+						"Vault-relative path of the note containing the link (affects relative resolution)",
+				},
+			},
+			required: ["link"],
+		},
+	},
+	{
+		name: "list_folder",
+		description:
+			"List the notes and subfolders of a folder. Use an empty path for the vault root.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Vault-relative folder path",
+				},
+				recursive: {
+					type: "boolean",
+					description: "Include notes in subfolders",
+				},
+			},
+		},
+	},
+];
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/**
+ * Executes vault MCP tools against the Obsidian vault and metadata cache.
+ */
+export class VaultMcpTools {
+	constructor(
+		private plugin: AgentClientPlugin,
+		private vaultService: VaultService,
+	) {}
+
+	async call(
+		name: string,
+		args: Record<string, unknown>,
+	): Promise<VaultMcpToolResult> {
+		try {
+			const result = await this.dispatch(name, args);
+			return {
+				content: [
+					{ type: "text", text: JSON.stringify(result, null, 2) },
+				],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							error instanceof Error
+								? error.message
+								: String(error),
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+
+	private async dispatch(
+		name: string,
+		args: Record<string, unknown>,
+	): Promise<unknown> {
+		switch (name) {
+			case "search_notes":
+				return this.searchNotes(
+					this.stringArg(args, "query", ""),
+					typeof args.limit === "number"
+						? args.limit
+						: DEFAULT_SEARCH_LIMIT,
+				);
+			case "get_backlinks":
+				return this.getBacklinks(this.stringArg(args, "path"));
+			case "list_tags":
+				return this.listTags(
+					typeof args.path === "string" ? args.path : undefined,
+				);
+			case "get_frontmatter":
+				return this.getFrontmatter(this.stringArg(args, "path"));
+			case "resolve_wikilink":
+				return this.resolveWikilink(
+					this.stringArg(args, "link"),
+					typeof args.sourcePath === "string" ? args.sourcePath : "",
+				);
+			case "list_folder":
+				return this.listFolder(
+					typeof args.path === "string" ? args.path : "",
+					args.recursive === true,
+				);
+			default:
+				throw new Error(`Unknown tool: ${name}`);
+		}
+	}
+
+	private async searchNotes(query: string, limit: number) {
+		const notes = await this.vaultService.searchNotes(query);
+		return notes.slice(0, Math.max(limit, 1)).map((note) => ({
+			path: note.path,
+			name: note.name,
+			aliases: note.aliases,
+			modified: new Date(note.modified).toISOString(),
+		}));
+	}
+
+	private getBacklinks(path: string) {
+		const target = this.requireFile(path);
+		const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
+		const backlinks: Array<{ path: string; count: number }> = [];
+		for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+			const count = links[target.path];
+			if (count && sourcePath !== target.path) {
+				backlinks.push({ path: sourcePath, count });
+			}
+		}
+		return backlinks.sort((a, b) => b.count - a.count);
+	}
+
+	private listTags(path?: string) {
+		const metadataCache = this.plugin.app.metadataCache;
+
+		if (path) {
+			const file = this.requireFile(path);
+			const cache = metadataCache.getFileCache(file);
+			return cache ? [...new Set(getAllTags(cache) ?? [])] : [];
+		}
+
+		const counts = new Map<string, number>();
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			const cache = metadataCache.getFileCache(file);
+			if (!cache) continue;
+			for (const tag of new Set(getAllTags(cache) ?? [])) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+		return [...counts.entries()]
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+	}
+
+	private getFrontmatter(path: string) {
+		const file = this.requireFile(path);
+		return (
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {}
+		);
+	}
+
+	private resolveWikilink(link: string, sourcePath: string) {
+		// Strip [[ ]], alias (|) and subpath (# heading / ^ block)
+		const linkpath = link
+			.trim()
+			.replace(/^!?\[\[/, "")
+			.replace(/\]\]$/, "")
+			.split("|")[0]
+			.split("#")[0]
+			.trim();
+		const file = this.plugin.app.metadataCache.getFirstLinkpathDest(
+			linkpath,
+			sourcePath,
+		);
+		return file
+			? { resolved: true, path: file.path, name: file.basename }
+			: { resolved: false, path: null, linkpath };
+	}
+
+	private listFolder(path: string, recursive: boolean) {
+		const folderPath = path.replace(/^\/+|\/+$/g, "");
+		const folder = folderPath
+			? this.plugin.app.vault.getAbstractFileByPath(folderPath)
+			: this.plugin.app.vault.getRoot();
+		if (!(folder instanceof TFolder)) {
+			throw new Error(`Folder not found: ${path}`);
+		}
+
+		const notes: string[] = [];
+		const folders: string[] = [];
+		const visit = (current: TFolder) => {
+			for (const child of current.children) {
+				if (child instanceof TFolder) {
+					folders.push(child.path);
+					if (recursive) visit(child);
+				} else if (child instanceof TFile && child.extension === "md") {
+					notes.push(child.path);
+				}
+			}
+		};
+		visit(folder);
+
+		return { folder: folder.path, folders, notes };
+	}
+
+	private requireFile(path: string): TFile {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Note not found: ${path}`);
+		}
+		return file;
+	}
+
+	private stringArg(
+		args: Record<string, unknown>,
+		key: string,
+		fallback?: string,
+	): string {
+		const value = args[key];
+		if (typeof value === "string") return value;
+		if (fallback !== undefined) return fallback;
+		throw new Error(`Missing required argument: ${key}`);
+	}
+}
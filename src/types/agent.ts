@@ -25,6 +25,51 @@ export interface AgentEnvVar {
 	value: string;
 }
 
+// ============================================================================
+// MCP Server Configuration
+// ============================================================================
+
+/**
+ * Transport used to reach an MCP server.
+ * - 'stdio': Agent launches the server as a subprocess
+ * - 'http': Streamable HTTP (requires agent mcpCapabilities.http)
+ * - 'sse': Server-sent events (requires agent mcpCapabilities.sse)
+ */
+export type McpServerTransport = "stdio" | "http" | "sse";
+
+/**
+ * MCP server passed to the agent on session/new, load, resume and fork.
+ *
+ * Stored in a single flat shape so the transport can be switched in
+ * settings without losing fields; only the fields relevant to the
+ * transport are forwarded.
+ */
+export interface McpServerSettings {
+	/** Server name shown to the agent (unique within a session) */
+	name: string;
+
+	/** Whether the server is forwarded to the agent */
+	enabled: boolean;
+
+	/** Transport type */
+	transport: McpServerTransport;
+
+	/** stdio: command to launch the server */
+	command: string;
+
+	/** stdio: command-line arguments */
+	args: string[];
+
+	/** stdio: environment variables for the server process */
+	env: AgentEnvVar[];
+
+	/** http/sse: server URL */
+	url: string;
+
+	/** http/sse: HTTP headers (key = header name) */
+	headers: AgentEnvVar[];
+}
+
 // ============================================================================
 // Agent Configuration
 // ============================================================================
@@ -51,6 +96,9 @@ export interface BaseAgentSettings {
 
 	/** Environment variables for the agent process */
 	env: AgentEnvVar[];
+
+	/** MCP servers for this agent only (merged with the global list) */
+	mcpServers: McpServerSettings[];
 }
 
 /**
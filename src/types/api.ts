@@ -0,0 +1,93 @@
+/**
+ * Public API Types
+ *
+ * Types of the API that other plugins and scripts reach through
+ * `app.plugins.plugins["agent-client"].api`. They are part of the public
+ * contract: change them only together with API_VERSION.
+ */
+
+import type { ToolCallStatus, ToolKind } from "./chat";
+import type { SessionUpdate, SessionUsage } from "./session";
+
+// ============================================================================
+// Agents and Views
+// ============================================================================
+
+export interface ApiAgentInfo {
+	id: string;
+	displayName: string;
+}
+
+export interface ApiViewInfo {
+	viewId: string;
+	viewType: "sidebar" | "floating";
+	/** Display name of the view's agent */
+	displayName: string;
+	/** Whether this is the focused (last active) view */
+	isFocused: boolean;
+}
+
+// ============================================================================
+// Headless Sessions
+// ============================================================================
+
+/**
+ * Answer to permission requests of a headless session that no permission
+ * rule (or auto-allow) decided.
+ * - 'allow': Allow once
+ * - 'reject': Reject once
+ */
+export type ApiPermissionPolicy = "allow" | "reject";
+
+export interface ApiSessionOptions {
+	/** Agent ID (default agent if not set) */
+	agentId?: string;
+	/** Working directory (vault folder if not set) */
+	cwd?: string;
+	/** Default: 'reject' */
+	permissionPolicy?: ApiPermissionPolicy;
+}
+
+/**
+ * A session without a chat view. It runs its own agent process until
+ * closed (or the plugin unloads).
+ */
+export interface ApiSession {
+	sessionId: string;
+	agentId: string;
+	cwd: string;
+}
+
+// ============================================================================
+// Prompt Results
+// ============================================================================
+
+export interface ApiToolCall {
+	toolCallId: string;
+	title: string | null;
+	kind: ToolKind | null;
+	/** Last reported status */
+	status: ToolCallStatus;
+	/** Paths the tool call touched */
+	locations: string[];
+}
+
+/**
+ * What the agent produced for one prompt.
+ */
+export interface ApiPromptResult {
+	sessionId: string;
+	/** Concatenated message text */
+	text: string;
+	/** Concatenated reasoning text */
+	thoughts: string;
+	/** Tool calls in order of first appearance */
+	toolCalls: ApiToolCall[];
+	/** Last reported usage (null if the agent reports none) */
+	usage: SessionUsage | null;
+}
+
+/**
+ * Listener for the raw session updates of a headless session or view.
+ */
+export type ApiSessionUpdateListener = (update: SessionUpdate) => void;
@@ -0,0 +1,79 @@
+/**
+ * Domain Models for the Audit Log
+ *
+ * These types describe entries of the append-only audit log that records
+ * permission decisions and tool call outcomes, independent of the ACP
+ * protocol and the storage format.
+ */
+
+import type { ToolCallStatus, ToolKind } from "./chat";
+
+// ============================================================================
+// Audit Log Entries
+// ============================================================================
+
+/**
+ * What an entry records.
+ * - 'permission': A permission request was decided (or cancelled)
+ * - 'tool_status': A tool call reached a final status
+ */
+export type AuditEvent = "permission" | "tool_status";
+
+/**
+ * Outcome of a permission request.
+ */
+export type AuditDecision = "allowed" | "rejected" | "cancelled";
+
+/**
+ * Who decided a permission request.
+ * - 'user': Chosen in the permission prompt
+ * - 'rule': Decided by a permission rule
+ * - 'auto_allow': Allowed by the auto-allow setting
+ * - 'policy': Answered by the permission policy of a headless session
+ *   (plugin API, background tasks, automations)
+ */
+export type AuditDecisionSource = "user" | "rule" | "auto_allow" | "policy";
+
+/**
+ * A single audit log entry (one line of the JSONL file).
+ */
+export interface AuditLogEntry {
+	/** ISO 8601 timestamp */
+	timestamp: string;
+
+	event: AuditEvent;
+
+	/** Agent that requested the tool call */
+	agentId: string | null;
+
+	sessionId: string | null;
+
+	toolCallId: string;
+
+	title?: string;
+
+	kind?: ToolKind;
+
+	/** Paths the tool call affects */
+	locations: string[];
+
+	/** permission: outcome of the request */
+	decision?: AuditDecision;
+
+	/** permission: who decided */
+	decidedBy?: AuditDecisionSource;
+
+	/** permission: name of the selected option */
+	optionName?: string;
+
+	/** permission: ID of the deciding rule (decidedBy = 'rule') */
+	ruleId?: string;
+
+	/** tool_status: final status of the tool call */
+	status?: ToolCallStatus;
+}
+
+/**
+ * Entry data supplied by callers; the timestamp is added when recording.
+ */
+export type AuditLogInput = Omit<AuditLogEntry, "timestamp">;
@@ -0,0 +1,102 @@
+/**
+ * Domain Models for Automations
+ *
+ * An automation runs a prompt as a background task on a schedule or when
+ * something happens in the vault. Automations live in plugin settings;
+ * their runs are kept in a run history.
+ */
+
+import type { BackgroundTaskOutput } from "./task";
+
+// ============================================================================
+// Automations
+// ============================================================================
+
+/**
+ * What starts an automation.
+ * - 'schedule': At a time of day, on selected weekdays
+ * - 'note_created': A note is created (in the folder)
+ * - 'note_modified': A note is modified (in the folder)
+ * - 'tag_added': A note gets the tag (in the folder)
+ */
+export type AutomationTrigger =
+	| "schedule"
+	| "note_created"
+	| "note_modified"
+	| "tag_added";
+
+export interface Automation {
+	/** Unique identifier */
+	id: string;
+
+	name: string;
+
+	/** Whether the automation runs */
+	enabled: boolean;
+
+	trigger: AutomationTrigger;
+
+	/** Time of day for 'schedule' (HH:mm, 24-hour) */
+	time: string;
+
+	/** Weekdays for 'schedule' (0 = Sunday ... 6 = Saturday) */
+	days: number[];
+
+	/** Folder the note must be in, for event triggers ("" = whole vault) */
+	folder: string;
+
+	/** Tag for 'tag_added', without # */
+	tag: string;
+
+	/** Prompt text; placeholders are filled as in prompt templates */
+	prompt: string;
+
+	/** Prompt template note used instead of the prompt ("" = none) */
+	templatePath: string;
+
+	/** Agent ID ("" = template's agent, then the default agent) */
+	agentId: string;
+
+	output: BackgroundTaskOutput;
+
+	/** Vault path of the target note (output 'note' only) */
+	notePath: string;
+}
+
+// ============================================================================
+// Run History
+// ============================================================================
+
+export type AutomationRunStatus =
+	| "running"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+/**
+ * One run of an automation.
+ */
+export interface AutomationRun {
+	id: string;
+
+	automationId: string;
+
+	/** Name of the automation at the time of the run */
+	automationName: string;
+
+	trigger: AutomationTrigger;
+
+	/** Note that triggered the run (null for 'schedule') */
+	notePath: string | null;
+
+	/** ISO 8601 timestamps */
+	startedAt: string;
+	finishedAt: string | null;
+
+	status: AutomationRunStatus;
+
+	/** Vault path the result was written to */
+	resultPath: string | null;
+
+	error: string | null;
+}
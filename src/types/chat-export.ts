@@ -0,0 +1,136 @@
+/**
+ * Domain Models for Chat Export
+ *
+ * Export formats, the markdown export template and the document written
+ * by the JSON export.
+ */
+
+import type { ChatMessage } from "./chat";
+import type { SessionUsage } from "./session";
+
+// ============================================================================
+// Export Formats
+// ============================================================================
+
+/**
+ * File format of a chat export.
+ * - 'markdown': Note with frontmatter (can be searched and imported)
+ * - 'json': Lossless message data, including raw tool input and output
+ * - 'html': Self-contained page with styled diffs and terminal output
+ * - 'canvas': Obsidian canvas with one node per message, tool calls and
+ *   plans as side cards linked to the notes they touched
+ */
+export type ChatExportFormat = "markdown" | "json" | "html" | "canvas";
+
+/**
+ * Output of a terminal at export time.
+ * Terminals are dropped shortly after the agent releases them, so only
+ * terminals of recent tool calls have output.
+ */
+export interface ExportedTerminalOutput {
+	output: string;
+	truncated: boolean;
+	exitStatus: {
+		exitCode: number | null;
+		signal: string | null;
+	} | null;
+}
+
+// ============================================================================
+// Markdown Template
+// ============================================================================
+
+/**
+ * How thoughts are written.
+ * - 'callout': Folded "> [!info]- Thinking" callout
+ * - 'quote': Plain blockquote
+ * - 'omit': Not exported
+ */
+export type ThoughtExportStyle = "callout" | "quote" | "omit";
+
+/**
+ * How tool calls are written.
+ * - 'section': "### 🔧 title" heading with locations, status, diffs and output
+ * - 'callout': The same details in a folded "> [!tool]-" callout
+ * - 'compact': One line with title and status
+ * - 'omit': Not exported
+ */
+export type ToolCallExportStyle = "section" | "callout" | "compact" | "omit";
+
+/**
+ * How plans are written.
+ * - 'callout': "> [!plan] Plan" callout with status icons
+ * - 'tasks': Task list (completed entries checked)
+ * - 'omit': Not exported
+ */
+export type PlanExportStyle = "callout" | "tasks" | "omit";
+
+/**
+ * Frontmatter fields filled from session metadata.
+ * - 'model', 'mode': Current model and mode names
+ * - 'cwd': Working directory of the session
+ * - 'usage': Context tokens used and context window size
+ * - 'cost': Session cost reported by the agent
+ * - 'touchedFiles': Files in tool call locations and diffs
+ */
+export type ExportFrontmatterField =
+	| "model"
+	| "mode"
+	| "cwd"
+	| "usage"
+	| "cost"
+	| "touchedFiles";
+
+/**
+ * Layout of markdown exports.
+ * Headings support {agent}, {role}, {date} and {time} placeholders.
+ */
+export interface MarkdownExportTemplate {
+	/** Heading at the top of the note (empty: none) */
+	title: string;
+	/** Heading of each message */
+	messageHeading: string;
+	/** Line written after each message (empty: none) */
+	messageSeparator: string;
+	thoughts: ThoughtExportStyle;
+	toolCalls: ToolCallExportStyle;
+	plans: PlanExportStyle;
+	/** Extra frontmatter fields, in this order */
+	frontmatterFields: ExportFrontmatterField[];
+}
+
+/**
+ * Session details for the extra frontmatter fields.
+ * Missing values leave their fields out.
+ */
+export interface ExportSessionMetadata {
+	model?: string;
+	mode?: string;
+	cwd?: string;
+	usage?: SessionUsage;
+}
+
+// ============================================================================
+// JSON Export
+// ============================================================================
+
+/** A message as stored in a JSON export (ISO 8601 timestamp) */
+export type ExportedChatMessage = Omit<ChatMessage, "timestamp"> & {
+	timestamp: string;
+};
+
+export interface ChatExportDocument {
+	/** Document version, increased on incompatible changes */
+	version: 1;
+	sessionId: string;
+	agentId: string;
+	agentDisplayName: string;
+	/** ISO 8601 timestamp of the first message (or session creation) */
+	createdAt: string;
+	/** ISO 8601 timestamp of the export */
+	exportedAt: string;
+	/** Messages with all content blocks as shown in the chat */
+	messages: ExportedChatMessage[];
+	/** Terminal output by terminal ID (terminals still available only) */
+	terminals: Record<string, ExportedTerminalOutput>;
+}
@@ -0,0 +1,33 @@
+/**
+ * Domain Models for Chat Import
+ *
+ * A chat note written by ChatExporter, parsed back into messages so that
+ * the conversation can be shown and continued in a chat view.
+ */
+
+import type { ChatMessage } from "./chat";
+
+// ============================================================================
+// Imported Chat
+// ============================================================================
+
+export interface ImportedChat {
+	/** Vault path of the imported note */
+	path: string;
+	/** Note name, used to mention the note as context */
+	noteName: string;
+
+	/** Session ID from the frontmatter (session_id) */
+	sessionId: string | null;
+	/** Agent ID from the frontmatter (agentId) */
+	agentId: string | null;
+	/** Agent display name from the frontmatter (agentDisplayName) */
+	agentDisplayName: string | null;
+
+	/** Title for the session history (first user message, or note name) */
+	title: string;
+	/** Export time from the frontmatter (created), or the note's ctime */
+	createdAt: Date;
+
+	messages: ChatMessage[];
+}
@@ -44,9 +44,9 @@ export type ToolKind =
 
 /**
  * Content that can be included in a tool call result.
- * Currently supports diffs and terminal output.
+ * Supports diffs, terminal output and regular content blocks.
  */
-export type ToolCallContent = DiffContent | TerminalContent;
+export type ToolCallContent = DiffContent | TerminalContent | EmbeddedContent;
 
 /**
  * Represents a file modification with before/after content.
@@ -66,6 +66,49 @@ export interface TerminalContent {
 	terminalId: string;
 }
 
+/**
+ * Regular content produced by a tool call (search results, fetched text, images).
+ */
+export interface EmbeddedContent {
+	type: "content";
+	content: EmbeddedContentBlock;
+}
+
+/**
+ * Content block embedded in a tool call result.
+ */
+export type EmbeddedContentBlock =
+	| {
+			type: "text";
+			text: string;
+	  }
+	| {
+			type: "image";
+			data: string; // Base64 encoded image data
+			mimeType: string;
+			uri?: string;
+	  }
+	| {
+			type: "audio";
+			data: string; // Base64 encoded audio data
+			mimeType: string;
+	  }
+	| {
+			type: "resource_link";
+			uri: string;
+			name: string;
+			title?: string;
+			mimeType?: string;
+			size?: number;
+	  }
+	| {
+			type: "resource";
+			uri: string;
+			mimeType?: string;
+			text?: string; // Present for text resources
+			blob?: string; // Base64 data, present for binary resources
+	  };
+
 // ============================================================================
 // Supporting Types
 // ============================================================================
@@ -139,6 +182,22 @@ export interface ChatMessage {
 	role: Role;
 	content: MessageContent[];
 	timestamp: Date;
+	/** Checkpoint of the files changed during this turn (user messages only) */
+	checkpointId?: string;
+}
+
+/**
+ * The note (and selected lines) auto-mentioned when a message was sent.
+ */
+export interface AutoMentionContext {
+	noteName: string;
+	/** Vault-relative path */
+	notePath: string;
+	/** 1-based inclusive line range */
+	selection?: {
+		fromLine: number;
+		toLine: number;
+	};
 }
 
 /**
@@ -148,6 +207,7 @@ export interface ChatMessage {
  * - text: Plain text from user or agent
  * - agent_thought: Agent's internal reasoning (often collapsed in UI)
  * - image: Visual content (base64 encoded)
+ * - audio: Recorded or attached audio clip (base64 encoded)
  * - resource_link: Reference to a file the agent can access (URI only)
  * - tool_call: Agent's tool execution with results
  * - plan: Agent's task breakdown
@@ -162,14 +222,7 @@ export type MessageContent =
 	| {
 			type: "text_with_context";
 			text: string;
-			autoMentionContext?: {
-				noteName: string;
-				notePath: string;
-				selection?: {
-					fromLine: number;
-					toLine: number;
-				};
-			};
+			autoMentionContext?: AutoMentionContext;
 	  }
 	| {
 			type: "agent_thought";
@@ -181,6 +234,11 @@ export type MessageContent =
 			mimeType: string; // e.g., "image/png"
 			uri?: string; // Optional source URI
 	  }
+	| {
+			type: "audio";
+			data: string; // Base64 encoded audio data
+			mimeType: string; // e.g., "audio/webm"
+	  }
 	| {
 			type: "resource_link";
 			uri: string; // Resource URI (e.g., "file:///path/to/file.pdf")
@@ -188,6 +246,12 @@ export type MessageContent =
 			mimeType?: string; // e.g., "application/pdf"
 			size?: number; // File size in bytes
 	  }
+	| {
+			type: "resource";
+			uri: string; // Resource URI
+			mimeType?: string; // e.g., "text/markdown"
+			text: string; // Embedded text of the resource
+	  }
 	| {
 			type: "tool_call";
 			toolCallId: string;
@@ -225,19 +289,20 @@ export type MessageContent =
 /**
  * Attached file for ChatInput.
  *
- * Two kinds:
+ * Three kinds:
  * - "image": Base64 embedded image (from paste or D&D with image capability)
- * - "file": File reference by path (D&D non-image, or D&D image without capability)
+ * - "audio": Base64 embedded audio (recording or D&D with audio capability)
+ * - "file": File reference by path (D&D other files, or media without capability)
  */
 export interface AttachedFile {
 	id: string;
-	kind: "image" | "file";
+	kind: "image" | "audio" | "file";
 	mimeType: string;
 
-	/** Base64-encoded data (only for kind === "image") */
+	/** Base64-encoded data (only for kind === "image" or "audio") */
 	data?: string;
 
-	/** File name for display (only for kind === "file") */
+	/** File name for display (kind === "file", or "audio" from a dropped file) */
 	name?: string;
 
 	/** Absolute file path (only for kind === "file") */
@@ -287,6 +352,20 @@ export interface ImagePromptContent {
 	mimeType: string;
 }
 
+/**
+ * Audio content in a prompt
+ *
+ * Audio is sent as Base64-encoded data with its MIME type.
+ * Requires the agent's audio prompt capability.
+ */
+export interface AudioPromptContent {
+	type: "audio";
+	/** Base64-encoded audio data (without data: prefix) */
+	data: string;
+	/** MIME type of the audio (e.g., "audio/webm", "audio/wav") */
+	mimeType: string;
+}
+
 /**
  * Annotations for resource content (ACP spec compliant)
  *
@@ -347,5 +426,6 @@ export interface ResourceLinkPromptContent {
 export type PromptContent =
 	| TextPromptContent
 	| ImagePromptContent
+	| AudioPromptContent
 	| ResourcePromptContent
 	| ResourceLinkPromptContent;
@@ -0,0 +1,57 @@
+/**
+ * Domain Models for Turn Checkpoints
+ *
+ * A checkpoint holds the contents of every file an agent touched during one
+ * turn, as they were before the turn, so the turn's edits can be rolled
+ * back without relying on git.
+ */
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+/**
+ * Content of a single file before the turn changed it.
+ */
+export interface FileSnapshot {
+	/** Path as reported by the agent (absolute or vault-relative) */
+	path: string;
+
+	/** Whether the file existed before the turn (false = created by the agent) */
+	existed: boolean;
+
+	/** Original content, or null when the file did not exist */
+	content: string | null;
+}
+
+/**
+ * Snapshot of the files touched during one turn.
+ */
+export interface Checkpoint {
+	/** Checkpoint ID (the ID of the user message that started the turn) */
+	id: string;
+
+	sessionId: string;
+
+	/** ISO 8601 timestamp of the start of the turn */
+	createdAt: string;
+
+	files: FileSnapshot[];
+
+	/**
+	 * Files that could not be snapshotted (too large, not text, or
+	 * unreadable); reverting leaves them unchanged
+	 */
+	skipped?: string[];
+}
+
+/**
+ * Outcome of reverting a checkpoint.
+ */
+export interface RevertResult {
+	/** Number of restored files */
+	restored: number;
+
+	/** Files that were not snapshotted and stay as they are */
+	skipped: string[];
+}
@@ -11,4 +11,15 @@ declare module "obsidian" {
 	interface Vault {
 		getConfig(key: string): unknown;
 	}
+
+	interface App {
+		/** Tracks the item being dragged from the file explorer, tabs, etc. */
+		dragManager?: {
+			draggable: {
+				type: string;
+				file?: TAbstractFile;
+				files?: TAbstractFile[];
+			} | null;
+		};
+	}
 }
@@ -0,0 +1,69 @@
+/**
+ * Domain Models for Permission Rules
+ *
+ * These types describe user-defined rules that decide agent permission
+ * requests before they reach the UI, independent of the ACP protocol.
+ */
+
+import type { ToolKind } from "./chat";
+
+// ============================================================================
+// Permission Rules
+// ============================================================================
+
+/**
+ * What to do with a permission request that matches a rule.
+ * - 'allow': Select the first allow option without asking
+ * - 'reject': Select the first reject option without asking
+ * - 'ask': Always show the permission prompt (overrides auto-allow)
+ */
+export type PermissionRuleAction = "allow" | "reject" | "ask";
+
+/**
+ * A permission rule. Rules are evaluated in order; the first enabled rule
+ * whose conditions all match decides the request. Empty conditions match
+ * anything.
+ */
+export interface PermissionRule {
+	/** Unique identifier (used for reordering and deletion) */
+	id: string;
+
+	/** Whether the rule is evaluated */
+	enabled: boolean;
+
+	/** Decision applied when the rule matches */
+	action: PermissionRuleAction;
+
+	/** Tool kind to match ("" = any kind) */
+	kind: ToolKind | "";
+
+	/** Tool call title pattern, case-insensitive, `*` as wildcard ("" = any title) */
+	titlePattern: string;
+
+	/**
+	 * Directory relative to the working directory that every tool location
+	 * must be inside ("." = the working directory, "" = any location).
+	 * Requests without locations never match a rule with a location.
+	 */
+	location: string;
+
+	/** Agent ID to match ("" = any agent) */
+	agentId: string;
+}
+
+/**
+ * Permission request attributes that rules are matched against.
+ */
+export interface PermissionRuleTarget {
+	kind?: ToolKind | null;
+	title?: string | null;
+	locations: string[];
+	agentId: string | null;
+}
+
+/**
+ * Where a rule saved from a permission prompt is kept.
+ * - 'session': Only for the current session of the chat view
+ * - 'always': Persisted in settings for all views
+ */
+export type PermissionRuleScope = "session" | "always";
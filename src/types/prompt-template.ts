@@ -0,0 +1,36 @@
+/**
+ * Type definitions for prompt templates.
+ *
+ * A prompt template is a markdown note in the template folder. Its body is
+ * the prompt; its frontmatter holds a description and the preferred agent,
+ * mode and model.
+ */
+
+// ============================================================================
+// Prompt Template
+// ============================================================================
+
+/**
+ * Session settings a template asks for.
+ * Values the agent doesn't offer are skipped with a notice.
+ */
+export interface PromptTemplatePreferences {
+	/** Agent ID */
+	agent?: string;
+	/** Mode ID or name */
+	mode?: string;
+	/** Model ID or name */
+	model?: string;
+}
+
+export interface PromptTemplate {
+	/** Vault path of the template note */
+	path: string;
+	/** Display name (note basename) */
+	name: string;
+	/** Name in the `/` dropdown (lowercase, spaces replaced by dashes) */
+	commandName: string;
+	/** Frontmatter `description` (empty if not set) */
+	description: string;
+	preferences: PromptTemplatePreferences;
+}
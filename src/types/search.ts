@@ -0,0 +1,57 @@
+/**
+ * Domain Models for Session Search
+ *
+ * Full-text search over locally saved session messages and exported chat
+ * notes. A result points at one message (or one message section of an
+ * exported note).
+ */
+
+// ============================================================================
+// Search Results
+// ============================================================================
+
+/**
+ * Where a result comes from.
+ * - 'session': A session message file saved by the plugin
+ * - 'export': A chat exported as a note
+ */
+export type SessionSearchSource = "session" | "export";
+
+/**
+ * Which part of the message matched.
+ * - 'text': Message text (including thoughts and plans)
+ * - 'tool': Tool call title
+ * - 'location': File location of a tool call or resource link
+ */
+export type SessionSearchField = "text" | "tool" | "location";
+
+export interface SessionSearchResult {
+	source: SessionSearchSource;
+
+	/** Session ID (from the session file or the note's frontmatter) */
+	sessionId: string | null;
+	agentId: string | null;
+	/** Display name of the agent (agent ID if the agent is unknown) */
+	agentName: string | null;
+
+	/** Session title, or the note name for exports */
+	title: string;
+	/** Working directory of the session, if known */
+	cwd: string | null;
+	/** Vault path of the exported note ('export' only) */
+	path: string | null;
+
+	/** ID of the matching message ('session' only) */
+	messageId: string | null;
+	/** Line of the message heading in the note ('export' only, 0-based) */
+	line: number | null;
+	role: "user" | "assistant";
+	/** ISO 8601 timestamp of the message or export */
+	timestamp: string | null;
+
+	field: SessionSearchField;
+	/** Excerpt around the first match */
+	snippet: string;
+	/** Matched ranges in the snippet ([start, end), sorted, non-overlapping) */
+	highlights: Array<[number, number]>;
+}
@@ -281,6 +281,7 @@ export interface ChatSession {
  */
 
 import type {
+	MessageContent,
 	PlanEntry,
 	ToolCallContent,
 	ToolCallLocation,
@@ -308,30 +309,43 @@ interface SessionUpdateBase {
 // ============================================================================
 
 /**
- * Text chunk from agent's message stream.
- * Used for streaming text responses.
+ * Non-text content carried by a message chunk.
+ */
+export type MessageChunkContent = Extract<
+	MessageContent,
+	{ type: "image" } | { type: "resource_link" } | { type: "resource" }
+>;
+
+/**
+ * Chunk from agent's message stream.
+ * Used for streaming text responses. Non-text chunks (images, resource
+ * links) set `content` and leave `text` empty.
  */
 export interface AgentMessageChunk extends SessionUpdateBase {
 	type: "agent_message_chunk";
 	text: string;
+	content?: MessageChunkContent;
 }
 
 /**
- * Text chunk from agent's internal reasoning.
- * Used for streaming thought/reasoning content.
+ * Chunk from agent's internal reasoning.
+ * Used for streaming thought/reasoning content. Non-text chunks set
+ * `content` and are shown in the message body, not the thought.
  */
 export interface AgentThoughtChunk extends SessionUpdateBase {
 	type: "agent_thought_chunk";
 	text: string;
+	content?: MessageChunkContent;
 }
 
 /**
- * Text chunk from user's message during session/load.
+ * Chunk from user's message during session/load.
  * Used for reconstructing user messages when loading a saved session.
  */
 export interface UserMessageChunk extends SessionUpdateBase {
 	type: "user_message_chunk";
 	text: string;
+	content?: MessageChunkContent;
 }
 
 /**
@@ -353,6 +367,8 @@ export interface ToolCall extends SessionUpdateBase {
 		selectedOptionId?: string;
 		isCancelled?: boolean;
 		isActive?: boolean;
+		/** A file write review (must be seen, never answered automatically) */
+		isReview?: boolean;
 	};
 }
 
@@ -376,6 +392,8 @@ export interface ToolCallUpdate extends SessionUpdateBase {
 		selectedOptionId?: string;
 		isCancelled?: boolean;
 		isActive?: boolean;
+		/** A file write review (must be seen, never answered automatically) */
+		isReview?: boolean;
 	};
 }
 
@@ -542,6 +560,14 @@ export interface SessionInfo {
 	title?: string;
 	/** ISO 8601 timestamp of last update */
 	updatedAt?: string;
+
+	// Local metadata (from SavedSessionInfo, never sent by the agent)
+	/** Whether the session is pinned */
+	pinned?: boolean;
+	/** User tags */
+	tags?: string[];
+	/** Whether the session is archived (hidden from the list by default) */
+	archived?: boolean;
 }
 
 /**
@@ -597,6 +623,31 @@ export interface SavedSessionInfo {
 	createdAt: string;
 	/** ISO 8601 timestamp of last activity */
 	updatedAt: string;
+	/** Pinned sessions are never removed by the retention policy */
+	pinned?: boolean;
+	/** User tags (without '#') */
+	tags?: string[];
+	/** Archived sessions are hidden from the session list by default */
+	archived?: boolean;
+}
+
+/**
+ * User-managed fields of a saved session.
+ */
+export type SessionMetadata = Pick<
+	SavedSessionInfo,
+	"pinned" | "tags" | "archived"
+>;
+
+/**
+ * Metadata change for one session of the session list.
+ *
+ * The session is passed as listed (not only its ID) so that a local entry
+ * can be created for sessions that exist only on the agent side.
+ */
+export interface SessionMetadataUpdate {
+	session: SessionInfo;
+	metadata: SessionMetadata;
 }
 /**
  * Domain Models for Agent Initialization Results
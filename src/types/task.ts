@@ -0,0 +1,73 @@
+/**
+ * Domain Models for Background Tasks
+ *
+ * A background task is a prompt that runs in a headless session (its own
+ * agent process, no chat view). Tasks wait in a queue and run with a
+ * concurrency limit.
+ */
+
+import type { SessionUsage } from "./session";
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+/**
+ * Where the result of a finished task goes.
+ * - 'none': Only kept in the task panel
+ * - 'note': Appended to a target note (created if missing)
+ * - 'export': Exported as a chat via the chat exporter
+ */
+export type BackgroundTaskOutput = "none" | "note" | "export";
+
+/**
+ * What is needed to queue a task.
+ */
+export interface BackgroundTaskInput {
+	prompt: string;
+	/** Agent ID (default agent if not set) */
+	agentId?: string;
+	output: BackgroundTaskOutput;
+	/** Vault path of the target note (output 'note' only) */
+	notePath?: string;
+	/** Shown in the task panel (e.g. the automation that queued the task) */
+	label?: string;
+}
+
+// ============================================================================
+// Task State
+// ============================================================================
+
+export type BackgroundTaskStatus =
+	| "queued"
+	| "running"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+export interface BackgroundTask {
+	id: string;
+	label: string | null;
+	prompt: string;
+	agentId: string;
+	agentDisplayName: string;
+	output: BackgroundTaskOutput;
+	notePath: string | null;
+
+	status: BackgroundTaskStatus;
+	createdAt: Date;
+	startedAt: Date | null;
+	finishedAt: Date | null;
+
+	// Progress (updated while running)
+	toolCallCount: number;
+	/** Title of the latest tool call */
+	activity: string | null;
+	usage: SessionUsage | null;
+
+	/** Agent's message text (set when completed) */
+	resultText: string | null;
+	/** Vault path the result was written to */
+	resultPath: string | null;
+	error: string | null;
+}
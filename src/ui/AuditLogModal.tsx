@@ -0,0 +1,301 @@
+/**
+ * Audit Log Modal
+ *
+ * Contains the Obsidian Modal wrapper and the React content component
+ * for reviewing permission decisions and tool call outcomes.
+ */
+
+import { Modal, App, Notice } from "obsidian";
+import * as React from "react";
+const { useState, useEffect, useMemo, useCallback } = React;
+import { createRoot, Root } from "react-dom/client";
+import type AgentClientPlugin from "../plugin";
+import type { AuditLogEntry } from "../types/audit";
+import {
+	filterAuditEntries,
+	getAuditOutcome,
+	type AuditLogFilter,
+} from "../services/audit-log";
+import { PERMISSION_RULE_KINDS } from "../services/permission-rules";
+
+/** Number of entries rendered per page */
+const PAGE_SIZE = 200;
+
+const EMPTY_FILTER: AuditLogFilter = {
+	agentId: "",
+	kind: "",
+	outcome: "",
+	query: "",
+};
+
+// ============================================================
+// AuditLogContent (internal)
+// ============================================================
+
+interface AuditLogContentProps {
+	plugin: AgentClientPlugin;
+}
+
+/**
+ * Audit log viewer: filters, entry list and export.
+ */
+function AuditLogContent({ plugin }: AuditLogContentProps) {
+	const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [filter, setFilter] = useState<AuditLogFilter>(EMPTY_FILTER);
+	const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+	const load = useCallback(() => {
+		setError(null);
+		plugin.auditLog
+			.readEntries()
+			.then(setEntries)
+			.catch((e: unknown) => {
+				setError(e instanceof Error ? e.message : String(e));
+			});
+	}, [plugin]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const agentIds = useMemo(
+		() =>
+			[...new Set((entries ?? []).map((e) => e.agentId ?? ""))]
+				.filter(Boolean)
+				.sort(),
+		[entries],
+	);
+
+	const filteredEntries = useMemo(
+		() => filterAuditEntries(entries ?? [], filter),
+		[entries, filter],
+	);
+
+	const updateFilter = (changes: Partial<AuditLogFilter>) => {
+		setFilter((prev) => ({ ...prev, ...changes }));
+		setVisibleCount(PAGE_SIZE);
+	};
+
+	const handleExport = () => {
+		plugin.auditLog
+			.exportToMarkdown(filteredEntries)
+			.then((path) => {
+				new Notice(`[Agent Client] Audit log exported to ${path}`);
+			})
+			.catch((e: unknown) => {
+				new Notice(
+					`[Agent Client] Audit log export failed: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			});
+	};
+
+	return (
+		<>
+			<div className="agent-client-audit-log-filters">
+				<select
+					className="dropdown"
+					value={filter.agentId}
+					onChange={(e) => updateFilter({ agentId: e.target.value })}
+				>
+					<option value="">All agents</option>
+					{agentIds.map((id) => (
+						<option key={id} value={id}>
+							{id}
+						</option>
+					))}
+				</select>
+				<select
+					className="dropdown"
+					value={filter.kind}
+					onChange={(e) =>
+						updateFilter({
+							kind: e.target.value as AuditLogFilter["kind"],
+						})
+					}
+				>
+					<option value="">All kinds</option>
+					{PERMISSION_RULE_KINDS.map((kind) => (
+						<option key={kind} value={kind}>
+							{kind}
+						</option>
+					))}
+				</select>
+				<select
+					className="dropdown"
+					value={filter.outcome}
+					onChange={(e) =>
+						updateFilter({
+							outcome: e.target
+								.value as AuditLogFilter["outcome"],
+						})
+					}
+				>
+					<option value="">All outcomes</option>
+					<option value="allowed">Allowed</option>
+					<option value="rejected">Rejected</option>
+					<option value="cancelled">Cancelled</option>
+					<option value="completed">Completed</option>
+					<option value="failed">Failed</option>
+				</select>
+				<input
+					type="search"
+					placeholder="Search title or path"
+					value={filter.query}
+					onChange={(e) => updateFilter({ query: e.target.value })}
+				/>
+			</div>
+
+			<div className="agent-client-audit-log-actions">
+				<span className="agent-client-audit-log-count">
+					{filteredEntries.length} of {entries?.length ?? 0} entries
+				</span>
+				<button onClick={load}>Reload</button>
+				<button
+					className="mod-cta"
+					disabled={filteredEntries.length === 0}
+					onClick={handleExport}
+				>
+					Export
+				</button>
+			</div>
+
+			{error && (
+				<div className="agent-client-audit-log-empty">
+					<p>{error}</p>
+				</div>
+			)}
+
+			{!error && entries === null && (
+				<div className="agent-client-audit-log-empty">
+					<p>Loading audit log...</p>
+				</div>
+			)}
+
+			{!error && entries !== null && filteredEntries.length === 0 && (
+				<div className="agent-client-audit-log-empty">
+					<p>No entries</p>
+				</div>
+			)}
+
+			{filteredEntries.length > 0 && (
+				<div className="agent-client-audit-log-list">
+					{filteredEntries.slice(0, visibleCount).map((entry, i) => (
+						<AuditLogItem
+							key={`${entry.timestamp}-${entry.toolCallId}-${i}`}
+							entry={entry}
+						/>
+					))}
+				</div>
+			)}
+
+			{filteredEntries.length > visibleCount && (
+				<div className="agent-client-audit-log-load-more">
+					<button
+						onClick={() =>
+							setVisibleCount((count) => count + PAGE_SIZE)
+						}
+					>
+						Load more
+					</button>
+				</div>
+			)}
+		</>
+	);
+}
+
+/**
+ * A single audit log entry.
+ */
+function AuditLogItem({ entry }: { entry: AuditLogEntry }) {
+	const outcome = getAuditOutcome(entry);
+	const decidedBy =
+		entry.decidedBy === "rule"
+			? "by rule"
+			: entry.decidedBy === "auto_allow"
+				? "by auto-allow"
+				: entry.decidedBy === "policy"
+					? "by policy"
+					: entry.decidedBy === "user" && outcome !== "cancelled"
+						? "by user"
+						: "";
+
+	return (
+		<div className="agent-client-audit-log-item">
+			<div className="agent-client-audit-log-item-header">
+				<span
+					className={`agent-client-audit-log-outcome agent-client-audit-log-outcome-${outcome}`}
+				>
+					{outcome}
+				</span>
+				<span className="agent-client-audit-log-item-title">
+					{entry.title || entry.toolCallId}
+				</span>
+				<span className="agent-client-audit-log-item-time">
+					{new Date(entry.timestamp).toLocaleString()}
+				</span>
+			</div>
+			<div className="agent-client-audit-log-item-metadata">
+				{[
+					entry.kind,
+					entry.agentId,
+					decidedBy,
+					entry.optionName ? `"${entry.optionName}"` : "",
+					entry.sessionId ? `session ${entry.sessionId}` : "",
+				]
+					.filter(Boolean)
+					.join(" · ")}
+			</div>
+			{entry.locations.length > 0 && (
+				<div className="agent-client-audit-log-item-locations">
+					{entry.locations.map((location, i) => (
+						<span key={i}>{location}</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+// ============================================================
+// AuditLogModal (exported)
+// ============================================================
+
+/**
+ * Modal for reviewing the audit log.
+ *
+ * Thin Obsidian Modal wrapper around the AuditLogContent React component.
+ */
+export class AuditLogModal extends Modal {
+	private root: Root | null = null;
+
+	constructor(
+		app: App,
+		private plugin: AgentClientPlugin,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass("agent-client-audit-log-modal");
+
+		contentEl.createEl("h2", { text: "Audit log" });
+
+		const reactContainer = contentEl.createDiv();
+		this.root = createRoot(reactContainer);
+		this.root.render(
+			React.createElement(AuditLogContent, { plugin: this.plugin }),
+		);
+	}
+
+	onClose() {
+		if (this.root) {
+			this.root.unmount();
+			this.root = null;
+		}
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
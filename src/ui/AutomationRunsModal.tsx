@@ -0,0 +1,226 @@
+/**
+ * Automation Runs Modal
+ *
+ * Contains the Obsidian Modal wrapper and the React content component
+ * for the run history of automations.
+ */
+
+import { Modal, App, Notice } from "obsidian";
+import * as React from "react";
+const { useState, useEffect, useCallback } = React;
+import { createRoot, Root } from "react-dom/client";
+import type AgentClientPlugin from "../plugin";
+import type { AutomationRun } from "../types/automation";
+
+const TRIGGER_LABELS: Record<AutomationRun["trigger"], string> = {
+	schedule: "Schedule",
+	note_created: "Note created",
+	note_modified: "Note modified",
+	tag_added: "Tag added",
+};
+
+// ============================================================
+// AutomationRunsContent (internal)
+// ============================================================
+
+interface AutomationRunsContentProps {
+	plugin: AgentClientPlugin;
+	onOpenPath: (path: string) => void;
+}
+
+/**
+ * Run history: run list with status, result and error.
+ */
+function AutomationRunsContent({
+	plugin,
+	onOpenPath,
+}: AutomationRunsContentProps) {
+	const [runs, setRuns] = useState<AutomationRun[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = useCallback(() => {
+		setError(null);
+		plugin.automations.runLog
+			.getRuns()
+			.then((loaded) => setRuns([...loaded]))
+			.catch((e: unknown) => {
+				setError(e instanceof Error ? e.message : String(e));
+			});
+	}, [plugin]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const handleClear = () => {
+		plugin.automations.runLog
+			.clear()
+			.then(load)
+			.catch((e: unknown) => {
+				new Notice(
+					`[Agent Client] Failed to clear run history: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			});
+	};
+
+	return (
+		<>
+			<div className="agent-client-audit-log-actions">
+				<span className="agent-client-audit-log-count">
+					{runs?.length ?? 0} runs
+				</span>
+				<button onClick={load}>Reload</button>
+				<button
+					className="mod-warning"
+					disabled={!runs || runs.length === 0}
+					onClick={handleClear}
+				>
+					Clear
+				</button>
+			</div>
+
+			{error && (
+				<div className="agent-client-audit-log-empty">
+					<p>{error}</p>
+				</div>
+			)}
+
+			{!error && runs === null && (
+				<div className="agent-client-audit-log-empty">
+					<p>Loading run history...</p>
+				</div>
+			)}
+
+			{!error && runs !== null && runs.length === 0 && (
+				<div className="agent-client-audit-log-empty">
+					<p>No runs yet</p>
+				</div>
+			)}
+
+			{runs && runs.length > 0 && (
+				<div className="agent-client-audit-log-list">
+					{runs.map((run) => (
+						<AutomationRunItem
+							key={run.id}
+							run={run}
+							onOpenPath={onOpenPath}
+						/>
+					))}
+				</div>
+			)}
+		</>
+	);
+}
+
+/**
+ * A single run.
+ */
+function AutomationRunItem({
+	run,
+	onOpenPath,
+}: {
+	run: AutomationRun;
+	onOpenPath: (path: string) => void;
+}) {
+	const duration = run.finishedAt
+		? Math.round(
+				(new Date(run.finishedAt).getTime() -
+					new Date(run.startedAt).getTime()) /
+					1000,
+			)
+		: null;
+
+	return (
+		<div className="agent-client-audit-log-item">
+			<div className="agent-client-audit-log-item-header">
+				<span
+					className={`agent-client-audit-log-outcome agent-client-audit-log-outcome-${run.status}`}
+				>
+					{run.status}
+				</span>
+				<span className="agent-client-audit-log-item-title">
+					{run.automationName}
+				</span>
+				<span className="agent-client-audit-log-item-time">
+					{new Date(run.startedAt).toLocaleString()}
+				</span>
+			</div>
+			<div className="agent-client-audit-log-item-metadata">
+				{[
+					TRIGGER_LABELS[run.trigger],
+					run.notePath ?? "",
+					duration !== null ? `${duration}s` : "",
+				]
+					.filter(Boolean)
+					.join(" · ")}
+			</div>
+			{run.resultPath && (
+				<div className="agent-client-automation-run-result">
+					<a
+						onClick={(e) => {
+							e.preventDefault();
+							onOpenPath(run.resultPath!);
+						}}
+					>
+						{run.resultPath}
+					</a>
+				</div>
+			)}
+			{run.error && (
+				<div className="agent-client-automation-run-error">
+					{run.error}
+				</div>
+			)}
+		</div>
+	);
+}
+
+// ============================================================
+// AutomationRunsModal (exported)
+// ============================================================
+
+/**
+ * Modal for the run history of automations.
+ *
+ * Thin Obsidian Modal wrapper around the AutomationRunsContent React
+ * component.
+ */
+export class AutomationRunsModal extends Modal {
+	private root: Root | null = null;
+
+	constructor(
+		app: App,
+		private plugin: AgentClientPlugin,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass("agent-client-audit-log-modal");
+
+		contentEl.createEl("h2", { text: "Automation run history" });
+
+		const reactContainer = contentEl.createDiv();
+		this.root = createRoot(reactContainer);
+		this.root.render(
+			React.createElement(AutomationRunsContent, {
+				plugin: this.plugin,
+				onOpenPath: (path: string) => {
+					this.close();
+					void this.app.workspace.openLinkText(path, "", true);
+				},
+			}),
+		);
+	}
+
+	onClose() {
+		if (this.root) {
+			this.root.unmount();
+			this.root = null;
+		}
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
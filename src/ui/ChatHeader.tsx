@@ -133,7 +133,7 @@ function SidebarHeader({
 				)}
 				<NavActionButton
 					icon="save"
-					label="Export chat to Markdown"
+					label="Export chat"
 					onClick={onExportChat}
 				/>
 				<NavActionButton
@@ -10,7 +10,7 @@ import {
 } from "obsidian";
 
 import type { AttachedFile, ChatInputState } from "../types/chat";
-import { isSameDirectory } from "../utils/platform";
+import { convertWslPathToWindows, isSameDirectory } from "../utils/platform";
 import { useHistoryModal } from "../hooks/useHistoryModal";
 import { useChatActions } from "../hooks/useChatActions";
 import { ChangeDirectoryModal } from "./ChangeDirectoryModal";
@@ -38,8 +38,16 @@ import {
 	type SessionModelState,
 	type SessionConfigOption,
 } from "../types/session";
+import type {
+	PromptTemplate,
+	PromptTemplatePreferences,
+} from "../types/prompt-template";
+import type { SessionSearchResult } from "../types/search";
+import type { ImportedChat } from "../types/chat-import";
+import type { ChatExportFormat } from "../types/chat-export";
 import { checkAgentUpdate } from "../services/update-checker";
 import { buildGeminiDeprecationNotice } from "../services/session-helpers";
+import { resolveSessionPreference } from "../services/session-state";
 
 /** Stable empty array for useSuggestions when no commands available */
 const EMPTY_COMMANDS: SlashCommand[] = [];
@@ -286,6 +294,8 @@ export function ChatPanel({
 		messages,
 		settings,
 		vaultPath,
+		acpClient,
+		agentCwd,
 	);
 
 	const {
@@ -347,7 +357,18 @@ export function ChatPanel({
 		[handleSendMessage],
 	);
 
-	const { handleOpenHistory } = useHistoryModal(
+	// Search results are opened by handleOpenSearchResult (defined below,
+	// after the agent switching callbacks it needs)
+	const handleOpenSearchResultRef = useRef<
+		(result: SessionSearchResult) => void
+	>(() => {});
+	const openSearchResult = useCallback(
+		(result: SessionSearchResult) =>
+			handleOpenSearchResultRef.current(result),
+		[],
+	);
+
+	const { handleOpenHistory, handleRestoreSession } = useHistoryModal(
 		plugin,
 		agent,
 		sessionHistory,
@@ -355,6 +376,7 @@ export function ChatPanel({
 		isSessionReady,
 		settings.debugMode,
 		setAgentCwd,
+		openSearchResult,
 	);
 
 	// ============================================================
@@ -501,7 +523,7 @@ export function ChatPanel({
 			});
 
 			menu.addItem((item: MenuItem) => {
-				item.setTitle("Export chat to Markdown")
+				item.setTitle("Export chat")
 					.setIcon("save")
 					.onClick(() => {
 						void handleExportChat();
@@ -668,6 +690,365 @@ export function ChatPanel({
 		logger,
 	]);
 
+	// ============================================================
+	// Prompt Template Preferences
+	// ============================================================
+	// Preferences of the last prompt template, waiting for the session
+	// (of the template's agent) to be ready
+	const [pendingPreferences, setPendingPreferences] =
+		useState<PromptTemplatePreferences | null>(null);
+
+	const handleApplySessionPreferences = useCallback(
+		async (preferences: PromptTemplatePreferences) => {
+			const agentId = preferences.agent;
+			if (agentId && agentId !== session.agentId) {
+				if (!availableAgents.some((a) => a.id === agentId)) {
+					new Notice(`[Agent Client] Unknown agent: ${agentId}`);
+					setPendingPreferences({ ...preferences, agent: undefined });
+					return;
+				}
+				if (variant === "sidebar") {
+					await handleNewChatWithPersist(agentId);
+				} else {
+					await handleSwitchAgent(agentId);
+				}
+			}
+			setPendingPreferences(preferences);
+		},
+		[
+			session.agentId,
+			availableAgents,
+			variant,
+			handleNewChatWithPersist,
+			handleSwitchAgent,
+		],
+	);
+
+	// Apply template mode and model when the session is ready
+	useEffect(() => {
+		if (!pendingPreferences || !isSessionReady) return;
+		if (
+			pendingPreferences.agent &&
+			pendingPreferences.agent !== session.agentId
+		) {
+			return;
+		}
+		setPendingPreferences(null);
+
+		for (const category of ["mode", "model"] as const) {
+			const preference = pendingPreferences[category];
+			if (!preference) continue;
+
+			const resolved = resolveSessionPreference(
+				session,
+				category,
+				preference,
+			);
+			if (!resolved) {
+				new Notice(
+					`[Agent Client] ${activeAgentLabel} has no ${category} "${preference}"`,
+				);
+				continue;
+			}
+			if (resolved.isCurrent) continue;
+
+			logger.log(
+				`[ChatPanel] Applying template ${category}:`,
+				resolved.value,
+			);
+			if (resolved.configId) {
+				void agent.setConfigOption(resolved.configId, resolved.value);
+			} else if (category === "mode") {
+				void agent.setMode(resolved.value);
+			} else {
+				void agent.setModel(resolved.value);
+			}
+		}
+	}, [
+		pendingPreferences,
+		isSessionReady,
+		session,
+		activeAgentLabel,
+		agent.setConfigOption,
+		agent.setMode,
+		agent.setModel,
+		logger,
+	]);
+
+	// ============================================================
+	// Session Search Results
+	// ============================================================
+	// Session result waiting for the session of its agent to be ready
+	const [pendingSearchResult, setPendingSearchResult] =
+		useState<SessionSearchResult | null>(null);
+	// Message to scroll to once the restored messages are shown
+	const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+
+	/**
+	 * Open a search result: exported chats open at the message heading,
+	 * sessions are restored in this view (switching agent if needed).
+	 */
+	const handleOpenSearchResult = useCallback(
+		async (result: SessionSearchResult) => {
+			if (result.source === "export") {
+				const file = result.path
+					? plugin.app.vault.getFileByPath(result.path)
+					: null;
+				if (!file) {
+					new Notice("[Agent Client] Exported chat not found");
+					return;
+				}
+				await plugin.app.workspace.getLeaf(false).openFile(file, {
+					eState: { line: result.line ?? 0 },
+				});
+				return;
+			}
+
+			const agentId = result.agentId;
+			if (agentId && agentId !== session.agentId) {
+				if (!availableAgents.some((a) => a.id === agentId)) {
+					new Notice(`[Agent Client] Unknown agent: ${agentId}`);
+					return;
+				}
+				if (variant === "sidebar") {
+					await handleNewChatWithPersist(agentId);
+				} else {
+					await handleSwitchAgent(agentId);
+				}
+			}
+			setPendingSearchResult(result);
+		},
+		[
+			plugin,
+			session.agentId,
+			availableAgents,
+			variant,
+			handleNewChatWithPersist,
+			handleSwitchAgent,
+		],
+	);
+	handleOpenSearchResultRef.current = (result) =>
+		void handleOpenSearchResult(result);
+
+	// Restore the session of a search result when its agent is ready
+	useEffect(() => {
+		if (!pendingSearchResult || !isSessionReady) return;
+		const { sessionId, agentId, cwd, messageId } = pendingSearchResult;
+		if (agentId && agentId !== session.agentId) return;
+		setPendingSearchResult(null);
+
+		if (!sessionId) return;
+		if (!sessionHistory.canRestore) {
+			new Notice(
+				`[Agent Client] ${activeAgentLabel} cannot restore sessions`,
+			);
+			return;
+		}
+		void handleRestoreSession(sessionId, cwd ?? vaultPath).then(() => {
+			setFocusMessageId(messageId);
+		});
+	}, [
+		pendingSearchResult,
+		isSessionReady,
+		session.agentId,
+		sessionHistory.canRestore,
+		activeAgentLabel,
+		handleRestoreSession,
+		vaultPath,
+	]);
+
+	const handleFocusMessageHandled = useCallback(() => {
+		setFocusMessageId(null);
+	}, []);
+
+	// ============================================================
+	// Chat Import
+	// ============================================================
+	// Imported chat waiting for the session of its agent to be ready
+	const [pendingImport, setPendingImport] = useState<{
+		chat: ImportedChat;
+		agentId: string;
+		/** Try to restore the exported session (false: seed a new one) */
+		restore: boolean;
+		/** The view is on a new chat started for this import */
+		inNewChat: boolean;
+	} | null>(null);
+
+	/**
+	 * Show an imported chat in this view (switching agent if needed).
+	 * Chats of unknown agents are seeded into a new session of the current
+	 * agent.
+	 */
+	const handleImportChat = useCallback(
+		async (chat: ImportedChat) => {
+			let agentId = chat.agentId ?? session.agentId;
+			let restore = chat.sessionId !== null;
+			if (!availableAgents.some((a) => a.id === agentId)) {
+				new Notice(
+					`[Agent Client] Unknown agent: ${agentId}. The chat is continued with ${activeAgentLabel}.`,
+				);
+				agentId = session.agentId;
+				restore = false;
+			}
+			const inNewChat = agentId !== session.agentId;
+			if (inNewChat) {
+				if (variant === "sidebar") {
+					await handleNewChatWithPersist(agentId);
+				} else {
+					await handleSwitchAgent(agentId);
+				}
+			}
+			setPendingImport({ chat, agentId, restore, inNewChat });
+		},
+		[
+			session.agentId,
+			availableAgents,
+			activeAgentLabel,
+			variant,
+			handleNewChatWithPersist,
+			handleSwitchAgent,
+		],
+	);
+
+	/**
+	 * Restore the exported session. Without saved messages, the imported
+	 * ones are saved first so that they are shown after load or resume.
+	 *
+	 * @returns false if the session could not be restored
+	 */
+	const restoreImportedChat = useCallback(
+		async (chat: ImportedChat, agentId: string): Promise<boolean> => {
+			const sessionId = chat.sessionId;
+			if (!sessionId || !sessionHistory.canRestore) return false;
+
+			const saved = plugin.settingsService
+				.getSavedSessions(agentId)
+				.find((s) => s.sessionId === sessionId);
+			const cwd = saved?.cwd ?? vaultPath;
+			const hasLocalMessages =
+				(await plugin.settingsService.loadSessionMessages(
+					sessionId,
+				)) !== null;
+			if (!hasLocalMessages) {
+				await plugin.settingsService.saveSessionMessages(
+					sessionId,
+					agentId,
+					chat.messages,
+				);
+			}
+
+			try {
+				agent.clearMessages();
+				await sessionHistory.restoreSession(sessionId, cwd);
+			} catch (error) {
+				logger.warn(
+					`[ChatPanel] Imported session could not be restored: ${sessionId}`,
+					error,
+				);
+				if (!hasLocalMessages) {
+					await plugin.settingsService.deleteSessionMessages(
+						sessionId,
+					);
+				}
+				return false;
+			}
+
+			setAgentCwd(Platform.isWin ? convertWslPathToWindows(cwd) : cwd);
+			if (!saved) {
+				const now = new Date().toISOString();
+				await plugin.settingsService.saveSession({
+					sessionId,
+					agentId,
+					cwd,
+					title: chat.title,
+					createdAt: chat.createdAt.toISOString(),
+					updatedAt: now,
+				});
+			}
+			new Notice("[Agent Client] Imported chat restored");
+			return true;
+		},
+		[
+			plugin.settingsService,
+			sessionHistory.canRestore,
+			sessionHistory.restoreSession,
+			agent.clearMessages,
+			vaultPath,
+			logger,
+		],
+	);
+
+	// Restore or seed the imported chat when its agent is ready
+	useEffect(() => {
+		if (!pendingImport || !isSessionReady) return;
+		const { chat, agentId, restore, inNewChat } = pendingImport;
+		if (agentId !== session.agentId) return;
+		setPendingImport(null);
+
+		void (async () => {
+			if (restore && (await restoreImportedChat(chat, agentId))) return;
+
+			// Seed a new chat only: a failed restore leaves the view on the
+			// exported session ID, and the current session's agent keeps its
+			// own context (saving would overwrite its stored messages)
+			if (restore || !inNewChat) {
+				if (variant === "sidebar") {
+					await handleNewChatWithPersist();
+				} else {
+					await handleNewChat();
+				}
+				setPendingImport({
+					chat,
+					agentId,
+					restore: false,
+					inNewChat: true,
+				});
+				return;
+			}
+
+			// Seed a new session: show the transcript, and mention the note
+			// so that it is sent to the agent as context
+			if (!session.sessionId) return;
+			agent.setMessagesFromLocal(chat.messages);
+			await sessionHistory.saveSessionLocally(
+				session.sessionId,
+				chat.title,
+			);
+			setInputValue(
+				`Continue this conversation: @[[${chat.noteName}]]\n\n`,
+			);
+			new Notice(
+				"[Agent Client] Imported chat shown. The note is sent as context with your next message.",
+			);
+		})();
+	}, [
+		pendingImport,
+		isSessionReady,
+		session.agentId,
+		session.sessionId,
+		restoreImportedChat,
+		variant,
+		handleNewChatWithPersist,
+		handleNewChat,
+		agent.setMessagesFromLocal,
+		sessionHistory.saveSessionLocally,
+	]);
+
+	/**
+	 * Render a template chosen in the slash dropdown into the input.
+	 */
+	const handleSelectPromptTemplate = useCallback(
+		(template: PromptTemplate) => {
+			void (async () => {
+				const prompt = await plugin.renderPromptTemplate(template);
+				if (prompt === null) return;
+				await handleApplySessionPreferences(template.preferences);
+				setInputValue(prompt);
+			})();
+		},
+		[plugin, handleApplySessionPreferences],
+	);
+
 	// Refs for cleanup (to access latest values in cleanup function)
 	const messagesRef = useRef(messages);
 	const sessionRef = useRef(session);
@@ -820,12 +1201,18 @@ export function ChatPanel({
 	const rejectActivePermissionRef = useRef(agent.rejectActivePermission);
 	const handleStopGenerationRef = useRef(handleStopGeneration);
 	const handleExportChatRef = useRef(handleExportChat);
+	const handleApplySessionPreferencesRef = useRef(
+		handleApplySessionPreferences,
+	);
+	const handleImportChatRef = useRef(handleImportChat);
 	handleNewChatWithPersistRef.current = handleNewChatWithPersist;
 	handleNewChatRef.current = handleNewChat;
 	approveActivePermissionRef.current = agent.approveActivePermission;
 	rejectActivePermissionRef.current = agent.rejectActivePermission;
 	handleStopGenerationRef.current = handleStopGeneration;
 	handleExportChatRef.current = handleExportChat;
+	handleApplySessionPreferencesRef.current = handleApplySessionPreferences;
+	handleImportChatRef.current = handleImportChat;
 
 	useEffect(() => {
 		const workspace = plugin.app.workspace;
@@ -900,10 +1287,36 @@ export function ChatPanel({
 			}),
 
 			// Export chat
-			ws.on("agent-client:export-chat", (targetViewId?: string) => {
-				if (targetViewId && targetViewId !== viewId) return;
-				void handleExportChatRef.current();
-			}),
+			ws.on(
+				"agent-client:export-chat",
+				(targetViewId?: string, format?: ChatExportFormat) => {
+					if (targetViewId && targetViewId !== viewId) return;
+					void handleExportChatRef.current(format);
+				},
+			),
+
+			// Apply prompt template preferences (agent, mode, model)
+			ws.on(
+				"agent-client:apply-session-preferences",
+				(
+					targetViewId?: string,
+					preferences?: PromptTemplatePreferences,
+				) => {
+					if (targetViewId && targetViewId !== viewId) return;
+					if (!preferences) return;
+					void handleApplySessionPreferencesRef.current(preferences);
+				},
+			),
+
+			// Show an imported chat (from the "Import chat" command)
+			ws.on(
+				"agent-client:import-chat",
+				(targetViewId?: string, chat?: ImportedChat) => {
+					if (targetViewId && targetViewId !== viewId) return;
+					if (!chat) return;
+					void handleImportChatRef.current(chat);
+				},
+			),
 		];
 
 		return () => {
@@ -1077,6 +1490,8 @@ export function ChatPanel({
 			terminalClient={terminalClientRef.current}
 			onApprovePermission={agent.approvePermission}
 			hasActivePermission={agent.hasActivePermission}
+			focusMessageId={focusMessageId}
+			onFocusMessageHandled={handleFocusMessageHandled}
 		/>
 	);
 
@@ -1095,6 +1510,7 @@ export function ChatPanel({
 			onSendMessage={handleSendMessageWithGeminiDismiss}
 			onStopGeneration={handleStopGeneration}
 			onRestoredMessageConsumed={handleRestoredMessageConsumed}
+			onSelectPromptTemplate={handleSelectPromptTemplate}
 			modes={session.modes}
 			onModeChange={(modeId) => void handleSetMode(modeId)}
 			models={session.models}
@@ -1105,6 +1521,7 @@ export function ChatPanel({
 			}
 			usage={session.usage}
 			supportsImages={session.promptCapabilities?.image ?? false}
+			supportsAudio={session.promptCapabilities?.audio ?? false}
 			agentId={session.agentId}
 			// Controlled component props (for broadcast commands)
 			inputValue={inputValue}
@@ -94,6 +94,7 @@ export class FloatingViewContainer implements IChatViewContainer {
 	mount(
 		initialExpanded: boolean,
 		initialPosition?: { x: number; y: number },
+		initialAgentId?: string,
 	): void {
 		this.root = createRoot(this.containerEl);
 		this.root.render(
@@ -102,6 +103,7 @@ export class FloatingViewContainer implements IChatViewContainer {
 				viewId={this.viewId}
 				initialExpanded={initialExpanded}
 				initialPosition={initialPosition}
+				initialAgentId={initialAgentId}
 				onRegisterCallbacks={(cbs) => {
 					this.callbacks = cbs;
 				}}
@@ -222,6 +224,8 @@ interface FloatingChatComponentProps {
 	viewId: string;
 	initialExpanded?: boolean;
 	initialPosition?: { x: number; y: number };
+	/** Agent for the first session (default agent if not set) */
+	initialAgentId?: string;
 	onRegisterCallbacks?: (callbacks: ChatPanelCallbacks) => void;
 	onRegisterExpanded?: (setExpanded: (expanded: boolean) => void) => void;
 	onExpandedChange?: (expanded: boolean) => void;
@@ -233,6 +237,7 @@ function FloatingChatComponent({
 	viewId,
 	initialExpanded = false,
 	initialPosition,
+	initialAgentId,
 	onRegisterCallbacks,
 	onRegisterExpanded,
 	onExpandedChange,
@@ -500,6 +505,7 @@ function FloatingChatComponent({
 				<ChatPanel
 					variant="floating"
 					viewId={viewId}
+					initialAgentId={initialAgentId}
 					onRegisterCallbacks={onRegisterCallbacks}
 					onMinimize={handleMinimizeWindow}
 					onClose={handleCloseWindow}
@@ -517,6 +523,7 @@ function FloatingChatComponent({
  * @param plugin - The plugin instance
  * @param instanceId - The instance ID (e.g., "0", "1", "2")
  * @param initialExpanded - Whether to start expanded
+ * @param initialAgentId - Agent for the first session (default agent if not set)
  * @returns The FloatingViewContainer instance
  */
 export function createFloatingChat(
@@ -524,8 +531,9 @@ export function createFloatingChat(
 	instanceId: string,
 	initialExpanded = false,
 	initialPosition?: { x: number; y: number },
+	initialAgentId?: string,
 ): FloatingViewContainer {
 	const container = new FloatingViewContainer(plugin, instanceId);
-	container.mount(initialExpanded, initialPosition);
+	container.mount(initialExpanded, initialPosition, initialAgentId);
 	return container;
 }
@@ -1,6 +1,12 @@
 import * as React from "react";
 const { useRef, useState, useEffect, useCallback, useMemo } = React;
-import { setIcon, Notice } from "obsidian";
+import {
+	arrayBufferToBase64,
+	FileSystemAdapter,
+	Notice,
+	setIcon,
+	TFile,
+} from "obsidian";
 
 import type AgentClientPlugin from "../plugin";
 import type { IChatViewHost } from "./view-host";
@@ -13,7 +19,11 @@ import type {
 	SessionConfigOption,
 } from "../types/session";
 import type { AttachedFile, ChatMessage } from "../types/chat";
-import type { UseSuggestionsReturn } from "../hooks/useSuggestions";
+import type {
+	CommandSuggestion,
+	UseSuggestionsReturn,
+} from "../hooks/useSuggestions";
+import type { PromptTemplate } from "../types/prompt-template";
 import { SuggestionPopup } from "./SuggestionPopup";
 import { ErrorBanner } from "./ErrorBanner";
 import { AttachmentStrip } from "./shared/AttachmentStrip";
@@ -46,6 +56,31 @@ const SUPPORTED_IMAGE_TYPES = [
 
 type SupportedImageType = (typeof SUPPORTED_IMAGE_TYPES)[number];
 
+// ============================================================================
+// Audio Constants
+// ============================================================================
+
+/** Maximum audio clip size in MB */
+const MAX_AUDIO_SIZE_MB = 10;
+
+/** Maximum audio clip size in bytes */
+const MAX_AUDIO_SIZE_BYTES = MAX_AUDIO_SIZE_MB * 1024 * 1024;
+
+/** Supported audio file extensions and their MIME types */
+const SUPPORTED_AUDIO_TYPES: Record<string, string> = {
+	m4a: "audio/mp4",
+	webm: "audio/webm",
+	wav: "audio/wav",
+};
+
+/**
+ * Get the audio MIME type for a file name, or null if it is not a supported audio file.
+ */
+function getAudioMimeType(fileName: string): string | null {
+	const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+	return SUPPORTED_AUDIO_TYPES[extension] ?? null;
+}
+
 /**
  * Props for InputArea component
  */
@@ -174,6 +209,93 @@ function useInputHistory(
 	return { handleHistoryKeyDown, resetHistory };
 }
 
+// ============================================================================
+// Voice Recorder Hook
+// ============================================================================
+
+/**
+ * Hook for recording a voice clip from the microphone with MediaRecorder.
+ * Calls onRecorded with the finished clip as a File when recording stops.
+ */
+function useVoiceRecorder(onRecorded: (file: File) => void): {
+	isRecording: boolean;
+	toggleRecording: () => void;
+} {
+	const [isRecording, setIsRecording] = useState(false);
+	const recorderRef = useRef<MediaRecorder | null>(null);
+	const onRecordedRef = useRef(onRecorded);
+	onRecordedRef.current = onRecorded;
+
+	const startRecording = useCallback(async () => {
+		let stream: MediaStream;
+		try {
+			stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+		} catch (error) {
+			getLogger().error("[InputArea] Microphone access failed:", error);
+			new Notice("[Agent Client] Could not access the microphone");
+			return;
+		}
+
+		const recorder = new MediaRecorder(
+			stream,
+			MediaRecorder.isTypeSupported("audio/webm")
+				? { mimeType: "audio/webm" }
+				: undefined,
+		);
+		const chunks: Blob[] = [];
+		const startedAt = new Date();
+
+		recorder.ondataavailable = (e) => {
+			if (e.data.size > 0) chunks.push(e.data);
+		};
+		recorder.onstop = () => {
+			stream.getTracks().forEach((track) => track.stop());
+			recorderRef.current = null;
+			setIsRecording(false);
+			if (chunks.length === 0) return;
+
+			// Drop codec parameters (e.g. "audio/webm;codecs=opus")
+			const mimeType = (recorder.mimeType || "audio/webm").split(";")[0];
+			const extension =
+				Object.keys(SUPPORTED_AUDIO_TYPES).find(
+					(ext) => SUPPORTED_AUDIO_TYPES[ext] === mimeType,
+				) ?? "webm";
+			const time = startedAt.toTimeString().slice(0, 8).replace(/:/g, "");
+			onRecordedRef.current(
+				new File(chunks, `Recording ${time}.${extension}`, {
+					type: mimeType,
+				}),
+			);
+		};
+
+		recorder.start();
+		recorderRef.current = recorder;
+		setIsRecording(true);
+	}, []);
+
+	const toggleRecording = useCallback(() => {
+		if (recorderRef.current) {
+			recorderRef.current.stop();
+		} else {
+			void startRecording();
+		}
+	}, [startRecording]);
+
+	// Release the microphone if the view closes mid-recording
+	useEffect(() => {
+		return () => {
+			const recorder = recorderRef.current;
+			if (recorder) {
+				recorder.onstop = null;
+				recorder.stop();
+				recorder.stream.getTracks().forEach((track) => track.stop());
+			}
+		};
+	}, []);
+
+	return { isRecording, toggleRecording };
+}
+
 // ============================================================================
 // InputArea Component
 // ============================================================================
@@ -208,6 +330,8 @@ export interface InputAreaProps {
 	onStopGeneration: () => Promise<void>;
 	/** Callback when restored message has been consumed */
 	onRestoredMessageConsumed: () => void;
+	/** Callback when a prompt template is chosen from the slash dropdown */
+	onSelectPromptTemplate: (template: PromptTemplate) => void;
 	/** Session mode state (available modes and current mode) */
 	modes?: SessionModeState;
 	/** Callback when mode is changed */
@@ -224,6 +348,8 @@ export interface InputAreaProps {
 	usage?: SessionUsage;
 	/** Whether the agent supports image attachments */
 	supportsImages?: boolean;
+	/** Whether the agent supports audio prompts (voice recording, audio files) */
+	supportsAudio?: boolean;
 	/** Current agent ID (used to clear images on agent switch) */
 	agentId: string;
 	// Controlled component props (for broadcast commands)
@@ -277,6 +403,7 @@ export function InputArea({
 	onSendMessage,
 	onStopGeneration,
 	onRestoredMessageConsumed,
+	onSelectPromptTemplate,
 	modes,
 	onModeChange,
 	models,
@@ -285,6 +412,7 @@ export function InputArea({
 	onConfigOptionChange,
 	usage,
 	supportsImages = false,
+	supportsAudio = false,
 	agentId,
 	// Controlled component props
 	inputValue,
@@ -415,6 +543,104 @@ export function InputArea({
 		[fileToBase64],
 	);
 
+	/**
+	 * Convert audio files to Base64 AttachedFile objects.
+	 * Returns the converted attachments without updating state.
+	 */
+	const convertAudioToAttachments = useCallback(
+		async (files: File[]): Promise<AttachedFile[]> => {
+			const result: AttachedFile[] = [];
+			for (const file of files) {
+				if (file.size > MAX_AUDIO_SIZE_BYTES) {
+					new Notice(
+						`[Agent Client] Audio too large (max ${MAX_AUDIO_SIZE_MB}MB)`,
+					);
+					continue;
+				}
+				try {
+					const base64 = await fileToBase64(file);
+					result.push({
+						id: crypto.randomUUID(),
+						kind: "audio",
+						data: base64,
+						mimeType:
+							getAudioMimeType(file.name) ??
+							file.type.split(";")[0],
+						name: file.name,
+						size: file.size,
+					});
+				} catch (error) {
+					console.error("Failed to convert audio:", error);
+					new Notice("[Agent Client] Failed to attach audio");
+				}
+			}
+			return result;
+		},
+		[fileToBase64],
+	);
+
+	/**
+	 * Convert audio notes dragged from the vault to attachments.
+	 * Embedded as Base64 if agent supports audio, otherwise sent as resource_link.
+	 */
+	const convertVaultAudioToAttachments = useCallback(
+		async (files: TFile[]): Promise<AttachedFile[]> => {
+			const adapter = plugin.app.vault.adapter;
+			const result: AttachedFile[] = [];
+			for (const file of files) {
+				const mimeType = getAudioMimeType(file.name) ?? "audio/webm";
+				if (!supportsAudio) {
+					if (adapter instanceof FileSystemAdapter) {
+						result.push({
+							id: crypto.randomUUID(),
+							kind: "file",
+							mimeType,
+							name: file.name,
+							path: adapter.getFullPath(file.path),
+							size: file.stat.size,
+						});
+					}
+					continue;
+				}
+				if (file.stat.size > MAX_AUDIO_SIZE_BYTES) {
+					new Notice(
+						`[Agent Client] Audio too large (max ${MAX_AUDIO_SIZE_MB}MB)`,
+					);
+					continue;
+				}
+				const data = await plugin.app.vault.readBinary(file);
+				result.push({
+					id: crypto.randomUUID(),
+					kind: "audio",
+					data: arrayBufferToBase64(data),
+					mimeType,
+					name: file.name,
+					size: file.stat.size,
+				});
+			}
+			return result;
+		},
+		[plugin, supportsAudio],
+	);
+
+	/**
+	 * Get audio files currently being dragged from the vault (file explorer).
+	 */
+	const getDraggedVaultAudioFiles = useCallback((): TFile[] => {
+		const draggable = plugin.app.dragManager?.draggable;
+		if (!draggable) return [];
+		const files =
+			draggable.type === "file" && draggable.file
+				? [draggable.file]
+				: draggable.type === "files"
+					? (draggable.files ?? [])
+					: [];
+		return files.filter(
+			(f): f is TFile =>
+				f instanceof TFile && getAudioMimeType(f.name) !== null,
+		);
+	}, [plugin]);
+
 	/**
 	 * Convert files to resource_link AttachedFile objects.
 	 * Returns the converted attachments without updating state.
@@ -520,26 +746,38 @@ export function InputArea({
 	/**
 	 * Handle drag over event to allow drop.
 	 */
-	const handleDragOver = useCallback((e: React.DragEvent) => {
-		if (e.dataTransfer?.types.includes("Files")) {
-			e.preventDefault();
-			e.dataTransfer.dropEffect = "copy";
-		}
-	}, []);
+	const handleDragOver = useCallback(
+		(e: React.DragEvent) => {
+			if (
+				e.dataTransfer?.types.includes("Files") ||
+				getDraggedVaultAudioFiles().length > 0
+			) {
+				e.preventDefault();
+				e.dataTransfer.dropEffect = "copy";
+			}
+		},
+		[getDraggedVaultAudioFiles],
+	);
 
 	/**
 	 * Handle drag enter event for visual feedback.
 	 * Uses counter to handle child element enter/leave correctly.
 	 */
-	const handleDragEnter = useCallback((e: React.DragEvent) => {
-		if (e.dataTransfer?.types.includes("Files")) {
-			e.preventDefault();
-			dragCounterRef.current++;
-			if (dragCounterRef.current === 1) {
-				setIsDraggingOver(true);
+	const handleDragEnter = useCallback(
+		(e: React.DragEvent) => {
+			if (
+				e.dataTransfer?.types.includes("Files") ||
+				getDraggedVaultAudioFiles().length > 0
+			) {
+				e.preventDefault();
+				dragCounterRef.current++;
+				if (dragCounterRef.current === 1) {
+					setIsDraggingOver(true);
+				}
 			}
-		}
-	}, []);
+		},
+		[getDraggedVaultAudioFiles],
+	);
 
 	/**
 	 * Handle drag leave event to reset visual feedback.
@@ -553,8 +791,9 @@ export function InputArea({
 
 	/**
 	 * Handle drop event for file attachments.
-	 * Images are embedded as Base64 if agent supports it, otherwise sent as resource_link.
-	 * Non-image files are always sent as resource_link.
+	 * Images and audio are embedded as Base64 if agent supports them, otherwise sent as resource_link.
+	 * Other files are always sent as resource_link.
+	 * Audio notes dragged from the file explorer are handled the same way.
 	 */
 	const handleDrop = useCallback(
 		async (e: React.DragEvent) => {
@@ -562,12 +801,21 @@ export function InputArea({
 			setIsDraggingOver(false);
 
 			const files = e.dataTransfer?.files;
-			if (!files || files.length === 0) return;
+			if (!files || files.length === 0) {
+				const vaultAudioFiles = getDraggedVaultAudioFiles();
+				if (vaultAudioFiles.length === 0) return;
+				e.preventDefault();
+				addAttachments(
+					await convertVaultAudioToAttachments(vaultAudioFiles),
+				);
+				return;
+			}
 
 			e.preventDefault();
 
 			const droppedFiles = Array.from(files);
 			const imageFiles: File[] = [];
+			const audioFiles: File[] = [];
 			const nonImageFiles: File[] = [];
 
 			for (const file of droppedFiles) {
@@ -577,6 +825,8 @@ export function InputArea({
 					)
 				) {
 					imageFiles.push(file);
+				} else if (getAudioMimeType(file.name)) {
+					audioFiles.push(file);
 				} else if (file.type || file.name) {
 					nonImageFiles.push(file);
 				}
@@ -597,6 +847,18 @@ export function InputArea({
 				}
 			}
 
+			if (audioFiles.length > 0) {
+				if (supportsAudio) {
+					newAttachments.push(
+						...(await convertAudioToAttachments(audioFiles)),
+					);
+				} else {
+					newAttachments.push(
+						...convertFilesToAttachments(audioFiles),
+					);
+				}
+			}
+
 			if (nonImageFiles.length > 0) {
 				newAttachments.push(
 					...convertFilesToAttachments(nonImageFiles),
@@ -607,12 +869,28 @@ export function InputArea({
 		},
 		[
 			supportsImages,
+			supportsAudio,
 			convertImagesToAttachments,
+			convertAudioToAttachments,
+			convertVaultAudioToAttachments,
 			convertFilesToAttachments,
+			getDraggedVaultAudioFiles,
 			addAttachments,
 		],
 	);
 
+	/**
+	 * Attach a finished voice recording.
+	 */
+	const handleRecorded = useCallback(
+		(file: File) => {
+			void convertAudioToAttachments([file]).then(addAttachments);
+		},
+		[convertAudioToAttachments, addAttachments],
+	);
+
+	const { isRecording, toggleRecording } = useVoiceRecorder(handleRecorded);
+
 	/**
 	 * Common logic for setting cursor position after text replacement.
 	 */
@@ -646,13 +924,24 @@ export function InputArea({
 	);
 
 	/**
-	 * Handle slash command selection from dropdown.
+	 * Handle slash command or prompt template selection from dropdown.
 	 */
 	const handleSelectSlashCommand = useCallback(
-		(command: SlashCommand) => {
-			const newText = slashCommands.selectSuggestion(inputValue, command);
+		(suggestion: CommandSuggestion) => {
+			const newText = slashCommands.selectSuggestion(
+				inputValue,
+				suggestion,
+			);
 			onInputChange(newText);
 
+			if (suggestion.type === "template") {
+				setHintText(null);
+				setCommandText("");
+				onSelectPromptTemplate(suggestion.template);
+				return;
+			}
+			const command = suggestion.command;
+
 			// Setup hint overlay if command has hint
 			if (command.hint) {
 				const cmdText = `/${command.name} `;
@@ -677,7 +966,7 @@ export function InputArea({
 				}
 			}, 0);
 		},
-		[slashCommands, inputValue, onInputChange],
+		[slashCommands, inputValue, onInputChange, onSelectPromptTemplate],
 	);
 
 	/**
@@ -1100,6 +1389,9 @@ export function InputArea({
 					onConfigOptionChange={onConfigOptionChange}
 					usage={usage}
 					isSessionReady={isSessionReady}
+					supportsAudio={supportsAudio}
+					isRecording={isRecording}
+					onToggleRecording={toggleRecording}
 				/>
 			</div>
 		</div>
@@ -109,6 +109,11 @@ export interface InputToolbarProps {
 	onConfigOptionChange?: (configId: string, value: string) => void;
 	usage?: SessionUsage;
 	isSessionReady: boolean;
+	/** Whether the agent accepts audio prompts (shows the microphone button) */
+	supportsAudio?: boolean;
+	/** Whether a voice clip is being recorded */
+	isRecording?: boolean;
+	onToggleRecording?: () => void;
 }
 
 export function InputToolbar({
@@ -124,6 +129,9 @@ export function InputToolbar({
 	onConfigOptionChange,
 	usage,
 	isSessionReady,
+	supportsAudio = false,
+	isRecording = false,
+	onToggleRecording,
 }: InputToolbarProps) {
 	// Refs
 	const sendButtonRef = useRef<HTMLButtonElement>(null);
@@ -352,6 +360,20 @@ export function InputToolbar({
 				</>
 			)}
 
+			{/* Voice Recording Button */}
+			{supportsAudio && onToggleRecording && (
+				<button
+					onClick={onToggleRecording}
+					disabled={isSending}
+					className={`clickable-icon agent-client-record-button ${isRecording ? "agent-client-recording" : ""}`}
+					title={isRecording ? "Stop recording" : "Record voice"}
+					type="button"
+					ref={(el) => {
+						if (el) setIcon(el, isRecording ? "square" : "mic");
+					}}
+				/>
+			)}
+
 			{/* Send/Stop Button */}
 			<button
 				ref={sendButtonRef}
@@ -1,13 +1,29 @@
 import * as React from "react";
 const { useState, useCallback } = React;
-import { setIcon } from "obsidian";
-import type { ChatMessage, MessageContent } from "../types/chat";
+import { FileSystemAdapter, Notice, Platform, setIcon } from "obsidian";
+import type {
+	AutoMentionContext,
+	ChatMessage,
+	MessageContent,
+} from "../types/chat";
 import type { AcpClient } from "../acp/acp-client";
 import type AgentClientPlugin from "../plugin";
 import { MarkdownRenderer } from "./shared/MarkdownRenderer";
 import { TerminalBlock } from "./TerminalBlock";
 import { ToolCallBlock } from "./ToolCallBlock";
 import { LucideIcon } from "./shared/IconButton";
+import { RevertTurnModal } from "./RevertTurnModal";
+import {
+	EDITOR_APPLY_ACTIONS,
+	applyToEditorWithNotice,
+} from "../services/editor-apply";
+import {
+	fileUriToPath,
+	isAbsolutePath,
+	isSafeLinkUri,
+	toRelativePath,
+} from "../utils/paths";
+import { convertWslPathToWindows } from "../utils/platform";
 
 // ---------------------------------------------------------------------------
 // TextWithMentions (internal helper)
@@ -145,6 +161,38 @@ function CollapsibleThought({ text, plugin }: CollapsibleThoughtProps) {
 	);
 }
 
+// ---------------------------------------------------------------------------
+// openResourceLink (internal helper)
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a resource link: vault files in Obsidian, other safe URIs externally.
+ * Links with any other scheme (e.g. `javascript:`) are not opened.
+ */
+function openResourceLink(plugin: AgentClientPlugin, uri: string): void {
+	let path = fileUriToPath(uri);
+	if (path === null) {
+		if (isSafeLinkUri(uri)) {
+			window.open(uri);
+		}
+		return;
+	}
+	if (Platform.isWin && plugin.settings.windowsWslMode) {
+		path = convertWslPathToWindows(path);
+	}
+
+	const adapter = plugin.app.vault.adapter;
+	if (adapter instanceof FileSystemAdapter) {
+		const relativePath = toRelativePath(
+			path.replace(/\\/g, "/"),
+			adapter.getBasePath().replace(/\\/g, "/"),
+		);
+		if (!isAbsolutePath(relativePath)) {
+			void plugin.app.workspace.openLinkText(relativePath, "");
+		}
+	}
+}
+
 // ---------------------------------------------------------------------------
 // ContentBlock (internal helper, formerly MessageContentRenderer)
 // ---------------------------------------------------------------------------
@@ -154,6 +202,8 @@ interface ContentBlockProps {
 	plugin: AgentClientPlugin;
 	messageRole?: "user" | "assistant";
 	terminalClient?: AcpClient;
+	/** Target of code block apply actions (assistant messages) */
+	applyTarget?: AutoMentionContext | null;
 	/** Callback to approve a permission request */
 	onApprovePermission?: (
 		requestId: string,
@@ -166,6 +216,7 @@ function ContentBlock({
 	plugin,
 	messageRole,
 	terminalClient,
+	applyTarget,
 	onApprovePermission,
 }: ContentBlockProps) {
 	switch (content.type) {
@@ -175,7 +226,13 @@ function ContentBlock({
 			if (messageRole === "user") {
 				return <TextWithMentions text={content.text} plugin={plugin} />;
 			}
-			return <MarkdownRenderer text={content.text} plugin={plugin} />;
+			return (
+				<MarkdownRenderer
+					text={content.text}
+					plugin={plugin}
+					applyTarget={applyTarget}
+				/>
+			);
 
 		case "text_with_context":
 			// User messages with auto-mention context
@@ -249,6 +306,18 @@ function ContentBlock({
 			);
 
 		case "image":
+			// Agent images (charts, screenshots) are shown at full width
+			if (messageRole === "assistant") {
+				return (
+					<div className="agent-client-message-image">
+						<img
+							src={`data:${content.mimeType};base64,${content.data}`}
+							alt="Agent image"
+							className="agent-client-message-image-full"
+						/>
+					</div>
+				);
+			}
 			return (
 				<div className="agent-client-message-image">
 					<img
@@ -259,9 +328,23 @@ function ContentBlock({
 				</div>
 			);
 
+		case "audio":
+			return (
+				<div className="agent-client-message-audio">
+					<audio
+						controls
+						src={`data:${content.mimeType};base64,${content.data}`}
+					/>
+				</div>
+			);
+
 		case "resource_link":
 			return (
-				<div className="agent-client-message-resource-link">
+				<div
+					className="agent-client-message-resource-link"
+					title={content.uri}
+					onClick={() => openResourceLink(plugin, content.uri)}
+				>
 					<span
 						className="agent-client-message-resource-link-icon"
 						ref={(el) => {
@@ -274,6 +357,19 @@ function ContentBlock({
 				</div>
 			);
 
+		case "resource":
+			// Embedded text (e.g. note context), collapsed by default
+			return (
+				<details className="agent-client-message-resource">
+					<summary title={content.uri}>
+						{content.uri.split(/[/\\]/).pop() || content.uri}
+					</summary>
+					<pre className="agent-client-message-resource-text">
+						{content.text}
+					</pre>
+				</details>
+			);
+
 		default:
 			return <span>Unsupported content type</span>;
 	}
@@ -287,6 +383,11 @@ export interface MessageBubbleProps {
 	message: ChatMessage;
 	plugin: AgentClientPlugin;
 	terminalClient?: AcpClient;
+	/**
+	 * Auto-mention context of the turn (assistant messages only).
+	 * Apply actions target this note; null falls back to the recent editor.
+	 */
+	applyTarget?: AutoMentionContext | null;
 	/** Callback to approve a permission request */
 	onApprovePermission?: (
 		requestId: string,
@@ -341,11 +442,113 @@ function CopyButton({ contents }: { contents: MessageContent[] }) {
 }
 
 /**
- * Group consecutive image/resource_link contents together for horizontal display.
+ * Buttons that apply the message text to the turn's note.
+ */
+function ApplyButtons({
+	contents,
+	target,
+	plugin,
+}: {
+	contents: MessageContent[];
+	target: AutoMentionContext | null;
+	plugin: AgentClientPlugin;
+}) {
+	return (
+		<>
+			{EDITOR_APPLY_ACTIONS.map((action) => (
+				<button
+					key={action.mode}
+					className="clickable-icon agent-client-message-action-button"
+					onClick={() =>
+						applyToEditorWithNotice(
+							plugin.app,
+							target,
+							extractTextContent(contents),
+							action.mode,
+						)
+					}
+					aria-label={action.label}
+					ref={(el) => {
+						if (el) setIcon(el, action.icon);
+					}}
+				/>
+			))}
+		</>
+	);
+}
+
+/**
+ * Button that restores the files changed during a turn, after confirmation.
+ */
+function RevertButton({
+	checkpointId,
+	plugin,
+	agentClient,
+}: {
+	checkpointId: string;
+	plugin: AgentClientPlugin;
+	agentClient: AcpClient;
+}) {
+	const [isReverting, setIsReverting] = useState(false);
+
+	const handleRevert = useCallback(() => {
+		void plugin.checkpointStore.load(checkpointId).then((checkpoint) => {
+			if (!checkpoint) {
+				new Notice(
+					"[Agent Client] The snapshot of this turn is no longer available",
+				);
+				return;
+			}
+			new RevertTurnModal(
+				plugin.app,
+				checkpoint.files.map((file) => file.path),
+				checkpoint.skipped ?? [],
+				async () => {
+					setIsReverting(true);
+					try {
+						const { restored, skipped } =
+							await agentClient.revertCheckpoint(checkpointId);
+						const notRestored =
+							skipped.length > 0
+								? `. Not snapshotted, so not restored: ${skipped.join(", ")}`
+								: "";
+						new Notice(
+							`[Agent Client] Reverted ${restored} file${restored === 1 ? "" : "s"}${notRestored}`,
+						);
+					} catch (error) {
+						new Notice(
+							`[Agent Client] Revert failed: ${error instanceof Error ? error.message : String(error)}`,
+						);
+					} finally {
+						setIsReverting(false);
+					}
+				},
+			).open();
+		});
+	}, [checkpointId, plugin, agentClient]);
+
+	const iconRef = useCallback((el: HTMLButtonElement | null) => {
+		if (el) setIcon(el, "undo-2");
+	}, []);
+
+	return (
+		<button
+			className="clickable-icon agent-client-message-action-button"
+			onClick={handleRevert}
+			disabled={isReverting}
+			aria-label="Revert this turn"
+			ref={iconRef}
+		/>
+	);
+}
+
+/**
+ * Group consecutive attachments (user images, resource links) for horizontal display.
  * Non-attachment contents are wrapped individually.
  */
 function groupContent(
 	contents: MessageContent[],
+	role: ChatMessage["role"],
 ): Array<
 	| { type: "attachments"; items: MessageContent[] }
 	| { type: "single"; item: MessageContent }
@@ -358,7 +561,11 @@ function groupContent(
 	let currentAttachmentGroup: MessageContent[] = [];
 
 	for (const content of contents) {
-		if (content.type === "image" || content.type === "resource_link") {
+		// Agent images are shown at full width, outside the strip
+		const isAttachment =
+			content.type === "resource_link" ||
+			(content.type === "image" && role === "user");
+		if (isAttachment) {
 			currentAttachmentGroup.push(content);
 		} else {
 			// Flush any pending attachment group
@@ -385,9 +592,17 @@ export const MessageBubble = React.memo(function MessageBubble({
 	message,
 	plugin,
 	terminalClient,
+	applyTarget,
 	onApprovePermission,
 }: MessageBubbleProps) {
-	const groups = groupContent(message.content);
+	const groups = groupContent(message.content, message.role);
+	const hasText = message.content.some(
+		(c) => (c.type === "text" || c.type === "text_with_context") && c.text,
+	);
+	const checkpointId =
+		message.role === "user" && terminalClient
+			? message.checkpointId
+			: undefined;
 
 	return (
 		<div
@@ -408,6 +623,7 @@ export const MessageBubble = React.memo(function MessageBubble({
 									plugin={plugin}
 									messageRole={message.role}
 									terminalClient={terminalClient}
+									applyTarget={applyTarget}
 									onApprovePermission={onApprovePermission}
 								/>
 							))}
@@ -422,19 +638,30 @@ export const MessageBubble = React.memo(function MessageBubble({
 								plugin={plugin}
 								messageRole={message.role}
 								terminalClient={terminalClient}
+								applyTarget={applyTarget}
 								onApprovePermission={onApprovePermission}
 							/>
 						</div>
 					);
 				}
 			})}
-			{message.content.some(
-				(c) =>
-					(c.type === "text" || c.type === "text_with_context") &&
-					c.text,
-			) && (
+			{(hasText || checkpointId) && (
 				<div className="agent-client-message-actions">
-					<CopyButton contents={message.content} />
+					{checkpointId && terminalClient && (
+						<RevertButton
+							checkpointId={checkpointId}
+							plugin={plugin}
+							agentClient={terminalClient}
+						/>
+					)}
+					{hasText && applyTarget !== undefined && (
+						<ApplyButtons
+							contents={message.content}
+							target={applyTarget}
+							plugin={plugin}
+						/>
+					)}
+					{hasText && <CopyButton contents={message.content} />}
 				</div>
 			)}
 		</div>
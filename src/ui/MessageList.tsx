@@ -1,5 +1,5 @@
 import * as React from "react";
-const { useRef, useState, useEffect, useCallback } = React;
+const { useRef, useState, useEffect, useCallback, useMemo } = React;
 
 import type { ChatMessage } from "../types/chat";
 import type { AcpClient } from "../acp/acp-client";
@@ -7,6 +7,7 @@ import type AgentClientPlugin from "../plugin";
 import type { IChatViewHost } from "./view-host";
 import { setIcon } from "obsidian";
 import { MessageBubble } from "./MessageBubble";
+import { findTurnContexts } from "../services/message-state";
 import { useVirtualizer } from "@tanstack/react-virtual";
 
 /**
@@ -36,6 +37,10 @@ export interface MessageListProps {
 	) => Promise<void>;
 	/** Whether a permission request is currently pending */
 	hasActivePermission: boolean;
+	/** Message to scroll to and highlight (e.g. a search result) */
+	focusMessageId?: string | null;
+	/** Called once the focused message has been scrolled to */
+	onFocusMessageHandled?: () => void;
 }
 
 /**
@@ -47,6 +52,7 @@ export interface MessageListProps {
  * Handles:
  * - Virtualized message list rendering
  * - Auto-scroll behavior (follows new content when at bottom)
+ * - Scrolling to a focused message
  * - Empty state display
  * - Loading indicator
  */
@@ -61,12 +67,20 @@ export function MessageList({
 	terminalClient,
 	onApprovePermission,
 	hasActivePermission,
+	focusMessageId,
+	onFocusMessageHandled,
 }: MessageListProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const [isAtBottom, setIsAtBottom] = useState(true);
+	const [highlightedMessageId, setHighlightedMessageId] = useState<
+		string | null
+	>(null);
 	const isAtBottomRef = useRef(true);
 	const prevIsSendingRef = useRef(false);
 
+	// Note each assistant message's apply actions target
+	const turnContexts = useMemo(() => findTurnContexts(messages), [messages]);
+
 	// ============================================================
 	// Virtualizer
 	// ============================================================
@@ -150,6 +164,31 @@ export function MessageList({
 		}
 	}, [messages, virtualizer]);
 
+	// Scroll to the focused message once it is in the list. Runs after the
+	// auto-scroll effect, so its frame callback wins.
+	useEffect(() => {
+		if (!focusMessageId) return;
+		const index = messages.findIndex((m) => m.id === focusMessageId);
+		if (index === -1) return;
+
+		onFocusMessageHandled?.();
+		isAtBottomRef.current = false;
+		setHighlightedMessageId(focusMessageId);
+		window.requestAnimationFrame(() => {
+			virtualizer.scrollToIndex(index, { align: "center" });
+		});
+	}, [focusMessageId, messages, virtualizer, onFocusMessageHandled]);
+
+	// Fade the highlight after a moment
+	useEffect(() => {
+		if (!highlightedMessageId) return;
+		const timer = window.setTimeout(
+			() => setHighlightedMessageId(null),
+			2000,
+		);
+		return () => window.clearTimeout(timer);
+	}, [highlightedMessageId]);
+
 	// Set up scroll event listener for isAtBottom detection
 	useEffect(() => {
 		const container = containerRef.current;
@@ -203,7 +242,7 @@ export function MessageList({
 							key={message.id}
 							ref={virtualizer.measureElement}
 							data-index={virtualItem.index}
-							className="agent-client-virtual-item"
+							className={`agent-client-virtual-item${message.id === highlightedMessageId ? " agent-client-message-focused" : ""}`}
 							style={{
 								position: "absolute",
 								top: 0,
@@ -216,6 +255,7 @@ export function MessageList({
 								message={message}
 								plugin={plugin}
 								terminalClient={terminalClient}
+								applyTarget={turnContexts[virtualItem.index]}
 								onApprovePermission={onApprovePermission}
 							/>
 						</div>
@@ -0,0 +1,133 @@
+/**
+ * Modal for queueing a background task.
+ *
+ * Asks for the prompt, the agent and where the result goes (nowhere,
+ * a target note, or a chat export).
+ * Calls onSubmit with the task input when user clicks Queue.
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { BackgroundTaskInput, BackgroundTaskOutput } from "../types/task";
+import type { AgentDisplayInfo } from "../services/session-helpers";
+
+export class NewTaskModal extends Modal {
+	private agents: AgentDisplayInfo[];
+	private input: BackgroundTaskInput;
+	private onSubmit: (input: BackgroundTaskInput) => void;
+
+	constructor(
+		app: App,
+		agents: AgentDisplayInfo[],
+		defaultAgentId: string,
+		onSubmit: (input: BackgroundTaskInput) => void,
+		initialPrompt = "",
+	) {
+		super(app);
+		this.agents = agents;
+		this.onSubmit = onSubmit;
+		this.input = {
+			prompt: initialPrompt,
+			agentId: defaultAgentId,
+			output: "none",
+			notePath: "",
+		};
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass("agent-client-new-task-modal");
+
+		contentEl.createEl("h2", { text: "New background task" });
+
+		const promptEl = contentEl.createEl("textarea", {
+			cls: "agent-client-new-task-prompt",
+			placeholder: "What should the agent do?",
+		});
+		promptEl.rows = 6;
+		promptEl.value = this.input.prompt;
+		promptEl.addEventListener("input", () => {
+			this.input.prompt = promptEl.value;
+		});
+		window.setTimeout(() => {
+			promptEl.focus();
+		}, 10);
+
+		new Setting(contentEl).setName("Agent").addDropdown((dropdown) => {
+			for (const agent of this.agents) {
+				dropdown.addOption(agent.id, agent.displayName);
+			}
+			dropdown.setValue(this.input.agentId ?? "").onChange((value) => {
+				this.input.agentId = value;
+			});
+		});
+
+		let noteSetting: Setting | null = null;
+		new Setting(contentEl)
+			.setName("Result")
+			.setDesc("Where the agent's response goes when the task finishes.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("none", "Keep in the task panel")
+					.addOption("note", "Append to a note")
+					.addOption("export", "Export as chat")
+					.setValue(this.input.output)
+					.onChange((value) => {
+						this.input.output = value as BackgroundTaskOutput;
+						noteSetting?.settingEl.toggle(value === "note");
+					}),
+			);
+
+		noteSetting = new Setting(contentEl)
+			.setName("Target note")
+			.setDesc("Vault path. The note is created if it does not exist.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Inbox/Agent results.md")
+					.setValue(this.input.notePath ?? "")
+					.onChange((value) => {
+						this.input.notePath = value;
+					}),
+			);
+		noteSetting.settingEl.toggle(false);
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({
+			cls: "agent-client-new-task-buttons",
+		});
+
+		buttonContainer
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => {
+				this.close();
+			});
+
+		buttonContainer
+			.createEl("button", {
+				text: "Queue",
+				cls: "mod-cta",
+			})
+			.addEventListener("click", () => {
+				this.submit();
+			});
+	}
+
+	private submit() {
+		const prompt = this.input.prompt.trim();
+		if (!prompt) return;
+
+		let notePath = this.input.notePath?.trim() ?? "";
+		if (this.input.output === "note") {
+			if (!notePath) return;
+			if (!notePath.endsWith(".md")) notePath += ".md";
+		}
+
+		this.close();
+		this.onSubmit({ ...this.input, prompt, notePath });
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,5 +1,8 @@
+import * as React from "react";
+const { useState } = React;
 import { getLogger } from "../utils/logger";
 import type { PermissionOption } from "../types/chat";
+import type { PermissionRuleScope } from "../types/permission";
 
 interface PermissionBannerProps {
 	permissionRequest: {
@@ -15,19 +18,60 @@ interface PermissionBannerProps {
 		optionId: string,
 	) => Promise<void>;
 	onOptionSelected?: (optionId: string) => void;
+	/** Summary of the rule offered after an "always allow" option is chosen */
+	ruleDescription?: string;
+	/** Callback to save the offered rule (offer is hidden when omitted) */
+	onSaveRule?: (scope: PermissionRuleScope) => void;
 }
 
 export function PermissionBanner({
 	permissionRequest,
 	onApprovePermission,
 	onOptionSelected,
+	ruleDescription,
+	onSaveRule,
 }: PermissionBannerProps) {
 	const logger = getLogger();
+	// Option clicked in this banner (restored history never shows the offer)
+	const [clickedOptionId, setClickedOptionId] = useState<string>();
+	const [isOfferClosed, setIsOfferClosed] = useState(false);
 
 	const isSelected = permissionRequest.selectedOptionId !== undefined;
 	const isCancelled = permissionRequest.isCancelled === true;
 	const isActive = permissionRequest.isActive !== false;
 
+	const selectedOption = permissionRequest.options.find(
+		(option) => option.optionId === clickedOptionId,
+	);
+	if (
+		selectedOption?.kind === "allow_always" &&
+		onSaveRule &&
+		!isOfferClosed
+	) {
+		const save = (scope: PermissionRuleScope) => {
+			onSaveRule(scope);
+			setIsOfferClosed(true);
+		};
+		return (
+			<div className="agent-client-permission-rule-offer">
+				<span className="agent-client-permission-rule-offer-text">
+					Save a rule to allow {ruleDescription || "this tool"}?
+				</span>
+				<div className="agent-client-permission-rule-offer-actions">
+					<button onClick={() => save("session")}>
+						This session
+					</button>
+					<button className="mod-cta" onClick={() => save("always")}>
+						Always
+					</button>
+					<button onClick={() => setIsOfferClosed(true)}>
+						Dismiss
+					</button>
+				</div>
+			</div>
+		);
+	}
+
 	if (!isActive || isSelected || isCancelled) return null;
 
 	return (
@@ -37,6 +81,7 @@ export function PermissionBanner({
 					key={option.optionId}
 					className={`agent-client-permission-option ${option.kind ? `agent-client-permission-kind-${option.kind}` : ""}`}
 					onClick={() => {
+						setClickedOptionId(option.optionId);
 						if (onOptionSelected) {
 							onOptionSelected(option.optionId);
 						}
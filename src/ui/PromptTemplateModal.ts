@@ -0,0 +1,40 @@
+/**
+ * Fuzzy picker for prompt templates.
+ *
+ * Lists the templates of the template folder by name and description.
+ * Calls onChoose callback with the chosen template.
+ */
+
+import { App, FuzzySuggestModal } from "obsidian";
+import type { PromptTemplate } from "../types/prompt-template";
+
+export class PromptTemplateModal extends FuzzySuggestModal<PromptTemplate> {
+	private templates: PromptTemplate[];
+	private onChoose: (template: PromptTemplate) => void;
+
+	constructor(
+		app: App,
+		templates: PromptTemplate[],
+		onChoose: (template: PromptTemplate) => void,
+	) {
+		super(app);
+		this.templates = templates;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a prompt template...");
+		this.emptyStateText = "No prompt templates in the template folder.";
+	}
+
+	getItems(): PromptTemplate[] {
+		return this.templates;
+	}
+
+	getItemText(template: PromptTemplate): string {
+		return template.description
+			? `${template.name} - ${template.description}`
+			: template.name;
+	}
+
+	onChooseItem(template: PromptTemplate): void {
+		this.onChoose(template);
+	}
+}
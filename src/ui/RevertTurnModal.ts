@@ -0,0 +1,90 @@
+/**
+ * Confirmation modal for reverting the file changes of a turn.
+ *
+ * Lists the files that will be restored to their state before the turn,
+ * and the files that could not be snapshotted.
+ * Calls onConfirm callback only when user clicks Revert.
+ */
+
+import { Modal, App } from "obsidian";
+
+export class RevertTurnModal extends Modal {
+	private paths: string[];
+	private skippedPaths: string[];
+	private onConfirm: () => void | Promise<void>;
+
+	constructor(
+		app: App,
+		paths: string[],
+		skippedPaths: string[],
+		onConfirm: () => void | Promise<void>,
+	) {
+		super(app);
+		this.paths = paths;
+		this.skippedPaths = skippedPaths;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Revert this turn?" });
+
+		contentEl.createEl("p", {
+			text: "These files will be restored to their state before this turn. Files created during the turn will be deleted.",
+			cls: "agent-client-revert-turn-description",
+		});
+
+		const list = contentEl.createEl("ul", {
+			cls: "agent-client-revert-turn-files",
+		});
+		for (const path of this.paths) {
+			list.createEl("li", { text: path });
+		}
+
+		if (this.skippedPaths.length > 0) {
+			contentEl.createEl("p", {
+				text: "These files could not be snapshotted (too large, not text, or unreadable) and will not be restored:",
+				cls: "agent-client-revert-turn-description",
+			});
+			const skippedList = contentEl.createEl("ul", {
+				cls: "agent-client-revert-turn-files",
+			});
+			for (const path of this.skippedPaths) {
+				skippedList.createEl("li", { text: path });
+			}
+		}
+
+		contentEl.createEl("p", {
+			text: "Changes made to these files after the turn are lost.",
+			cls: "agent-client-revert-turn-warning",
+		});
+
+		// Buttons container
+		const buttonContainer = contentEl.createDiv({
+			cls: "agent-client-revert-turn-buttons",
+		});
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.addEventListener("click", () => {
+			this.close();
+		});
+
+		const revertButton = buttonContainer.createEl("button", {
+			text: "Revert",
+			cls: "mod-warning",
+		});
+		revertButton.addEventListener("click", () => {
+			this.close();
+			void this.onConfirm();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * Confirmation modal for removing saved sessions over the limit.
+ *
+ * States how many sessions the retention policy will remove.
+ * Calls onConfirm callback only when user clicks Remove.
+ */
+
+import { Modal, App } from "obsidian";
+
+export class SessionCleanupModal extends Modal {
+	private count: number;
+	private onConfirm: () => void | Promise<void>;
+
+	constructor(
+		app: App,
+		count: number,
+		onConfirm: () => void | Promise<void>,
+	) {
+		super(app);
+		this.count = count;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		const sessions =
+			this.count === 1 ? "1 session" : `${this.count} sessions`;
+
+		contentEl.createEl("h2", { text: `Remove ${sessions}?` });
+
+		contentEl.createEl("p", {
+			text: `${sessions} over the maximum will be removed from the plugin, together with their saved messages. Pinned sessions are kept.`,
+			cls: "agent-client-session-cleanup-description",
+		});
+
+		contentEl.createEl("p", {
+			text: "This cannot be undone. The session data remains on the agent side.",
+			cls: "agent-client-session-cleanup-warning",
+		});
+
+		// Buttons container
+		const buttonContainer = contentEl.createDiv({
+			cls: "agent-client-session-cleanup-buttons",
+		});
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.addEventListener("click", () => {
+			this.close();
+		});
+
+		const removeButton = buttonContainer.createEl("button", {
+			text: "Remove",
+			cls: "mod-warning",
+		});
+		removeButton.addEventListener("click", () => {
+			this.close();
+			void this.onConfirm();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,15 +1,26 @@
 /**
  * Session History Modal
  *
- * Contains the Obsidian Modal wrapper, the React content component,
- * and the confirmation modal for session deletion.
+ * Contains the Obsidian Modal wrapper, the React content component
+ * (session list with pinning, tags, grouping and bulk actions, and
+ * message search), and the modals for deletion, titles and tags.
  */
 
 import { Modal, App, setIcon } from "obsidian";
 import * as React from "react";
-const { useState, useCallback } = React;
+const { useState, useCallback, useEffect } = React;
 import { createRoot, Root } from "react-dom/client";
-import type { SessionInfo } from "../types/session";
+import type { SessionInfo, SessionMetadataUpdate } from "../types/session";
+import type { SessionSearchResult } from "../types/search";
+
+/** Delay after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 200;
+
+const SEARCH_FIELD_LABELS: Record<SessionSearchResult["field"], string> = {
+	text: "",
+	tool: "Tool call",
+	location: "File",
+};
 
 // ============================================================
 // ConfirmDeleteModal (internal)
@@ -18,33 +29,40 @@ import type { SessionInfo } from "../types/session";
 /**
  * Confirmation modal for session deletion.
  *
- * Displays session title and asks user to confirm deletion.
+ * Displays the session title (or the number of sessions) and asks user
+ * to confirm deletion.
  * Calls onConfirm callback only when user clicks Delete button.
  */
 class ConfirmDeleteModal extends Modal {
-	private sessionTitle: string;
+	private sessionTitles: string[];
 	private onConfirm: () => void | Promise<void>;
 
 	constructor(
 		app: App,
-		sessionTitle: string,
+		sessionTitles: string[],
 		onConfirm: () => void | Promise<void>,
 	) {
 		super(app);
-		this.sessionTitle = sessionTitle;
+		this.sessionTitles = sessionTitles;
 		this.onConfirm = onConfirm;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
 		contentEl.empty();
+		const count = this.sessionTitles.length;
 
 		// Title
-		contentEl.createEl("h2", { text: "Delete session?" });
+		contentEl.createEl("h2", {
+			text: count === 1 ? "Delete session?" : `Delete ${count} sessions?`,
+		});
 
 		// Message
 		contentEl.createEl("p", {
-			text: `Are you sure you want to delete "${this.sessionTitle}"?`,
+			text:
+				count === 1
+					? `Are you sure you want to delete "${this.sessionTitles[0]}"?`
+					: `Are you sure you want to delete ${count} sessions?`,
 			cls: "agent-client-confirm-delete-message",
 		});
 
@@ -169,6 +187,100 @@ class EditTitleModal extends Modal {
 	}
 }
 
+// ============================================================
+// EditTagsModal (internal)
+// ============================================================
+
+/**
+ * Modal for editing session tags (or adding tags to several sessions).
+ *
+ * Tags are entered separated by commas or spaces; a leading '#' is removed.
+ * Calls onSave callback with the parsed tags when user clicks Save.
+ */
+class EditTagsModal extends Modal {
+	private heading: string;
+	private currentTags: string[];
+	private onSave: (tags: string[]) => void | Promise<void>;
+
+	constructor(
+		app: App,
+		heading: string,
+		currentTags: string[],
+		onSave: (tags: string[]) => void | Promise<void>,
+	) {
+		super(app);
+		this.heading = heading;
+		this.currentTags = currentTags;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: this.heading });
+
+		const inputEl = contentEl.createEl("input", {
+			type: "text",
+			cls: "agent-client-edit-title-input",
+			attr: { placeholder: "Tags, separated by commas" },
+		});
+		inputEl.value = this.currentTags.join(", ");
+
+		window.setTimeout(() => {
+			inputEl.focus();
+			inputEl.select();
+		}, 10);
+
+		inputEl.addEventListener("keydown", (e) => {
+			if (e.key === "Enter") {
+				e.preventDefault();
+				this.saveAndClose(inputEl.value);
+			}
+		});
+
+		const buttonContainer = contentEl.createDiv({
+			cls: "agent-client-edit-title-buttons",
+		});
+
+		buttonContainer
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => {
+				this.close();
+			});
+
+		buttonContainer
+			.createEl("button", {
+				text: "Save",
+				cls: "mod-cta",
+			})
+			.addEventListener("click", () => {
+				this.saveAndClose(inputEl.value);
+			});
+	}
+
+	private saveAndClose(rawValue: string) {
+		this.close();
+		void this.onSave(parseTags(rawValue));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Parse tags separated by commas or whitespace (without '#', deduplicated).
+ */
+function parseTags(value: string): string[] {
+	const tags = value
+		.split(/[\s,]+/)
+		.map((tag) => tag.replace(/^#+/, ""))
+		.filter(Boolean);
+	return [...new Set(tags)];
+}
+
 // ============================================================
 // SessionHistoryContent (internal)
 // ============================================================
@@ -216,12 +328,24 @@ interface SessionHistoryContentProps {
 	onForkSession: (sessionId: string, cwd: string) => Promise<void>;
 	/** Callback when a session is deleted */
 	onDeleteSession: (sessionId: string) => void | Promise<void>;
+	/** Callback when several sessions are deleted (bulk action) */
+	onDeleteSessions: (sessionIds: string[]) => void | Promise<void>;
+	/** Callback to pin, tag or archive sessions */
+	onUpdateSessions: (
+		updates: SessionMetadataUpdate[],
+	) => void | Promise<void>;
+	/** Callback to export sessions as notes (from locally saved messages) */
+	onExportSessions: (sessions: SessionInfo[]) => void | Promise<void>;
 	/** Callback when a session title is edited */
 	onEditTitle: (
 		sessionId: string,
 		newTitle: string,
 		sessionCwd: string,
 	) => void | Promise<void>;
+	/** Callback to search messages of saved sessions and exported chats */
+	onSearch: (query: string) => Promise<SessionSearchResult[]>;
+	/** Callback when a search result is chosen */
+	onOpenSearchResult: (result: SessionSearchResult) => void;
 	/** Callback to load more sessions (pagination) */
 	onLoadMore: () => void;
 	/** Callback to fetch sessions with filter */
@@ -387,23 +511,33 @@ function DebugForm({
  */
 function SessionItem({
 	session,
+	selected,
 	canRestore,
 	canFork,
 	currentCwd,
+	onToggleSelected,
 	onRestoreSession,
 	onForkSession,
 	onDeleteSession,
 	onEditTitle,
+	onTogglePinned,
+	onEditTags,
+	onSelectTag,
 	onClose,
 }: {
 	session: SessionInfo;
+	selected: boolean;
 	canRestore: boolean;
 	canFork: boolean;
 	currentCwd: string;
+	onToggleSelected: (sessionId: string) => void;
 	onRestoreSession: (sessionId: string, cwd: string) => Promise<void>;
 	onForkSession: (sessionId: string, cwd: string) => Promise<void>;
 	onDeleteSession: (sessionId: string) => void | Promise<void>;
 	onEditTitle: (sessionId: string) => void;
+	onTogglePinned: (session: SessionInfo) => void;
+	onEditTags: (session: SessionInfo) => void;
+	onSelectTag: (tag: string) => void;
 	onClose: () => void;
 }) {
 	const handleRestore = useCallback(() => {
@@ -425,7 +559,16 @@ function SessionItem({
 	}, [session.sessionId, onEditTitle]);
 
 	return (
-		<div className="agent-client-session-history-item">
+		<div
+			className={`agent-client-session-history-item${selected ? " agent-client-session-history-item-selected" : ""}`}
+		>
+			<input
+				type="checkbox"
+				className="agent-client-session-history-item-checkbox"
+				aria-label="Select session"
+				checked={selected}
+				onChange={() => onToggleSelected(session.sessionId)}
+			/>
 			<div className="agent-client-session-history-item-content">
 				<div className="agent-client-session-history-item-title">
 					<span>
@@ -438,6 +581,20 @@ function SessionItem({
 							{formatRelativeTime(new Date(session.updatedAt))}
 						</span>
 					)}
+					{session.archived && (
+						<span className="agent-client-session-history-item-timestamp">
+							Archived
+						</span>
+					)}
+					{session.tags?.map((tag) => (
+						<span
+							key={tag}
+							className="agent-client-session-history-tag"
+							onClick={() => onSelectTag(tag)}
+						>
+							#{tag}
+						</span>
+					))}
 					{session.cwd !== currentCwd && (
 						<span
 							className="agent-client-session-history-item-cwd"
@@ -450,6 +607,18 @@ function SessionItem({
 			</div>
 
 			<div className="agent-client-session-history-item-actions">
+				<IconButton
+					iconName={session.pinned ? "pin-off" : "pin"}
+					label={session.pinned ? "Unpin session" : "Pin session"}
+					className={`agent-client-session-history-action-icon agent-client-session-history-pin-icon${session.pinned ? " is-active" : ""}`}
+					onClick={() => onTogglePinned(session)}
+				/>
+				<IconButton
+					iconName="tag"
+					label="Edit tags"
+					className="agent-client-session-history-action-icon agent-client-session-history-edit-icon"
+					onClick={() => onEditTags(session)}
+				/>
 				<IconButton
 					iconName="pencil"
 					label="Edit session title"
@@ -483,6 +652,227 @@ function SessionItem({
 	);
 }
 
+/**
+ * Bulk actions for the selected sessions.
+ */
+function BulkActions({
+	selectedCount,
+	visibleCount,
+	allPinned,
+	allArchived,
+	onToggleAll,
+	onPin,
+	onTag,
+	onArchive,
+	onExport,
+	onDelete,
+}: {
+	selectedCount: number;
+	visibleCount: number;
+	allPinned: boolean;
+	allArchived: boolean;
+	onToggleAll: () => void;
+	onPin: () => void;
+	onTag: () => void;
+	onArchive: () => void;
+	onExport: () => void;
+	onDelete: () => void;
+}) {
+	const noneSelected = selectedCount === 0;
+
+	return (
+		<div className="agent-client-session-history-bulk-actions">
+			<label className="agent-client-session-history-filter-label">
+				<input
+					type="checkbox"
+					checked={visibleCount > 0 && selectedCount === visibleCount}
+					onChange={onToggleAll}
+				/>
+				<span>
+					{noneSelected ? "Select all" : `${selectedCount} selected`}
+				</span>
+			</label>
+			<button disabled={noneSelected} onClick={onPin}>
+				{allPinned ? "Unpin" : "Pin"}
+			</button>
+			<button disabled={noneSelected} onClick={onTag}>
+				Add tags
+			</button>
+			<button disabled={noneSelected} onClick={onArchive}>
+				{allArchived ? "Unarchive" : "Archive"}
+			</button>
+			<button disabled={noneSelected} onClick={onExport}>
+				Export
+			</button>
+			<button
+				className="mod-warning"
+				disabled={noneSelected}
+				onClick={onDelete}
+			>
+				Delete
+			</button>
+		</div>
+	);
+}
+
+/**
+ * Group sessions by working directory (keeping the list order).
+ */
+function groupByCwd(
+	sessions: SessionInfo[],
+): Array<{ cwd: string; sessions: SessionInfo[] }> {
+	const groups = new Map<string, SessionInfo[]>();
+	for (const session of sessions) {
+		const group = groups.get(session.cwd) ?? [];
+		group.push(session);
+		groups.set(session.cwd, group);
+	}
+	return [...groups].map(([cwd, grouped]) => ({ cwd, sessions: grouped }));
+}
+
+/**
+ * Last segment of a path (the project folder name).
+ */
+function getFolderName(path: string): string {
+	return path.split(/[\\/]/).filter(Boolean).pop() ?? path;
+}
+
+/**
+ * Search result list for a query (searches after typing pauses).
+ */
+function SessionSearchResults({
+	query,
+	onSearch,
+	onOpenSearchResult,
+	onClose,
+}: {
+	query: string;
+	onSearch: (query: string) => Promise<SessionSearchResult[]>;
+	onOpenSearchResult: (result: SessionSearchResult) => void;
+	onClose: () => void;
+}) {
+	const [results, setResults] = useState<SessionSearchResult[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		const timer = window.setTimeout(() => {
+			onSearch(query)
+				.then((found) => {
+					if (cancelled) return;
+					setResults(found);
+					setError(null);
+				})
+				.catch((e: unknown) => {
+					if (cancelled) return;
+					setError(e instanceof Error ? e.message : String(e));
+				});
+		}, SEARCH_DEBOUNCE_MS);
+		return () => {
+			cancelled = true;
+			window.clearTimeout(timer);
+		};
+	}, [query, onSearch]);
+
+	if (error) {
+		return (
+			<div className="agent-client-session-history-error">
+				<p className="agent-client-session-history-error-text">
+					{error}
+				</p>
+			</div>
+		);
+	}
+
+	if (results === null) {
+		return (
+			<div className="agent-client-session-history-loading">
+				<p>Searching...</p>
+			</div>
+		);
+	}
+
+	if (results.length === 0) {
+		return (
+			<div className="agent-client-session-history-empty">
+				<p className="agent-client-session-history-empty-text">
+					No matching messages
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="agent-client-session-history-list">
+			{results.map((result, i) => (
+				<SearchResultItem
+					key={`${result.source}-${result.path ?? result.sessionId}-${result.messageId ?? result.line}-${i}`}
+					result={result}
+					onClick={() => {
+						onClose();
+						onOpenSearchResult(result);
+					}}
+				/>
+			))}
+		</div>
+	);
+}
+
+/**
+ * A single search result with the matches highlighted.
+ */
+function SearchResultItem({
+	result,
+	onClick,
+}: {
+	result: SessionSearchResult;
+	onClick: () => void;
+}) {
+	const parts: React.ReactNode[] = [];
+	let position = 0;
+	result.highlights.forEach(([start, end], i) => {
+		parts.push(result.snippet.slice(position, start));
+		parts.push(
+			<mark key={i} className="agent-client-session-search-highlight">
+				{result.snippet.slice(start, end)}
+			</mark>,
+		);
+		position = end;
+	});
+	parts.push(result.snippet.slice(position));
+
+	return (
+		<div
+			className="agent-client-session-history-item agent-client-session-search-result"
+			onClick={onClick}
+		>
+			<div className="agent-client-session-history-item-content">
+				<div className="agent-client-session-history-item-title">
+					<span>{truncateTitle(result.title)}</span>
+				</div>
+				<div className="agent-client-session-search-snippet">
+					{parts}
+				</div>
+				<div className="agent-client-session-history-item-metadata">
+					<span className="agent-client-session-history-item-timestamp">
+						{[
+							result.source === "export" ? "Exported chat" : "",
+							result.agentName ?? "",
+							result.role === "user" ? "You" : "Agent",
+							SEARCH_FIELD_LABELS[result.field],
+							result.timestamp
+								? formatRelativeTime(new Date(result.timestamp))
+								: "",
+						]
+							.filter(Boolean)
+							.join(" · ")}
+					</span>
+				</div>
+			</div>
+		</div>
+	);
+}
+
 /**
  * Session history content component.
  *
@@ -490,8 +880,11 @@ function SessionItem({
  * - Debug form (when debug mode enabled)
  * - Local sessions banner
  * - Filter toggle (for agent session/list)
- * - Session list with load/resume/fork actions
+ * - Archive, tag and grouping filters
+ * - Session list with load/resume/fork/pin/tag actions (pinned first)
+ * - Bulk actions for selected sessions
  * - Pagination
+ * - Message search (replaces the list while a query is entered)
  */
 function SessionHistoryContent({
 	app,
@@ -510,13 +903,23 @@ function SessionHistoryContent({
 	onRestoreSession,
 	onForkSession,
 	onDeleteSession,
+	onDeleteSessions,
+	onUpdateSessions,
+	onExportSessions,
 	onEditTitle,
+	onSearch,
+	onOpenSearchResult,
 	onLoadMore,
 	onFetchSessions,
 	onClose,
 }: SessionHistoryContentProps) {
+	const [query, setQuery] = useState("");
 	const [filterByCurrentVault, setFilterByCurrentVault] = useState(true);
 	const [hideNonLocalSessions, setHideNonLocalSessions] = useState(false);
+	const [showArchived, setShowArchived] = useState(false);
+	const [groupByFolder, setGroupByFolder] = useState(false);
+	const [tagFilter, setTagFilter] = useState<string | null>(null);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
 	const handleFilterChange = useCallback(
 		(e: React.ChangeEvent<HTMLInputElement>) => {
@@ -543,7 +946,7 @@ function SessionHistoryContent({
 
 			const confirmModal = new ConfirmDeleteModal(
 				app,
-				sessionTitle,
+				[sessionTitle],
 				() => {
 					void onDeleteSession(sessionId);
 				},
@@ -570,6 +973,42 @@ function SessionHistoryContent({
 		[app, sessions, currentCwd, onEditTitle],
 	);
 
+	const handleTogglePinned = useCallback(
+		(session: SessionInfo) => {
+			void onUpdateSessions([
+				{ session, metadata: { pinned: !session.pinned } },
+			]);
+		},
+		[onUpdateSessions],
+	);
+
+	const handleEditTags = useCallback(
+		(session: SessionInfo) => {
+			const modal = new EditTagsModal(
+				app,
+				"Edit session tags",
+				session.tags ?? [],
+				(tags) => {
+					void onUpdateSessions([{ session, metadata: { tags } }]);
+				},
+			);
+			modal.open();
+		},
+		[app, onUpdateSessions],
+	);
+
+	const handleToggleSelected = useCallback((sessionId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(sessionId)) {
+				next.delete(sessionId);
+			} else {
+				next.add(sessionId);
+			}
+			return next;
+		});
+	}, []);
+
 	// Filter sessions based on hideNonLocalSessions setting
 	// Only applies to agent session/list (not local sessions which are already filtered)
 	const filteredSessions = React.useMemo(() => {
@@ -579,12 +1018,150 @@ function SessionHistoryContent({
 		return sessions.filter((s) => localSessionIds.has(s.sessionId));
 	}, [sessions, isUsingLocalSessions, hideNonLocalSessions, localSessionIds]);
 
+	// Archive and tag filters, pinned sessions first
+	const visibleSessions = React.useMemo(() => {
+		const visible = filteredSessions.filter(
+			(s) =>
+				(showArchived || !s.archived) &&
+				(!tagFilter || s.tags?.includes(tagFilter)),
+		);
+		return [
+			...visible.filter((s) => s.pinned),
+			...visible.filter((s) => !s.pinned),
+		];
+	}, [filteredSessions, showArchived, tagFilter]);
+
+	const allTags = React.useMemo(
+		() =>
+			[...new Set(sessions.flatMap((s) => s.tags ?? []))].sort((a, b) =>
+				a.localeCompare(b),
+			),
+		[sessions],
+	);
+
+	// Selection is limited to visible sessions
+	const selectedSessions = React.useMemo(
+		() => visibleSessions.filter((s) => selectedIds.has(s.sessionId)),
+		[visibleSessions, selectedIds],
+	);
+
+	const handleToggleAll = useCallback(() => {
+		setSelectedIds(
+			selectedSessions.length === visibleSessions.length
+				? new Set()
+				: new Set(visibleSessions.map((s) => s.sessionId)),
+		);
+	}, [selectedSessions, visibleSessions]);
+
+	const allPinned = selectedSessions.every((s) => s.pinned);
+	const allArchived = selectedSessions.every((s) => s.archived);
+
+	const handleBulkPin = useCallback(() => {
+		void onUpdateSessions(
+			selectedSessions.map((session) => ({
+				session,
+				metadata: { pinned: !allPinned },
+			})),
+		);
+	}, [selectedSessions, allPinned, onUpdateSessions]);
+
+	const handleBulkArchive = useCallback(() => {
+		void onUpdateSessions(
+			selectedSessions.map((session) => ({
+				session,
+				metadata: { archived: !allArchived },
+			})),
+		);
+		setSelectedIds(new Set());
+	}, [selectedSessions, allArchived, onUpdateSessions]);
+
+	const handleBulkTag = useCallback(() => {
+		const modal = new EditTagsModal(app, "Add tags", [], (tags) => {
+			if (tags.length === 0) return;
+			void onUpdateSessions(
+				selectedSessions.map((session) => ({
+					session,
+					metadata: {
+						tags: [...new Set([...(session.tags ?? []), ...tags])],
+					},
+				})),
+			);
+		});
+		modal.open();
+	}, [app, selectedSessions, onUpdateSessions]);
+
+	const handleBulkExport = useCallback(() => {
+		void onExportSessions(selectedSessions);
+	}, [selectedSessions, onExportSessions]);
+
+	const handleBulkDelete = useCallback(() => {
+		const targets = selectedSessions;
+		const confirmModal = new ConfirmDeleteModal(
+			app,
+			targets.map((s) => s.title ?? "Untitled Session"),
+			() => {
+				setSelectedIds(new Set());
+				void onDeleteSessions(targets.map((s) => s.sessionId));
+			},
+		);
+		confirmModal.open();
+	}, [app, selectedSessions, onDeleteSessions]);
+
+	const renderSessionItem = (session: SessionInfo) => (
+		<SessionItem
+			key={session.sessionId}
+			session={session}
+			selected={selectedIds.has(session.sessionId)}
+			canRestore={canRestore}
+			canFork={canFork}
+			currentCwd={groupByFolder ? session.cwd : currentCwd}
+			onToggleSelected={handleToggleSelected}
+			onRestoreSession={onRestoreSession}
+			onForkSession={onForkSession}
+			onDeleteSession={handleDeleteWithConfirmation}
+			onEditTitle={handleEditWithModal}
+			onTogglePinned={handleTogglePinned}
+			onEditTags={handleEditTags}
+			onSelectTag={setTagFilter}
+			onClose={onClose}
+		/>
+	);
+
+	// Search works without the agent (saved messages only)
+	const searchBox = (
+		<div className="agent-client-session-search">
+			<input
+				type="search"
+				placeholder="Search messages, tool calls and files..."
+				value={query}
+				onChange={(e) => setQuery(e.target.value)}
+			/>
+		</div>
+	);
+
+	if (query.trim()) {
+		return (
+			<>
+				{searchBox}
+				<SessionSearchResults
+					query={query}
+					onSearch={onSearch}
+					onOpenSearchResult={onOpenSearchResult}
+					onClose={onClose}
+				/>
+			</>
+		);
+	}
+
 	// Show preparing message if agent is not ready
 	if (!isAgentReady) {
 		return (
-			<div className="agent-client-session-history-loading">
-				<p>Preparing agent...</p>
-			</div>
+			<>
+				{searchBox}
+				<div className="agent-client-session-history-loading">
+					<p>Preparing agent...</p>
+				</div>
+			</>
 		);
 	}
 
@@ -599,6 +1176,8 @@ function SessionHistoryContent({
 
 	return (
 		<>
+			{searchBox}
+
 			{/* Debug form */}
 			{debugMode && (
 				<DebugForm
@@ -664,6 +1243,57 @@ function SessionHistoryContent({
 						</div>
 					)}
 
+					{/* Archive, grouping and tag filters */}
+					<div className="agent-client-session-history-filter">
+						{(!canList || isUsingLocalSessions) && (
+							<label className="agent-client-session-history-filter-label">
+								<input
+									type="checkbox"
+									checked={filterByCurrentVault}
+									onChange={handleFilterChange}
+								/>
+								<span>Show current vault only</span>
+							</label>
+						)}
+						<label className="agent-client-session-history-filter-label">
+							<input
+								type="checkbox"
+								checked={showArchived}
+								onChange={(e) =>
+									setShowArchived(e.target.checked)
+								}
+							/>
+							<span>Show archived sessions</span>
+						</label>
+						<label className="agent-client-session-history-filter-label">
+							<input
+								type="checkbox"
+								checked={groupByFolder}
+								onChange={(e) =>
+									setGroupByFolder(e.target.checked)
+								}
+							/>
+							<span>Group by working directory</span>
+						</label>
+						{allTags.length > 0 && (
+							<div className="agent-client-session-history-tags">
+								{allTags.map((tag) => (
+									<span
+										key={tag}
+										className={`agent-client-session-history-tag${tag === tagFilter ? " is-active" : ""}`}
+										onClick={() =>
+											setTagFilter(
+												tag === tagFilter ? null : tag,
+											)
+										}
+									>
+										#{tag}
+									</span>
+								))}
+							</div>
+						)}
+					</div>
+
 					{/* Error state */}
 					{error && (
 						<div className="agent-client-session-history-error">
@@ -687,36 +1317,62 @@ function SessionHistoryContent({
 					)}
 
 					{/* Empty state */}
-					{!error && !loading && filteredSessions.length === 0 && (
+					{!error && !loading && visibleSessions.length === 0 && (
 						<div className="agent-client-session-history-empty">
 							<p className="agent-client-session-history-empty-text">
-								No previous sessions
+								{filteredSessions.length === 0
+									? "No previous sessions"
+									: "No matching sessions"}
 							</p>
 						</div>
 					)}
 
+					{/* Bulk actions */}
+					{!error && visibleSessions.length > 0 && (
+						<BulkActions
+							selectedCount={selectedSessions.length}
+							visibleCount={visibleSessions.length}
+							allPinned={allPinned}
+							allArchived={allArchived}
+							onToggleAll={handleToggleAll}
+							onPin={handleBulkPin}
+							onTag={handleBulkTag}
+							onArchive={handleBulkArchive}
+							onExport={handleBulkExport}
+							onDelete={handleBulkDelete}
+						/>
+					)}
+
 					{/* Session list */}
-					{!error && filteredSessions.length > 0 && (
+					{!error && visibleSessions.length > 0 && !groupByFolder && (
 						<div className="agent-client-session-history-list">
-							{filteredSessions.map((session) => (
-								<SessionItem
-									key={session.sessionId}
-									session={session}
-									canRestore={canRestore}
-									canFork={canFork}
-									currentCwd={currentCwd}
-									onRestoreSession={onRestoreSession}
-									onForkSession={onForkSession}
-									onDeleteSession={
-										handleDeleteWithConfirmation
-									}
-									onEditTitle={handleEditWithModal}
-									onClose={onClose}
-								/>
-							))}
+							{visibleSessions.map(renderSessionItem)}
 						</div>
 					)}
 
+					{/* Session list grouped by working directory */}
+					{!error &&
+						groupByFolder &&
+						groupByCwd(visibleSessions).map((group) => (
+							<div
+								key={group.cwd}
+								className="agent-client-session-history-group"
+							>
+								<div
+									className="agent-client-session-history-group-header"
+									title={group.cwd}
+								>
+									{getFolderName(group.cwd)}
+									<span className="agent-client-session-history-item-timestamp">
+										{group.sessions.length}
+									</span>
+								</div>
+								<div className="agent-client-session-history-list">
+									{group.sessions.map(renderSessionItem)}
+								</div>
+							</div>
+						))}
+
 					{/* Load more button */}
 					{!error && hasMore && (
 						<div className="agent-client-session-history-load-more">
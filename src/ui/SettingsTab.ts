@@ -3,6 +3,7 @@ import {
 	PluginSettingTab,
 	Setting,
 	DropdownComponent,
+	Notice,
 	Platform,
 } from "obsidian";
 import type AgentClientPlugin from "../plugin";
@@ -10,7 +11,22 @@ import type {
 	CustomAgentSettings,
 	AgentEnvVar,
 	ChatViewLocation,
+	FileWriteMode,
+	SessionRetentionPolicy,
+	TerminalCwdRestriction,
 } from "../plugin";
+import type { McpServerSettings, McpServerTransport } from "../types/agent";
+import type { PermissionRule, PermissionRuleAction } from "../types/permission";
+import type { ApiPermissionPolicy } from "../types/api";
+import type { Automation, AutomationTrigger } from "../types/automation";
+import type { BackgroundTaskOutput } from "../types/task";
+import type {
+	ChatExportFormat,
+	ExportFrontmatterField,
+	PlanExportStyle,
+	ThoughtExportStyle,
+	ToolCallExportStyle,
+} from "../types/chat-export";
 import { resolveCommandPath, resolveCommandPathInWsl } from "../utils/paths";
 import {
 	normalizeEnvVars,
@@ -18,6 +34,26 @@ import {
 	CHAT_FONT_SIZE_MIN,
 	parseChatFontSize,
 } from "../services/settings-normalizer";
+import {
+	DEFAULT_MARKDOWN_EXPORT_TEMPLATE,
+	EXPORT_FRONTMATTER_FIELDS,
+} from "../services/chat-exporter";
+import { selectSessionsToRemove } from "../services/session-storage";
+import { AuditLogModal } from "./AuditLogModal";
+import { AutomationRunsModal } from "./AutomationRunsModal";
+import { SessionCleanupModal } from "./SessionCleanupModal";
+import {
+	PERMISSION_RULE_KINDS,
+	createPermissionRule,
+	describePermissionRule,
+} from "../services/permission-rules";
+import {
+	createAutomation,
+	describeAutomation,
+	isValidTime,
+} from "../services/automations";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 export class AgentClientSettingTab extends PluginSettingTab {
 	plugin: AgentClientPlugin;
@@ -176,6 +212,133 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Show actions in menus")
+			.setDesc(
+				"Add the context actions (explain, rewrite, summarize and more) to the editor and file explorer menus. The commands are always available.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(
+						this.plugin.settings.contextActionSettings.showInMenus,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.contextActionSettings.showInMenus =
+							value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Send actions immediately")
+			.setDesc(
+				"Send the prompt of an action right away. When off, the prompt is only put into the chat input. Ask actions never send.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(
+						this.plugin.settings.contextActionSettings
+							.sendImmediately,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.contextActionSettings.sendImmediately =
+							value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Prompt Templates
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Prompt templates").setHeading();
+
+		new Setting(containerEl)
+			.setName("Template folder")
+			.setDesc(
+				"Folder of prompt template notes. Templates appear in the / dropdown and as commands. Leave empty to turn templates off.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Agent Client/Templates")
+					.setValue(this.plugin.settings.promptTemplateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.promptTemplateFolder = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshPromptTemplateCommands();
+					}),
+			);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Background Tasks
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Background tasks").setHeading();
+
+		new Setting(containerEl)
+			.setName("Concurrent tasks")
+			.setDesc(
+				"How many background tasks run at once. Each running task starts its own agent process.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("2")
+					.setValue(
+						String(
+							this.plugin.settings.backgroundTaskSettings
+								.concurrency,
+						),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.backgroundTaskSettings.concurrency =
+								num;
+							await this.plugin.saveSettings();
+							this.plugin.taskQueue.startNext();
+						}
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Unanswered permission requests")
+			.setDesc(
+				"Background tasks have no one to ask. Requests that no permission rule (or auto-allow) decides are answered with this.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("reject", "Reject")
+					.addOption("allow", "Allow")
+					.setValue(
+						this.plugin.settings.backgroundTaskSettings
+							.permissionPolicy,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.backgroundTaskSettings.permissionPolicy =
+							value as ApiPermissionPolicy;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Automations
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Automations").setHeading();
+
+		new Setting(containerEl)
+			.setName("Run history")
+			.setDesc(
+				"Automations run prompts as background tasks on a schedule or when notes change. Each run is recorded with its status and error.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Open").onClick(() => {
+					new AutomationRunsModal(this.app, this.plugin).open();
+				}),
+			);
+
+		this.renderAutomations(containerEl);
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Display
 		// ─────────────────────────────────────────────────────────────────────
@@ -414,7 +577,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Auto-allow permissions")
 			.setDesc(
-				"Automatically allow all permission requests from agents. ⚠️ Use with caution - this gives agents full access to your system.",
+				"Automatically allow permission requests that no rule below matches. ⚠️ Use with caution - this gives agents full access to your system.",
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -425,6 +588,239 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Send prompts from links")
+			.setDesc(
+				"Let links that open a chat send their prompt right away when they ask to. When off, the prompt is only put into the chat input. Any web page or app can open these links, so only turn this on if you need it.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.allowUriSend)
+					.onChange(async (value) => {
+						this.plugin.settings.allowUriSend = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Permission rules")
+			.setDesc(
+				"Rules are checked from top to bottom and the first match decides. Empty conditions match anything. Choosing an always-allow option in chat offers to add a rule here.",
+			);
+
+		this.renderPermissionRules(containerEl);
+
+		new Setting(containerEl)
+			.setName("File writes")
+			.setDesc(
+				"How agents may write files through the plugin. Writes go through the vault so other plugins and sync see them. Restart the agent after changing this.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("disabled", "Disabled")
+					.addOption("review", "Review diff before applying")
+					.addOption("auto", "Apply automatically")
+					.setValue(this.plugin.settings.fileWriteSettings.mode)
+					.onChange(async (value) => {
+						this.plugin.settings.fileWriteSettings.mode =
+							value as FileWriteMode;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Restrict file writes to working directory")
+			.setDesc(
+				"Reject file writes to paths outside the session's working directory.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(
+						this.plugin.settings.fileWriteSettings
+							.restrictToWorkingDirectory,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.fileWriteSettings.restrictToWorkingDirectory =
+							value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Audit log")
+			.setDesc(
+				"Record every permission decision and the final status of each tool call in audit-log.jsonl inside the plugin folder.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Open").onClick(() => {
+					new AuditLogModal(this.app, this.plugin).open();
+				}),
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableAuditLog)
+					.onChange(async (value) => {
+						this.plugin.settings.enableAuditLog = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Terminals
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Terminals").setHeading();
+
+		// Pseudo-terminals are only available on macOS/Linux
+		if (!Platform.isWin) {
+			new Setting(containerEl)
+				.setName("Run commands in a pseudo-terminal")
+				.setDesc(
+					"Run agent terminal commands through `script`, so they print colors and interactive prompts as in a terminal. The agent also receives the escape sequences and echoed input.",
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.terminalSettings.usePty)
+						.onChange(async (value) => {
+							this.plugin.settings.terminalSettings.usePty =
+								value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Denied commands")
+			.setDesc(
+				"Commands that never run, one pattern per line. Patterns match the whole command with its arguments, case-insensitive, with * for any text. Each command of a chain (;, &&, ||, |) is checked on its own.",
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("rm -rf *\ngit push*")
+					.setValue(
+						this.formatArgs(
+							this.plugin.settings.terminalSettings
+								.deniedCommands,
+						),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.terminalSettings.deniedCommands =
+							this.parseArgs(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName("Allowed commands")
+			.setDesc(
+				"If not empty, only commands matching one of these patterns run, one per line.",
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("git *\nnpm test*")
+					.setValue(
+						this.formatArgs(
+							this.plugin.settings.terminalSettings
+								.allowedCommands,
+						),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.terminalSettings.allowedCommands =
+							this.parseArgs(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName("Command working directory")
+			.setDesc("Where agent terminal commands may run.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("any", "Anywhere")
+					.addOption("vault", "Inside the vault")
+					.addOption(
+						"working-directory",
+						"Inside the session's working directory",
+					)
+					.setValue(
+						this.plugin.settings.terminalSettings.cwdRestriction,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.terminalSettings.cwdRestriction =
+							value as TerminalCwdRestriction;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Removed environment variables")
+			.setDesc(
+				"Environment variables removed before running agent terminal commands, one name pattern per line, with * for any text. Applies to variables the agent passes as well.",
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("*_API_KEY\n*_TOKEN\nAWS_SECRET_ACCESS_KEY")
+					.setValue(
+						this.formatArgs(
+							this.plugin.settings.terminalSettings
+								.scrubbedEnvVars,
+						),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.terminalSettings.scrubbedEnvVars =
+							this.parseArgs(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName("Command timeout")
+			.setDesc(
+				"Seconds before an agent terminal command is stopped. 0 for no limit.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(
+						String(
+							this.plugin.settings.terminalSettings
+								.timeoutSeconds,
+						),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.terminalSettings.timeoutSeconds =
+								num;
+							await this.plugin.saveSettings();
+						}
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Output limit")
+			.setDesc(
+				"Maximum bytes of command output sent to the agent (the last part is kept). The agent's own limit applies if smaller; 0 uses only the agent's limit. The terminal view keeps up to 1 MB either way.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(
+						String(
+							this.plugin.settings.terminalSettings
+								.maxOutputBytes,
+						),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.terminalSettings.maxOutputBytes =
+								num;
+							await this.plugin.saveSettings();
+						}
+					}),
+			);
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Notifications
 		// ─────────────────────────────────────────────────────────────────────
@@ -506,21 +902,144 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		this.renderCustomAgents(containerEl);
 
 		// ─────────────────────────────────────────────────────────────────────
-		// Export
+		// MCP Servers
 		// ─────────────────────────────────────────────────────────────────────
 
-		new Setting(containerEl).setName("Export").setHeading();
+		new Setting(containerEl).setName("MCP servers").setHeading();
+
+		containerEl.createEl("p", {
+			text: "Servers passed to every agent when a session is created, loaded, resumed or forked. HTTP and SSE servers are skipped for agents that do not support them. Restart the agent after changing this.",
+			cls: "setting-item-description",
+		});
 
 		new Setting(containerEl)
-			.setName("Export folder")
-			.setDesc("Folder where chat exports will be saved")
-			.addText((text) =>
-				text
-					.setPlaceholder("Agent Client")
-					.setValue(this.plugin.settings.exportSettings.defaultFolder)
+			.setName("Built-in vault server")
+			.setDesc(
+				"Let agents search notes, follow backlinks and read tags and frontmatter through a local server hosted by the plugin. Desktop only.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableVaultMcpServer)
 					.onChange(async (value) => {
-						this.plugin.settings.exportSettings.defaultFolder =
-							value;
+						this.plugin.settings.enableVaultMcpServer = value;
+						this.plugin.setVaultMcpServerEnabled(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.renderMcpServers(containerEl, this.plugin.settings.mcpServers);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Session history
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Session history").setHeading();
+
+		new Setting(containerEl)
+			.setName("Maximum saved sessions")
+			.setDesc(
+				"How many sessions the plugin keeps (with their messages). Applied when a new chat is saved; pinned sessions are not counted and never removed. Set to 0 for no limit.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("50")
+					.setValue(
+						String(
+							this.plugin.settings.sessionHistorySettings
+								.maxSavedSessions,
+						),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.sessionHistorySettings.maxSavedSessions =
+								num;
+							await this.plugin.saveSettings();
+						}
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Retention policy")
+			.setDesc(
+				"Which sessions are removed first when there are more than the maximum.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("oldest", "Least recently updated")
+					.addOption("archived-first", "Archived sessions first")
+					.setValue(
+						this.plugin.settings.sessionHistorySettings
+							.retentionPolicy,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.sessionHistorySettings.retentionPolicy =
+							value as SessionRetentionPolicy;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Remove sessions over the maximum")
+			.setDesc(
+				"Apply the maximum and the retention policy to the sessions saved now. Asks for confirmation first.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Clean up now").onClick(() => {
+					const count = selectSessionsToRemove(
+						this.plugin.settings.savedSessions,
+						this.plugin.settings.sessionHistorySettings,
+					).length;
+					if (count === 0) {
+						new Notice(
+							"[Agent Client] No sessions are over the maximum",
+						);
+						return;
+					}
+					new SessionCleanupModal(this.app, count, async () => {
+						await this.plugin.settingsService.applySessionRetention();
+						new Notice(
+							`[Agent Client] Removed ${count} session${count === 1 ? "" : "s"}`,
+						);
+					}).open();
+				}),
+			);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Export
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Export").setHeading();
+
+		new Setting(containerEl)
+			.setName("Export format")
+			.setDesc(
+				"Format of exports from the export button, auto-export and session history. Only Markdown exports can be searched and imported.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("markdown", "Markdown note")
+					.addOption("json", "JSON (all message data)")
+					.addOption("html", "HTML page")
+					.addOption("canvas", "Canvas")
+					.setValue(this.plugin.settings.exportSettings.format)
+					.onChange(async (value) => {
+						this.plugin.settings.exportSettings.format =
+							value as ChatExportFormat;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Export folder")
+			.setDesc("Folder where chat exports will be saved")
+			.addText((text) =>
+				text
+					.setPlaceholder("Agent Client")
+					.setValue(this.plugin.settings.exportSettings.defaultFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.exportSettings.defaultFolder =
+							value;
 						await this.plugin.saveSettings();
 					}),
 			);
@@ -675,6 +1194,140 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		// ─────────────────────────────────────────────────────────────────────
+		// Markdown export template
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl)
+			.setName("Markdown export template")
+			.setDesc(
+				"Layout of markdown exports. Headings can use {agent}, {role}, {date} and {time}. Session search and chat import only read the default headings and callouts.",
+			)
+			.setHeading()
+			.addButton((button) =>
+				button.setButtonText("Reset").onClick(async () => {
+					this.plugin.settings.exportSettings.markdownTemplate = {
+						...DEFAULT_MARKDOWN_EXPORT_TEMPLATE,
+						frontmatterFields: [],
+					};
+					await this.plugin.saveSettings();
+					this.display();
+				}),
+			);
+
+		const template = this.plugin.settings.exportSettings.markdownTemplate;
+
+		new Setting(containerEl)
+			.setName("Title")
+			.setDesc("Heading at the top of the note. Leave empty for none.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_MARKDOWN_EXPORT_TEMPLATE.title)
+					.setValue(template.title)
+					.onChange(async (value) => {
+						template.title = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Message heading")
+			.setDesc("Heading of each message")
+			.addText((text) =>
+				text
+					.setPlaceholder(
+						DEFAULT_MARKDOWN_EXPORT_TEMPLATE.messageHeading,
+					)
+					.setValue(template.messageHeading)
+					.onChange(async (value) => {
+						template.messageHeading =
+							value.trim() ||
+							DEFAULT_MARKDOWN_EXPORT_TEMPLATE.messageHeading;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Message separator")
+			.setDesc("Line written after each message. Leave empty for none.")
+			.addText((text) =>
+				text
+					.setPlaceholder(
+						DEFAULT_MARKDOWN_EXPORT_TEMPLATE.messageSeparator,
+					)
+					.setValue(template.messageSeparator)
+					.onChange(async (value) => {
+						template.messageSeparator = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName("Thoughts").addDropdown((dropdown) =>
+			dropdown
+				.addOption("callout", "Folded callout")
+				.addOption("quote", "Blockquote")
+				.addOption("omit", "Leave out")
+				.setValue(template.thoughts)
+				.onChange(async (value) => {
+					template.thoughts = value as ThoughtExportStyle;
+					await this.plugin.saveSettings();
+				}),
+		);
+
+		new Setting(containerEl).setName("Tool calls").addDropdown((dropdown) =>
+			dropdown
+				.addOption("section", "Heading with details")
+				.addOption("callout", "Folded callout with details")
+				.addOption("compact", "One line")
+				.addOption("omit", "Leave out")
+				.setValue(template.toolCalls)
+				.onChange(async (value) => {
+					template.toolCalls = value as ToolCallExportStyle;
+					await this.plugin.saveSettings();
+				}),
+		);
+
+		new Setting(containerEl).setName("Plans").addDropdown((dropdown) =>
+			dropdown
+				.addOption("callout", "Callout")
+				.addOption("tasks", "Task list")
+				.addOption("omit", "Leave out")
+				.setValue(template.plans)
+				.onChange(async (value) => {
+					template.plans = value as PlanExportStyle;
+					await this.plugin.saveSettings();
+				}),
+		);
+
+		const frontmatterFieldNames: Record<ExportFrontmatterField, string> = {
+			model: "Model",
+			mode: "Mode",
+			cwd: "Working directory",
+			usage: "Context usage (tokens used and window size)",
+			cost: "Cost",
+			touchedFiles: "Files read or changed by tool calls",
+		};
+		for (const field of EXPORT_FRONTMATTER_FIELDS) {
+			new Setting(containerEl)
+				.setName(`Frontmatter: ${frontmatterFieldNames[field]}`)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(template.frontmatterFields.includes(field))
+						.onChange(async (value) => {
+							// Keep the order of EXPORT_FRONTMATTER_FIELDS
+							template.frontmatterFields =
+								EXPORT_FRONTMATTER_FIELDS.filter((f) =>
+									f === field
+										? value
+										: template.frontmatterFields.includes(
+												f,
+											),
+								);
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Developer
 		// ─────────────────────────────────────────────────────────────────────
@@ -874,6 +1527,8 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentMcpServers(sectionEl, gemini.mcpServers);
 	}
 
 	private renderClaudeSettings(sectionEl: HTMLElement) {
@@ -951,6 +1606,8 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentMcpServers(sectionEl, claude.mcpServers);
 	}
 
 	private renderCodexSettings(sectionEl: HTMLElement) {
@@ -1027,6 +1684,8 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentMcpServers(sectionEl, codex.mcpServers);
 	}
 
 	private renderCustomAgents(containerEl: HTMLElement) {
@@ -1054,6 +1713,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 						command: "",
 						args: [],
 						env: [],
+						mcpServers: [],
 					});
 					this.plugin.ensureDefaultAgentId();
 					await this.plugin.saveSettings();
@@ -1173,6 +1833,579 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentMcpServers(blockEl, agent.mcpServers);
+	}
+
+	/**
+	 * Renders the agent-specific MCP server list inside an agent block.
+	 */
+	private renderAgentMcpServers(
+		containerEl: HTMLElement,
+		servers: McpServerSettings[],
+	) {
+		new Setting(containerEl)
+			.setName("MCP servers")
+			.setDesc(
+				"Servers passed only to this agent, in addition to the global MCP servers. A server with the same name replaces the global one.",
+			);
+		this.renderMcpServers(containerEl, servers);
+	}
+
+	private renderPermissionRules(containerEl: HTMLElement) {
+		const rules = this.plugin.settings.permissionRules;
+		rules.forEach((rule, index) => {
+			this.renderPermissionRule(containerEl, rules, rule, index);
+		});
+
+		new Setting(containerEl).addButton((button) => {
+			button.setButtonText("Add rule").onClick(async () => {
+				rules.push(createPermissionRule({ action: "ask" }));
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+	}
+
+	private renderPermissionRule(
+		containerEl: HTMLElement,
+		rules: PermissionRule[],
+		rule: PermissionRule,
+		index: number,
+	) {
+		const blockEl = containerEl.createDiv({
+			cls: "agent-client-permission-rule",
+		});
+
+		const move = async (offset: number) => {
+			const target = index + offset;
+			if (target < 0 || target >= rules.length) return;
+			[rules[index], rules[target]] = [rules[target], rules[index]];
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		new Setting(blockEl)
+			.setName(`Rule ${index + 1}`)
+			.setDesc(describePermissionRule(rule))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("allow", "Always allow")
+					.addOption("reject", "Always reject")
+					.addOption("ask", "Ask")
+					.setValue(rule.action)
+					.onChange(async (value) => {
+						rule.action = value as PermissionRuleAction;
+						await this.plugin.saveSettings();
+					}),
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(() => void move(-1));
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("arrow-down")
+					.setTooltip("Move down")
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => void move(1));
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this rule")
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Tool kind")
+			.setDesc("Kind of operation the agent requests.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "Any");
+				for (const kind of PERMISSION_RULE_KINDS) {
+					dropdown.addOption(kind, kind);
+				}
+				dropdown.setValue(rule.kind).onChange(async (value) => {
+					rule.kind = value as PermissionRule["kind"];
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(blockEl)
+			.setName("Title pattern")
+			.setDesc(
+				"Match the tool call title, ignoring case. Use * as a wildcard and \\* for a literal *.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Read *")
+					.setValue(rule.titlePattern)
+					.onChange(async (value) => {
+						rule.titlePattern = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Location")
+			.setDesc(
+				"Folder relative to the working directory that all affected files must be in. Enter a single dot for the working directory itself.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Drafts")
+					.setValue(rule.location)
+					.onChange(async (value) => {
+						rule.location = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Agent")
+			.setDesc("Only apply the rule to this agent.")
+			.addDropdown((dropdown) => {
+				const options = this.getAgentOptions();
+				dropdown.addOption("", "Any");
+				for (const option of options) {
+					dropdown.addOption(option.id, option.label);
+				}
+				// Keep rules for agents that were removed or renamed
+				if (
+					rule.agentId &&
+					!options.some((option) => option.id === rule.agentId)
+				) {
+					dropdown.addOption(rule.agentId, rule.agentId);
+				}
+				dropdown.setValue(rule.agentId).onChange(async (value) => {
+					rule.agentId = value;
+					await this.plugin.saveSettings();
+				});
+			});
+	}
+
+	private renderAutomations(containerEl: HTMLElement) {
+		const automations = this.plugin.settings.automations;
+		automations.forEach((automation, index) => {
+			this.renderAutomation(containerEl, automations, automation, index);
+		});
+
+		new Setting(containerEl).addButton((button) => {
+			button.setButtonText("Add automation").onClick(async () => {
+				automations.push(createAutomation());
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+	}
+
+	private renderAutomation(
+		containerEl: HTMLElement,
+		automations: Automation[],
+		automation: Automation,
+		index: number,
+	) {
+		const blockEl = containerEl.createDiv({
+			cls: "agent-client-automation",
+		});
+
+		const headerSetting = new Setting(blockEl)
+			.setName(automation.name)
+			.setDesc(describeAutomation(automation))
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(automation.enabled)
+					.onChange(async (value) => {
+						automation.enabled = value;
+						await this.plugin.saveSettings();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("play")
+					.setTooltip("Run now")
+					.onClick(() => {
+						void this.plugin.automations.runNow(automation);
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this automation")
+					.onClick(async () => {
+						automations.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		const saveAndDescribe = async () => {
+			headerSetting.setDesc(describeAutomation(automation));
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(blockEl).setName("Name").addText((text) => {
+			text.setValue(automation.name).onChange(async (value) => {
+				automation.name = value.trim() || "Automation";
+				headerSetting.setName(automation.name);
+				await this.plugin.saveSettings();
+			});
+		});
+
+		new Setting(blockEl)
+			.setName("Trigger")
+			.setDesc("What starts the automation.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("schedule", "Schedule")
+					.addOption("note_created", "Note created")
+					.addOption("note_modified", "Note modified")
+					.addOption("tag_added", "Tag added to a note")
+					.setValue(automation.trigger)
+					.onChange(async (value) => {
+						automation.trigger = value as AutomationTrigger;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (automation.trigger === "schedule") {
+			new Setting(blockEl)
+				.setName("Time")
+				.setDesc(
+					"Time of day (24-hour). A run missed while Obsidian was closed runs once later that day.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("09:00")
+						.setValue(automation.time)
+						.onChange(async (value) => {
+							if (!isValidTime(value)) return;
+							automation.time = value.trim();
+							await saveAndDescribe();
+						});
+				});
+
+			const daysSetting = new Setting(blockEl).setName("Days");
+			const daysEl = daysSetting.controlEl.createDiv({
+				cls: "agent-client-automation-days",
+			});
+			WEEKDAYS.forEach((label, day) => {
+				const labelEl = daysEl.createEl("label");
+				const checkbox = labelEl.createEl("input", {
+					type: "checkbox",
+				});
+				checkbox.checked = automation.days.includes(day);
+				labelEl.appendText(label);
+				checkbox.addEventListener("change", () => {
+					automation.days = checkbox.checked
+						? [...automation.days, day].sort()
+						: automation.days.filter((d) => d !== day);
+					void saveAndDescribe();
+				});
+			});
+		} else {
+			if (automation.trigger === "tag_added") {
+				new Setting(blockEl)
+					.setName("Tag")
+					.setDesc("Run when a note gets this tag.")
+					.addText((text) => {
+						text.setPlaceholder("Summarize")
+							.setValue(automation.tag)
+							.onChange(async (value) => {
+								automation.tag = value.trim().replace(/^#/, "");
+								await saveAndDescribe();
+							});
+					});
+			}
+
+			new Setting(blockEl)
+				.setName("Folder")
+				.setDesc(
+					"Only notes in this folder trigger the automation. Leave empty for the whole vault. The note is available as {{activeNote}}.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Inbox")
+						.setValue(automation.folder)
+						.onChange(async (value) => {
+							automation.folder = value.trim();
+							await saveAndDescribe();
+						});
+				});
+		}
+
+		new Setting(blockEl)
+			.setName("Prompt")
+			.setDesc(
+				"Placeholders work as in prompt templates, e.g. {{date}} and {{activeNote}}.",
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("Summarize yesterday's daily note")
+					.setValue(automation.prompt)
+					.onChange(async (value) => {
+						automation.prompt = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+				text.inputEl.addClass("agent-client-automation-prompt");
+			});
+
+		new Setting(blockEl)
+			.setName("Prompt template")
+			.setDesc(
+				"Name or path of a prompt template to use instead of the prompt. Leave empty to use the prompt.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Daily summary")
+					.setValue(automation.templatePath)
+					.onChange(async (value) => {
+						automation.templatePath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Agent")
+			.setDesc("Agent that runs the prompt.")
+			.addDropdown((dropdown) => {
+				const options = this.getAgentOptions();
+				dropdown.addOption("", "Template's agent or default agent");
+				for (const option of options) {
+					dropdown.addOption(option.id, option.label);
+				}
+				if (
+					automation.agentId &&
+					!options.some((option) => option.id === automation.agentId)
+				) {
+					dropdown.addOption(automation.agentId, automation.agentId);
+				}
+				dropdown
+					.setValue(automation.agentId)
+					.onChange(async (value) => {
+						automation.agentId = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Result")
+			.setDesc("Where the response goes.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("note", "Append to a note")
+					.addOption("export", "Export as chat")
+					.addOption("none", "Keep in the task panel")
+					.setValue(automation.output)
+					.onChange(async (value) => {
+						automation.output = value as BackgroundTaskOutput;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (automation.output === "note") {
+			new Setting(blockEl)
+				.setName("Target note")
+				.setDesc(
+					"Vault path of the note the response is appended to. Created if missing.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Agent Client/Daily summary.md")
+						.setValue(automation.notePath)
+						.onChange(async (value) => {
+							automation.notePath = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+	}
+
+	/**
+	 * Renders an editable MCP server list. `servers` is mutated in place,
+	 * so it must be the array stored in plugin settings.
+	 */
+	private renderMcpServers(
+		containerEl: HTMLElement,
+		servers: McpServerSettings[],
+	) {
+		servers.forEach((server, index) => {
+			this.renderMcpServer(containerEl, servers, server, index);
+		});
+
+		new Setting(containerEl).addButton((button) => {
+			button.setButtonText("Add MCP server").onClick(async () => {
+				servers.push({
+					name: this.generateMcpServerName(servers),
+					enabled: true,
+					transport: "stdio",
+					command: "",
+					args: [],
+					env: [],
+					url: "",
+					headers: [],
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+	}
+
+	private renderMcpServer(
+		containerEl: HTMLElement,
+		servers: McpServerSettings[],
+		server: McpServerSettings,
+		index: number,
+	) {
+		const blockEl = containerEl.createDiv({
+			cls: "agent-client-mcp-server",
+		});
+
+		new Setting(blockEl)
+			.setName("Name")
+			.setDesc("Unique name the agent uses to refer to this server.")
+			.addText((text) => {
+				text.setPlaceholder("docs")
+					.setValue(server.name)
+					.onChange(async (value) => {
+						const trimmed = value.trim();
+						if (trimmed.length === 0) return;
+						server.name = trimmed;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(server.enabled)
+					.onChange(async (value) => {
+						server.enabled = value;
+						await this.plugin.saveSettings();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this server")
+					.onClick(async () => {
+						servers.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Transport")
+			.setDesc("How the agent connects to the server.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("stdio", "Local command (stdio)")
+					.addOption("http", "HTTP")
+					.addOption("sse", "SSE")
+					.setValue(server.transport)
+					.onChange(async (value) => {
+						server.transport = value as McpServerTransport;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (server.transport === "stdio") {
+			new Setting(blockEl)
+				.setName("Command")
+				.setDesc("Command the agent runs to start the server.")
+				.addText((text) => {
+					text.setPlaceholder("npx")
+						.setValue(server.command)
+						.onChange(async (value) => {
+							server.command = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(blockEl)
+				.setName("Arguments")
+				.setDesc("Enter one argument per line.")
+				.addTextArea((text) => {
+					text.setPlaceholder("-y\n@example/mcp-server")
+						.setValue(this.formatArgs(server.args))
+						.onChange(async (value) => {
+							server.args = this.parseArgs(value);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+
+			new Setting(blockEl)
+				.setName("Environment variables")
+				.setDesc(
+					"Enter KEY=VALUE pairs, one per line. (Stored as plain text)",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("TOKEN=...")
+						.setValue(this.formatEnv(server.env))
+						.onChange(async (value) => {
+							server.env = this.parseEnv(value);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+		} else {
+			new Setting(blockEl)
+				.setName("URL")
+				.setDesc("Server endpoint.")
+				.addText((text) => {
+					text.setPlaceholder("http://localhost:3000/mcp")
+						.setValue(server.url)
+						.onChange(async (value) => {
+							server.url = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(blockEl)
+				.setName("Headers")
+				.setDesc(
+					"Enter Name=value pairs, one per line. (Stored as plain text)",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("Authorization=Bearer ...")
+						.setValue(this.formatEnv(server.headers))
+						.onChange(async (value) => {
+							server.headers = this.parseEnv(value);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+		}
+	}
+
+	private generateMcpServerName(servers: McpServerSettings[]): string {
+		const base = "mcp-server";
+		const existing = new Set(servers.map((item) => item.name));
+		if (!existing.has(base)) {
+			return base;
+		}
+		let counter = 2;
+		let candidate = `${base}-${counter}`;
+		while (existing.has(candidate)) {
+			counter += 1;
+			candidate = `${base}-${counter}`;
+		}
+		return candidate;
 	}
 
 	private generateCustomAgentDisplayName(): string {
@@ -1,7 +1,7 @@
 import * as React from "react";
 const { useRef, useEffect } = React;
 import type { NoteMetadata } from "../services/vault-service";
-import type { SlashCommand } from "../types/session";
+import type { CommandSuggestion } from "../hooks/useSuggestions";
 
 /**
  * Dropdown type for suggestion display.
@@ -18,14 +18,14 @@ interface SuggestionPopupProps {
 	/** Type of dropdown to display */
 	type: DropdownType;
 
-	/** Items to display (NoteMetadata for mentions, SlashCommand for commands) */
-	items: NoteMetadata[] | SlashCommand[];
+	/** Items to display (NoteMetadata for mentions, CommandSuggestion for commands) */
+	items: NoteMetadata[] | CommandSuggestion[];
 
 	/** Currently selected item index */
 	selectedIndex: number;
 
 	/** Callback when an item is selected */
-	onSelect: (item: NoteMetadata | SlashCommand) => void;
+	onSelect: (item: NoteMetadata | CommandSuggestion) => void;
 
 	/** Callback to close the dropdown */
 	onClose: () => void;
@@ -36,7 +36,7 @@ interface SuggestionPopupProps {
  *
  * Displays either:
  * - Note mentions (@[[note]])
- * - Slash commands (/command)
+ * - Slash commands (/command) and prompt templates
  *
  * Handles keyboard navigation, mouse selection, and outside click detection.
  */
@@ -83,7 +83,10 @@ export function SuggestionPopup({
 	/**
 	 * Render a single dropdown item based on type.
 	 */
-	const renderItem = (item: NoteMetadata | SlashCommand, index: number) => {
+	const renderItem = (
+		item: NoteMetadata | CommandSuggestion,
+		index: number,
+	) => {
 		const isSelected = index === selectedIndex;
 		const hasBorder = index < items.length - 1;
 
@@ -108,23 +111,41 @@ export function SuggestionPopup({
 			);
 		} else {
 			// type === "slash-command"
-			const command = item as SlashCommand;
+			const suggestion = item as CommandSuggestion;
 			return (
 				<div
 					key={`command-${index}`}
 					className={`agent-client-mention-dropdown-item ${isSelected ? "agent-client-selected" : ""} ${hasBorder ? "agent-client-has-border" : ""}`}
-					onClick={() => onSelect(command)}
+					onClick={() => onSelect(suggestion)}
 					onMouseEnter={() => {
 						// Could update selected index on hover
 					}}
 				>
-					<div className="agent-client-mention-dropdown-item-name">
-						/{command.name}
-					</div>
-					<div className="agent-client-mention-dropdown-item-path">
-						{command.description}
-						{command.hint && ` (${command.hint})`}
-					</div>
+					{suggestion.type === "template" ? (
+						<>
+							<div className="agent-client-mention-dropdown-item-name">
+								/{suggestion.template.commandName}
+								<span className="agent-client-template-badge">
+									Template
+								</span>
+							</div>
+							<div className="agent-client-mention-dropdown-item-path">
+								{suggestion.template.description ||
+									suggestion.template.path}
+							</div>
+						</>
+					) : (
+						<>
+							<div className="agent-client-mention-dropdown-item-name">
+								/{suggestion.command.name}
+							</div>
+							<div className="agent-client-mention-dropdown-item-path">
+								{suggestion.command.description}
+								{suggestion.command.hint &&
+									` (${suggestion.command.hint})`}
+							</div>
+						</>
+					)}
 				</div>
 			);
 		}
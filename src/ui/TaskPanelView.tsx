@@ -0,0 +1,229 @@
+/**
+ * Task Panel View
+ *
+ * Contains the Obsidian ItemView wrapper and the React content component
+ * for following background tasks: status, progress, usage and results.
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+import { createRoot, Root } from "react-dom/client";
+import type AgentClientPlugin from "../plugin";
+import type { BackgroundTask, BackgroundTaskStatus } from "../types/task";
+import { useTaskQueue } from "../hooks/useTaskQueue";
+import { HeaderButton } from "./shared/IconButton";
+
+export const VIEW_TYPE_TASKS = "agent-client-task-panel-view";
+
+const STATUS_LABELS: Record<BackgroundTaskStatus, string> = {
+	queued: "Queued",
+	running: "Running",
+	completed: "Completed",
+	failed: "Failed",
+	cancelled: "Cancelled",
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Format token count for display (e.g., 21367 → "21.4K", 200000 → "200K") */
+function formatTokenCount(tokens: number): string {
+	if (tokens < 1000) return String(tokens);
+	const k = tokens / 1000;
+	return k >= 100 ? `${Math.round(k)}K` : `${k.toFixed(1)}K`;
+}
+
+/** Progress line: tool calls, usage and cost */
+function formatProgress(task: BackgroundTask): string {
+	const parts = [
+		`${task.toolCallCount} tool call${task.toolCallCount === 1 ? "" : "s"}`,
+	];
+	if (task.usage) {
+		parts.push(
+			`${formatTokenCount(task.usage.used)} / ${formatTokenCount(task.usage.size)} tokens`,
+		);
+		if (task.usage.cost) {
+			parts.push(`$${task.usage.cost.amount.toFixed(2)}`);
+		}
+	}
+	return parts.join(" · ");
+}
+
+// ============================================================
+// TaskPanelContent (internal)
+// ============================================================
+
+interface TaskPanelContentProps {
+	plugin: AgentClientPlugin;
+}
+
+/**
+ * Task list with actions per task.
+ */
+function TaskPanelContent({ plugin }: TaskPanelContentProps) {
+	const tasks = useTaskQueue(plugin);
+	const hasFinished = tasks.some(
+		(task) => task.status !== "queued" && task.status !== "running",
+	);
+
+	return (
+		<div className="agent-client-task-panel">
+			<div className="agent-client-task-panel-header">
+				<span className="agent-client-task-panel-title">
+					Background tasks
+				</span>
+				<HeaderButton
+					iconName="plus"
+					tooltip="New background task"
+					onClick={() => plugin.openNewTaskModal()}
+				/>
+				{hasFinished && (
+					<HeaderButton
+						iconName="list-x"
+						tooltip="Clear finished tasks"
+						onClick={() => plugin.taskQueue.clearFinished()}
+					/>
+				)}
+			</div>
+			{tasks.length === 0 ? (
+				<div className="agent-client-task-panel-empty">
+					No background tasks. Queue one with the + button or the
+					&quot;New background task&quot; command.
+				</div>
+			) : (
+				<div className="agent-client-task-list">
+					{[...tasks].reverse().map((task) => (
+						<TaskItem key={task.id} plugin={plugin} task={task} />
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function TaskItem({
+	plugin,
+	task,
+}: {
+	plugin: AgentClientPlugin;
+	task: BackgroundTask;
+}) {
+	const isActive = task.status === "queued" || task.status === "running";
+	const resultPath = task.resultPath;
+
+	return (
+		<div
+			className={`agent-client-task-item agent-client-task-${task.status}`}
+		>
+			<div className="agent-client-task-item-header">
+				<span className="agent-client-task-status">
+					{STATUS_LABELS[task.status]}
+				</span>
+				<span className="agent-client-task-agent">
+					{task.agentDisplayName}
+				</span>
+				{isActive ? (
+					<button
+						className="agent-client-task-action"
+						onClick={() => plugin.taskQueue.cancel(task.id)}
+					>
+						Cancel
+					</button>
+				) : (
+					<button
+						className="agent-client-task-action"
+						onClick={() => plugin.taskQueue.remove(task.id)}
+					>
+						Remove
+					</button>
+				)}
+			</div>
+			{task.label && (
+				<div className="agent-client-task-label">{task.label}</div>
+			)}
+			<div className="agent-client-task-prompt" title={task.prompt}>
+				{task.prompt}
+			</div>
+			{task.status !== "queued" && (
+				<div className="agent-client-task-progress">
+					{formatProgress(task)}
+				</div>
+			)}
+			{task.activity && (
+				<div className="agent-client-task-activity">
+					{task.activity}
+				</div>
+			)}
+			{task.error && (
+				<div className="agent-client-task-error">{task.error}</div>
+			)}
+			{resultPath && (
+				<a
+					className="agent-client-task-result-link"
+					onClick={() =>
+						void plugin.app.workspace.openLinkText(resultPath, "")
+					}
+				>
+					{resultPath}
+				</a>
+			)}
+			{task.status === "completed" && !resultPath && task.resultText && (
+				<div className="agent-client-task-result">
+					{task.resultText}
+				</div>
+			)}
+		</div>
+	);
+}
+
+// ============================================================
+// TaskPanelView (exported)
+// ============================================================
+
+/**
+ * Sidebar view listing background tasks.
+ *
+ * Thin Obsidian ItemView wrapper around the TaskPanelContent React component.
+ */
+export class TaskPanelView extends ItemView {
+	private root: Root | null = null;
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private plugin: AgentClientPlugin,
+	) {
+		super(leaf);
+	}
+
+	getViewType() {
+		return VIEW_TYPE_TASKS;
+	}
+
+	getDisplayText() {
+		return "Background tasks";
+	}
+
+	getIcon() {
+		return "list-checks";
+	}
+
+	onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+
+		this.root = createRoot(container);
+		this.root.render(
+			React.createElement(TaskPanelContent, { plugin: this.plugin }),
+		);
+		return Promise.resolve();
+	}
+
+	onClose() {
+		if (this.root) {
+			this.root.unmount();
+			this.root = null;
+		}
+		return Promise.resolve();
+	}
+}
@@ -0,0 +1,82 @@
+/**
+ * Modal asking for the value of a prompt template's {{input:Label}}
+ * placeholder.
+ *
+ * Enter submits, Shift+Enter adds a line break.
+ * Calls onDone with the value, or with null when the modal is dismissed.
+ */
+
+import { Modal, App } from "obsidian";
+
+export class TemplateInputModal extends Modal {
+	private label: string;
+	private onDone: (value: string | null) => void;
+	private submitted = false;
+
+	constructor(
+		app: App,
+		label: string,
+		onDone: (value: string | null) => void,
+	) {
+		super(app);
+		this.label = label;
+		this.onDone = onDone;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: this.label });
+
+		const inputEl = contentEl.createEl("textarea", {
+			cls: "agent-client-template-input",
+		});
+		inputEl.rows = 3;
+
+		window.setTimeout(() => {
+			inputEl.focus();
+		}, 10);
+
+		inputEl.addEventListener("keydown", (e) => {
+			if (e.key === "Enter" && !e.shiftKey && !e.isComposing) {
+				e.preventDefault();
+				this.submit(inputEl.value);
+			}
+		});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({
+			cls: "agent-client-template-input-buttons",
+		});
+
+		buttonContainer
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => {
+				this.close();
+			});
+
+		buttonContainer
+			.createEl("button", {
+				text: "Continue",
+				cls: "mod-cta",
+			})
+			.addEventListener("click", () => {
+				this.submit(inputEl.value);
+			});
+	}
+
+	private submit(value: string) {
+		this.submitted = true;
+		this.close();
+		this.onDone(value);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onDone(null);
+		}
+	}
+}
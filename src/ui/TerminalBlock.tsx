@@ -1,10 +1,30 @@
 import * as React from "react";
-const { useState, useRef, useEffect } = React;
+const { useState, useRef, useEffect, useMemo, useCallback } = React;
+import { Notice, setIcon } from "obsidian";
 import type { AcpClient } from "../acp/acp-client";
 import { getLogger } from "../utils/logger";
+import {
+	ansiColorToCss,
+	renderAnsi,
+	type AnsiSpan,
+	type AnsiStyle,
+} from "../utils/ansi";
+
+/** Distance from the bottom (px) within which new output keeps scrolling */
+const FOLLOW_THRESHOLD = 24;
+
+/**
+ * Terminal operations used by the block: the AcpClient for agent
+ * terminals, or the terminal panel's own TerminalManager.
+ */
+export type TerminalBlockClient = Pick<
+	AcpClient,
+	"getTerminalOutput" | "writeTerminalInput" | "killTerminal"
+>;
+
 interface TerminalBlockProps {
 	terminalId: string;
-	terminalClient: AcpClient | null;
+	terminalClient: TerminalBlockClient | null;
 }
 
 export const TerminalBlock = React.memo(function TerminalBlock({
@@ -13,12 +33,17 @@ export const TerminalBlock = React.memo(function TerminalBlock({
 }: TerminalBlockProps) {
 	const logger = getLogger();
 	const [output, setOutput] = useState("");
+	const [truncated, setTruncated] = useState(false);
 	const [exitStatus, setExitStatus] = useState<{
 		exitCode: number | null;
 		signal: string | null;
 	} | null>(null);
 	const [isRunning, setIsRunning] = useState(true);
+	const [showInput, setShowInput] = useState(false);
+	const [inputValue, setInputValue] = useState("");
 	const intervalRef = useRef<number | null>(null);
+	const outputRef = useRef<HTMLDivElement>(null);
+	const followRef = useRef(true);
 
 	logger.log(
 		`[TerminalBlock] Component rendered for terminal ${terminalId}, terminalClient: ${!!terminalClient}`,
@@ -39,6 +64,7 @@ export const TerminalBlock = React.memo(function TerminalBlock({
 					result,
 				);
 				setOutput(result.output);
+				setTruncated(result.truncated);
 				if (result.exitStatus) {
 					setExitStatus({
 						exitCode: result.exitStatus.exitCode ?? null,
@@ -90,9 +116,103 @@ export const TerminalBlock = React.memo(function TerminalBlock({
 		}
 	}, [isRunning]);
 
+	// Replay escape sequences only when the output changed
+	const lines = useMemo(() => renderAnsi(output), [output]);
+
+	// Keep showing the latest output unless the user scrolled up
+	useEffect(() => {
+		const el = outputRef.current;
+		if (el && followRef.current) {
+			el.scrollTop = el.scrollHeight;
+		}
+	}, [lines]);
+
+	const handleScroll = useCallback(() => {
+		const el = outputRef.current;
+		if (!el) return;
+		followRef.current =
+			el.scrollHeight - el.scrollTop - el.clientHeight < FOLLOW_THRESHOLD;
+	}, []);
+
+	const handleSendInput = useCallback(() => {
+		if (!terminalClient) return;
+		if (!terminalClient.writeTerminalInput(terminalId, `${inputValue}\n`)) {
+			new Notice("[Agent Client] The command no longer accepts input");
+			return;
+		}
+		setInputValue("");
+	}, [terminalClient, terminalId, inputValue]);
+
+	const handleKill = useCallback(() => {
+		terminalClient?.killTerminal(terminalId);
+	}, [terminalClient, terminalId]);
+
+	const canInteract = isRunning && !!terminalClient;
+
 	return (
 		<div className="agent-client-terminal-renderer">
-			{output || (isRunning ? "Waiting for output..." : "No output")}
+			{canInteract && (
+				<div className="agent-client-terminal-renderer-actions">
+					<button
+						className={`clickable-icon agent-client-terminal-renderer-button${showInput ? " is-active" : ""}`}
+						onClick={() => setShowInput((value) => !value)}
+						aria-label="Send input"
+						ref={(el) => {
+							if (el) setIcon(el, "keyboard");
+						}}
+					/>
+					<button
+						className="clickable-icon agent-client-terminal-renderer-button"
+						onClick={handleKill}
+						aria-label="Stop command"
+						ref={(el) => {
+							if (el) setIcon(el, "square");
+						}}
+					/>
+				</div>
+			)}
+
+			{truncated && (
+				<div className="agent-client-terminal-renderer-truncated">
+					Earlier output was removed
+				</div>
+			)}
+
+			<div
+				ref={outputRef}
+				className="agent-client-terminal-renderer-output"
+				onScroll={handleScroll}
+			>
+				{output
+					? lines.map((line, index) => (
+							<React.Fragment key={index}>
+								{index > 0 && "\n"}
+								{line.map((span, spanIndex) => (
+									<AnsiSpanView key={spanIndex} span={span} />
+								))}
+							</React.Fragment>
+						))
+					: isRunning
+						? "Waiting for output..."
+						: "No output"}
+			</div>
+
+			{canInteract && showInput && (
+				<input
+					type="text"
+					className="agent-client-terminal-renderer-input"
+					placeholder="Input for the command (Enter to send)"
+					value={inputValue}
+					onChange={(e) => setInputValue(e.target.value)}
+					onKeyDown={(e) => {
+						if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+							e.preventDefault();
+							handleSendInput();
+						}
+					}}
+					autoFocus
+				/>
+			)}
 
 			{exitStatus && (
 				<div
@@ -105,3 +225,42 @@ export const TerminalBlock = React.memo(function TerminalBlock({
 		</div>
 	);
 });
+
+/**
+ * Text with ANSI colors and attributes.
+ */
+function AnsiSpanView({ span }: { span: AnsiSpan }) {
+	const { style } = span;
+	const fg = style.inverse ? style.bg : style.fg;
+	const bg = style.inverse ? style.fg : style.bg;
+	const className = getAttributeClassName(style);
+
+	if (!className && fg === null && bg === null && !style.inverse) {
+		return <>{span.text}</>;
+	}
+
+	// Inverse text without colors swaps the default colors
+	const defaultColor = style.inverse
+		? "var(--background-secondary)"
+		: undefined;
+	const defaultBackground = style.inverse ? "var(--text-normal)" : undefined;
+	const color = fg !== null ? ansiColorToCss(fg) : defaultColor;
+	const backgroundColor =
+		bg !== null ? ansiColorToCss(bg) : defaultBackground;
+
+	return (
+		<span className={className} style={{ color, backgroundColor }}>
+			{span.text}
+		</span>
+	);
+}
+
+function getAttributeClassName(style: AnsiStyle): string {
+	const classes: string[] = [];
+	if (style.bold) classes.push("agent-client-ansi-bold");
+	if (style.dim) classes.push("agent-client-ansi-dim");
+	if (style.italic) classes.push("agent-client-ansi-italic");
+	if (style.underline) classes.push("agent-client-ansi-underline");
+	if (style.strikethrough) classes.push("agent-client-ansi-strikethrough");
+	return classes.join(" ");
+}
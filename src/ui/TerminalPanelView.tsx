@@ -0,0 +1,272 @@
+/**
+ * Terminal Panel View
+ *
+ * Contains the Obsidian ItemView wrapper and the React content component
+ * for running commands by hand in the environment agents use: the same
+ * login shell, WSL wrapping, Node.js directory and environment scrubbing.
+ */
+
+import { FileSystemAdapter, ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+const { useState, useMemo, useCallback } = React;
+import { createRoot, Root } from "react-dom/client";
+import type AgentClientPlugin from "../plugin";
+import { TerminalManager } from "../acp/terminal-handler";
+import { buildTerminalOutputPrompt } from "../services/context-actions";
+import { ansiToPlainText } from "../utils/ansi";
+import { TerminalBlock, type TerminalBlockClient } from "./TerminalBlock";
+import { HeaderButton } from "./shared/IconButton";
+
+export const VIEW_TYPE_TERMINAL = "agent-client-terminal-view";
+
+/** Lines of output attached to the next prompt */
+const ATTACHED_LINE_LIMIT = 200;
+
+/** A command started from the panel */
+interface TerminalRun {
+	terminalId: string;
+	commandLine: string;
+	cwd: string;
+}
+
+// ============================================================
+// TerminalPanelContent (internal)
+// ============================================================
+
+interface TerminalPanelContentProps {
+	plugin: AgentClientPlugin;
+	terminalManager: TerminalManager;
+	defaultCwd: string;
+}
+
+/**
+ * Command runs with their output, and the command line.
+ */
+function TerminalPanelContent({
+	plugin,
+	terminalManager,
+	defaultCwd,
+}: TerminalPanelContentProps) {
+	const [runs, setRuns] = useState<TerminalRun[]>([]);
+	const [cwd, setCwd] = useState(defaultCwd);
+	const [commandLine, setCommandLine] = useState("");
+
+	// Adapter for TerminalBlock (the panel has no AcpClient)
+	const terminalClient: TerminalBlockClient = useMemo(
+		() => ({
+			getTerminalOutput: (terminalId) => {
+				const result = terminalManager.getScrollback(terminalId);
+				if (!result) {
+					return Promise.reject(
+						new Error(`Terminal ${terminalId} not found`),
+					);
+				}
+				return Promise.resolve(result);
+			},
+			writeTerminalInput: (terminalId, data) =>
+				terminalManager.writeInput(terminalId, data),
+			killTerminal: (terminalId) =>
+				terminalManager.killTerminal(terminalId),
+		}),
+		[terminalManager],
+	);
+
+	const handleRun = useCallback(() => {
+		const command = commandLine.trim();
+		if (!command) return;
+		const runCwd = cwd.trim() || defaultCwd;
+		try {
+			// No args: the login shell parses the whole line (pipes, &&, ...)
+			const terminalId = terminalManager.createTerminal({
+				command,
+				cwd: runCwd,
+				userTerminal: true,
+			});
+			setRuns((prev) => [
+				...prev,
+				{ terminalId, commandLine: command, cwd: runCwd },
+			]);
+			setCommandLine("");
+		} catch (error) {
+			new Notice(
+				`[Agent Client] ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}, [commandLine, cwd, defaultCwd, terminalManager]);
+
+	const handleAttach = useCallback(
+		(run: TerminalRun) => {
+			const result = terminalManager.getScrollback(run.terminalId);
+			if (!result) return;
+			const prompt = buildTerminalOutputPrompt(
+				{
+					commandLine: run.commandLine,
+					cwd: run.cwd,
+					output: ansiToPlainText(result.output),
+					exitCode: result.exitStatus?.exitCode ?? null,
+					running: !result.exitStatus,
+				},
+				ATTACHED_LINE_LIMIT,
+			);
+			void plugin.openChatWithPrompt(prompt);
+		},
+		[plugin, terminalManager],
+	);
+
+	const handleRemove = useCallback(
+		(run: TerminalRun) => {
+			terminalManager.releaseTerminal(run.terminalId);
+			setRuns((prev) =>
+				prev.filter((r) => r.terminalId !== run.terminalId),
+			);
+		},
+		[terminalManager],
+	);
+
+	const handleClear = useCallback(() => {
+		for (const run of runs) {
+			terminalManager.releaseTerminal(run.terminalId);
+		}
+		setRuns([]);
+	}, [runs, terminalManager]);
+
+	return (
+		<div className="agent-client-terminal-panel">
+			<div className="agent-client-terminal-panel-header">
+				<span className="agent-client-terminal-panel-title">
+					Terminal
+				</span>
+				{runs.length > 0 && (
+					<HeaderButton
+						iconName="list-x"
+						tooltip="Stop and clear all commands"
+						onClick={handleClear}
+					/>
+				)}
+			</div>
+			<input
+				type="text"
+				className="agent-client-terminal-panel-cwd"
+				aria-label="Working directory"
+				title="Working directory"
+				placeholder={defaultCwd}
+				value={cwd}
+				onChange={(e) => setCwd(e.target.value)}
+			/>
+			{runs.length === 0 ? (
+				<div className="agent-client-terminal-panel-empty">
+					Run a command in the same shell and environment the agent
+					uses.
+				</div>
+			) : (
+				<div className="agent-client-terminal-panel-runs">
+					{runs.map((run) => (
+						<div
+							key={run.terminalId}
+							className="agent-client-terminal-panel-run"
+						>
+							<div className="agent-client-terminal-panel-run-header">
+								<span
+									className="agent-client-terminal-panel-run-command"
+									title={run.cwd}
+								>
+									$ {run.commandLine}
+								</span>
+								<HeaderButton
+									iconName="paperclip"
+									tooltip="Attach output to the next prompt"
+									onClick={() => handleAttach(run)}
+								/>
+								<HeaderButton
+									iconName="x"
+									tooltip="Stop and remove"
+									onClick={() => handleRemove(run)}
+								/>
+							</div>
+							<TerminalBlock
+								terminalId={run.terminalId}
+								terminalClient={terminalClient}
+							/>
+						</div>
+					))}
+				</div>
+			)}
+			<input
+				type="text"
+				className="agent-client-terminal-panel-input"
+				placeholder="Command (Enter to run)"
+				value={commandLine}
+				onChange={(e) => setCommandLine(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+						e.preventDefault();
+						handleRun();
+					}
+				}}
+			/>
+		</div>
+	);
+}
+
+// ============================================================
+// TerminalPanelView (exported)
+// ============================================================
+
+/**
+ * Sidebar view for running commands by hand.
+ *
+ * Thin Obsidian ItemView wrapper around the TerminalPanelContent React
+ * component. Owns a TerminalManager; its commands stop when the view closes.
+ */
+export class TerminalPanelView extends ItemView {
+	private root: Root | null = null;
+	private terminalManager: TerminalManager;
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private plugin: AgentClientPlugin,
+	) {
+		super(leaf);
+		this.terminalManager = new TerminalManager(plugin);
+	}
+
+	getViewType() {
+		return VIEW_TYPE_TERMINAL;
+	}
+
+	getDisplayText() {
+		return "Terminal";
+	}
+
+	getIcon() {
+		return "terminal";
+	}
+
+	onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+
+		const adapter = this.app.vault.adapter;
+		this.root = createRoot(container);
+		this.root.render(
+			React.createElement(TerminalPanelContent, {
+				plugin: this.plugin,
+				terminalManager: this.terminalManager,
+				defaultCwd:
+					adapter instanceof FileSystemAdapter
+						? adapter.getBasePath()
+						: process.cwd(),
+			}),
+		);
+		return Promise.resolve();
+	}
+
+	onClose() {
+		if (this.root) {
+			this.root.unmount();
+			this.root = null;
+		}
+		this.terminalManager.killAllTerminals();
+		return Promise.resolve();
+	}
+}
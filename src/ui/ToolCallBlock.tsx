@@ -1,15 +1,20 @@
 import * as React from "react";
 const { useState, useMemo } = React;
 import { FileSystemAdapter } from "obsidian";
-import type { MessageContent } from "../types/chat";
+import type { EmbeddedContentBlock, MessageContent } from "../types/chat";
+import type { PermissionRuleScope } from "../types/permission";
 import type { AcpClient } from "../acp/acp-client";
 import type AgentClientPlugin from "../plugin";
 import { TerminalBlock } from "./TerminalBlock";
 import { PermissionBanner } from "./PermissionBanner";
 import { LucideIcon } from "./shared/IconButton";
-import { toRelativePath } from "../utils/paths";
+import { isSafeLinkUri, toRelativePath } from "../utils/paths";
+import {
+	createRuleFromToolCall,
+	describePermissionRule,
+} from "../services/permission-rules";
 import * as Diff from "diff";
-// import { MarkdownRenderer } from "./shared/MarkdownRenderer";
+import { MarkdownRenderer } from "./shared/MarkdownRenderer";
 
 interface ToolCallBlockProps {
 	content: Extract<MessageContent, { type: "tool_call" }>;
@@ -59,6 +64,31 @@ export const ToolCallBlock = React.memo(function ToolCallBlock({
 		return "";
 	}, [plugin]);
 
+	// Rule offered after an "always allow" option (built on demand so the
+	// rule ID is fresh for every save)
+	const buildRule = () =>
+		createRuleFromToolCall({
+			kind,
+			title,
+			locations,
+			agentId: terminalClient?.getCurrentAgentId() ?? null,
+		});
+
+	const offeredRule = buildRule();
+
+	const handleSaveRule = async (scope: PermissionRuleScope) => {
+		const rule = buildRule();
+		if (!rule) return;
+		if (scope === "session") {
+			terminalClient?.addSessionPermissionRule(rule);
+			return;
+		}
+		await plugin.saveSettingsAndNotify({
+			...plugin.settings,
+			permissionRules: [...plugin.settings.permissionRules, rule],
+		});
+	};
+
 	// Get showEmojis setting
 	const showEmojis = plugin.settings.displaySettings.showEmojis;
 
@@ -136,7 +166,7 @@ export const ToolCallBlock = React.memo(function ToolCallBlock({
 				)}
 			</div>
 
-			{/* Tool call content (diffs, terminal output, etc.) */}
+			{/* Tool call content (diffs, terminal output, content blocks) */}
 			{toolContent &&
 				toolContent.map((item, index) => {
 					if (item.type === "terminal") {
@@ -165,6 +195,15 @@ export const ToolCallBlock = React.memo(function ToolCallBlock({
 							/>
 						);
 					}
+					if (item.type === "content") {
+						return (
+							<EmbeddedContentRenderer
+								key={index}
+								block={item.content}
+								plugin={plugin}
+							/>
+						);
+					}
 					return null;
 				})}
 
@@ -177,12 +216,118 @@ export const ToolCallBlock = React.memo(function ToolCallBlock({
 					}}
 					onApprovePermission={onApprovePermission}
 					onOptionSelected={setSelectedOptionId}
+					ruleDescription={
+						offeredRule
+							? describePermissionRule(offeredRule)
+							: undefined
+					}
+					onSaveRule={
+						terminalClient && offeredRule
+							? (scope) => void handleSaveRule(scope)
+							: undefined
+					}
 				/>
 			)}
 		</div>
 	);
 });
 
+// ============================================================
+// Embedded content renderer component
+// ============================================================
+interface EmbeddedContentRendererProps {
+	block: EmbeddedContentBlock;
+	plugin: AgentClientPlugin;
+}
+
+/**
+ * Renders a regular content block returned by a tool call
+ * (text as markdown, images, audio, resource links and resources).
+ */
+function EmbeddedContentRenderer({
+	block,
+	plugin,
+}: EmbeddedContentRendererProps) {
+	switch (block.type) {
+		case "text":
+			return (
+				<div className="agent-client-tool-call-content agent-client-tool-call-content-text">
+					<MarkdownRenderer text={block.text} plugin={plugin} />
+				</div>
+			);
+
+		case "image":
+			return (
+				<div className="agent-client-tool-call-content">
+					<img
+						src={`data:${block.mimeType};base64,${block.data}`}
+						alt="Tool output image"
+						className="agent-client-tool-call-content-image"
+					/>
+				</div>
+			);
+
+		case "audio":
+			return (
+				<div className="agent-client-tool-call-content">
+					<audio
+						controls
+						src={`data:${block.mimeType};base64,${block.data}`}
+						className="agent-client-tool-call-content-audio"
+					/>
+				</div>
+			);
+
+		case "resource_link":
+			return (
+				<div className="agent-client-tool-call-content agent-client-tool-call-content-resource">
+					<LucideIcon
+						name="link"
+						className="agent-client-tool-call-content-resource-icon"
+					/>
+					{isSafeLinkUri(block.uri) ? (
+						<a href={block.uri} title={block.uri}>
+							{block.title || block.name}
+						</a>
+					) : (
+						<span title={block.uri}>
+							{block.title || block.name}
+						</span>
+					)}
+				</div>
+			);
+
+		case "resource":
+			if (block.blob && block.mimeType?.startsWith("image/")) {
+				return (
+					<div className="agent-client-tool-call-content">
+						<img
+							src={`data:${block.mimeType};base64,${block.blob}`}
+							alt={block.uri}
+							className="agent-client-tool-call-content-image"
+						/>
+					</div>
+				);
+			}
+			return (
+				<div className="agent-client-tool-call-content">
+					<div className="agent-client-tool-call-content-resource">
+						<LucideIcon
+							name="file-text"
+							className="agent-client-tool-call-content-resource-icon"
+						/>
+						<span title={block.uri}>{block.uri}</span>
+					</div>
+					{block.text !== undefined && (
+						<pre className="agent-client-tool-call-content-pre">
+							{block.text}
+						</pre>
+					)}
+				</div>
+			);
+	}
+}
+
 // ============================================================
 // Diff renderer component
 // ============================================================
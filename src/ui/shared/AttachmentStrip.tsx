@@ -10,7 +10,7 @@ interface AttachmentStripProps {
 /**
  * Horizontal strip of attachment previews with remove buttons.
  * - Images: show thumbnail
- * - Files: show file icon with filename
+ * - Audio and files: show file icon with filename
  */
 export function AttachmentStrip({ files, onRemove }: AttachmentStripProps) {
 	if (files.length === 0) return null;
@@ -33,7 +33,13 @@ export function AttachmentStrip({ files, onRemove }: AttachmentStripProps) {
 							<span
 								className="agent-client-attachment-preview-file-icon"
 								ref={(el) => {
-									if (el) setIcon(el, "file");
+									if (el)
+										setIcon(
+											el,
+											file.kind === "audio"
+												? "file-audio"
+												: "file",
+										);
 								}}
 							/>
 							<span className="agent-client-attachment-preview-file-name">
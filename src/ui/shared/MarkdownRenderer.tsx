@@ -5,17 +5,33 @@ import {
 	FileSystemAdapter,
 	MarkdownRenderer as ObsidianMarkdownRenderer,
 	Platform,
+	setIcon,
 } from "obsidian";
 import { convertWslPathToWindows } from "../../utils/platform";
 import { isAbsolutePath } from "../../utils/paths";
 import type AgentClientPlugin from "../../plugin";
+import type { AutoMentionContext } from "../../types/chat";
+import {
+	EDITOR_APPLY_ACTIONS,
+	applyToEditorWithNotice,
+	type EditorApplyMode,
+} from "../../services/editor-apply";
 
 interface MarkdownRendererProps {
 	text: string;
 	plugin: AgentClientPlugin;
+	/**
+	 * Note that code block apply actions target (null = most recent editor).
+	 * Actions are only added when defined.
+	 */
+	applyTarget?: AutoMentionContext | null;
 }
 
-export function MarkdownRenderer({ text, plugin }: MarkdownRendererProps) {
+export function MarkdownRenderer({
+	text,
+	plugin,
+	applyTarget,
+}: MarkdownRendererProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 
 	useEffect(() => {
@@ -35,7 +51,20 @@ export function MarkdownRenderer({ text, plugin }: MarkdownRendererProps) {
 			el,
 			"",
 			component,
-		);
+		).then(() => {
+			if (applyTarget === undefined) return;
+			el.querySelectorAll("pre").forEach((pre) => {
+				const code = pre.querySelector("code")?.textContent ?? "";
+				addCodeBlockActions(pre, (mode) =>
+					applyToEditorWithNotice(
+						plugin.app,
+						applyTarget,
+						code.replace(/\n$/, ""),
+						mode,
+					),
+				);
+			});
+		});
 
 		// Handle internal link clicks
 		const vaultBasePath =
@@ -92,7 +121,7 @@ export function MarkdownRenderer({ text, plugin }: MarkdownRendererProps) {
 			el.removeEventListener("click", handleInternalLinkClick);
 			component.unload();
 		};
-	}, [text, plugin]);
+	}, [text, plugin, applyTarget]);
 
 	return (
 		<div
@@ -101,3 +130,24 @@ export function MarkdownRenderer({ text, plugin }: MarkdownRendererProps) {
 		/>
 	);
 }
+
+/**
+ * Add apply-to-editor buttons to a rendered code block.
+ */
+function addCodeBlockActions(
+	pre: HTMLElement,
+	onApply: (mode: EditorApplyMode) => void,
+): void {
+	const actions = pre.createDiv({ cls: "agent-client-code-block-actions" });
+	for (const action of EDITOR_APPLY_ACTIONS) {
+		const button = actions.createEl("button", {
+			cls: "clickable-icon agent-client-code-block-action-button",
+			attr: { "aria-label": action.label },
+		});
+		setIcon(button, action.icon);
+		button.addEventListener("click", (e) => {
+			e.stopPropagation();
+			onApply(action.mode);
+		});
+	}
+}
@@ -0,0 +1,387 @@
+/**
+ * ANSI Terminal Output Rendering
+ *
+ * Replays terminal output on a simple screen model: SGR colors and text
+ * attributes, carriage returns and backspaces (progress bars, spinners),
+ * cursor movement and line/screen erasing. Other escape sequences are
+ * dropped. Lines are not wrapped; the renderer wraps them with CSS.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A terminal color.
+ * - number: Index in the 16-color palette (0-15), themed by the renderer
+ * - string: CSS color (256-color palette entries above 15, or 24-bit)
+ */
+export type AnsiColor = number | string;
+
+export interface AnsiStyle {
+	fg: AnsiColor | null;
+	bg: AnsiColor | null;
+	bold: boolean;
+	dim: boolean;
+	italic: boolean;
+	underline: boolean;
+	strikethrough: boolean;
+	inverse: boolean;
+}
+
+/** Run of text with the same style */
+export interface AnsiSpan {
+	text: string;
+	style: AnsiStyle;
+}
+
+export type AnsiLine = AnsiSpan[];
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_STYLE: AnsiStyle = {
+	fg: null,
+	bg: null,
+	bold: false,
+	dim: false,
+	italic: false,
+	underline: false,
+	strikethrough: false,
+	inverse: false,
+};
+
+/** Rows of the visible screen, for absolute cursor positions (matches the PTY size) */
+const SCREEN_ROWS = 40;
+const TAB_WIDTH = 8;
+
+/**
+ * Theme colors of the 16-color palette. The theme has one shade per hue,
+ * so bright colors only differ for black and white.
+ */
+const PALETTE = [
+	"var(--color-base-50)",
+	"var(--color-red)",
+	"var(--color-green)",
+	"var(--color-yellow)",
+	"var(--color-blue)",
+	"var(--color-purple)",
+	"var(--color-cyan)",
+	"var(--color-base-70)",
+	"var(--text-faint)",
+	"var(--color-red)",
+	"var(--color-green)",
+	"var(--color-yellow)",
+	"var(--color-blue)",
+	"var(--color-purple)",
+	"var(--color-cyan)",
+	"var(--text-normal)",
+];
+
+/** Channel levels of the 6x6x6 color cube of the 256-color palette */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+interface Cell {
+	char: string;
+	style: AnsiStyle;
+}
+
+/**
+ * Render terminal output into styled lines.
+ */
+export function renderAnsi(input: string): AnsiLine[] {
+	const lines: Cell[][] = [[]];
+	let row = 0;
+	let col = 0;
+	let style = DEFAULT_STYLE;
+
+	const screenTop = () => Math.max(0, lines.length - SCREEN_ROWS);
+	const moveTo = (newRow: number, newCol: number) => {
+		row = Math.max(0, newRow);
+		col = Math.max(0, newCol);
+		while (lines.length <= row) lines.push([]);
+	};
+	const put = (char: string) => {
+		const line = lines[row];
+		while (line.length < col) {
+			line.push({ char: " ", style: DEFAULT_STYLE });
+		}
+		line[col] = { char, style };
+		col++;
+	};
+
+	let i = 0;
+	while (i < input.length) {
+		const char = input[i];
+
+		if (char === "\x1b") {
+			const next = input[i + 1];
+			if (next === "[") {
+				// CSI: ESC [ params intermediates final
+				let end = i + 2;
+				while (end < input.length && !/[@-~]/.test(input[end])) end++;
+				if (end >= input.length) break; // Incomplete sequence
+				const params = input.slice(i + 2, end);
+				const final = input[end];
+				i = end + 1;
+
+				if (/^[<=>?]/.test(params)) continue; // Private modes
+				const args = params.split(";").map((p) => parseInt(p, 10));
+				const n = Math.max(1, args[0] || 1);
+				switch (final) {
+					case "m":
+						style = applySgr(style, params);
+						break;
+					case "A":
+						moveTo(row - n, col);
+						break;
+					case "B":
+						moveTo(row + n, col);
+						break;
+					case "C":
+						col += n;
+						break;
+					case "D":
+						col = Math.max(0, col - n);
+						break;
+					case "E":
+						moveTo(row + n, 0);
+						break;
+					case "F":
+						moveTo(row - n, 0);
+						break;
+					case "G":
+						col = n - 1;
+						break;
+					case "H":
+					case "f":
+						moveTo(
+							screenTop() + Math.max(1, args[0] || 1) - 1,
+							Math.max(1, args[1] || 1) - 1,
+						);
+						break;
+					case "J":
+						eraseScreen(lines, row, col, args[0] || 0, screenTop());
+						break;
+					case "K":
+						eraseLine(lines[row], col, args[0] || 0);
+						break;
+				}
+				continue;
+			}
+			if (next === "]") {
+				// OSC (window titles, hyperlinks): ends with BEL or ESC \
+				const bel = input.indexOf("\x07", i + 2);
+				const st = input.indexOf("\x1b\\", i + 2);
+				const ends = [bel, st].filter((index) => index !== -1);
+				if (ends.length === 0) break;
+				const end = Math.min(...ends);
+				i = end + (end === st ? 2 : 1);
+				continue;
+			}
+			// Other escapes; character set selection takes one more character
+			i += next === "(" || next === ")" ? 3 : 2;
+			continue;
+		}
+
+		i++;
+		switch (char) {
+			case "\n":
+				moveTo(row + 1, 0);
+				break;
+			case "\r":
+				col = 0;
+				break;
+			case "\b":
+				col = Math.max(0, col - 1);
+				break;
+			case "\t":
+				col += TAB_WIDTH - (col % TAB_WIDTH);
+				break;
+			default:
+				// Other control characters (bell, etc.) are not shown
+				if (char >= " " && char !== "\x7f") put(char);
+		}
+	}
+
+	// Trailing newline ends the last line rather than starting an empty one
+	if (lines.length > 1 && lines[lines.length - 1].length === 0) {
+		lines.pop();
+	}
+	return lines.map(toSpans);
+}
+
+/**
+ * Terminal output as plain text, as it appears on screen.
+ */
+export function ansiToPlainText(input: string): string {
+	return renderAnsi(input)
+		.map((line) => line.map((span) => span.text).join(""))
+		.join("\n");
+}
+
+/**
+ * CSS color of an AnsiColor. Palette colors use the theme's colors.
+ */
+export function ansiColorToCss(color: AnsiColor): string {
+	if (typeof color === "string") return color;
+	return PALETTE[color];
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+	const codes = params === "" ? [0] : params.split(/[;:]/).map(Number);
+	const next = { ...style };
+	for (let i = 0; i < codes.length; i++) {
+		const code = codes[i];
+		if (code >= 30 && code <= 37) {
+			next.fg = code - 30;
+		} else if (code >= 90 && code <= 97) {
+			next.fg = code - 90 + 8;
+		} else if (code >= 40 && code <= 47) {
+			next.bg = code - 40;
+		} else if (code >= 100 && code <= 107) {
+			next.bg = code - 100 + 8;
+		} else if (code === 38 || code === 48) {
+			// 38;5;n (256 colors) or 38;2;r;g;b (24-bit)
+			let color: AnsiColor | null = null;
+			if (codes[i + 1] === 5) {
+				color = paletteColor(codes[i + 2]);
+				i += 2;
+			} else if (codes[i + 1] === 2) {
+				const [r, g, b] = codes.slice(i + 2, i + 5);
+				color = `rgb(${r}, ${g}, ${b})`;
+				i += 4;
+			}
+			if (code === 38) {
+				next.fg = color;
+			} else {
+				next.bg = color;
+			}
+		} else {
+			applySgrAttribute(next, code);
+		}
+	}
+	return next;
+}
+
+function applySgrAttribute(style: AnsiStyle, code: number): void {
+	switch (code) {
+		case 1:
+			style.bold = true;
+			break;
+		case 2:
+			style.dim = true;
+			break;
+		case 3:
+			style.italic = true;
+			break;
+		case 4:
+			style.underline = true;
+			break;
+		case 7:
+			style.inverse = true;
+			break;
+		case 9:
+			style.strikethrough = true;
+			break;
+		case 22:
+			style.bold = false;
+			style.dim = false;
+			break;
+		case 23:
+			style.italic = false;
+			break;
+		case 24:
+			style.underline = false;
+			break;
+		case 27:
+			style.inverse = false;
+			break;
+		case 29:
+			style.strikethrough = false;
+			break;
+		case 39:
+			style.fg = null;
+			break;
+		case 49:
+			style.bg = null;
+			break;
+		case 0:
+			Object.assign(style, DEFAULT_STYLE);
+			break;
+	}
+}
+
+function paletteColor(index: number): AnsiColor | null {
+	if (!(index >= 0 && index <= 255)) return null;
+	if (index < 16) return index;
+	if (index >= 232) {
+		const level = 8 + (index - 232) * 10;
+		return `rgb(${level}, ${level}, ${level})`;
+	}
+	const cube = index - 16;
+	const r = CUBE_LEVELS[Math.floor(cube / 36)];
+	const g = CUBE_LEVELS[Math.floor(cube / 6) % 6];
+	const b = CUBE_LEVELS[cube % 6];
+	return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Erase part of the screen.
+ * - 0: From the cursor to the end of the screen
+ * - 1: From the start of the screen to the cursor
+ * - 2, 3: Whole screen (scrollback above it is kept)
+ */
+function eraseScreen(
+	lines: Cell[][],
+	row: number,
+	col: number,
+	mode: number,
+	screenTop: number,
+): void {
+	if (mode === 0) {
+		lines[row].length = Math.min(lines[row].length, col);
+		lines.length = row + 1;
+	} else if (mode === 1) {
+		for (let r = screenTop; r < row; r++) lines[r] = [];
+		eraseLine(lines[row], col, 1);
+	} else {
+		for (let r = screenTop; r < lines.length; r++) lines[r] = [];
+	}
+}
+
+/**
+ * Erase part of a line.
+ * - 0: From the cursor to the end of the line
+ * - 1: From the start of the line to the cursor
+ * - 2: Whole line
+ */
+function eraseLine(line: Cell[], col: number, mode: number): void {
+	if (mode === 0) {
+		line.length = Math.min(line.length, col);
+	} else if (mode === 1) {
+		for (let c = 0; c <= col && c < line.length; c++) {
+			line[c] = { char: " ", style: DEFAULT_STYLE };
+		}
+	} else {
+		line.length = 0;
+	}
+}
+
+function toSpans(line: Cell[]): AnsiLine {
+	const spans: AnsiLine = [];
+	for (const cell of line) {
+		const last = spans[spans.length - 1];
+		if (last && last.style === cell.style) {
+			last.text += cell.char;
+		} else {
+			spans.push({ text: cell.char, style: cell.style });
+		}
+	}
+	return spans;
+}
@@ -244,3 +244,45 @@ export function buildFileUri(absolutePath: string): string {
 	// Unix path (e.g., /Users/...)
 	return `file://${normalizedPath}`;
 }
+
+/**
+ * Convert a file:// URI back to an absolute path (inverse of buildFileUri).
+ * Returns null for non-file URIs.
+ *
+ * @example
+ * fileUriToPath("file:///Users/user/note.md") // "/Users/user/note.md"
+ * fileUriToPath("file:///C:/Users/user/note.md") // "C:/Users/user/note.md"
+ */
+export function fileUriToPath(uri: string): string | null {
+	if (!uri.startsWith("file://")) {
+		return null;
+	}
+	let path = uri.slice("file://".length);
+	try {
+		path = decodeURIComponent(path);
+	} catch {
+		// Keep the raw path if it is not valid percent-encoding
+	}
+
+	// Windows path (e.g., /C:/Users/...)
+	if (/^\/[A-Za-z]:/.test(path)) {
+		return path.slice(1);
+	}
+	return path;
+}
+
+/** URI schemes that may be opened from agent-supplied links */
+const SAFE_LINK_SCHEMES = ["http:", "https:", "file:", "obsidian:"];
+
+/**
+ * Check whether an agent-supplied URI may be used as a link.
+ * Anything other than http, https, file and obsidian URIs (e.g.
+ * `javascript:`) should be shown as plain text instead.
+ */
+export function isSafeLinkUri(uri: string): boolean {
+	try {
+		return SAFE_LINK_SCHEMES.includes(new URL(uri).protocol);
+	} catch {
+		return false;
+	}
+}
@@ -324,6 +324,40 @@ function escapePathForShell(path: string): string {
 	return path.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
 }
 
+/** Window size reported to programs run in a pseudo-terminal */
+const PTY_COLUMNS = 120;
+const PTY_ROWS = 40;
+
+/**
+ * Wrap a prepared command to run in a pseudo-terminal using `script`
+ * (macOS and Linux only), so that programs print colors and interactive
+ * prompts as they do in a terminal.
+ *
+ * The window size is set with stty, since `script` copies it from its own
+ * stdin, which is a pipe here.
+ */
+export function wrapCommandInPty(
+	command: string,
+	args: string[],
+): { command: string; args: string[] } {
+	const commandString = [command, ...args].map(escapeShellArgBash).join(" ");
+	const inner = `stty cols ${PTY_COLUMNS} rows ${PTY_ROWS} 2>/dev/null; exec ${commandString}`;
+
+	if (Platform.isMacOS) {
+		// BSD script: script [-q] file command...
+		return {
+			command: "/usr/bin/script",
+			args: ["-q", "/dev/null", "/bin/sh", "-c", inner],
+		};
+	}
+
+	// util-linux script: -f flushes output, -e returns the exit code of the command
+	return {
+		command: "script",
+		args: ["-q", "-f", "-e", "-c", inner, "/dev/null"],
+	};
+}
+
 /**
  * Result of platform-specific command preparation.
  */